@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "post_autosaves" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL DEFAULT '',
+    "content" TEXT NOT NULL DEFAULT '',
+    "excerpt" TEXT,
+    "coverImage" TEXT,
+    "tagIds" TEXT[],
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "postId" TEXT NOT NULL,
+
+    CONSTRAINT "post_autosaves_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "post_autosaves_postId_key" ON "post_autosaves"("postId");
+
+-- AddForeignKey
+ALTER TABLE "post_autosaves" ADD CONSTRAINT "post_autosaves_postId_fkey" FOREIGN KEY ("postId") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
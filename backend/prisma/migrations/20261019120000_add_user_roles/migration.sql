@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "Role" AS ENUM ('OWNER', 'ADMIN', 'EDITOR', 'AUTHOR', 'CONTRIBUTOR', 'SUBSCRIBER');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "role" "Role" NOT NULL DEFAULT 'SUBSCRIBER';
+
+-- Existing admins keep full access and the earliest of them owns the site
+UPDATE "users" SET "role" = 'ADMIN' WHERE "isAdmin" = true;
+UPDATE "users" SET "role" = 'OWNER' WHERE "id" = (
+    SELECT "id" FROM "users" WHERE "isAdmin" = true ORDER BY "createdAt" ASC LIMIT 1
+);
+
+-- AlterTable
+ALTER TABLE "users" DROP COLUMN "isAdmin";
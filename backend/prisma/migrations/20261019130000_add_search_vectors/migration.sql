@@ -0,0 +1,22 @@
+-- Full-text search vectors, kept up to date by Postgres. Titles weigh most,
+-- then excerpts, then the body; HTML tags are stripped so markup never matches.
+
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce("excerpt", '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, regexp_replace(coalesce("content", ''), '<[^>]*>', ' ', 'g')), 'C')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "documentation_pages" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce("excerpt", '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, regexp_replace(coalesce("content", ''), '<[^>]*>', ' ', 'g')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "posts_searchVector_idx" ON "posts" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "documentation_pages_searchVector_idx" ON "documentation_pages" USING GIN ("searchVector");
@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "SlugRedirectType" AS ENUM ('POST', 'TAG', 'DOCUMENTATION_PRODUCT', 'DOCUMENTATION_PAGE');
+
+-- CreateTable
+CREATE TABLE "slug_redirects" (
+    "id" TEXT NOT NULL,
+    "type" "SlugRedirectType" NOT NULL,
+    "scope" TEXT NOT NULL DEFAULT '',
+    "fromSlug" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "manual" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "slug_redirects_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "slug_redirects_type_scope_fromSlug_key" ON "slug_redirects"("type", "scope", "fromSlug");
+
+-- CreateIndex
+CREATE INDEX "slug_redirects_targetId_idx" ON "slug_redirects"("targetId");
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "SubscriberStatus" AS ENUM ('PENDING', 'ACTIVE', 'UNSUBSCRIBED');
+
+-- AlterTable
+ALTER TABLE "newsletter_subscribers"
+ADD COLUMN "status" "SubscriberStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN "confirmationSentAt" TIMESTAMP(3),
+ADD COLUMN "confirmedAt" TIMESTAMP(3);
+
+-- Existing subscribers signed up before confirmation was required
+UPDATE "newsletter_subscribers"
+SET "status" = CASE WHEN "isActive" THEN 'ACTIVE'::"SubscriberStatus" ELSE 'UNSUBSCRIBED'::"SubscriberStatus" END,
+    "confirmedAt" = "subscribedAt";
+
+ALTER TABLE "newsletter_subscribers" DROP COLUMN "isActive";
+
+-- CreateIndex
+CREATE INDEX "newsletter_subscribers_status_subscribedAt_idx" ON "newsletter_subscribers"("status", "subscribedAt");
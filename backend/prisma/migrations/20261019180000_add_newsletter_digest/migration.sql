@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "CampaignType" AS ENUM ('STANDARD', 'DIGEST');
+
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN     "type" "CampaignType" NOT NULL DEFAULT 'STANDARD',
+ADD COLUMN     "periodStart" TIMESTAMP(3),
+ADD COLUMN     "periodEnd" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "newsletter_subscribers" ADD COLUMN     "digest" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "campaigns_type_periodEnd_idx" ON "campaigns"("type", "periodEnd");
@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "newsletter_subscribers" ADD COLUMN     "lastEngagedAt" TIMESTAMP(3);
+
+-- Confirming is the only engagement recorded so far
+UPDATE "newsletter_subscribers" SET "lastEngagedAt" = "confirmedAt";
+
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN     "segmentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "subscriber_tags" (
+    "id" TEXT NOT NULL,
+    "subscriberId" TEXT NOT NULL,
+    "tagId" TEXT NOT NULL,
+
+    CONSTRAINT "subscriber_tags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "newsletter_segments" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "rules" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "newsletter_segments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "subscriber_tags_tagId_idx" ON "subscriber_tags"("tagId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subscriber_tags_subscriberId_tagId_key" ON "subscriber_tags"("subscriberId", "tagId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "newsletter_segments_name_key" ON "newsletter_segments"("name");
+
+-- AddForeignKey
+ALTER TABLE "subscriber_tags" ADD CONSTRAINT "subscriber_tags_subscriberId_fkey" FOREIGN KEY ("subscriberId") REFERENCES "newsletter_subscribers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subscriber_tags" ADD CONSTRAINT "subscriber_tags_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "tags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaigns" ADD CONSTRAINT "campaigns_segmentId_fkey" FOREIGN KEY ("segmentId") REFERENCES "newsletter_segments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "CampaignEventType" AS ENUM ('OPEN', 'CLICK', 'UNSUBSCRIBE');
+
+-- AlterTable
+ALTER TABLE "campaign_deliveries" ADD COLUMN     "openedAt" TIMESTAMP(3),
+ADD COLUMN     "clickedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "campaign_events" (
+    "id" TEXT NOT NULL,
+    "type" "CampaignEventType" NOT NULL,
+    "url" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "campaignId" TEXT NOT NULL,
+    "deliveryId" TEXT NOT NULL,
+
+    CONSTRAINT "campaign_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "campaign_deliveries_subscriberId_sentAt_idx" ON "campaign_deliveries"("subscriberId", "sentAt");
+
+-- CreateIndex
+CREATE INDEX "campaign_events_campaignId_type_createdAt_idx" ON "campaign_events"("campaignId", "type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "campaign_events_deliveryId_idx" ON "campaign_events"("deliveryId");
+
+-- AddForeignKey
+ALTER TABLE "campaign_events" ADD CONSTRAINT "campaign_events_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_events" ADD CONSTRAINT "campaign_events_deliveryId_fkey" FOREIGN KEY ("deliveryId") REFERENCES "campaign_deliveries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterEnum
+ALTER TYPE "SubscriberStatus" ADD VALUE 'BOUNCED';
+ALTER TYPE "SubscriberStatus" ADD VALUE 'COMPLAINED';
+
+-- CreateEnum
+CREATE TYPE "SuppressionReason" AS ENUM ('HARD_BOUNCE', 'COMPLAINT');
+
+-- CreateTable
+CREATE TABLE "suppressed_emails" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "reason" "SuppressionReason" NOT NULL,
+    "source" TEXT NOT NULL,
+    "detail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "suppressed_emails_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "suppressed_emails_email_key" ON "suppressed_emails"("email");
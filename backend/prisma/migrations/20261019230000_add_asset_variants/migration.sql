@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "asset_variants" (
+    "id" TEXT NOT NULL,
+    "assetId" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "key" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+
+    CONSTRAINT "asset_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "asset_variants_key_key" ON "asset_variants"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "asset_variants_assetId_format_width_key" ON "asset_variants"("assetId", "format", "width");
+
+-- AddForeignKey
+ALTER TABLE "asset_variants" ADD CONSTRAINT "asset_variants_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "assets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
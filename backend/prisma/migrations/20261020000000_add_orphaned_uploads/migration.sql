@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "orphaned_uploads" (
+    "key" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "orphaned_uploads_pkey" PRIMARY KEY ("key")
+);
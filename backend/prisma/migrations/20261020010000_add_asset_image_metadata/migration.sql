@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "assets" ADD COLUMN     "dominantColor" TEXT,
+ADD COLUMN     "placeholder" TEXT;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "assets" ADD COLUMN     "contentHash" TEXT,
+ADD COLUMN     "referenceCount" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "assets_contentHash_key" ON "assets"("contentHash");
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE UNIQUE INDEX "campaigns_periodEnd_key" ON "campaigns"("periodEnd");
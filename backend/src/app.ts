@@ -7,12 +7,20 @@ import swaggerUi from 'swagger-ui-express';
 import swaggerJsdoc from 'swagger-jsdoc';
 import { config } from './utils/config';
 import { errorHandler } from './middleware/errorHandler';
+import { DISK_STORAGE_ROUTE, serveDiskFiles } from './utils/diskStorage';
 import authRoutes from './routes/auth';
 import postRoutes from './routes/posts';
 import newsletterRoutes from './routes/newsletter';
 import tagsRoutes from './routes/tags';
 import uploadRoutes from './routes/upload';
 import documentationRoutes from './routes/documentation';
+import feedRoutes from './routes/feeds';
+import sitemapRoutes from './routes/sitemap';
+import searchRoutes from './routes/search';
+import commentRoutes from './routes/comments';
+import redirectRoutes from './routes/redirects';
+import campaignRoutes from './routes/campaigns';
+import segmentRoutes from './routes/segments';
 
 const app: Application = express();
 
@@ -25,6 +33,12 @@ app.use(
   })
 );
 
+// Uploads on local disk are served by the API. A page can show many images,
+// so they stay out of the rate limit.
+if (config.STORAGE_DRIVER === 'local') {
+  app.use(DISK_STORAGE_ROUTE, serveDiskFiles());
+}
+
 // Rate limiting
 const limiter = rateLimit({
   windowMs: 30 * 60 * 1000, // 30 minutes
@@ -90,6 +104,16 @@ app.use('/api/newsletter', newsletterRoutes);
 app.use('/api/tags', tagsRoutes);
 app.use('/api/upload', uploadRoutes);
 app.use('/api/documentation', documentationRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/comments', commentRoutes);
+app.use('/api/redirects', redirectRoutes);
+app.use('/api/campaigns', campaignRoutes);
+app.use('/api/segments', segmentRoutes);
+
+// Feeds, sitemaps and robots.txt live at the site root where feed readers
+// and crawlers expect them
+app.use('/', feedRoutes);
+app.use('/', sitemapRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -1,10 +1,12 @@
 import { Request, Response } from 'express';
+import { Role } from '@prisma/client';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import { z } from 'zod';
 import { config } from '../utils/config';
 import { db } from '../db/client';
 import { verifyRecaptcha } from '../utils/recaptcha';
+import { getRolePermissions } from '../utils/permissions';
 
 // Validation schemas
 const registerSchema = z.object({
@@ -25,6 +27,10 @@ const loginSchema = z.object({
   recaptchaToken: z.string().optional(),
 });
 
+const updateRoleSchema = z.object({
+  role: z.nativeEnum(Role),
+});
+
 const updateProfileSchema = z.object({
   avatar: z.string().url('Invalid avatar URL').optional().or(z.literal('')),
   bio: z
@@ -48,6 +54,13 @@ const excludePassword = <T extends { password: string }>(
   return userWithoutPassword;
 };
 
+// Helper function to expose what a user's role allows them to do
+const withPermissions = <T extends { role: Role }>(
+  user: T
+): T & { permissions: string[] } => {
+  return { ...user, permissions: getRolePermissions(user.role) };
+};
+
 export const register = async (req: Request, res: Response): Promise<void> => {
   try {
     const validatedData = registerSchema.parse(req.body);
@@ -91,7 +104,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Check if this is the first user (should be admin)
+    // Check if this is the first user (should own the site)
     const userCount = await db.user.count();
     const isFirstUser = userCount === 0;
 
@@ -110,7 +123,8 @@ export const register = async (req: Request, res: Response): Promise<void> => {
         password: hashedPassword,
         firstName: validatedData.firstName,
         lastName: validatedData.lastName,
-        isAdmin: isFirstUser, // First user becomes admin
+        // First user becomes owner
+        role: isFirstUser ? Role.OWNER : Role.SUBSCRIBER,
       },
     });
 
@@ -118,7 +132,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
     const token = generateToken(user.id, user.email);
 
     // Return user data without password
-    const userResponse = excludePassword(user);
+    const userResponse = withPermissions(excludePassword(user));
 
     res.status(201).json({
       success: true,
@@ -195,7 +209,7 @@ export const login = async (req: Request, res: Response): Promise<void> => {
     const token = generateToken(user.id, user.email);
 
     // Return user data without password
-    const userResponse = excludePassword(user);
+    const userResponse = withPermissions(excludePassword(user));
 
     res.json({
       success: true,
@@ -238,7 +252,7 @@ export const me = async (req: Request, res: Response): Promise<void> => {
         lastName: true,
         avatar: true,
         bio: true,
-        isAdmin: true,
+        role: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -251,7 +265,7 @@ export const me = async (req: Request, res: Response): Promise<void> => {
 
     res.json({
       success: true,
-      data: { user },
+      data: { user: withPermissions(user) },
     });
   } catch (error) {
     console.error('Me endpoint error:', error);
@@ -295,7 +309,7 @@ export const updateProfile = async (
         lastName: true,
         avatar: true,
         bio: true,
-        isAdmin: true,
+        role: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -303,7 +317,7 @@ export const updateProfile = async (
 
     res.json({
       success: true,
-      data: { user: updatedUser },
+      data: { user: withPermissions(updatedUser) },
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -322,7 +336,7 @@ export const updateProfile = async (
   }
 };
 
-// Admin-only endpoint to get all users
+// Endpoint to get all users (requires users:manage)
 export const getAllUsers = async (
   req: Request,
   res: Response
@@ -333,14 +347,6 @@ export const getAllUsers = async (
       return;
     }
 
-    // Check if user is admin
-    if (!req.user.isAdmin) {
-      res
-        .status(403)
-        .json({ error: 'Access denied. Admin privileges required.' });
-      return;
-    }
-
     const users = await db.user.findMany({
       select: {
         id: true,
@@ -350,7 +356,7 @@ export const getAllUsers = async (
         lastName: true,
         avatar: true,
         bio: true,
-        isAdmin: true,
+        role: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -369,8 +375,8 @@ export const getAllUsers = async (
   }
 };
 
-// Admin-only endpoint to update user admin status
-export const updateUserAdminStatus = async (
+// Endpoint to assign a role to a user (requires users:manage)
+export const updateUserRole = async (
   req: Request,
   res: Response
 ): Promise<void> => {
@@ -380,14 +386,6 @@ export const updateUserAdminStatus = async (
       return;
     }
 
-    // Check if user is admin
-    if (!req.user.isAdmin) {
-      res
-        .status(403)
-        .json({ error: 'Access denied. Admin privileges required.' });
-      return;
-    }
-
     const { userId } = req.params;
 
     if (!userId) {
@@ -395,18 +393,11 @@ export const updateUserAdminStatus = async (
       return;
     }
 
-    const { isAdmin } = req.body;
+    const { role } = updateRoleSchema.parse(req.body);
 
-    if (typeof isAdmin !== 'boolean') {
-      res.status(400).json({ error: 'isAdmin must be a boolean value' });
-      return;
-    }
-
-    // Prevent user from removing their own admin status
-    if (userId === req.user.id && !isAdmin) {
-      res
-        .status(400)
-        .json({ error: 'Cannot remove admin status from yourself' });
+    // Prevent users from locking themselves out by changing their own role
+    if (userId === req.user.id) {
+      res.status(400).json({ error: 'Cannot change your own role' });
       return;
     }
 
@@ -420,10 +411,21 @@ export const updateUserAdminStatus = async (
       return;
     }
 
-    // Update user admin status
+    // Only the owner can hand out ownership or change another owner
+    if (
+      (role === Role.OWNER || targetUser.role === Role.OWNER) &&
+      req.user.role !== Role.OWNER
+    ) {
+      res.status(403).json({
+        error: 'Access denied. Only the owner can manage ownership.',
+      });
+      return;
+    }
+
+    // Update user role
     const updatedUser = await db.user.update({
       where: { id: userId },
-      data: { isAdmin },
+      data: { role },
       select: {
         id: true,
         email: true,
@@ -432,7 +434,7 @@ export const updateUserAdminStatus = async (
         lastName: true,
         avatar: true,
         bio: true,
-        isAdmin: true,
+        role: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -440,10 +442,21 @@ export const updateUserAdminStatus = async (
 
     res.json({
       success: true,
-      data: { user: updatedUser },
+      data: { user: withPermissions(updatedUser) },
     });
   } catch (error) {
-    console.error('Update user admin status error:', error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Update user role error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -0,0 +1,684 @@
+import { Request, Response } from 'express';
+import { CampaignStatus, DeliveryStatus, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '../db/client';
+import { renderCampaignEmail } from '../utils/campaignEmail';
+import {
+  getCampaignRecipientWhere,
+  startCampaignDelivery,
+} from '../utils/campaignQueue';
+import { loadCampaignReport } from '../utils/campaignTracking';
+import { config } from '../utils/config';
+import {
+  buildDigest,
+  countDigestRecipients,
+  getNextDigestRun,
+} from '../utils/digest';
+import { sendMail } from '../utils/mail';
+import { getUnsubscribeLinks } from '../utils/newsletter';
+
+// Validation schemas
+const createCampaignSchema = z.object({
+  subject: z
+    .string()
+    .trim()
+    .min(1, 'Subject is required')
+    .max(200, 'Subject must be less than 200 characters'),
+  content: z.string().min(1, 'Content is required'),
+  segmentId: z.string().nullable().optional(), // Null sends to everyone
+});
+
+const updateCampaignSchema = createCampaignSchema.partial();
+
+const sendCampaignSchema = z.object({
+  scheduledAt: z
+    .string()
+    .nullable()
+    .optional()
+    .refine(
+      (val) => !val || !isNaN(Date.parse(val)),
+      'Please enter a valid send date and time'
+    ),
+});
+
+const testCampaignSchema = z.object({
+  email: z.string().email('Please enter a valid email address').optional(),
+});
+
+const campaignListQuerySchema = z.object({
+  status: z.nativeEnum(CampaignStatus).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const campaignInclude = {
+  createdBy: {
+    select: {
+      id: true,
+      username: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  segment: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.CampaignInclude;
+
+type DeliveryStats = Record<DeliveryStatus, number> & { total: number };
+
+/**
+ * Count each campaign's deliveries by status
+ * @param campaignIds - The campaigns to count
+ * @returns The counts by campaign id; campaigns without deliveries are missing
+ */
+const loadDeliveryStats = async (
+  campaignIds: string[]
+): Promise<Map<string, DeliveryStats>> => {
+  const groups = await db.campaignDelivery.groupBy({
+    by: ['campaignId', 'status'],
+    where: { campaignId: { in: campaignIds } },
+    _count: { _all: true },
+  });
+
+  const stats = new Map<string, DeliveryStats>();
+
+  for (const group of groups) {
+    const entry = stats.get(group.campaignId) ?? {
+      PENDING: 0,
+      SENT: 0,
+      FAILED: 0,
+      total: 0,
+    };
+
+    entry[group.status] = group._count._all;
+    entry.total += group._count._all;
+    stats.set(group.campaignId, entry);
+  }
+
+  return stats;
+};
+
+const emptyStats: DeliveryStats = { PENDING: 0, SENT: 0, FAILED: 0, total: 0 };
+
+const segmentExists = async (segmentId: string): Promise<boolean> => {
+  const segment = await db.segment.findUnique({
+    where: { id: segmentId },
+    select: { id: true },
+  });
+
+  return segment !== null;
+};
+
+export const getCampaigns = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { status, page, limit } = campaignListQuerySchema.parse(req.query);
+
+    const skip = (page - 1) * limit;
+    const where: Prisma.CampaignWhereInput = status ? { status } : {};
+
+    const [campaigns, totalCount] = await Promise.all([
+      db.campaign.findMany({
+        where,
+        include: campaignInclude,
+        orderBy: { updatedAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      db.campaign.count({ where }),
+    ]);
+
+    const stats = await loadDeliveryStats(campaigns.map((c) => c.id));
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+      success: true,
+      data: {
+        campaigns: campaigns.map((campaign) => ({
+          ...campaign,
+          deliveryStats: stats.get(campaign.id) ?? emptyStats,
+        })),
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Get campaigns error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getCampaignById = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Campaign ID is required' });
+      return;
+    }
+
+    const campaign = await db.campaign.findUnique({
+      where: { id },
+      include: campaignInclude,
+    });
+
+    if (!campaign) {
+      res.status(404).json({ error: 'Campaign not found' });
+      return;
+    }
+
+    const stats = await loadDeliveryStats([campaign.id]);
+
+    // Failures are listed so admins can see which addresses need attention
+    const failedDeliveries = await db.campaignDelivery.findMany({
+      where: { campaignId: campaign.id, status: DeliveryStatus.FAILED },
+      select: {
+        id: true,
+        attempts: true,
+        lastError: true,
+        updatedAt: true,
+        subscriber: { select: { email: true } },
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: 50,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        campaign: {
+          ...campaign,
+          deliveryStats: stats.get(campaign.id) ?? emptyStats,
+        },
+        failedDeliveries,
+      },
+    });
+  } catch (error) {
+    console.error('Get campaign error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Open, click and unsubscribe figures for a campaign
+ * GET /api/campaigns/:id/report
+ */
+export const getCampaignReport = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Campaign ID is required' });
+      return;
+    }
+
+    const campaign = await db.campaign.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!campaign) {
+      res.status(404).json({ error: 'Campaign not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { report: await loadCampaignReport(campaign.id) },
+    });
+  } catch (error) {
+    console.error('Get campaign report error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const createCampaign = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const { subject, content, segmentId } = createCampaignSchema.parse(
+      req.body
+    );
+
+    if (segmentId && !(await segmentExists(segmentId))) {
+      res.status(400).json({ error: 'Segment not found' });
+      return;
+    }
+
+    const campaign = await db.campaign.create({
+      data: {
+        subject,
+        content,
+        segmentId,
+        createdById: req.user.id,
+      },
+      include: campaignInclude,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { campaign: { ...campaign, deliveryStats: emptyStats } },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Create campaign error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const updateCampaign = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Campaign ID is required' });
+      return;
+    }
+
+    const data = updateCampaignSchema.parse(req.body);
+
+    const existingCampaign = await db.campaign.findUnique({
+      where: { id },
+    });
+
+    if (!existingCampaign) {
+      res.status(404).json({ error: 'Campaign not found' });
+      return;
+    }
+
+    // Recipients of a campaign that has started must all get the same email
+    if (
+      existingCampaign.status === CampaignStatus.SENDING ||
+      existingCampaign.status === CampaignStatus.SENT
+    ) {
+      res.status(400).json({
+        error: 'Campaigns cannot be edited once sending has started',
+      });
+      return;
+    }
+
+    if (data.segmentId && !(await segmentExists(data.segmentId))) {
+      res.status(400).json({ error: 'Segment not found' });
+      return;
+    }
+
+    const campaign = await db.campaign.update({
+      where: { id },
+      data,
+      include: campaignInclude,
+    });
+
+    res.json({
+      success: true,
+      data: { campaign: { ...campaign, deliveryStats: emptyStats } },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Update campaign error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const deleteCampaign = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Campaign ID is required' });
+      return;
+    }
+
+    const campaign = await db.campaign.findUnique({
+      where: { id },
+    });
+
+    if (!campaign) {
+      res.status(404).json({ error: 'Campaign not found' });
+      return;
+    }
+
+    if (campaign.status === CampaignStatus.SENDING) {
+      res.status(400).json({
+        error: 'Campaigns cannot be deleted while they are sending',
+      });
+      return;
+    }
+
+    await db.campaign.delete({
+      where: { id },
+    });
+
+    res.json({
+      success: true,
+      message: 'Campaign deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete campaign error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const sendCampaign = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Campaign ID is required' });
+      return;
+    }
+
+    const { scheduledAt: scheduledAtInput } = sendCampaignSchema.parse(
+      req.body
+    );
+
+    const existingCampaign = await db.campaign.findUnique({
+      where: { id },
+      include: { segment: { select: { rules: true } } },
+    });
+
+    if (!existingCampaign) {
+      res.status(404).json({ error: 'Campaign not found' });
+      return;
+    }
+
+    if (
+      existingCampaign.status !== CampaignStatus.DRAFT &&
+      existingCampaign.status !== CampaignStatus.SCHEDULED
+    ) {
+      res.status(400).json({ error: 'Campaign has already been sent' });
+      return;
+    }
+
+    // A send time schedules the campaign instead of sending it now
+    const scheduledAt = scheduledAtInput ? new Date(scheduledAtInput) : null;
+
+    if (scheduledAt && scheduledAt.getTime() <= Date.now()) {
+      res.status(400).json({
+        error: 'Scheduled send time must be in the future',
+      });
+      return;
+    }
+
+    if (scheduledAt) {
+      const campaign = await db.campaign.update({
+        where: { id },
+        data: { status: CampaignStatus.SCHEDULED, scheduledAt },
+        include: campaignInclude,
+      });
+
+      res.json({
+        success: true,
+        message: 'Campaign scheduled',
+        data: { campaign: { ...campaign, deliveryStats: emptyStats } },
+      });
+      return;
+    }
+
+    const recipientCount = await db.newsletterSubscriber.count({
+      where: getCampaignRecipientWhere(existingCampaign),
+    });
+
+    if (recipientCount === 0) {
+      res.status(400).json({
+        error: existingCampaign.segment
+          ? 'No confirmed subscribers match this segment'
+          : 'There are no confirmed subscribers',
+      });
+      return;
+    }
+
+    const queued = await startCampaignDelivery(id);
+
+    const campaign = await db.campaign.findUniqueOrThrow({
+      where: { id },
+      include: campaignInclude,
+    });
+    const stats = await loadDeliveryStats([id]);
+
+    res.json({
+      success: true,
+      message: `Sending to ${queued} subscribers`,
+      data: {
+        campaign: {
+          ...campaign,
+          deliveryStats: stats.get(id) ?? emptyStats,
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Send campaign error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const cancelCampaignSchedule = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Campaign ID is required' });
+      return;
+    }
+
+    // Conditional so a campaign the queue has just started is left alone
+    const { count } = await db.campaign.updateMany({
+      where: { id, status: CampaignStatus.SCHEDULED },
+      data: { status: CampaignStatus.DRAFT, scheduledAt: null },
+    });
+
+    if (count === 0) {
+      const exists = await db.campaign.findUnique({ where: { id } });
+
+      if (!exists) {
+        res.status(404).json({ error: 'Campaign not found' });
+        return;
+      }
+
+      res.status(400).json({ error: 'Campaign is not scheduled' });
+      return;
+    }
+
+    const campaign = await db.campaign.findUniqueOrThrow({
+      where: { id },
+      include: campaignInclude,
+    });
+
+    res.json({
+      success: true,
+      message: 'Campaign moved back to drafts',
+      data: { campaign: { ...campaign, deliveryStats: emptyStats } },
+    });
+  } catch (error) {
+    console.error('Cancel campaign error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const sendTestCampaign = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Campaign ID is required' });
+      return;
+    }
+
+    const { email } = testCampaignSchema.parse(req.body);
+
+    const campaign = await db.campaign.findUnique({
+      where: { id },
+    });
+
+    if (!campaign) {
+      res.status(404).json({ error: 'Campaign not found' });
+      return;
+    }
+
+    // Test sends go out straight away and are not recorded as deliveries
+    const to = email ?? req.user.email;
+
+    // A subscribed recipient gets their real unsubscribe links, so the
+    // footer and headers can be checked end to end
+    const subscriber = await db.newsletterSubscriber.findUnique({
+      where: { email: to },
+    });
+    const links = subscriber ? getUnsubscribeLinks(subscriber.id) : undefined;
+    const { html, text } = renderCampaignEmail(campaign, links);
+
+    try {
+      await sendMail({
+        to,
+        subject: `[Test] ${campaign.subject}`,
+        html,
+        text,
+        headers: links?.headers,
+      });
+    } catch (error) {
+      console.error('Send test campaign mail error:', error);
+      res.status(502).json({ error: 'The mail server rejected the message' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: `Test email sent to ${to}`,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Send test campaign error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const previewDigest = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    // Preview what would go out if the digest ran now
+    const [digest, recipientCount] = await Promise.all([
+      buildDigest(),
+      countDigestRecipients(),
+    ]);
+
+    const { html } = renderCampaignEmail(digest);
+
+    res.json({
+      success: true,
+      data: {
+        enabled: config.DIGEST_ENABLED,
+        schedule: config.DIGEST_SCHEDULE,
+        timezone: config.DIGEST_TIMEZONE,
+        nextRunAt: config.DIGEST_ENABLED ? getNextDigestRun() : null,
+        recipientCount,
+        digest: {
+          subject: digest.subject,
+          periodStart: digest.periodStart,
+          periodEnd: digest.periodEnd,
+          tagSlugs: digest.tagSlugs,
+          posts: digest.posts,
+          html,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Preview digest error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
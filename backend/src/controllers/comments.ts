@@ -0,0 +1,378 @@
+import { Request, Response } from 'express';
+import { CommentStatus, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '../db/client';
+import { verifyRecaptcha } from '../utils/recaptcha';
+import { buildCommentTree } from '../utils/comments';
+import { hasPermission } from '../utils/permissions';
+
+// Validation schemas
+const createCommentSchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, 'Comment cannot be empty')
+    .max(5000, 'Comment must be less than 5000 characters'),
+  parentId: z.string().optional(),
+  authorName: z
+    .string()
+    .trim()
+    .max(100, 'Name must be less than 100 characters')
+    .optional(),
+  authorEmail: z.string().email('Invalid email address').optional(),
+  recaptchaToken: z.string().optional(),
+});
+
+const commentListQuerySchema = z.object({
+  status: z.nativeEnum(CommentStatus).default(CommentStatus.PENDING),
+  postId: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const updateCommentStatusSchema = z.object({
+  ids: z
+    .array(z.string())
+    .min(1, 'Select at least one comment')
+    .max(100, 'You can update at most 100 comments at once'),
+  status: z.nativeEnum(CommentStatus),
+});
+
+const commentAuthorSelect = {
+  id: true,
+  username: true,
+  firstName: true,
+  lastName: true,
+  avatar: true,
+} satisfies Prisma.UserSelect;
+
+export const getPostComments = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Post ID is required' });
+      return;
+    }
+
+    const post = await db.post.findUnique({
+      where: { id },
+      select: { published: true },
+    });
+
+    if (!post || !post.published) {
+      res.status(404).json({ error: 'Post not found' });
+      return;
+    }
+
+    // Contact details and request metadata stay private
+    const comments = await db.comment.findMany({
+      where: { postId: id, status: CommentStatus.APPROVED },
+      select: {
+        id: true,
+        content: true,
+        authorName: true,
+        parentId: true,
+        createdAt: true,
+        author: {
+          select: commentAuthorSelect,
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        comments: buildCommentTree(comments),
+        totalCount: comments.length,
+      },
+    });
+  } catch (error) {
+    console.error('Get post comments error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const createComment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Post ID is required' });
+      return;
+    }
+
+    const validatedData = createCommentSchema.parse(req.body);
+
+    const clientIp =
+      req.ip ||
+      req.connection.remoteAddress ||
+      req.socket.remoteAddress ||
+      (req.headers['x-forwarded-for'] as string)?.split(',')[0];
+
+    // Signed-in readers are already known; everyone else must say who they
+    // are and pass the CAPTCHA
+    if (!req.user) {
+      if (!validatedData.authorName || !validatedData.authorEmail) {
+        res.status(400).json({
+          error: 'Name and email are required to comment without signing in',
+        });
+        return;
+      }
+
+      const isRecaptchaValid = validatedData.recaptchaToken
+        ? await verifyRecaptcha(validatedData.recaptchaToken, clientIp)
+        : false;
+
+      if (!isRecaptchaValid) {
+        res.status(400).json({
+          error: 'CAPTCHA verification failed. Please try again.',
+          code: 'CAPTCHA_FAILED',
+        });
+        return;
+      }
+    }
+
+    const post = await db.post.findUnique({
+      where: { id },
+      select: { published: true },
+    });
+
+    if (!post || !post.published) {
+      res.status(404).json({ error: 'Post not found' });
+      return;
+    }
+
+    if (validatedData.parentId) {
+      const parent = await db.comment.findUnique({
+        where: { id: validatedData.parentId },
+        select: { postId: true, status: true },
+      });
+
+      if (
+        !parent ||
+        parent.postId !== id ||
+        parent.status !== CommentStatus.APPROVED
+      ) {
+        res.status(400).json({ error: 'Cannot reply to this comment' });
+        return;
+      }
+    }
+
+    // Comments from moderators skip the queue
+    const status =
+      req.user && hasPermission(req.user.role, 'comments:moderate')
+        ? CommentStatus.APPROVED
+        : CommentStatus.PENDING;
+
+    const comment = await db.comment.create({
+      data: {
+        content: validatedData.content,
+        status,
+        authorName: req.user ? null : validatedData.authorName,
+        authorEmail: req.user ? null : validatedData.authorEmail,
+        ipAddress: clientIp || null,
+        userAgent: req.get('user-agent') || null,
+        postId: id,
+        authorId: req.user?.id ?? null,
+        parentId: validatedData.parentId ?? null,
+      },
+      select: {
+        id: true,
+        content: true,
+        status: true,
+        authorName: true,
+        parentId: true,
+        createdAt: true,
+        author: {
+          select: commentAuthorSelect,
+        },
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      message:
+        status === CommentStatus.APPROVED
+          ? 'Comment posted successfully'
+          : 'Comment submitted and awaiting moderation',
+      data: { comment },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Create comment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getComments = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { status, postId, page, limit } = commentListQuerySchema.parse(
+      req.query
+    );
+
+    const skip = (page - 1) * limit;
+    const where: Prisma.CommentWhereInput = { status };
+
+    if (postId) {
+      where.postId = postId;
+    }
+
+    const [comments, totalCount, statusCounts] = await Promise.all([
+      db.comment.findMany({
+        where,
+        include: {
+          author: {
+            select: commentAuthorSelect,
+          },
+          post: {
+            select: {
+              id: true,
+              title: true,
+              slug: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      db.comment.count({ where }),
+      db.comment.groupBy({
+        by: ['status'],
+        where: postId ? { postId } : undefined,
+        _count: { _all: true },
+      }),
+    ]);
+
+    const counts = Object.fromEntries(
+      Object.values(CommentStatus).map((commentStatus) => [
+        commentStatus,
+        statusCounts.find((group) => group.status === commentStatus)?._count
+          ._all ?? 0,
+      ])
+    );
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+      success: true,
+      data: {
+        comments,
+        counts,
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Get comments error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const updateCommentStatus = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { ids, status } = updateCommentStatusSchema.parse(req.body);
+
+    const result = await db.comment.updateMany({
+      where: { id: { in: ids } },
+      data: { status },
+    });
+
+    res.json({
+      success: true,
+      message: `${result.count} comment${result.count === 1 ? '' : 's'} updated successfully`,
+      data: { count: result.count },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Update comment status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const deleteComment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Comment ID is required' });
+      return;
+    }
+
+    const comment = await db.comment.findUnique({
+      where: { id },
+    });
+
+    if (!comment) {
+      res.status(404).json({ error: 'Comment not found' });
+      return;
+    }
+
+    // Replies go with it
+    await db.comment.delete({
+      where: { id },
+    });
+
+    res.json({
+      success: true,
+      message: 'Comment deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete comment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
+import { SlugRedirectType } from '@prisma/client';
 import { z } from 'zod';
 import { db } from '../db/client';
+import { recordSlugChange, resolveSlugRedirect } from '../utils/slugRedirects';
 
 // Validation schemas
 const createProductSchema = z.object({
@@ -76,6 +78,8 @@ export const getProductBySlug = async (
 ): Promise<void> => {
   try {
     const { slug } = req.params;
+    const pageSlug =
+      typeof req.query.page === 'string' ? req.query.page : undefined;
 
     const product = await db.documentationProduct.findFirst({
       where: { slug },
@@ -92,13 +96,46 @@ export const getProductBySlug = async (
     });
 
     if (!product) {
+      // The product may have been renamed; keep the requested page so it can
+      // be resolved against the new product too
+      const redirect = await resolveSlugRedirect(
+        SlugRedirectType.DOCUMENTATION_PRODUCT,
+        slug as string
+      );
+
+      if (redirect) {
+        if (pageSlug) {
+          redirect.location = `${redirect.location}/${pageSlug}`;
+        }
+
+        res.json({
+          success: true,
+          data: { redirect },
+        });
+        return;
+      }
+
       res.status(404).json({ error: 'Product not found' });
       return;
     }
 
+    const hasPage = product.sections.some((section) =>
+      section.pages.some((page) => page.slug === pageSlug)
+    );
+
+    // Point old page links at the page's current slug
+    const redirect =
+      pageSlug && !hasPage
+        ? await resolveSlugRedirect(
+            SlugRedirectType.DOCUMENTATION_PAGE,
+            pageSlug,
+            product.id
+          )
+        : null;
+
     res.json({
       success: true,
-      data: { product },
+      data: redirect ? { product, redirect } : { product },
     });
   } catch (error) {
     throw error;
@@ -162,11 +199,27 @@ export const updateProduct = async (
       }
     }
 
+    const existingProduct = await db.documentationProduct.findUnique({
+      where: { id },
+    });
+
+    if (!existingProduct) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
     const product = await db.documentationProduct.update({
       where: { id },
       data: validatedData,
     });
 
+    await recordSlugChange({
+      type: SlugRedirectType.DOCUMENTATION_PRODUCT,
+      targetId: product.id,
+      fromSlug: existingProduct.slug,
+      toSlug: product.slug,
+    });
+
     res.json({
       success: true,
       data: { product },
@@ -187,6 +240,11 @@ export const deleteProduct = async (
       where: { id },
     });
 
+    // Drop redirects to the product and to any of its pages
+    await db.slugRedirect.deleteMany({
+      where: { OR: [{ targetId: id }, { scope: id }] },
+    });
+
     res.json({
       success: true,
       message: 'Product deleted successfully',
@@ -351,10 +409,20 @@ export const deleteSection = async (
       return;
     }
 
+    const pages = await db.documentationPage.findMany({
+      where: { sectionId },
+      select: { id: true },
+    });
+
     await db.documentationSection.delete({
       where: { id: sectionId },
     });
 
+    // The section's pages are gone, and so is anything redirecting to them
+    await db.slugRedirect.deleteMany({
+      where: { targetId: { in: pages.map((page) => page.id) } },
+    });
+
     res.json({
       success: true,
       message: 'Section deleted successfully',
@@ -474,6 +542,27 @@ export const getPageBySlug = async (
     });
 
     if (!page) {
+      const section = await db.documentationSection.findUnique({
+        where: { id: sectionId },
+        select: { productId: true },
+      });
+
+      const redirect = section
+        ? await resolveSlugRedirect(
+            SlugRedirectType.DOCUMENTATION_PAGE,
+            slug as string,
+            section.productId
+          )
+        : null;
+
+      if (redirect) {
+        res.json({
+          success: true,
+          data: { redirect },
+        });
+        return;
+      }
+
       res.status(404).json({ error: 'Page not found' });
       return;
     }
@@ -547,6 +636,11 @@ export const updatePage = async (
     // Verify page belongs to this section
     const existingPage = await db.documentationPage.findFirst({
       where: { id: pageId, sectionId },
+      include: {
+        section: {
+          select: { productId: true },
+        },
+      },
     });
 
     if (!existingPage) {
@@ -577,6 +671,15 @@ export const updatePage = async (
       data: validatedData,
     });
 
+    // Docs URLs address pages by product, so old slugs are kept per product
+    await recordSlugChange({
+      type: SlugRedirectType.DOCUMENTATION_PAGE,
+      targetId: page.id,
+      fromSlug: existingPage.slug,
+      toSlug: page.slug,
+      scope: existingPage.section.productId,
+    });
+
     res.json({
       success: true,
       data: { page },
@@ -607,6 +710,10 @@ export const deletePage = async (
       where: { id: pageId },
     });
 
+    await db.slugRedirect.deleteMany({
+      where: { targetId: pageId },
+    });
+
     res.json({
       success: true,
       message: 'Page deleted successfully',
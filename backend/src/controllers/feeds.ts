@@ -0,0 +1,294 @@
+import { createHash } from 'crypto';
+import { Prisma, SlugRedirectType } from '@prisma/client';
+import { Request, Response } from 'express';
+import { db } from '../db/client';
+import { config } from '../utils/config';
+import { htmlToText } from '../utils/diff';
+import {
+  Feed,
+  FeedItem,
+  buildAtomFeed,
+  buildJsonFeed,
+  buildRssFeed,
+  escapeXml,
+} from '../utils/feeds';
+import { PostFilters, buildPostWhere } from '../utils/postFilters';
+import { getPostUrl } from '../utils/siteUrls';
+import { resolveSlugRedirect } from '../utils/slugRedirects';
+
+type FeedFormat = 'rss' | 'atom' | 'json';
+
+const FEED_BUILDERS: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: buildRssFeed,
+  atom: buildAtomFeed,
+  json: buildJsonFeed,
+};
+
+const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+const FEED_FILENAMES: Record<FeedFormat, string> = {
+  rss: 'feed.xml',
+  atom: 'atom.xml',
+  json: 'feed.json',
+};
+
+const DEFAULT_FEED_LIMIT = 20;
+const MAX_FEED_LIMIT = 100;
+const EXCERPT_LENGTH = 300;
+
+// Feed readers poll often, so let them and any proxy reuse a copy for a while
+const FEED_CACHE_CONTROL = 'public, max-age=900';
+
+const feedPostInclude = {
+  author: {
+    select: {
+      username: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  tags: {
+    include: {
+      tag: true,
+    },
+  },
+} satisfies Prisma.PostInclude;
+
+type FeedPost = Prisma.PostGetPayload<{ include: typeof feedPostInclude }>;
+
+const getAuthorName = (author: {
+  username: string;
+  firstName: string | null;
+  lastName: string | null;
+}): string => {
+  const name = [author.firstName, author.lastName].filter(Boolean).join(' ');
+  return name || author.username;
+};
+
+const getExcerpt = (post: FeedPost): string => {
+  if (post.excerpt) {
+    return post.excerpt;
+  }
+
+  const text = htmlToText(post.content).replace(/\s+/g, ' ');
+  return text.length > EXCERPT_LENGTH
+    ? `${text.slice(0, EXCERPT_LENGTH).trimEnd()}…`
+    : text;
+};
+
+const toFeedItem = (
+  post: FeedPost,
+  siteHost: string,
+  fullContent: boolean
+): FeedItem => {
+  const url = getPostUrl(post.slug);
+  const summary = getExcerpt(post);
+
+  return {
+    // A tag URI keeps the id stable when the slug is changed later
+    id: `tag:${siteHost},${post.createdAt.getUTCFullYear()}:post:${post.id}`,
+    title: post.title,
+    url,
+    content: fullContent
+      ? post.content
+      : `<p>${escapeXml(summary)}</p><p><a href="${escapeXml(url)}">Read more</a></p>`,
+    summary,
+    image: post.coverImage || undefined,
+    author: { name: getAuthorName(post.author) },
+    categories: post.tags.map((postTag) => postTag.tag.name),
+    published: post.publishedAt ?? post.createdAt,
+    updated: post.updatedAt,
+  };
+};
+
+const sendFeed = async (
+  req: Request,
+  res: Response,
+  format: FeedFormat,
+  options: {
+    title: string;
+    description: string;
+    path: string; // Where the feeds live, e.g. /tags/news
+    filters: PostFilters;
+  }
+): Promise<void> => {
+  const limit = Math.max(
+    Math.min(
+      parseInt(req.query.limit as string) || DEFAULT_FEED_LIMIT,
+      MAX_FEED_LIMIT
+    ),
+    1
+  );
+  const fullContent = req.query.content !== 'excerpt';
+
+  const posts = await db.post.findMany({
+    where: buildPostWhere({ ...options.filters, published: true }),
+    include: feedPostInclude,
+    // The date items report as published, so a long-drafted post that has
+    // just gone out still leads the feed
+    orderBy: [
+      { publishedAt: { sort: 'desc', nulls: 'last' } },
+      { createdAt: 'desc' },
+    ],
+    take: limit,
+  });
+
+  const siteHost = new URL(config.SITE_URL).hostname;
+  const items = posts.map((post) => toFeedItem(post, siteHost, fullContent));
+
+  // Use the newest change rather than the current time so an unchanged feed
+  // renders identically and keeps its ETag
+  const updated = items.reduce(
+    (latest, item) => (item.updated > latest ? item.updated : latest),
+    new Date(0)
+  );
+
+  const feedBase = `${req.protocol}://${req.get('host')}${options.path}`;
+  const feed: Feed = {
+    title: options.title,
+    description: options.description,
+    siteUrl: config.SITE_URL,
+    urls: {
+      rss: `${feedBase}/${FEED_FILENAMES.rss}`,
+      atom: `${feedBase}/${FEED_FILENAMES.atom}`,
+      json: `${feedBase}/${FEED_FILENAMES.json}`,
+    },
+    updated,
+    items,
+  };
+
+  const body = FEED_BUILDERS[format](feed);
+  const etag = `"${createHash('sha1').update(body).digest('hex')}"`;
+
+  res.set({
+    'Content-Type': FEED_CONTENT_TYPES[format],
+    'Cache-Control': FEED_CACHE_CONTROL,
+    'Last-Modified': updated.toUTCString(),
+    ETag: etag,
+  });
+
+  // Express answers with 304 Not Modified when If-None-Match or
+  // If-Modified-Since shows the reader already has this version
+  res.send(body);
+};
+
+/**
+ * Create a handler serving the site-wide feed in one format
+ * @param format - The feed format to render
+ * @returns The request handler
+ */
+export const getSiteFeed =
+  (format: FeedFormat) =>
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      await sendFeed(req, res, format, {
+        title: config.SITE_TITLE,
+        description: config.SITE_DESCRIPTION,
+        path: '',
+        filters: {},
+      });
+    } catch (error) {
+      console.error('Get site feed error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+
+/**
+ * Create a handler serving the feed of posts with a tag in one format
+ * @param format - The feed format to render
+ * @returns The request handler
+ */
+export const getTagFeed =
+  (format: FeedFormat) =>
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { slug } = req.params;
+
+      if (!slug) {
+        res.status(400).json({ error: 'Tag slug is required' });
+        return;
+      }
+
+      const tag = await db.tag.findUnique({
+        where: { slug },
+      });
+
+      if (!tag) {
+        // Move subscribers of a renamed tag over to its new feed for good
+        const redirect = await resolveSlugRedirect(SlugRedirectType.TAG, slug);
+
+        if (redirect) {
+          const query = req.originalUrl.indexOf('?');
+          res.redirect(
+            301,
+            `/tags/${redirect.slug}/${FEED_FILENAMES[format]}${
+              query === -1 ? '' : req.originalUrl.slice(query)
+            }`
+          );
+          return;
+        }
+
+        res.status(404).json({ error: 'Tag not found' });
+        return;
+      }
+
+      await sendFeed(req, res, format, {
+        title: `${config.SITE_TITLE} – ${tag.name}`,
+        description: tag.description || `Posts tagged ${tag.name}`,
+        path: `/tags/${tag.slug}`,
+        filters: { tagId: tag.id },
+      });
+    } catch (error) {
+      console.error('Get tag feed error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+
+/**
+ * Create a handler serving the feed of posts by an author in one format
+ * @param format - The feed format to render
+ * @returns The request handler
+ */
+export const getAuthorFeed =
+  (format: FeedFormat) =>
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { username } = req.params;
+
+      if (!username) {
+        res.status(400).json({ error: 'Username is required' });
+        return;
+      }
+
+      const author = await db.user.findUnique({
+        where: { username },
+        select: {
+          username: true,
+          firstName: true,
+          lastName: true,
+          bio: true,
+        },
+      });
+
+      if (!author) {
+        res.status(404).json({ error: 'Author not found' });
+        return;
+      }
+
+      const name = getAuthorName(author);
+
+      await sendFeed(req, res, format, {
+        title: `${config.SITE_TITLE} – ${name}`,
+        description: author.bio || `Posts by ${name}`,
+        path: `/authors/${author.username}`,
+        filters: { authorUsername: author.username },
+      });
+    } catch (error) {
+      console.error('Get author feed error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
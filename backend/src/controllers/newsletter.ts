@@ -1,17 +1,138 @@
 import type { Request, Response } from 'express';
 import { z } from 'zod';
-import { PrismaClient } from '@prisma/client';
+import {
+  CampaignEventType,
+  NewsletterSubscriber,
+  PrismaClient,
+  SubscriberStatus,
+} from '@prisma/client';
 import * as XLSX from 'xlsx';
+import {
+  TRACKING_PIXEL,
+  recordCampaignEvent,
+  recordCampaignUnsubscribe,
+  verifyClickToken,
+} from '../utils/campaignTracking';
+import { config } from '../utils/config';
+import {
+  applyMailFeedback,
+  confirmSnsSubscription,
+  isEmailSuppressed,
+  isValidWebhookSecret,
+  liftSuppression,
+  parseDsnMessage,
+  parseFeedbackWebhook,
+} from '../utils/mailFeedback';
+import {
+  CONFIRMATION_RESEND_INTERVAL_MS,
+  sendConfirmationEmail,
+} from '../utils/newsletter';
+import {
+  buildSegmentWhere,
+  filterExistingTagIds,
+  parseSegmentRules,
+} from '../utils/segments';
+import { verifySignedToken } from '../utils/signedTokens';
+import {
+  MAX_IMPORT_ROWS,
+  ParsedSubscriberFile,
+  applySubscriberImport,
+  guessColumnMapping,
+  parseSubscriberFile,
+  planSubscriberImport,
+  summarizeImportPlan,
+} from '../utils/subscriberImport';
 
 const prisma = new PrismaClient();
 
 // Validation schemas
+const tagIdsSchema = z.array(z.string()).max(100, 'Too many topics');
+
 const subscribeSchema = z.object({
   email: z.string().email('Invalid email address').min(1, 'Email is required'),
+  tagIds: tagIdsSchema.optional(), // Topics of interest; none means everything
+});
+
+const tokenSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+const updatePreferencesSchema = tokenSchema.extend({
+  subscribed: z.boolean().optional(),
+  digest: z.boolean().optional(), // Also receive the digest of new posts
+  tagIds: tagIdsSchema.optional(),
+});
+
+// Multipart form fields arrive as strings
+const formBoolean = z
+  .enum(['true', 'false'])
+  .transform((val) => val === 'true');
+
+const importSchema = z.object({
+  emailColumn: z.string().optional(),
+  subscribedAtColumn: z.string().optional(),
+  reactivateUnsubscribed: formBoolean.default('false'),
+  dryRun: formBoolean.default('true'),
+});
+
+const subscriberListQuerySchema = z.object({
+  status: z.nativeEnum(SubscriberStatus).default(SubscriberStatus.ACTIVE),
+});
+
+const exportQuerySchema = z.object({
+  segmentId: z.string().optional(),
 });
 
 /**
- * Subscribe to newsletter
+ * Build the nested write that replaces a subscriber's topics
+ * @param tagIds - The chosen tag ids; unknown ids are dropped
+ * @returns The tags update for the subscriber
+ */
+const replaceSubscriberTags = async (
+  tagIds: string[]
+): Promise<{ deleteMany: object; create: { tagId: string }[] }> => {
+  const existingTagIds = await filterExistingTagIds(tagIds);
+
+  return {
+    deleteMany: {},
+    create: existingTagIds.map((tagId) => ({ tagId })),
+  };
+};
+
+/**
+ * Load what the preferences page shows for a subscriber
+ * @param subscriberId - The subscriber
+ * @returns Their email, status, digest opt-in and topics
+ */
+const loadPreferences = async (
+  subscriberId: string
+): Promise<{
+  email: string;
+  status: SubscriberStatus;
+  digest: boolean;
+  tagIds: string[];
+}> => {
+  const subscriber = await prisma.newsletterSubscriber.findUniqueOrThrow({
+    where: { id: subscriberId },
+    select: {
+      email: true,
+      status: true,
+      digest: true,
+      tags: { select: { tagId: true } },
+    },
+  });
+
+  return {
+    email: subscriber.email,
+    status: subscriber.status,
+    digest: subscriber.digest,
+    tagIds: subscriber.tags.map((tag) => tag.tagId),
+  };
+};
+
+/**
+ * Subscribe to newsletter. The subscription stays pending until the address
+ * owner follows the link in the confirmation email.
  * POST /api/newsletter/subscribe
  */
 export const subscribeToNewsletter = async (
@@ -19,43 +140,79 @@ export const subscribeToNewsletter = async (
   res: Response
 ): Promise<Response> => {
   try {
-    const { email } = subscribeSchema.parse(req.body);
+    const { email, tagIds } = subscribeSchema.parse(req.body);
 
     // Check if email is already subscribed
     const existingSubscriber = await prisma.newsletterSubscriber.findUnique({
       where: { email },
     });
 
-    if (existingSubscriber) {
-      if (existingSubscriber.isActive) {
-        return res.status(400).json({
-          success: false,
-          error: 'Email is already subscribed to our newsletter',
-        });
-      } else {
-        // Reactivate subscription
-        const updatedSubscriber = await prisma.newsletterSubscriber.update({
+    if (existingSubscriber?.status === SubscriberStatus.ACTIVE) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email is already subscribed to our newsletter',
+      });
+    }
+
+    // Confirmation emails to these would bounce or be reported again
+    if (await isEmailSuppressed(email)) {
+      return res.status(400).json({
+        success: false,
+        error:
+          'This address cannot receive our newsletter. Please contact us if you think this is a mistake.',
+      });
+    }
+
+    const message =
+      'Almost done! Check your inbox to confirm your subscription';
+
+    // A confirmation email went out moments ago; don't send another
+    if (
+      existingSubscriber?.status === SubscriberStatus.PENDING &&
+      existingSubscriber.confirmationSentAt &&
+      Date.now() - existingSubscriber.confirmationSentAt.getTime() <
+        CONFIRMATION_RESEND_INTERVAL_MS
+    ) {
+      return res.status(200).json({
+        success: true,
+        message,
+      });
+    }
+
+    const tags = tagIds && (await replaceSubscriberTags(tagIds));
+
+    // Returning subscribers confirm again, like new ones
+    const subscriber = existingSubscriber
+      ? await prisma.newsletterSubscriber.update({
           where: { email },
-          data: { isActive: true, subscribedAt: new Date() },
+          data: {
+            status: SubscriberStatus.PENDING,
+            subscribedAt: new Date(),
+            tags,
+          },
+        })
+      : await prisma.newsletterSubscriber.create({
+          data: { email, tags: tags && { create: tags.create } },
         });
 
-        return res.status(200).json({
-          success: true,
-          message: 'Successfully resubscribed to newsletter',
-          data: { subscriber: updatedSubscriber },
-        });
-      }
+    try {
+      await sendConfirmationEmail(subscriber);
+    } catch (error) {
+      console.error('Newsletter confirmation email error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Could not send the confirmation email. Please try again later.',
+      });
     }
 
-    // Create new subscription
-    const subscriber = await prisma.newsletterSubscriber.create({
-      data: { email },
+    await prisma.newsletterSubscriber.update({
+      where: { id: subscriber.id },
+      data: { confirmationSentAt: new Date() },
     });
 
-    return res.status(201).json({
+    return res.status(existingSubscriber ? 200 : 201).json({
       success: true,
-      message: 'Successfully subscribed to newsletter',
-      data: { subscriber },
+      message,
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -78,43 +235,157 @@ export const subscribeToNewsletter = async (
 };
 
 /**
- * Get all newsletter subscribers (Admin only)
- * GET /api/newsletter/subscribers
+ * Confirm a pending subscription with the token from the confirmation email
+ * POST /api/newsletter/confirm
  */
-export const getNewsletterSubscribers = async (
+export const confirmNewsletterSubscription = async (
   req: Request,
   res: Response
 ): Promise<Response> => {
   try {
-    // Check if user is admin
-    const user = (req as any).user;
-    if (!user || !user.isAdmin) {
-      return res.status(403).json({
+    const { token } = tokenSchema.parse(req.body);
+
+    const subscriberId = verifySignedToken('newsletter-confirm', token);
+
+    // Expired signups are removed, so a missing subscriber means the same
+    const subscriber = subscriberId
+      ? await prisma.newsletterSubscriber.findUnique({
+          where: { id: subscriberId },
+        })
+      : null;
+
+    if (!subscriber || subscriber.status === SubscriberStatus.UNSUBSCRIBED) {
+      return res.status(400).json({
+        success: false,
+        error:
+          'This confirmation link is invalid or has expired. Please subscribe again.',
+      });
+    }
+
+    if (subscriber.status === SubscriberStatus.ACTIVE) {
+      return res.json({
+        success: true,
+        message: 'Your subscription is already confirmed',
+        data: { subscriber },
+      });
+    }
+
+    // Bounced and complained addresses stay suppressed, whatever links
+    // they still hold
+    if (
+      subscriber.status !== SubscriberStatus.PENDING ||
+      (await isEmailSuppressed(subscriber.email))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error:
+          'This address cannot receive our newsletter. Please contact us if you think this is a mistake.',
+      });
+    }
+
+    // Conditional so a bounce recorded since the lookup isn't overwritten
+    const { count } = await prisma.newsletterSubscriber.updateMany({
+      where: { id: subscriber.id, status: SubscriberStatus.PENDING },
+      data: {
+        status: SubscriberStatus.ACTIVE,
+        confirmedAt: new Date(),
+        lastEngagedAt: new Date(),
+      },
+    });
+
+    const confirmedSubscriber =
+      await prisma.newsletterSubscriber.findUniqueOrThrow({
+        where: { id: subscriber.id },
+      });
+
+    if (count === 0 && confirmedSubscriber.status !== SubscriberStatus.ACTIVE) {
+      return res.status(400).json({
         success: false,
-        error: 'Admin access required',
+        error:
+          'This confirmation link is invalid or has expired. Please subscribe again.',
       });
     }
 
+    return res.json({
+      success: true,
+      message: 'Your subscription is confirmed. Welcome aboard!',
+      data: { subscriber: confirmedSubscriber },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      });
+    }
+
+    console.error('Newsletter confirmation error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+};
+
+/**
+ * Get all newsletter subscribers (requires newsletter:manage)
+ * GET /api/newsletter/subscribers
+ */
+export const getNewsletterSubscribers = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 50;
     const skip = (page - 1) * limit;
+    const { status } = subscriberListQuerySchema.parse(req.query);
 
     const [subscribers, total] = await Promise.all([
       prisma.newsletterSubscriber.findMany({
-        where: { isActive: true },
+        where: { status },
         orderBy: { subscribedAt: 'desc' },
         skip,
         take: limit,
       }),
       prisma.newsletterSubscriber.count({
-        where: { isActive: true },
+        where: { status },
       }),
     ]);
 
+    // Show why bounced and complained addresses were suppressed
+    const suppressions =
+      status === SubscriberStatus.BOUNCED ||
+      status === SubscriberStatus.COMPLAINED
+        ? await prisma.suppressedEmail.findMany({
+            where: {
+              email: { in: subscribers.map((s) => s.email.toLowerCase()) },
+            },
+            select: {
+              email: true,
+              reason: true,
+              source: true,
+              detail: true,
+              createdAt: true,
+            },
+          })
+        : [];
+    const suppressionByEmail = new Map(
+      suppressions.map(({ email, ...suppression }) => [email, suppression])
+    );
+
     return res.json({
       success: true,
       data: {
-        subscribers,
+        subscribers: subscribers.map((subscriber) => ({
+          ...subscriber,
+          suppression:
+            suppressionByEmail.get(subscriber.email.toLowerCase()) ?? null,
+        })),
         pagination: {
           page,
           limit,
@@ -124,6 +395,17 @@ export const getNewsletterSubscribers = async (
       },
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      });
+    }
+
     console.error('Get newsletter subscribers error:', error);
     return res.status(500).json({
       success: false,
@@ -133,7 +415,7 @@ export const getNewsletterSubscribers = async (
 };
 
 /**
- * Export newsletter subscribers to Excel (Admin only)
+ * Export newsletter subscribers to Excel (requires newsletter:manage)
  * GET /api/newsletter/export
  */
 export const exportNewsletterSubscribers = async (
@@ -141,19 +423,26 @@ export const exportNewsletterSubscribers = async (
   res: Response
 ): Promise<void> => {
   try {
-    // Check if user is admin
-    const user = (req as any).user;
-    if (!user || !user.isAdmin) {
-      res.status(403).json({
+    const { segmentId } = exportQuerySchema.parse(req.query);
+
+    const segment = segmentId
+      ? await prisma.segment.findUnique({ where: { id: segmentId } })
+      : null;
+
+    if (segmentId && !segment) {
+      res.status(404).json({
         success: false,
-        error: 'Admin access required',
+        error: 'Segment not found',
       });
       return;
     }
 
-    // Get all active subscribers
+    // Get all confirmed subscribers, or those in the chosen segment
     const subscribers = await prisma.newsletterSubscriber.findMany({
-      where: { isActive: true },
+      where: {
+        status: SubscriberStatus.ACTIVE,
+        ...(segment && buildSegmentWhere(parseSegmentRules(segment.rules))),
+      },
       orderBy: { subscribedAt: 'desc' },
       select: {
         id: true,
@@ -210,6 +499,18 @@ export const exportNewsletterSubscribers = async (
     // Send file
     res.send(excelBuffer);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      });
+      return;
+    }
+
     console.error('Export newsletter subscribers error:', error);
     res.status(500).json({
       success: false,
@@ -219,7 +520,149 @@ export const exportNewsletterSubscribers = async (
 };
 
 /**
- * Unsubscribe from newsletter
+ * Import subscribers from a CSV or XLSX export of another newsletter service
+ * (requires newsletter:manage). Runs as a dry run unless dryRun is "false",
+ * so the report can be reviewed before anything is written.
+ * POST /api/newsletter/import
+ */
+export const importNewsletterSubscribers = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: 'No file uploaded',
+      });
+    }
+
+    const options = importSchema.parse(req.body);
+
+    let file: ParsedSubscriberFile;
+    try {
+      file = parseSubscriberFile(req.file.buffer);
+    } catch {
+      return res.status(400).json({
+        success: false,
+        error: 'The file could not be read. Upload a CSV or XLSX file.',
+      });
+    }
+
+    if (file.rows.length > MAX_IMPORT_ROWS) {
+      return res.status(400).json({
+        success: false,
+        error: `Files may contain at most ${MAX_IMPORT_ROWS} rows`,
+      });
+    }
+
+    // Columns the admin hasn't picked yet are guessed from the headers
+    const guessed = guessColumnMapping(file.columns);
+    const mapping = {
+      email: options.emailColumn || guessed.email,
+      subscribedAt:
+        options.subscribedAtColumn === undefined
+          ? guessed.subscribedAt
+          : options.subscribedAtColumn || undefined,
+    };
+
+    for (const column of [mapping.email, mapping.subscribedAt]) {
+      if (column && !file.columns.includes(column)) {
+        return res.status(400).json({
+          success: false,
+          error: `The file has no column named "${column}"`,
+        });
+      }
+    }
+
+    // Nothing to plan until we know where the addresses are
+    if (!mapping.email) {
+      return res.json({
+        success: true,
+        data: {
+          dryRun: true,
+          columns: file.columns,
+          mapping,
+          totalRows: file.rows.length,
+          report: null,
+        },
+      });
+    }
+
+    const plan = await planSubscriberImport(
+      file,
+      { ...mapping, email: mapping.email },
+      options.reactivateUnsubscribed
+    );
+    const report = summarizeImportPlan(plan);
+
+    if (options.dryRun) {
+      return res.json({
+        success: true,
+        data: {
+          dryRun: true,
+          columns: file.columns,
+          mapping,
+          totalRows: file.rows.length,
+          report,
+        },
+      });
+    }
+
+    const { created, reactivated } = await applySubscriberImport(plan);
+
+    return res.json({
+      success: true,
+      message: `Imported ${created} new and reactivated ${reactivated} existing subscribers`,
+      data: {
+        dryRun: false,
+        columns: file.columns,
+        mapping,
+        totalRows: file.rows.length,
+        report,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      });
+    }
+
+    console.error('Import newsletter subscribers error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+};
+
+/**
+ * Find the subscriber an unsubscribe token was issued for
+ * @param token - The token from an email link
+ * @returns The subscriber, or null if the token is invalid
+ */
+const findSubscriberByUnsubscribeToken = async (
+  token: string
+): Promise<NewsletterSubscriber | null> => {
+  const subscriberId = verifySignedToken('newsletter-unsubscribe', token);
+
+  return subscriberId
+    ? prisma.newsletterSubscriber.findUnique({
+        where: { id: subscriberId },
+      })
+    : null;
+};
+
+/**
+ * Unsubscribe with the signed token from a newsletter email. Mail clients
+ * doing an RFC 8058 one-click unsubscribe POST the token in the query string
+ * with a form body; the unsubscribe page sends it as JSON.
  * POST /api/newsletter/unsubscribe
  */
 export const unsubscribeFromNewsletter = async (
@@ -227,36 +670,169 @@ export const unsubscribeFromNewsletter = async (
   res: Response
 ): Promise<Response> => {
   try {
-    const { email } = subscribeSchema.parse(req.body);
+    const body = req.body as { token?: unknown } | undefined;
+    const { token } = tokenSchema.parse({
+      token: req.query.token ?? body?.token,
+    });
 
-    // Check if email exists
-    const subscriber = await prisma.newsletterSubscriber.findUnique({
-      where: { email },
+    const subscriber = await findSubscriberByUnsubscribeToken(token);
+
+    if (!subscriber) {
+      return res.status(400).json({
+        success: false,
+        error: 'This unsubscribe link is invalid',
+      });
+    }
+
+    // Unsubscribing twice is fine; one-click clients may retry. Suppressed
+    // addresses keep their status so admins can still see why.
+    if (
+      subscriber.status === SubscriberStatus.ACTIVE ||
+      subscriber.status === SubscriberStatus.PENDING
+    ) {
+      await prisma.newsletterSubscriber.update({
+        where: { id: subscriber.id },
+        data: { status: SubscriberStatus.UNSUBSCRIBED },
+      });
+      await recordCampaignUnsubscribe(subscriber.id);
+    }
+
+    return res.json({
+      success: true,
+      message: 'Successfully unsubscribed from newsletter',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      });
+    }
+
+    console.error('Newsletter unsubscription error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
     });
+  }
+};
+
+/**
+ * Get the subscription settings an unsubscribe token gives access to
+ * GET /api/newsletter/preferences
+ */
+export const getNewsletterPreferences = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const { token } = tokenSchema.parse(req.query);
+
+    const subscriber = await findSubscriberByUnsubscribeToken(token);
 
     if (!subscriber) {
-      return res.status(404).json({
+      return res.status(400).json({
         success: false,
-        error: 'Email not found in our newsletter list',
+        error: 'This link is invalid',
       });
     }
 
-    if (!subscriber.isActive) {
+    return res.json({
+      success: true,
+      data: {
+        preferences: await loadPreferences(subscriber.id),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
       return res.status(400).json({
         success: false,
-        error: 'Email is already unsubscribed',
+        error: 'Validation failed',
+        details: error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
       });
     }
 
-    // Deactivate subscription
-    await prisma.newsletterSubscriber.update({
-      where: { email },
-      data: { isActive: false },
+    console.error('Get newsletter preferences error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
     });
+  }
+};
+
+/**
+ * Change subscription settings with an unsubscribe token
+ * PUT /api/newsletter/preferences
+ */
+export const updateNewsletterPreferences = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const { token, subscribed, digest, tagIds } = updatePreferencesSchema.parse(
+      req.body
+    );
+
+    const subscriber = await findSubscriberByUnsubscribeToken(token);
+
+    if (!subscriber) {
+      return res.status(400).json({
+        success: false,
+        error: 'This link is invalid',
+      });
+    }
+
+    // The token was only ever emailed to the subscriber, so it proves they
+    // own the address and resubscribing needs no new confirmation
+    const data =
+      subscribed === undefined
+        ? {}
+        : subscribed
+          ? {
+              status: SubscriberStatus.ACTIVE,
+              confirmedAt: subscriber.confirmedAt ?? new Date(),
+            }
+          : { status: SubscriberStatus.UNSUBSCRIBED };
+
+    const updatedSubscriber = await prisma.newsletterSubscriber.update({
+      where: { id: subscriber.id },
+      data: {
+        ...data,
+        digest,
+        tags: tagIds && (await replaceSubscriberTags(tagIds)),
+        lastEngagedAt: new Date(),
+      },
+    });
+
+    if (
+      subscriber.status !== SubscriberStatus.UNSUBSCRIBED &&
+      updatedSubscriber.status === SubscriberStatus.UNSUBSCRIBED
+    ) {
+      await recordCampaignUnsubscribe(subscriber.id);
+    }
+
+    // Only the address owner has the link, so resubscribing here overrides
+    // an earlier bounce or complaint
+    if (subscribed) {
+      await liftSuppression(subscriber.email);
+    }
 
     return res.json({
       success: true,
-      message: 'Successfully unsubscribed from newsletter',
+      message:
+        updatedSubscriber.status === SubscriberStatus.UNSUBSCRIBED
+          ? 'Successfully unsubscribed from newsletter'
+          : 'Your preferences have been saved',
+      data: {
+        preferences: await loadPreferences(updatedSubscriber.id),
+      },
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -270,7 +846,192 @@ export const unsubscribeFromNewsletter = async (
       });
     }
 
-    console.error('Newsletter unsubscription error:', error);
+    console.error('Update newsletter preferences error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+};
+
+/**
+ * Record that a campaign email was opened. The pixel is served whatever
+ * happens, so a bad token never shows a broken image.
+ * GET /api/newsletter/open/:token
+ */
+export const trackCampaignOpen = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  const deliveryId = verifySignedToken(
+    'newsletter-open',
+    req.params.token ?? ''
+  );
+
+  if (deliveryId && config.NEWSLETTER_TRACKING_ENABLED) {
+    try {
+      await recordCampaignEvent(deliveryId, CampaignEventType.OPEN);
+    } catch (error) {
+      console.error('Track campaign open error:', error);
+    }
+  }
+
+  // Every load should reach us, and mail clients render images cross-origin
+  res.set({
+    'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+    'Cross-Origin-Resource-Policy': 'cross-origin',
+  });
+  return res.type('gif').send(TRACKING_PIXEL);
+};
+
+/**
+ * Record a click on a campaign link and redirect to it
+ * GET /api/newsletter/click/:token
+ */
+export const trackCampaignClick = async (
+  req: Request,
+  res: Response
+): Promise<Response | void> => {
+  const click = verifyClickToken(req.params.token ?? '');
+
+  if (!click) {
+    return res.status(400).json({
+      success: false,
+      error: 'This link is invalid',
+    });
+  }
+
+  if (config.NEWSLETTER_TRACKING_ENABLED) {
+    try {
+      await recordCampaignEvent(
+        click.deliveryId,
+        CampaignEventType.CLICK,
+        click.url
+      );
+    } catch (error) {
+      // The reader should still get where they were going
+      console.error('Track campaign click error:', error);
+    }
+  }
+
+  res.set('Cache-Control', 'no-store');
+  return res.redirect(302, click.url);
+};
+
+/**
+ * Check the shared secret on a bounce webhook, answering the request if it
+ * is missing or wrong
+ * @param req - The webhook request; the secret is in ?secret= or the
+ * X-Webhook-Secret header
+ * @param res - The response, sent here when the check fails
+ * @returns Whether the request may go ahead
+ */
+const checkWebhookSecret = (req: Request, res: Response): boolean => {
+  if (!config.MAIL_WEBHOOK_SECRET) {
+    res.status(404).json({
+      success: false,
+      error: 'Bounce processing is not configured',
+    });
+    return false;
+  }
+
+  if (!isValidWebhookSecret(req.query.secret ?? req.get('X-Webhook-Secret'))) {
+    res.status(401).json({
+      success: false,
+      error: 'Invalid webhook secret',
+    });
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Receive bounce and complaint notifications from the mail provider. Hard
+ * bounces and complaints suppress the address; soft bounces are ignored.
+ * POST /api/newsletter/feedback
+ */
+export const receiveMailFeedback = async (
+  req: Request,
+  res: Response
+): Promise<Response | void> => {
+  if (!checkWebhookSecret(req, res)) {
+    return;
+  }
+
+  try {
+    // SNS posts JSON as text/plain
+    let body: unknown = req.body;
+
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        body = null;
+      }
+    }
+
+    const webhook = parseFeedbackWebhook(body);
+
+    if (!webhook) {
+      return res.status(400).json({
+        success: false,
+        error: 'Unrecognized notification format',
+      });
+    }
+
+    if (webhook.subscribeUrl) {
+      await confirmSnsSubscription(webhook.subscribeUrl);
+    }
+
+    const result = await applyMailFeedback(webhook.feedback, webhook.format);
+
+    return res.json({
+      success: true,
+      data: { format: webhook.format, ...result },
+    });
+  } catch (error) {
+    console.error('Mail feedback webhook error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+};
+
+/**
+ * Receive a raw bounce message (RFC 3464 delivery status notification) or
+ * spam complaint (RFC 5965 feedback report) from the bounce mailbox
+ * POST /api/newsletter/feedback/dsn
+ */
+export const receiveDsnMessage = async (
+  req: Request,
+  res: Response
+): Promise<Response | void> => {
+  if (!checkWebhookSecret(req, res)) {
+    return;
+  }
+
+  try {
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Send the raw message as message/rfc822 or text/plain',
+      });
+    }
+
+    const feedback = parseDsnMessage(req.body);
+
+    // Auto-replies and other mail that lands in the bounce mailbox are
+    // accepted so the forwarder doesn't keep retrying them
+    const result = await applyMailFeedback(feedback, 'dsn');
+
+    return res.json({
+      success: true,
+      data: { format: 'dsn', ...result },
+    });
+  } catch (error) {
+    console.error('Mail DSN processing error:', error);
     return res.status(500).json({
       success: false,
       error: 'Internal server error',
@@ -0,0 +1,195 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { db } from '../db/client';
+import { canManagePost } from '../utils/permissions';
+
+// Validation schemas
+// Autosaves capture work in progress, so nothing is required here
+const autosaveSchema = z.object({
+  title: z
+    .string()
+    .max(200, 'Title must be less than 200 characters')
+    .optional(),
+  content: z.string().optional(),
+  excerpt: z
+    .string()
+    .max(500, 'Excerpt must be less than 500 characters')
+    .optional(),
+  coverImage: z.string().optional(),
+  tagIds: z.array(z.string()).optional(),
+});
+
+export const getPostAutosave = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Post ID is required' });
+      return;
+    }
+
+    const post = await db.post.findUnique({
+      where: { id },
+      include: {
+        autosave: true,
+        tags: {
+          select: { tagId: true },
+        },
+      },
+    });
+
+    if (!post) {
+      res.status(404).json({ error: 'Post not found' });
+      return;
+    }
+
+    if (!canManagePost(req.user, post.authorId)) {
+      res.status(403).json({ error: 'Not authorized to access this post' });
+      return;
+    }
+
+    const { autosave } = post;
+    const tagIds = post.tags.map((postTag) => postTag.tagId);
+
+    // Only worth recovering when it is newer than what was last saved and
+    // actually differs from it
+    const isNewer =
+      !!autosave &&
+      autosave.updatedAt.getTime() > post.updatedAt.getTime() &&
+      (autosave.title !== post.title ||
+        autosave.content !== post.content ||
+        autosave.excerpt !== post.excerpt ||
+        autosave.coverImage !== post.coverImage ||
+        autosave.tagIds.length !== tagIds.length ||
+        autosave.tagIds.some((tagId) => !tagIds.includes(tagId)));
+
+    res.json({
+      success: true,
+      data: { autosave, isNewer },
+    });
+  } catch (error) {
+    console.error('Get post autosave error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const savePostAutosave = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Post ID is required' });
+      return;
+    }
+
+    const validatedData = autosaveSchema.parse(req.body);
+
+    const post = await db.post.findUnique({
+      where: { id },
+    });
+
+    if (!post) {
+      res.status(404).json({ error: 'Post not found' });
+      return;
+    }
+
+    if (!canManagePost(req.user, post.authorId)) {
+      res.status(403).json({ error: 'Not authorized to update this post' });
+      return;
+    }
+
+    const autosaveData = {
+      title: validatedData.title ?? '',
+      content: validatedData.content ?? '',
+      excerpt: validatedData.excerpt || null,
+      coverImage: validatedData.coverImage || null,
+      tagIds: validatedData.tagIds ?? [],
+    };
+
+    const autosave = await db.postAutosave.upsert({
+      where: { postId: id },
+      create: { ...autosaveData, postId: id },
+      update: autosaveData,
+    });
+
+    res.json({
+      success: true,
+      data: { autosave },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Save post autosave error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const discardPostAutosave = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Post ID is required' });
+      return;
+    }
+
+    const post = await db.post.findUnique({
+      where: { id },
+    });
+
+    if (!post) {
+      res.status(404).json({ error: 'Post not found' });
+      return;
+    }
+
+    if (!canManagePost(req.user, post.authorId)) {
+      res.status(403).json({ error: 'Not authorized to update this post' });
+      return;
+    }
+
+    await db.postAutosave.deleteMany({
+      where: { postId: id },
+    });
+
+    res.json({
+      success: true,
+      message: 'Autosave discarded successfully',
+    });
+  } catch (error) {
+    console.error('Discard post autosave error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,320 @@
+import { Request, Response } from 'express';
+import { db } from '../db/client';
+import { diffWords, htmlToText } from '../utils/diff';
+import { canManagePost, hasPermission } from '../utils/permissions';
+import { createPostRevision } from '../utils/revisions';
+
+interface RevisionSnapshot {
+  title: string;
+  content: string;
+  excerpt: string | null;
+  coverImage: string | null;
+  tagIds: string[];
+}
+
+// Helper function to load the current state of a post in revision shape
+const getCurrentSnapshot = async (
+  postId: string
+): Promise<RevisionSnapshot | null> => {
+  const post = await db.post.findUnique({
+    where: { id: postId },
+    include: {
+      tags: {
+        select: { tagId: true },
+      },
+    },
+  });
+
+  if (!post) {
+    return null;
+  }
+
+  return {
+    title: post.title,
+    content: post.content,
+    excerpt: post.excerpt,
+    coverImage: post.coverImage,
+    tagIds: post.tags.map((postTag) => postTag.tagId),
+  };
+};
+
+export const getPostRevisions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Post ID is required' });
+      return;
+    }
+
+    const post = await db.post.findUnique({
+      where: { id },
+    });
+
+    if (!post) {
+      res.status(404).json({ error: 'Post not found' });
+      return;
+    }
+
+    if (!canManagePost(req.user, post.authorId)) {
+      res
+        .status(403)
+        .json({ error: 'Not authorized to view revisions of this post' });
+      return;
+    }
+
+    const revisions = await db.postRevision.findMany({
+      where: { postId: id },
+      select: {
+        id: true,
+        title: true,
+        excerpt: true,
+        coverImage: true,
+        tagIds: true,
+        createdAt: true,
+        createdBy: {
+          select: {
+            id: true,
+            username: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({
+      success: true,
+      data: { revisions },
+    });
+  } catch (error) {
+    console.error('Get post revisions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getPostRevisionDiff = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+    const from = req.query.from as string;
+    const to = (req.query.to as string) || 'current';
+
+    if (!id) {
+      res.status(400).json({ error: 'Post ID is required' });
+      return;
+    }
+
+    if (!from) {
+      res.status(400).json({ error: 'Revision to compare from is required' });
+      return;
+    }
+
+    const post = await db.post.findUnique({
+      where: { id },
+    });
+
+    if (!post) {
+      res.status(404).json({ error: 'Post not found' });
+      return;
+    }
+
+    if (!canManagePost(req.user, post.authorId)) {
+      res
+        .status(403)
+        .json({ error: 'Not authorized to view revisions of this post' });
+      return;
+    }
+
+    // "current" refers to the live post rather than a stored revision
+    const loadSnapshot = async (
+      revisionId: string
+    ): Promise<RevisionSnapshot | null> => {
+      if (revisionId === 'current') {
+        return getCurrentSnapshot(id);
+      }
+      return db.postRevision.findFirst({
+        where: { id: revisionId, postId: id },
+      });
+    };
+
+    const [fromSnapshot, toSnapshot] = await Promise.all([
+      loadSnapshot(from),
+      loadSnapshot(to),
+    ]);
+
+    if (!fromSnapshot || !toSnapshot) {
+      res.status(404).json({ error: 'Revision not found' });
+      return;
+    }
+
+    const addedTagIds = toSnapshot.tagIds.filter(
+      (tagId) => !fromSnapshot.tagIds.includes(tagId)
+    );
+    const removedTagIds = fromSnapshot.tagIds.filter(
+      (tagId) => !toSnapshot.tagIds.includes(tagId)
+    );
+
+    const changedTags = await db.tag.findMany({
+      where: { id: { in: [...addedTagIds, ...removedTagIds] } },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        from,
+        to,
+        diff: {
+          title: diffWords(fromSnapshot.title, toSnapshot.title),
+          excerpt: diffWords(
+            fromSnapshot.excerpt || '',
+            toSnapshot.excerpt || ''
+          ),
+          content: diffWords(
+            htmlToText(fromSnapshot.content),
+            htmlToText(toSnapshot.content)
+          ),
+          coverImage: {
+            from: fromSnapshot.coverImage,
+            to: toSnapshot.coverImage,
+            changed: fromSnapshot.coverImage !== toSnapshot.coverImage,
+          },
+          tags: {
+            added: changedTags.filter((tag) => addedTagIds.includes(tag.id)),
+            removed: changedTags.filter((tag) =>
+              removedTagIds.includes(tag.id)
+            ),
+          },
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Get post revision diff error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const restorePostRevision = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const { id, revisionId } = req.params;
+
+    if (!id || !revisionId) {
+      res.status(400).json({ error: 'Post ID and revision ID are required' });
+      return;
+    }
+
+    const existingPost = await db.post.findUnique({
+      where: { id },
+    });
+
+    if (!existingPost) {
+      res.status(404).json({ error: 'Post not found' });
+      return;
+    }
+
+    if (!canManagePost(req.user, existingPost.authorId)) {
+      res.status(403).json({ error: 'Not authorized to update this post' });
+      return;
+    }
+
+    // Restoring changes the post, which for live posts means publish rights
+    if (
+      (existingPost.published || existingPost.publishAt) &&
+      !hasPermission(req.user.role, 'posts:publish')
+    ) {
+      res.status(403).json({
+        error: 'Access denied. You do not have permission to publish posts.',
+      });
+      return;
+    }
+
+    const revision = await db.postRevision.findFirst({
+      where: { id: revisionId, postId: id },
+    });
+
+    if (!revision) {
+      res.status(404).json({ error: 'Revision not found' });
+      return;
+    }
+
+    // Snapshot the current state first so the restore itself can be undone
+    await createPostRevision(id, req.user.id);
+
+    // Tags may have been deleted since the revision was taken
+    const existingTags = await db.tag.findMany({
+      where: { id: { in: revision.tagIds } },
+      select: { id: true },
+    });
+
+    await db.postTag.deleteMany({
+      where: { postId: id },
+    });
+
+    if (existingTags.length > 0) {
+      await db.postTag.createMany({
+        data: existingTags.map((tag) => ({
+          postId: id,
+          tagId: tag.id,
+        })),
+      });
+    }
+
+    const post = await db.post.update({
+      where: { id },
+      data: {
+        title: revision.title,
+        content: revision.content,
+        excerpt: revision.excerpt,
+        coverImage: revision.coverImage,
+      },
+      include: {
+        author: {
+          select: {
+            id: true,
+            username: true,
+            firstName: true,
+            lastName: true,
+            avatar: true,
+          },
+        },
+        tags: {
+          include: {
+            tag: true,
+          },
+        },
+      },
+    });
+
+    res.json({
+      success: true,
+      data: { post },
+    });
+  } catch (error) {
+    console.error('Restore post revision error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
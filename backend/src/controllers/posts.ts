@@ -1,6 +1,18 @@
 import { Request, Response } from 'express';
+import { SlugRedirectType } from '@prisma/client';
 import { z } from 'zod';
 import { db } from '../db/client';
+import { canManagePost, hasPermission } from '../utils/permissions';
+import { buildPostWhere } from '../utils/postFilters';
+import { searchPostPage } from '../utils/search';
+import { getCommentCounts } from '../utils/comments';
+import { withCoverImageDetails } from '../utils/imageVariants';
+import { createPostRevision } from '../utils/revisions';
+import { recordSlugChange, resolveSlugRedirect } from '../utils/slugRedirects';
+import {
+  schedulePostPublication,
+  cancelScheduledPublication,
+} from '../utils/publishScheduler';
 
 // Validation schemas
 const createPostSchema = z.object({
@@ -15,6 +27,14 @@ const createPostSchema = z.object({
     .optional(),
   coverImage: z.string().url().optional(),
   published: z.boolean().default(false),
+  publishAt: z
+    .string()
+    .nullable()
+    .optional()
+    .refine(
+      (val) => !val || !isNaN(Date.parse(val)),
+      'Please enter a valid publish date and time'
+    ),
   tagIds: z.array(z.string()).optional(),
   createdAt: z
     .string()
@@ -81,42 +101,26 @@ export const getAllPosts = async (
 
     const skip = (page - 1) * limit;
 
-    const where: any = {};
-
-    if (search) {
-      where.OR = [
-        { title: { contains: search, mode: 'insensitive' } },
-        { content: { contains: search, mode: 'insensitive' } },
-        { excerpt: { contains: search, mode: 'insensitive' } },
-      ];
-    }
-
-    if (author) {
-      where.author = {
-        OR: [
-          { username: { contains: author, mode: 'insensitive' } },
-          { firstName: { contains: author, mode: 'insensitive' } },
-          { lastName: { contains: author, mode: 'insensitive' } },
-        ],
-      };
-    }
+    const filters = {
+      author,
+      published,
+      tagSlugs: tags ? tags.split(',').map((slug) => slug.trim()) : undefined,
+    };
 
-    if (published !== undefined) {
-      where.published = published;
-    }
+    // Searches are filtered and paged in SQL; only the page's posts are
+    // loaded here
+    const searchPage = search
+      ? await searchPostPage({
+          ...filters,
+          query: search,
+          limit,
+          offset: skip,
+        })
+      : null;
 
-    if (tags) {
-      const tagSlugs = tags.split(',').map((slug) => slug.trim());
-      where.tags = {
-        some: {
-          tag: {
-            slug: {
-              in: tagSlugs,
-            },
-          },
-        },
-      };
-    }
+    const where = buildPostWhere(
+      searchPage ? { ids: searchPage.ids } : filters
+    );
 
     const [posts, totalCount] = await Promise.all([
       db.post.findMany({
@@ -138,10 +142,9 @@ export const getAllPosts = async (
           },
         },
         orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit,
+        ...(!searchPage && { skip, take: limit }),
       }),
-      db.post.count({ where }),
+      searchPage ? searchPage.totalCount : db.post.count({ where }),
     ]);
 
     const totalPages = Math.ceil(totalCount / limit);
@@ -149,7 +152,7 @@ export const getAllPosts = async (
     res.json({
       success: true,
       data: {
-        posts,
+        posts: await withCoverImageDetails(posts),
         pagination: {
           page,
           limit,
@@ -204,9 +207,11 @@ export const getPostById = async (
       return;
     }
 
+    const [postWithCoverImage] = await withCoverImageDetails([post]);
+
     res.json({
       success: true,
-      data: { post },
+      data: { post: postWithCoverImage },
     });
   } catch (error) {
     console.error('Get post by ID error:', error);
@@ -248,13 +253,26 @@ export const getPostBySlug = async (
     });
 
     if (!post) {
+      // Links made before a rename should land on the post's new slug
+      const redirect = await resolveSlugRedirect(SlugRedirectType.POST, slug);
+
+      if (redirect) {
+        res.json({
+          success: true,
+          data: { redirect },
+        });
+        return;
+      }
+
       res.status(404).json({ error: 'Post not found' });
       return;
     }
 
+    const [postWithCoverImage] = await withCoverImageDetails([post]);
+
     res.json({
       success: true,
-      data: { post },
+      data: { post: postWithCoverImage },
     });
   } catch (error) {
     console.error('Get post by slug error:', error);
@@ -272,15 +290,32 @@ export const createPost = async (
       return;
     }
 
-    // Check if user is admin
-    if (!req.user.isAdmin) {
+    const validatedData = createPostSchema.parse(req.body);
+
+    // A publish time schedules the post instead of publishing it now
+    const publishAt = validatedData.publishAt
+      ? new Date(validatedData.publishAt)
+      : null;
+
+    if (publishAt && publishAt.getTime() <= Date.now()) {
+      res.status(400).json({
+        error: 'Scheduled publish time must be in the future',
+      });
+      return;
+    }
+
+    // Contributors may only write drafts
+    if (
+      (validatedData.published || publishAt) &&
+      !hasPermission(req.user.role, 'posts:publish')
+    ) {
       res.status(403).json({
-        error: 'Access denied. Admin privileges required to create posts.',
+        error: 'Access denied. You do not have permission to publish posts.',
       });
       return;
     }
 
-    const validatedData = createPostSchema.parse(req.body);
+    const published = publishAt ? false : validatedData.published;
 
     // Generate slug from title
     const baseSlug = generateSlug(validatedData.title);
@@ -293,8 +328,9 @@ export const createPost = async (
       content: validatedData.content,
       excerpt: validatedData.excerpt,
       coverImage: validatedData.coverImage,
-      published: validatedData.published,
-      publishedAt: validatedData.published ? new Date() : null,
+      published,
+      publishedAt: published ? new Date() : null,
+      publishAt,
       authorId: req.user.id,
     };
 
@@ -323,6 +359,10 @@ export const createPost = async (
       },
     });
 
+    if (post.publishAt) {
+      schedulePostPublication(post.id, post.publishAt);
+    }
+
     // Handle tag associations after post creation
     if (validatedData.tagIds && validatedData.tagIds.length > 0) {
       await db.postTag.createMany({
@@ -380,7 +420,7 @@ export const createPost = async (
   }
 };
 
-export const updatePost = async (
+export const createDraft = async (
   req: Request,
   res: Response
 ): Promise<void> => {
@@ -390,11 +430,54 @@ export const updatePost = async (
       return;
     }
 
-    // Check if user is admin
-    if (!req.user.isAdmin) {
-      res.status(403).json({
-        error: 'Access denied. Admin privileges required to update posts.',
-      });
+    // The draft is an empty shell; its content lives in the autosave until
+    // the author explicitly saves it
+    const title = 'Untitled draft';
+    const slug = await ensureUniqueSlug(generateSlug(title));
+
+    const post = await db.post.create({
+      data: {
+        title,
+        slug,
+        content: '',
+        published: false,
+        authorId: req.user.id,
+      },
+      include: {
+        author: {
+          select: {
+            id: true,
+            username: true,
+            firstName: true,
+            lastName: true,
+            avatar: true,
+          },
+        },
+        tags: {
+          include: {
+            tag: true,
+          },
+        },
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { post },
+    });
+  } catch (error) {
+    console.error('Create draft error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const updatePost = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
       return;
     }
 
@@ -417,15 +500,51 @@ export const updatePost = async (
       return;
     }
 
-    if (existingPost.authorId !== req.user.id) {
+    if (!canManagePost(req.user, existingPost.authorId)) {
       res.status(403).json({ error: 'Not authorized to update this post' });
       return;
     }
 
+    const publishAt = validatedData.publishAt
+      ? new Date(validatedData.publishAt)
+      : null;
+
+    if (publishAt && publishAt.getTime() <= Date.now()) {
+      res.status(400).json({
+        error: 'Scheduled publish time must be in the future',
+      });
+      return;
+    }
+
+    // Without publish rights only unpublished, unscheduled drafts can change
+    if (
+      (existingPost.published ||
+        existingPost.publishAt ||
+        validatedData.published ||
+        publishAt) &&
+      !hasPermission(req.user.role, 'posts:publish')
+    ) {
+      res.status(403).json({
+        error: 'Access denied. You do not have permission to publish posts.',
+      });
+      return;
+    }
+
+    // Keep the previous version so this save can be reviewed or undone.
+    // Empty drafts created for autosaving have nothing worth keeping.
+    if (existingPost.content) {
+      await createPostRevision(id, req.user.id);
+    }
+
     // Remove tagIds from updateData as it's not a direct field in Post model
     const { tagIds, ...postUpdateFields } = validatedData;
     const updateData: any = { ...postUpdateFields };
 
+    // An explicit null (or empty string) clears a pending schedule
+    if (validatedData.publishAt !== undefined) {
+      updateData.publishAt = publishAt;
+    }
+
     // Update slug if title changed
     if (validatedData.title && validatedData.title !== existingPost.title) {
       const baseSlug = generateSlug(validatedData.title);
@@ -444,8 +563,13 @@ export const updatePost = async (
     }
 
     // Update publishedAt if publishing for first time
-    if (validatedData.published === true && !existingPost.published) {
+    if (publishAt) {
+      // Scheduling takes the post offline until the scheduler publishes it
+      updateData.published = false;
+      updateData.publishedAt = null;
+    } else if (validatedData.published === true && !existingPost.published) {
       updateData.publishedAt = new Date();
+      updateData.publishAt = null;
     } else if (validatedData.published === false) {
       updateData.publishedAt = null;
     }
@@ -489,6 +613,24 @@ export const updatePost = async (
       },
     });
 
+    await recordSlugChange({
+      type: SlugRedirectType.POST,
+      targetId: id,
+      fromSlug: existingPost.slug,
+      toSlug: post.slug,
+    });
+
+    if (!post.published && post.publishAt) {
+      schedulePostPublication(post.id, post.publishAt);
+    } else {
+      cancelScheduledPublication(post.id);
+    }
+
+    // The saved version now supersedes any autosaved copy
+    await db.postAutosave.deleteMany({
+      where: { postId: id },
+    });
+
     res.json({
       success: true,
       data: { post },
@@ -520,14 +662,6 @@ export const deletePost = async (
       return;
     }
 
-    // Check if user is admin
-    if (!req.user.isAdmin) {
-      res.status(403).json({
-        error: 'Access denied. Admin privileges required to delete posts.',
-      });
-      return;
-    }
-
     const { id } = req.params;
 
     if (!id) {
@@ -545,15 +679,33 @@ export const deletePost = async (
       return;
     }
 
-    if (existingPost.authorId !== req.user.id) {
+    if (!canManagePost(req.user, existingPost.authorId)) {
       res.status(403).json({ error: 'Not authorized to delete this post' });
       return;
     }
 
+    // Taking a live post down needs the same rights as publishing it
+    if (
+      (existingPost.published || existingPost.publishAt) &&
+      !hasPermission(req.user.role, 'posts:publish')
+    ) {
+      res.status(403).json({
+        error: 'Access denied. You do not have permission to publish posts.',
+      });
+      return;
+    }
+
     await db.post.delete({
       where: { id },
     });
 
+    // Old slugs have nothing left to point at
+    await db.slugRedirect.deleteMany({
+      where: { targetId: id },
+    });
+
+    cancelScheduledPublication(id);
+
     res.json({
       success: true,
       message: 'Post deleted successfully',
@@ -574,14 +726,6 @@ export const getMyPosts = async (
       return;
     }
 
-    // Check if user is admin
-    if (!req.user.isAdmin) {
-      res.status(403).json({
-        error: 'Access denied. Admin privileges required to manage posts.',
-      });
-      return;
-    }
-
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
     const skip = (page - 1) * limit;
@@ -612,12 +756,16 @@ export const getMyPosts = async (
       db.post.count({ where: { authorId: req.user.id } }),
     ]);
 
+    const commentCounts = await getCommentCounts(posts.map((post) => post.id));
     const totalPages = Math.ceil(totalCount / limit);
 
     res.json({
       success: true,
       data: {
-        posts,
+        posts: posts.map((post) => ({
+          ...post,
+          commentCounts: commentCounts[post.id],
+        })),
         pagination: {
           page,
           limit,
@@ -0,0 +1,328 @@
+import { Request, Response } from 'express';
+import { Prisma, SlugRedirect, SlugRedirectType } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '../db/client';
+
+// Validation schemas
+const slugSchema = z
+  .string()
+  .trim()
+  .min(1, 'Slug is required')
+  .max(200, 'Slug must be less than 200 characters')
+  .regex(
+    /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+    'Slug may only contain lowercase letters, numbers and hyphens'
+  );
+
+const createRedirectSchema = z.object({
+  type: z.nativeEnum(SlugRedirectType),
+  fromSlug: slugSchema,
+  toSlug: slugSchema,
+  productSlug: slugSchema.optional(), // Docs pages only
+});
+
+const redirectListQuerySchema = z.object({
+  type: z.nativeEnum(SlugRedirectType).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+interface RedirectTarget {
+  title: string;
+  slug: string;
+  location: string;
+}
+
+/**
+ * Find the content a slug currently belongs to
+ * @returns The content's id, or null if nothing uses the slug
+ */
+const findLiveTarget = async (
+  type: SlugRedirectType,
+  slug: string,
+  scope: string
+): Promise<string | null> => {
+  switch (type) {
+    case SlugRedirectType.POST: {
+      const post = await db.post.findUnique({ where: { slug } });
+      return post?.id ?? null;
+    }
+    case SlugRedirectType.TAG: {
+      const tag = await db.tag.findUnique({ where: { slug } });
+      return tag?.id ?? null;
+    }
+    case SlugRedirectType.DOCUMENTATION_PRODUCT: {
+      const product = await db.documentationProduct.findUnique({
+        where: { slug },
+      });
+      return product?.id ?? null;
+    }
+    case SlugRedirectType.DOCUMENTATION_PAGE: {
+      const page = await db.documentationPage.findFirst({
+        where: { slug, section: { productId: scope } },
+      });
+      return page?.id ?? null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Look up the current title and location of each redirect's target
+ * @returns The targets by id; deleted content is missing from the map
+ */
+const loadRedirectTargets = async (
+  redirects: SlugRedirect[]
+): Promise<Map<string, RedirectTarget>> => {
+  const idsOf = (type: SlugRedirectType): string[] =>
+    redirects
+      .filter((redirect) => redirect.type === type)
+      .map((redirect) => redirect.targetId);
+
+  const [posts, tags, products, pages] = await Promise.all([
+    db.post.findMany({
+      where: { id: { in: idsOf(SlugRedirectType.POST) } },
+      select: { id: true, title: true, slug: true },
+    }),
+    db.tag.findMany({
+      where: { id: { in: idsOf(SlugRedirectType.TAG) } },
+      select: { id: true, name: true, slug: true },
+    }),
+    db.documentationProduct.findMany({
+      where: { id: { in: idsOf(SlugRedirectType.DOCUMENTATION_PRODUCT) } },
+      select: { id: true, name: true, slug: true },
+    }),
+    db.documentationPage.findMany({
+      where: { id: { in: idsOf(SlugRedirectType.DOCUMENTATION_PAGE) } },
+      select: {
+        id: true,
+        title: true,
+        slug: true,
+        section: {
+          select: {
+            product: {
+              select: { slug: true },
+            },
+          },
+        },
+      },
+    }),
+  ]);
+
+  return new Map<string, RedirectTarget>([
+    ...posts.map(
+      (post) =>
+        [
+          post.id,
+          {
+            title: post.title,
+            slug: post.slug,
+            location: `/post/${post.slug}`,
+          },
+        ] as const
+    ),
+    ...tags.map(
+      (tag) =>
+        [
+          tag.id,
+          { title: tag.name, slug: tag.slug, location: `/?tags=${tag.slug}` },
+        ] as const
+    ),
+    ...products.map(
+      (product) =>
+        [
+          product.id,
+          {
+            title: product.name,
+            slug: product.slug,
+            location: `/docs/${product.slug}`,
+          },
+        ] as const
+    ),
+    ...pages.map(
+      (page) =>
+        [
+          page.id,
+          {
+            title: page.title,
+            slug: page.slug,
+            location: `/docs/${page.section.product.slug}/${page.slug}`,
+          },
+        ] as const
+    ),
+  ]);
+};
+
+export const getRedirects = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { type, page, limit } = redirectListQuerySchema.parse(req.query);
+
+    const skip = (page - 1) * limit;
+    const where: Prisma.SlugRedirectWhereInput = type ? { type } : {};
+
+    const [redirects, totalCount] = await Promise.all([
+      db.slugRedirect.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      db.slugRedirect.count({ where }),
+    ]);
+
+    const targets = await loadRedirectTargets(redirects);
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+      success: true,
+      data: {
+        redirects: redirects.map((redirect) => ({
+          ...redirect,
+          target: targets.get(redirect.targetId) ?? null,
+        })),
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Get redirects error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const createRedirect = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { type, fromSlug, toSlug, productSlug } = createRedirectSchema.parse(
+      req.body
+    );
+
+    // Docs page slugs are only unique within their product
+    let scope = '';
+
+    if (type === SlugRedirectType.DOCUMENTATION_PAGE) {
+      if (!productSlug) {
+        res.status(400).json({
+          error: 'A product is required for documentation page redirects',
+        });
+        return;
+      }
+
+      const product = await db.documentationProduct.findUnique({
+        where: { slug: productSlug },
+      });
+
+      if (!product) {
+        res.status(404).json({ error: 'Product not found' });
+        return;
+      }
+
+      scope = product.id;
+    }
+
+    const targetId = await findLiveTarget(type, toSlug, scope);
+
+    if (!targetId) {
+      res.status(404).json({ error: 'Nothing uses the target slug' });
+      return;
+    }
+
+    // A live slug always wins, so redirecting it would never take effect
+    if (await findLiveTarget(type, fromSlug, scope)) {
+      res.status(400).json({
+        error: 'The old slug is still in use and cannot be redirected',
+      });
+      return;
+    }
+
+    const redirect = await db.slugRedirect.upsert({
+      where: { type_scope_fromSlug: { type, scope, fromSlug } },
+      create: { type, scope, fromSlug, targetId, manual: true },
+      update: { targetId, manual: true },
+    });
+
+    const targets = await loadRedirectTargets([redirect]);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        redirect: {
+          ...redirect,
+          target: targets.get(redirect.targetId) ?? null,
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Create redirect error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const deleteRedirect = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Redirect ID is required' });
+      return;
+    }
+
+    const redirect = await db.slugRedirect.findUnique({
+      where: { id },
+    });
+
+    if (!redirect) {
+      res.status(404).json({ error: 'Redirect not found' });
+      return;
+    }
+
+    await db.slugRedirect.delete({
+      where: { id },
+    });
+
+    res.json({
+      success: true,
+      message: 'Redirect deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete redirect error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,59 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { searchContent } from '../utils/search';
+
+// Validation schemas
+const searchQuerySchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .min(1, 'Search query is required')
+    .max(200, 'Search query must be less than 200 characters'),
+  type: z.enum(['all', 'posts', 'docs']).default('all'),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export const search = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { q, type, page, limit } = searchQuerySchema.parse(req.query);
+
+    const { results, totalCount } = await searchContent({
+      query: q,
+      type,
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+      success: true,
+      data: {
+        results,
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Search error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,290 @@
+import { Request, Response } from 'express';
+import { CampaignStatus, Segment } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '../db/client';
+import {
+  SegmentRules,
+  countSegmentSubscribers,
+  parseSegmentRules,
+  segmentRulesSchema,
+} from '../utils/segments';
+
+// Validation schemas
+const createSegmentSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be less than 100 characters'),
+  description: z
+    .string()
+    .max(500, 'Description must be less than 500 characters')
+    .optional(),
+  rules: segmentRulesSchema,
+});
+
+const updateSegmentSchema = createSegmentSchema.partial();
+
+const previewSegmentSchema = z.object({
+  rules: segmentRulesSchema,
+});
+
+/**
+ * Add the current subscriber count to a segment
+ * @param segment - The segment
+ * @returns The segment with its parsed rules and subscriberCount
+ */
+const withSubscriberCount = async (
+  segment: Segment
+): Promise<
+  Omit<Segment, 'rules'> & { rules: SegmentRules; subscriberCount: number }
+> => {
+  const rules = parseSegmentRules(segment.rules);
+
+  return {
+    ...segment,
+    rules,
+    subscriberCount: await countSegmentSubscribers(rules),
+  };
+};
+
+const findSegmentByName = (
+  name: string,
+  excludeId?: string
+): Promise<{ id: string } | null> => {
+  return db.segment.findFirst({
+    where: {
+      name: { equals: name, mode: 'insensitive' },
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+    select: { id: true },
+  });
+};
+
+export const getSegments = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const segments = await db.segment.findMany({
+      orderBy: { name: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        segments: await Promise.all(segments.map(withSubscriberCount)),
+      },
+    });
+  } catch (error) {
+    console.error('Get segments error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getSegmentById = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Segment ID is required' });
+      return;
+    }
+
+    const segment = await db.segment.findUnique({
+      where: { id },
+    });
+
+    if (!segment) {
+      res.status(404).json({ error: 'Segment not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { segment: await withSubscriberCount(segment) },
+    });
+  } catch (error) {
+    console.error('Get segment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const createSegment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { name, description, rules } = createSegmentSchema.parse(req.body);
+
+    if (await findSegmentByName(name)) {
+      res.status(400).json({
+        error: 'Segment with this name already exists',
+      });
+      return;
+    }
+
+    const segment = await db.segment.create({
+      data: { name, description, rules },
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { segment: await withSubscriberCount(segment) },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Create segment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const updateSegment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Segment ID is required' });
+      return;
+    }
+
+    const data = updateSegmentSchema.parse(req.body);
+
+    const existingSegment = await db.segment.findUnique({
+      where: { id },
+    });
+
+    if (!existingSegment) {
+      res.status(404).json({ error: 'Segment not found' });
+      return;
+    }
+
+    if (data.name && (await findSegmentByName(data.name, id))) {
+      res.status(400).json({
+        error: 'Segment with this name already exists',
+      });
+      return;
+    }
+
+    // Campaigns that are already sending keep the recipients they were
+    // queued with; scheduled ones pick up the new rules when they start
+    const segment = await db.segment.update({
+      where: { id },
+      data,
+    });
+
+    res.json({
+      success: true,
+      data: { segment: await withSubscriberCount(segment) },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Update segment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const deleteSegment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Segment ID is required' });
+      return;
+    }
+
+    const segment = await db.segment.findUnique({
+      where: { id },
+    });
+
+    if (!segment) {
+      res.status(404).json({ error: 'Segment not found' });
+      return;
+    }
+
+    // Deleting the segment would silently widen these to every subscriber
+    const pendingCampaigns = await db.campaign.count({
+      where: {
+        segmentId: id,
+        status: { in: [CampaignStatus.DRAFT, CampaignStatus.SCHEDULED] },
+      },
+    });
+
+    if (pendingCampaigns > 0) {
+      res.status(400).json({
+        error:
+          'This segment is used by draft or scheduled campaigns. Change their audience first.',
+      });
+      return;
+    }
+
+    await db.segment.delete({
+      where: { id },
+    });
+
+    res.json({
+      success: true,
+      message: 'Segment deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete segment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const previewSegment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { rules } = previewSegmentSchema.parse(req.body);
+
+    res.json({
+      success: true,
+      data: { subscriberCount: await countSegmentSubscribers(rules) },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Preview segment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
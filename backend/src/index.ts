@@ -1,11 +1,23 @@
 import app from './app';
 import { config } from './utils/config';
-import { ensureBucketExists } from './utils/minio';
+import { storage } from './utils/storage';
+import {
+  startPublishScheduler,
+  stopPublishScheduler,
+} from './utils/publishScheduler';
+import {
+  startSubscriptionExpiry,
+  stopSubscriptionExpiry,
+} from './utils/newsletter';
+import { startCampaignQueue, stopCampaignQueue } from './utils/campaignQueue';
+import { startDigestScheduler, stopDigestScheduler } from './utils/digest';
+import { startUploadCleanup, stopUploadCleanup } from './utils/uploadCleanup';
 
-// Initialize MinIO bucket and start server
-ensureBucketExists()
+// Initialize upload storage and start server
+storage
+  .init()
   .then(() => {
-    console.log('✅ MinIO bucket initialized successfully');
+    console.log(`✅ ${storage.name} storage initialized successfully`);
     
     const server = app.listen(config.PORT, () => {
       console.log(`🚀 Server running on port ${config.PORT}`);
@@ -13,9 +25,45 @@ ensureBucketExists()
       console.log(`🏥 Health Check: http://localhost:${config.PORT}/health`);
     });
 
+    // Re-arm timers for posts scheduled before the last restart
+    startPublishScheduler()
+      .then((count) => {
+        console.log(`📅 Publish scheduler started (${count} pending posts)`);
+      })
+      .catch((error) => {
+        console.error('❌ Failed to start publish scheduler:', error);
+      });
+
+    // Unconfirmed newsletter signups are dropped once they expire
+    startSubscriptionExpiry();
+
+    // Campaigns interrupted by a restart carry on sending
+    startCampaignQueue();
+
+    try {
+      const nextDigest = startDigestScheduler();
+      if (nextDigest) {
+        console.log(`📰 Next newsletter digest: ${nextDigest.toISOString()}`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to start digest scheduler:', error);
+    }
+
+    // Uploads nothing links to are deleted after the grace period
+    if (startUploadCleanup()) {
+      console.log(
+        `🧹 Upload cleanup enabled (${config.UPLOAD_CLEANUP_GRACE_DAYS} day grace period)`
+      );
+    }
+
     // Graceful shutdown
     process.on('SIGTERM', () => {
       console.log('SIGTERM received, shutting down gracefully');
+      stopPublishScheduler();
+      stopSubscriptionExpiry();
+      stopCampaignQueue();
+      stopDigestScheduler();
+      stopUploadCleanup();
       server.close(() => {
         console.log('Process terminated');
       });
@@ -23,12 +71,17 @@ ensureBucketExists()
 
     process.on('SIGINT', () => {
       console.log('SIGINT received, shutting down gracefully');
+      stopPublishScheduler();
+      stopSubscriptionExpiry();
+      stopCampaignQueue();
+      stopDigestScheduler();
+      stopUploadCleanup();
       server.close(() => {
         console.log('Process terminated');
       });
     });
   })
   .catch((error) => {
-    console.error('❌ Failed to initialize MinIO bucket:', error);
+    console.error(`❌ Failed to initialize ${storage.name} storage:`, error);
     process.exit(1);
   });
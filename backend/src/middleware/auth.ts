@@ -1,7 +1,9 @@
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Role } from '@prisma/client';
 import jwt from 'jsonwebtoken';
 import { config } from '../utils/config';
 import { db } from '../db/client';
+import { Permission, hasPermission } from '../utils/permissions';
 
 interface JwtPayload {
   userId: string;
@@ -15,7 +17,7 @@ declare global {
         id: string;
         email: string;
         username: string;
-        isAdmin: boolean;
+        role: Role;
       };
     }
   }
@@ -45,7 +47,7 @@ export const authenticate = async (
           id: true,
           email: true,
           username: true,
-          isAdmin: true,
+          role: true,
         },
       });
 
@@ -54,12 +56,6 @@ export const authenticate = async (
         return;
       }
 
-      // Check if user is admin
-      if (!user.isAdmin) {
-        res.status(403).json({ error: 'Access denied. Admin privileges required.' });
-        return;
-      }
-
       req.user = user;
       next();
     } catch (jwtError) {
@@ -71,3 +67,70 @@ export const authenticate = async (
     res.status(500).json({ error: 'Internal server error' });
   }
 };
+
+// For public routes that behave differently for signed-in users. Sets
+// req.user when a valid token is sent and carries on anonymously otherwise.
+export const optionalAuthenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    next();
+    return;
+  }
+
+  try {
+    const decoded = jwt.verify(
+      authHeader.substring(7),
+      config.JWT_SECRET
+    ) as JwtPayload;
+
+    const user = await db.user.findUnique({
+      where: { id: decoded.userId },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        role: true,
+      },
+    });
+
+    if (user) {
+      req.user = user;
+    }
+  } catch (error) {
+    // An invalid or expired token is treated like no token
+  }
+
+  next();
+};
+
+// Must run after authenticate; responds 403 unless the user's role grants
+// every listed permission
+export const requirePermission = (
+  ...permissions: Permission[]
+): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const missing = permissions.filter(
+      (permission) => !hasPermission(req.user!.role, permission)
+    );
+
+    if (missing.length > 0) {
+      res.status(403).json({
+        error: 'Access denied. You do not have permission to do this.',
+        missingPermissions: missing,
+      });
+      return;
+    }
+
+    next();
+  };
+};
@@ -6,9 +6,9 @@ import {
   me,
   updateProfile,
   getAllUsers,
-  updateUserAdminStatus,
+  updateUserRole,
 } from '../controllers/auth';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router: RouterType = Router();
 
@@ -45,6 +45,15 @@ const router: RouterType = Router();
  *         bio:
  *           type: string
  *           description: The user bio
+ *         role:
+ *           type: string
+ *           enum: [OWNER, ADMIN, EDITOR, AUTHOR, CONTRIBUTOR, SUBSCRIBER]
+ *           description: The user role
+ *         permissions:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: What the user's role allows, e.g. posts:publish
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -262,7 +271,7 @@ router.put('/profile', authenticate, updateProfile);
  * @swagger
  * /api/auth/users:
  *   get:
- *     summary: Get all users (Admin only)
+ *     summary: Get all users (requires users:manage)
  *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
@@ -286,15 +295,21 @@ router.put('/profile', authenticate, updateProfile);
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Forbidden - Admin access required
+ *         description: Forbidden - users:manage permission required
  */
-router.get('/users', authenticate, getAllUsers);
+router.get(
+  '/users',
+  authenticate,
+  requirePermission('users:manage'),
+  getAllUsers
+);
 
 /**
  * @swagger
- * /api/auth/users/{userId}/admin:
+ * /api/auth/users/{userId}/role:
  *   patch:
- *     summary: Update user admin status (Admin only)
+ *     summary: Assign a role to a user (requires users:manage)
+ *     description: Users cannot change their own role, and only the owner can grant or revoke ownership.
  *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
@@ -312,14 +327,14 @@ router.get('/users', authenticate, getAllUsers);
  *           schema:
  *             type: object
  *             required:
- *               - isAdmin
+ *               - role
  *             properties:
- *               isAdmin:
- *                 type: boolean
- *                 description: Whether the user should be an admin
+ *               role:
+ *                 type: string
+ *                 enum: [OWNER, ADMIN, EDITOR, AUTHOR, CONTRIBUTOR, SUBSCRIBER]
  *     responses:
  *       200:
- *         description: User admin status updated successfully
+ *         description: User role updated successfully
  *         content:
  *           application/json:
  *             schema:
@@ -337,10 +352,15 @@ router.get('/users', authenticate, getAllUsers);
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Forbidden - Admin access required
+ *         description: Forbidden - users:manage permission required
  *       404:
  *         description: User not found
  */
-router.patch('/users/:userId/admin', authenticate, updateUserAdminStatus);
+router.patch(
+  '/users/:userId/role',
+  authenticate,
+  requirePermission('users:manage'),
+  updateUserRole
+);
 
 export default router;
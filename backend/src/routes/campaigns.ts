@@ -0,0 +1,334 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import {
+  getCampaigns,
+  getCampaignById,
+  createCampaign,
+  updateCampaign,
+  deleteCampaign,
+  sendCampaign,
+  cancelCampaignSchedule,
+  sendTestCampaign,
+  getCampaignReport,
+  previewDigest,
+} from '../controllers/campaigns';
+
+const router: RouterType = Router();
+
+// Campaigns go out to every confirmed subscriber, so they share the
+// newsletter permission
+router.use(authenticate, requirePermission('newsletter:manage'));
+
+/**
+ * @swagger
+ * /api/campaigns:
+ *   get:
+ *     summary: List newsletter campaigns
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [DRAFT, SCHEDULED, SENDING, SENT]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Campaigns with delivery counts by status
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ */
+router.get('/', getCampaigns);
+
+/**
+ * @swagger
+ * /api/campaigns/digest/preview:
+ *   get:
+ *     summary: Preview the digest of new posts as it would go out now
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The digest email, its posts, schedule and recipient count
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ */
+router.get('/digest/preview', previewDigest);
+
+/**
+ * @swagger
+ * /api/campaigns/{id}:
+ *   get:
+ *     summary: Get a campaign with its failed deliveries
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Campaign details
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ *       404:
+ *         description: Campaign not found
+ */
+router.get('/:id', getCampaignById);
+
+/**
+ * @swagger
+ * /api/campaigns:
+ *   post:
+ *     summary: Create a draft campaign
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - subject
+ *               - content
+ *             properties:
+ *               subject:
+ *                 type: string
+ *               content:
+ *                 type: string
+ *                 description: HTML body from the editor
+ *     responses:
+ *       201:
+ *         description: Campaign created
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ */
+router.post('/', createCampaign);
+
+/**
+ * @swagger
+ * /api/campaigns/{id}:
+ *   put:
+ *     summary: Update a draft or scheduled campaign
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               subject:
+ *                 type: string
+ *               content:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Campaign updated
+ *       400:
+ *         description: Validation error or sending has started
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ *       404:
+ *         description: Campaign not found
+ */
+router.put('/:id', updateCampaign);
+
+/**
+ * @swagger
+ * /api/campaigns/{id}:
+ *   delete:
+ *     summary: Delete a campaign that is not sending
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Campaign deleted
+ *       400:
+ *         description: Campaign is sending
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ *       404:
+ *         description: Campaign not found
+ */
+router.delete('/:id', deleteCampaign);
+
+/**
+ * @swagger
+ * /api/campaigns/{id}/send:
+ *   post:
+ *     summary: Send a campaign now or schedule it
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               scheduledAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Send later instead of now
+ *     responses:
+ *       200:
+ *         description: Campaign queued or scheduled
+ *       400:
+ *         description: Already sent, send time in the past or no subscribers
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ *       404:
+ *         description: Campaign not found
+ */
+router.post('/:id/send', sendCampaign);
+
+/**
+ * @swagger
+ * /api/campaigns/{id}/cancel:
+ *   post:
+ *     summary: Move a scheduled campaign back to drafts
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Schedule cancelled
+ *       400:
+ *         description: Campaign is not scheduled
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ *       404:
+ *         description: Campaign not found
+ */
+router.post('/:id/cancel', cancelCampaignSchedule);
+
+/**
+ * @swagger
+ * /api/campaigns/{id}/test:
+ *   post:
+ *     summary: Send a test copy of a campaign
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 description: Defaults to the signed-in user's address
+ *     responses:
+ *       200:
+ *         description: Test email sent
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ *       404:
+ *         description: Campaign not found
+ *       502:
+ *         description: The mail server rejected the message
+ */
+router.post('/:id/test', sendTestCampaign);
+
+/**
+ * @swagger
+ * /api/campaigns/{id}/report:
+ *   get:
+ *     summary: Get a campaign's open, click and unsubscribe report
+ *     description: Opens and clicks are only recorded while NEWSLETTER_TRACKING_ENABLED is on
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Open and click rates, top links and daily activity
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ *       404:
+ *         description: Campaign not found
+ */
+router.get('/:id/report', getCampaignReport);
+
+export default router;
@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import {
+  getComments,
+  updateCommentStatus,
+  deleteComment,
+} from '../controllers/comments';
+
+const router: RouterType = Router();
+
+// Everything here is the moderation queue; readers use /api/posts/:id/comments
+router.use(authenticate, requirePermission('comments:moderate'));
+
+/**
+ * @swagger
+ * /api/comments:
+ *   get:
+ *     summary: List comments for moderation
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, SPAM, TRASHED]
+ *           default: PENDING
+ *       - in: query
+ *         name: postId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Comments with their post and the number of comments in each status
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ */
+router.get('/', getComments);
+
+/**
+ * @swagger
+ * /api/comments/status:
+ *   patch:
+ *     summary: Approve, reject or trash comments in bulk
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - ids
+ *               - status
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               status:
+ *                 type: string
+ *                 enum: [PENDING, APPROVED, SPAM, TRASHED]
+ *     responses:
+ *       200:
+ *         description: Comments updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ */
+router.patch('/status', updateCommentStatus);
+
+/**
+ * @swagger
+ * /api/comments/{id}:
+ *   delete:
+ *     summary: Permanently delete a comment and its replies
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Comment deleted
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ *       404:
+ *         description: Comment not found
+ */
+router.delete('/:id', deleteComment);
+
+export default router;
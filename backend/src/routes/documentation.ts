@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import type { Router as RouterType } from 'express';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 import {
   getAllProducts,
   getProductBySlug,
@@ -22,13 +22,7 @@ import {
 
 const router: RouterType = Router();
 
-// Middleware to check admin status
-const adminOnly = (req: any, res: any, next: any) => {
-  if (!req.user?.isAdmin) {
-    return res.status(403).json({ error: 'Admin access required' });
-  }
-  next();
-};
+const canManageDocs = requirePermission('documentation:manage');
 
 /**
  * @swagger
@@ -63,12 +57,18 @@ router.get('/products', getAllProducts);
  *     tags:
  *       - Documentation
  *     summary: Get product by slug
+ *     description: If the slug was renamed, data.redirect holds the product's new location instead. Pass a page slug to also get a redirect for a renamed page.
  *     parameters:
  *       - in: path
  *         name: slug
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: string
+ *         description: Slug of the page being viewed
  */
 router.get('/products/:slug', getProductBySlug);
 
@@ -78,7 +78,7 @@ router.get('/products/:slug', getProductBySlug);
  *   post:
  *     tags:
  *       - Documentation
- *     summary: Create a new product (admin only)
+ *     summary: Create a new product (requires documentation:manage)
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -102,7 +102,7 @@ router.get('/products/:slug', getProductBySlug);
  *       403:
  *         description: Admin access required
  */
-router.post('/products', authenticate, adminOnly, createProduct);
+router.post('/products', authenticate, canManageDocs, createProduct);
 
 /**
  * @swagger
@@ -110,7 +110,7 @@ router.post('/products', authenticate, adminOnly, createProduct);
  *   put:
  *     tags:
  *       - Documentation
- *     summary: Update a product (admin only)
+ *     summary: Update a product (requires documentation:manage)
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -126,7 +126,7 @@ router.post('/products', authenticate, adminOnly, createProduct);
  *           schema:
  *             type: object
  */
-router.put('/products/:id', authenticate, adminOnly, updateProduct);
+router.put('/products/:id', authenticate, canManageDocs, updateProduct);
 
 /**
  * @swagger
@@ -134,7 +134,7 @@ router.put('/products/:id', authenticate, adminOnly, updateProduct);
  *   delete:
  *     tags:
  *       - Documentation
- *     summary: Delete a product (admin only)
+ *     summary: Delete a product (requires documentation:manage)
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -144,7 +144,7 @@ router.put('/products/:id', authenticate, adminOnly, updateProduct);
  *         schema:
  *           type: string
  */
-router.delete('/products/:id', authenticate, adminOnly, deleteProduct);
+router.delete('/products/:id', authenticate, canManageDocs, deleteProduct);
 
 // SECTIONS ROUTES
 
@@ -174,7 +174,7 @@ router.get('/products/:productId/sections', getSectionsByProduct);
  *   post:
  *     tags:
  *       - Documentation
- *     summary: Create a new section (admin only)
+ *     summary: Create a new section (requires documentation:manage)
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -187,7 +187,7 @@ router.get('/products/:productId/sections', getSectionsByProduct);
 router.post(
   '/products/:productId/sections',
   authenticate,
-  adminOnly,
+  canManageDocs,
   createSection
 );
 
@@ -197,14 +197,14 @@ router.post(
  *   put:
  *     tags:
  *       - Documentation
- *     summary: Update a section (admin only)
+ *     summary: Update a section (requires documentation:manage)
  *     security:
  *       - bearerAuth: []
  */
 router.put(
   '/products/:productId/sections/:sectionId',
   authenticate,
-  adminOnly,
+  canManageDocs,
   updateSection
 );
 
@@ -214,14 +214,14 @@ router.put(
  *   delete:
  *     tags:
  *       - Documentation
- *     summary: Delete a section (admin only)
+ *     summary: Delete a section (requires documentation:manage)
  *     security:
  *       - bearerAuth: []
  */
 router.delete(
   '/products/:productId/sections/:sectionId',
   authenticate,
-  adminOnly,
+  canManageDocs,
   deleteSection
 );
 
@@ -231,14 +231,14 @@ router.delete(
  *   post:
  *     tags:
  *       - Documentation
- *     summary: Reorder sections in a product (admin only)
+ *     summary: Reorder sections in a product (requires documentation:manage)
  *     security:
  *       - bearerAuth: []
  */
 router.post(
   '/products/:productId/sections/reorder',
   authenticate,
-  adminOnly,
+  canManageDocs,
   reorderSections
 );
 
@@ -271,6 +271,7 @@ router.get('/sections/:sectionId/pages', getPagesBySection);
  *     tags:
  *       - Documentation
  *     summary: Get a page by slug
+ *     description: If the slug was renamed, data.redirect holds the page's new location instead.
  *     parameters:
  *       - in: path
  *         name: sectionId
@@ -291,11 +292,16 @@ router.get('/sections/:sectionId/pages/:slug', getPageBySlug);
  *   post:
  *     tags:
  *       - Documentation
- *     summary: Create a new page (admin only)
+ *     summary: Create a new page (requires documentation:manage)
  *     security:
  *       - bearerAuth: []
  */
-router.post('/sections/:sectionId/pages', authenticate, adminOnly, createPage);
+router.post(
+  '/sections/:sectionId/pages',
+  authenticate,
+  canManageDocs,
+  createPage
+);
 
 /**
  * @swagger
@@ -303,14 +309,14 @@ router.post('/sections/:sectionId/pages', authenticate, adminOnly, createPage);
  *   put:
  *     tags:
  *       - Documentation
- *     summary: Update a page (admin only)
+ *     summary: Update a page (requires documentation:manage)
  *     security:
  *       - bearerAuth: []
  */
 router.put(
   '/sections/:sectionId/pages/:pageId',
   authenticate,
-  adminOnly,
+  canManageDocs,
   updatePage
 );
 
@@ -320,14 +326,14 @@ router.put(
  *   delete:
  *     tags:
  *       - Documentation
- *     summary: Delete a page (admin only)
+ *     summary: Delete a page (requires documentation:manage)
  *     security:
  *       - bearerAuth: []
  */
 router.delete(
   '/sections/:sectionId/pages/:pageId',
   authenticate,
-  adminOnly,
+  canManageDocs,
   deletePage
 );
 
@@ -337,14 +343,14 @@ router.delete(
  *   post:
  *     tags:
  *       - Documentation
- *     summary: Reorder pages in a section (admin only)
+ *     summary: Reorder pages in a section (requires documentation:manage)
  *     security:
  *       - bearerAuth: []
  */
 router.post(
   '/sections/:sectionId/pages/reorder',
   authenticate,
-  adminOnly,
+  canManageDocs,
   reorderPages
 );
 
@@ -0,0 +1,156 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import { getSiteFeed, getTagFeed, getAuthorFeed } from '../controllers/feeds';
+
+const router: RouterType = Router();
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     FeedContent:
+ *       in: query
+ *       name: content
+ *       schema:
+ *         type: string
+ *         enum: [full, excerpt]
+ *         default: full
+ *       description: Include the full post or only its excerpt
+ *     FeedLimit:
+ *       in: query
+ *       name: limit
+ *       schema:
+ *         type: integer
+ *         default: 20
+ *         maximum: 100
+ *       description: Number of posts in the feed
+ */
+
+/**
+ * @swagger
+ * /feed.xml:
+ *   get:
+ *     summary: Get the RSS 2.0 feed of published posts
+ *     tags: [Feeds]
+ *     parameters:
+ *       - $ref: '#/components/parameters/FeedContent'
+ *       - $ref: '#/components/parameters/FeedLimit'
+ *     responses:
+ *       200:
+ *         description: RSS feed
+ *         content:
+ *           application/rss+xml:
+ *             schema:
+ *               type: string
+ *       304:
+ *         description: Feed not modified since the given ETag or date
+ */
+router.get('/feed.xml', getSiteFeed('rss'));
+
+/**
+ * @swagger
+ * /atom.xml:
+ *   get:
+ *     summary: Get the Atom feed of published posts
+ *     tags: [Feeds]
+ *     parameters:
+ *       - $ref: '#/components/parameters/FeedContent'
+ *       - $ref: '#/components/parameters/FeedLimit'
+ *     responses:
+ *       200:
+ *         description: Atom feed
+ *         content:
+ *           application/atom+xml:
+ *             schema:
+ *               type: string
+ *       304:
+ *         description: Feed not modified since the given ETag or date
+ */
+router.get('/atom.xml', getSiteFeed('atom'));
+
+/**
+ * @swagger
+ * /feed.json:
+ *   get:
+ *     summary: Get the JSON Feed of published posts
+ *     tags: [Feeds]
+ *     parameters:
+ *       - $ref: '#/components/parameters/FeedContent'
+ *       - $ref: '#/components/parameters/FeedLimit'
+ *     responses:
+ *       200:
+ *         description: JSON Feed 1.1 document
+ *         content:
+ *           application/feed+json:
+ *             schema:
+ *               type: object
+ *       304:
+ *         description: Feed not modified since the given ETag or date
+ */
+router.get('/feed.json', getSiteFeed('json'));
+
+/**
+ * @swagger
+ * /tags/{slug}/feed.xml:
+ *   get:
+ *     summary: Get a feed of published posts with a tag
+ *     description: Also served as atom.xml and feed.json under the same path.
+ *     tags: [Feeds]
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tag slug
+ *       - $ref: '#/components/parameters/FeedContent'
+ *       - $ref: '#/components/parameters/FeedLimit'
+ *     responses:
+ *       200:
+ *         description: RSS feed
+ *         content:
+ *           application/rss+xml:
+ *             schema:
+ *               type: string
+ *       304:
+ *         description: Feed not modified since the given ETag or date
+ *       404:
+ *         description: Tag not found
+ */
+router.get('/tags/:slug/feed.xml', getTagFeed('rss'));
+router.get('/tags/:slug/atom.xml', getTagFeed('atom'));
+router.get('/tags/:slug/feed.json', getTagFeed('json'));
+
+/**
+ * @swagger
+ * /authors/{username}/feed.xml:
+ *   get:
+ *     summary: Get a feed of published posts by an author
+ *     description: Also served as atom.xml and feed.json under the same path.
+ *     tags: [Feeds]
+ *     parameters:
+ *       - in: path
+ *         name: username
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Author username
+ *       - $ref: '#/components/parameters/FeedContent'
+ *       - $ref: '#/components/parameters/FeedLimit'
+ *     responses:
+ *       200:
+ *         description: RSS feed
+ *         content:
+ *           application/rss+xml:
+ *             schema:
+ *               type: string
+ *       304:
+ *         description: Feed not modified since the given ETag or date
+ *       404:
+ *         description: Author not found
+ */
+router.get('/authors/:username/feed.xml', getAuthorFeed('rss'));
+router.get('/authors/:username/atom.xml', getAuthorFeed('atom'));
+router.get('/authors/:username/feed.json', getAuthorFeed('json'));
+
+export default router;
@@ -1,15 +1,39 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import type { Router as RouterType } from 'express';
+import multer from 'multer';
 import {
   subscribeToNewsletter,
+  confirmNewsletterSubscription,
   getNewsletterSubscribers,
   exportNewsletterSubscribers,
   unsubscribeFromNewsletter,
+  getNewsletterPreferences,
+  updateNewsletterPreferences,
+  importNewsletterSubscribers,
+  trackCampaignOpen,
+  trackCampaignClick,
+  receiveMailFeedback,
+  receiveDsnMessage,
 } from '../controllers/newsletter';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router: RouterType = Router();
 
+// Subscriber imports are parsed in memory
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+});
+
+// SNS posts its JSON as text/plain, and bounce messages arrive raw
+const feedbackBody = express.json({ type: ['application/json', 'text/plain'] });
+const dsnBody = express.text({
+  type: ['message/rfc822', 'text/plain'],
+  limit: '10mb',
+});
+
 /**
  * @swagger
  * components:
@@ -20,7 +44,7 @@ const router: RouterType = Router();
  *         - id
  *         - email
  *         - subscribedAt
- *         - isActive
+ *         - status
  *       properties:
  *         id:
  *           type: string
@@ -33,9 +57,18 @@ const router: RouterType = Router();
  *           type: string
  *           format: date-time
  *           description: The date the user subscribed
- *         isActive:
- *           type: boolean
- *           description: Whether the subscription is active
+ *         status:
+ *           type: string
+ *           enum: [PENDING, ACTIVE, UNSUBSCRIBED, BOUNCED, COMPLAINED]
+ *           description: PENDING until the address owner confirms the signup; BOUNCED and COMPLAINED addresses are suppressed
+ *         confirmationSentAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         confirmedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
  *     NewsletterResponse:
  *       type: object
  *       properties:
@@ -55,6 +88,7 @@ const router: RouterType = Router();
  * /api/newsletter/subscribe:
  *   post:
  *     summary: Subscribe to newsletter
+ *     description: Creates a pending subscription and emails a confirmation link. Nothing else is sent until the link is followed.
  *     tags: [Newsletter]
  *     requestBody:
  *       required: true
@@ -69,49 +103,88 @@ const router: RouterType = Router();
  *                 type: string
  *                 format: email
  *                 description: Email address to subscribe
+ *               tagIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Topics of interest; leave empty for everything
  *     responses:
  *       201:
- *         description: Successfully subscribed to newsletter
+ *         description: Confirmation email sent
+ *       200:
+ *         description: Confirmation email sent to a returning or pending subscriber
+ *       400:
+ *         description: Validation error or email already subscribed
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/NewsletterResponse'
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error or the confirmation email could not be sent
+ */
+router.post('/subscribe', subscribeToNewsletter);
+
+/**
+ * @swagger
+ * /api/newsletter/confirm:
+ *   post:
+ *     summary: Confirm a pending subscription
+ *     tags: [Newsletter]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: The token from the confirmation email
+ *     responses:
  *       200:
- *         description: Successfully resubscribed to newsletter
+ *         description: Subscription confirmed
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/NewsletterResponse'
  *       400:
- *         description: Validation error or email already subscribed
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
+ *         description: Invalid or expired token
  *       500:
  *         description: Internal server error
  */
-router.post('/subscribe', subscribeToNewsletter);
+router.post('/confirm', confirmNewsletterSubscription);
 
 /**
  * @swagger
  * /api/newsletter/unsubscribe:
  *   post:
- *     summary: Unsubscribe from newsletter
+ *     summary: Unsubscribe with the signed token from a newsletter email
+ *     description: Also the RFC 8058 one-click endpoint named in the List-Unsubscribe header, which mail clients POST to with the token in the query string
  *     tags: [Newsletter]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         schema:
+ *           type: string
+ *         description: Signed unsubscribe token (one-click requests)
  *     requestBody:
- *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - email
  *             properties:
- *               email:
+ *               token:
  *                 type: string
- *                 format: email
- *                 description: Email address to unsubscribe
+ *                 description: Signed unsubscribe token
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               List-Unsubscribe:
+ *                 type: string
+ *                 enum: [One-Click]
  *     responses:
  *       200:
  *         description: Successfully unsubscribed from newsletter
@@ -125,19 +198,119 @@ router.post('/subscribe', subscribeToNewsletter);
  *                 message:
  *                   type: string
  *       400:
- *         description: Validation error or email already unsubscribed
- *       404:
- *         description: Email not found in newsletter list
+ *         description: Missing or invalid token
  *       500:
  *         description: Internal server error
  */
 router.post('/unsubscribe', unsubscribeFromNewsletter);
 
+/**
+ * @swagger
+ * /api/newsletter/preferences:
+ *   get:
+ *     summary: Get subscription settings using a signed unsubscribe token
+ *     tags: [Newsletter]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The subscriber's email, status, digest opt-in and topics
+ *       400:
+ *         description: Missing or invalid token
+ *       500:
+ *         description: Internal server error
+ *   put:
+ *     summary: Change subscription settings using a signed unsubscribe token
+ *     tags: [Newsletter]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *               subscribed:
+ *                 type: boolean
+ *                 description: False unsubscribes, true resubscribes
+ *               digest:
+ *                 type: boolean
+ *                 description: Also receive the periodic digest of new posts
+ *               tagIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Replaces the topics of interest; empty means everything
+ *     responses:
+ *       200:
+ *         description: Preferences updated
+ *       400:
+ *         description: Validation error or invalid token
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/preferences', getNewsletterPreferences);
+router.put('/preferences', updateNewsletterPreferences);
+
+/**
+ * @swagger
+ * /api/newsletter/open/{token}:
+ *   get:
+ *     summary: Tracking pixel that records a campaign email being opened
+ *     description: Opens are only recorded while NEWSLETTER_TRACKING_ENABLED is on
+ *     tags: [Newsletter]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Signed token for the delivery
+ *     responses:
+ *       200:
+ *         description: A transparent 1x1 GIF, also served for invalid tokens
+ *         content:
+ *           image/gif:
+ *             schema:
+ *               type: string
+ *               format: binary
+ */
+router.get('/open/:token', trackCampaignOpen);
+
+/**
+ * @swagger
+ * /api/newsletter/click/{token}:
+ *   get:
+ *     summary: Record a click on a campaign link and redirect to it
+ *     description: Clicks are only recorded while NEWSLETTER_TRACKING_ENABLED is on; the redirect always happens
+ *     tags: [Newsletter]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Signed token for the delivery and link
+ *     responses:
+ *       302:
+ *         description: Redirect to the original link
+ *       400:
+ *         description: Invalid token
+ */
+router.get('/click/:token', trackCampaignClick);
+
 /**
  * @swagger
  * /api/newsletter/subscribers:
  *   get:
- *     summary: Get all newsletter subscribers (Admin only)
+ *     summary: Get all newsletter subscribers (requires newsletter:manage)
  *     tags: [Newsletter]
  *     security:
  *       - bearerAuth: []
@@ -154,6 +327,13 @@ router.post('/unsubscribe', unsubscribeFromNewsletter);
  *           type: integer
  *           default: 50
  *         description: Number of subscribers per page
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, ACTIVE, UNSUBSCRIBED, BOUNCED, COMPLAINED]
+ *           default: ACTIVE
+ *         description: Bounced and complained subscribers include why they were suppressed
  *     responses:
  *       200:
  *         description: List of newsletter subscribers
@@ -185,20 +365,31 @@ router.post('/unsubscribe', unsubscribeFromNewsletter);
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Forbidden - Admin access required
+ *         description: Forbidden - newsletter:manage permission required
  *       500:
  *         description: Internal server error
  */
-router.get('/subscribers', authenticate, getNewsletterSubscribers);
+router.get(
+  '/subscribers',
+  authenticate,
+  requirePermission('newsletter:manage'),
+  getNewsletterSubscribers
+);
 
 /**
  * @swagger
  * /api/newsletter/export:
  *   get:
- *     summary: Export newsletter subscribers to Excel (Admin only)
+ *     summary: Export newsletter subscribers to Excel (requires newsletter:manage)
  *     tags: [Newsletter]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: segmentId
+ *         schema:
+ *           type: string
+ *         description: Only export confirmed subscribers in this segment
  *     responses:
  *       200:
  *         description: Excel file with newsletter subscribers
@@ -210,10 +401,157 @@ router.get('/subscribers', authenticate, getNewsletterSubscribers);
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Forbidden - Admin access required
+ *         description: Forbidden - newsletter:manage permission required
+ *       404:
+ *         description: Segment not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  '/export',
+  authenticate,
+  requirePermission('newsletter:manage'),
+  exportNewsletterSubscribers
+);
+
+/**
+ * @swagger
+ * /api/newsletter/import:
+ *   post:
+ *     summary: Import subscribers from a CSV or XLSX file (requires newsletter:manage)
+ *     description: Dry run by default. The response reports which rows would be new, reactivated, invalid or duplicates; send dryRun=false to apply it.
+ *     tags: [Newsletter]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               emailColumn:
+ *                 type: string
+ *                 description: Header of the email column; guessed when omitted
+ *               subscribedAtColumn:
+ *                 type: string
+ *                 description: Header of the signup date column; guessed when omitted, empty for none
+ *               reactivateUnsubscribed:
+ *                 type: string
+ *                 enum: ['true', 'false']
+ *                 default: 'false'
+ *                 description: Also resubscribe addresses that unsubscribed here
+ *               dryRun:
+ *                 type: string
+ *                 enum: ['true', 'false']
+ *                 default: 'true'
+ *     responses:
+ *       200:
+ *         description: Import report, applied unless dryRun is true
+ *       400:
+ *         description: Missing, unreadable or oversized file, or unknown column
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - newsletter:manage permission required
  *       500:
  *         description: Internal server error
  */
-router.get('/export', authenticate, exportNewsletterSubscribers);
+router.post(
+  '/import',
+  authenticate,
+  requirePermission('newsletter:manage'),
+  importUpload.single('file'),
+  importNewsletterSubscribers
+);
+
+/**
+ * @swagger
+ * /api/newsletter/feedback:
+ *   post:
+ *     summary: Bounce and complaint webhook for the mail provider
+ *     description: Accepts Amazon SES notifications through SNS (subscription confirmations included), Postmark bounce and spam complaint webhooks, or generic JSON. Hard bounces and complaints put the address on the suppression list and mark its subscriber BOUNCED or COMPLAINED; soft bounces are ignored. Disabled until MAIL_WEBHOOK_SECRET is set.
+ *     tags: [Newsletter]
+ *     parameters:
+ *       - in: query
+ *         name: secret
+ *         schema:
+ *           type: string
+ *         description: MAIL_WEBHOOK_SECRET; can also be sent in the X-Webhook-Secret header
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             oneOf:
+ *               - type: object
+ *                 description: SNS message
+ *               - type: object
+ *                 description: Postmark webhook
+ *               - type: object
+ *                 description: Generic event; also accepted as an array or under an events key
+ *                 required:
+ *                   - type
+ *                   - email
+ *                 properties:
+ *                   type:
+ *                     type: string
+ *                     enum: [bounce, complaint]
+ *                   email:
+ *                     type: string
+ *                     format: email
+ *                   permanent:
+ *                     type: boolean
+ *                     default: true
+ *                     description: False for soft bounces
+ *                   reason:
+ *                     type: string
+ *     responses:
+ *       200:
+ *         description: Notification processed, with how many addresses were suppressed
+ *       400:
+ *         description: Unrecognized notification format
+ *       401:
+ *         description: Invalid webhook secret
+ *       404:
+ *         description: MAIL_WEBHOOK_SECRET is not set
+ */
+router.post('/feedback', feedbackBody, receiveMailFeedback);
+
+/**
+ * @swagger
+ * /api/newsletter/feedback/dsn:
+ *   post:
+ *     summary: Process a raw bounce or spam complaint message from the bounce mailbox
+ *     description: For piping mail delivered to the bounce address straight from the mail server. Reads delivery status notifications (RFC 3464) and abuse reports (RFC 5965); other messages are accepted and ignored.
+ *     tags: [Newsletter]
+ *     parameters:
+ *       - in: query
+ *         name: secret
+ *         schema:
+ *           type: string
+ *         description: MAIL_WEBHOOK_SECRET; can also be sent in the X-Webhook-Secret header
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         message/rfc822:
+ *           schema:
+ *             type: string
+ *     responses:
+ *       200:
+ *         description: Message processed, with how many addresses were suppressed
+ *       400:
+ *         description: Empty or missing message
+ *       401:
+ *         description: Invalid webhook secret
+ *       404:
+ *         description: MAIL_WEBHOOK_SECRET is not set
+ */
+router.post('/feedback/dsn', dsnBody, receiveDsnMessage);
 
 export default router;
@@ -5,11 +5,27 @@ import {
   getPostById,
   getPostBySlug,
   createPost,
+  createDraft,
   updatePost,
   deletePost,
   getMyPosts,
 } from '../controllers/posts';
-import { authenticate } from '../middleware/auth';
+import {
+  getPostRevisions,
+  getPostRevisionDiff,
+  restorePostRevision,
+} from '../controllers/postRevisions';
+import {
+  getPostAutosave,
+  savePostAutosave,
+  discardPostAutosave,
+} from '../controllers/postAutosave';
+import { getPostComments, createComment } from '../controllers/comments';
+import {
+  authenticate,
+  optionalAuthenticate,
+  requirePermission,
+} from '../middleware/auth';
 
 const router: RouterType = Router();
 
@@ -51,6 +67,10 @@ const router: RouterType = Router();
  *           type: string
  *           format: date-time
  *           description: The date the post was published
+ *         publishAt:
+ *           type: string
+ *           format: date-time
+ *           description: When a scheduled post will be published automatically
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -91,6 +111,38 @@ const router: RouterType = Router();
  *                   type: boolean
  *                 hasPrevPage:
  *                   type: boolean
+ *     PostRevision:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           description: The auto-generated id of the revision
+ *         title:
+ *           type: string
+ *           description: The post title at the time of the snapshot
+ *         excerpt:
+ *           type: string
+ *           description: The post excerpt at the time of the snapshot
+ *         coverImage:
+ *           type: string
+ *           description: The cover image URL at the time of the snapshot
+ *         tagIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: The ids of the tags attached at the time of the snapshot
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           description: The date the snapshot was taken
+ *     DiffSegment:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [equal, insert, delete]
+ *         value:
+ *           type: string
  *     PostResponse:
  *       type: object
  *       properties:
@@ -189,6 +241,7 @@ router.get('/my', authenticate, getMyPosts);
  * /api/posts/slug/{slug}:
  *   get:
  *     summary: Get post by slug
+ *     description: If the slug was renamed, data.redirect holds the post's new slug and location instead.
  *     tags: [Posts]
  *     parameters:
  *       - in: path
@@ -270,6 +323,10 @@ router.get('/:id', getPostById);
  *               published:
  *                 type: boolean
  *                 default: false
+ *               publishAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Schedule the post for a future time instead of publishing now
  *     responses:
  *       201:
  *         description: Post created successfully
@@ -284,7 +341,34 @@ router.get('/:id', getPostById);
  *       500:
  *         description: Internal server error
  */
-router.post('/', authenticate, createPost);
+router.post('/', authenticate, requirePermission('posts:create'), createPost);
+
+/**
+ * @swagger
+ * /api/posts/draft:
+ *   post:
+ *     summary: Create an empty draft post to autosave into
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Draft created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PostResponse'
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  '/draft',
+  authenticate,
+  requirePermission('posts:create'),
+  createDraft
+);
 
 /**
  * @swagger
@@ -321,6 +405,11 @@ router.post('/', authenticate, createPost);
  *                 format: uri
  *               published:
  *                 type: boolean
+ *               publishAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: Schedule the post for a future time, or null to cancel the schedule
  *     responses:
  *       200:
  *         description: Post updated successfully
@@ -333,13 +422,13 @@ router.post('/', authenticate, createPost);
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Forbidden - not the post author
+ *         description: Forbidden - missing permission or not the post author
  *       404:
  *         description: Post not found
  *       500:
  *         description: Internal server error
  */
-router.put('/:id', authenticate, updatePost);
+router.put('/:id', authenticate, requirePermission('posts:create'), updatePost);
 
 /**
  * @swagger
@@ -371,12 +460,343 @@ router.put('/:id', authenticate, updatePost);
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Forbidden - not the post author
+ *         description: Forbidden - missing permission or not the post author
+ *       404:
+ *         description: Post not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission('posts:delete'),
+  deletePost
+);
+
+/**
+ * @swagger
+ * /api/posts/{id}/autosave:
+ *   get:
+ *     summary: Get the autosaved copy of a post
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The post id
+ *     responses:
+ *       200:
+ *         description: The autosaved copy (or null) and whether it is newer than the saved post
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission or not the post author
+ *       404:
+ *         description: Post not found
+ *       500:
+ *         description: Internal server error
+ *   put:
+ *     summary: Autosave work in progress without touching the saved post
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The post id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 maxLength: 200
+ *               content:
+ *                 type: string
+ *               excerpt:
+ *                 type: string
+ *                 maxLength: 500
+ *               coverImage:
+ *                 type: string
+ *               tagIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Autosave stored successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission or not the post author
+ *       404:
+ *         description: Post not found
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     summary: Discard the autosaved copy of a post
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The post id
+ *     responses:
+ *       200:
+ *         description: Autosave discarded successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission or not the post author
+ *       404:
+ *         description: Post not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  '/:id/autosave',
+  authenticate,
+  requirePermission('posts:create'),
+  getPostAutosave
+);
+router.put(
+  '/:id/autosave',
+  authenticate,
+  requirePermission('posts:create'),
+  savePostAutosave
+);
+router.delete(
+  '/:id/autosave',
+  authenticate,
+  requirePermission('posts:create'),
+  discardPostAutosave
+);
+
+/**
+ * @swagger
+ * /api/posts/{id}/revisions:
+ *   get:
+ *     summary: List the saved revisions of a post
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The post id
+ *     responses:
+ *       200:
+ *         description: Revisions ordered from newest to oldest
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     revisions:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/PostRevision'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission or not the post author
+ *       404:
+ *         description: Post not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  '/:id/revisions',
+  authenticate,
+  requirePermission('posts:create'),
+  getPostRevisions
+);
+
+/**
+ * @swagger
+ * /api/posts/{id}/revisions/diff:
+ *   get:
+ *     summary: Get a word-level diff between two revisions of a post
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The post id
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The revision id to compare from, or "current"
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           default: current
+ *         description: The revision id to compare to, or "current"
+ *     responses:
+ *       200:
+ *         description: Diff segments for the title, excerpt and content plus cover image and tag changes
+ *       400:
+ *         description: Missing revision to compare from
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission or not the post author
+ *       404:
+ *         description: Post or revision not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  '/:id/revisions/diff',
+  authenticate,
+  requirePermission('posts:create'),
+  getPostRevisionDiff
+);
+
+/**
+ * @swagger
+ * /api/posts/{id}/revisions/{revisionId}/restore:
+ *   post:
+ *     summary: Restore a post to a saved revision
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The post id
+ *       - in: path
+ *         name: revisionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The revision id to restore
+ *     responses:
+ *       200:
+ *         description: Post restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PostResponse'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission or not the post author
+ *       404:
+ *         description: Post or revision not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  '/:id/revisions/:revisionId/restore',
+  authenticate,
+  requirePermission('posts:create'),
+  restorePostRevision
+);
+
+/**
+ * @swagger
+ * /api/posts/{id}/comments:
+ *   get:
+ *     summary: Get the approved comments on a published post
+ *     description: Replies are nested under their parent comment.
+ *     tags: [Comments]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The post id
+ *     responses:
+ *       200:
+ *         description: Threaded comments
+ *       404:
+ *         description: Post not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/comments', getPostComments);
+
+/**
+ * @swagger
+ * /api/posts/{id}/comments:
+ *   post:
+ *     summary: Comment on a published post
+ *     description: Anyone can comment. Without a bearer token a name, email and reCAPTCHA token are required. Comments wait for moderation unless the author can moderate comments.
+ *     tags: [Comments]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The post id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *               parentId:
+ *                 type: string
+ *                 description: The approved comment being replied to
+ *               authorName:
+ *                 type: string
+ *               authorEmail:
+ *                 type: string
+ *                 format: email
+ *               recaptchaToken:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Comment submitted
+ *       400:
+ *         description: Validation error, failed CAPTCHA or invalid parent
  *       404:
  *         description: Post not found
  *       500:
  *         description: Internal server error
  */
-router.delete('/:id', authenticate, deletePost);
+router.post('/:id/comments', optionalAuthenticate, createComment);
 
 export default router;
@@ -0,0 +1,120 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import {
+  getRedirects,
+  createRedirect,
+  deleteRedirect,
+} from '../controllers/redirects';
+
+const router: RouterType = Router();
+
+// Redirects recorded on renames are followed by the public slug lookups; this
+// is where they are reviewed and where manual ones are added
+router.use(authenticate, requirePermission('redirects:manage'));
+
+/**
+ * @swagger
+ * /api/redirects:
+ *   get:
+ *     summary: List slug redirects
+ *     tags: [Redirects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [POST, TAG, DOCUMENTATION_PRODUCT, DOCUMENTATION_PAGE]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Redirects with the current title and location of their target
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ */
+router.get('/', getRedirects);
+
+/**
+ * @swagger
+ * /api/redirects:
+ *   post:
+ *     summary: Add a manual redirect from an old slug to existing content
+ *     tags: [Redirects]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *               - fromSlug
+ *               - toSlug
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [POST, TAG, DOCUMENTATION_PRODUCT, DOCUMENTATION_PAGE]
+ *               fromSlug:
+ *                 type: string
+ *               toSlug:
+ *                 type: string
+ *                 description: The current slug of the content to redirect to
+ *               productSlug:
+ *                 type: string
+ *                 description: Required for documentation pages
+ *     responses:
+ *       201:
+ *         description: Redirect created
+ *       400:
+ *         description: Validation error or the old slug is still in use
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ *       404:
+ *         description: Target content not found
+ */
+router.post('/', createRedirect);
+
+/**
+ * @swagger
+ * /api/redirects/{id}:
+ *   delete:
+ *     summary: Delete a redirect
+ *     tags: [Redirects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Redirect deleted
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ *       404:
+ *         description: Redirect not found
+ */
+router.delete('/:id', deleteRedirect);
+
+export default router;
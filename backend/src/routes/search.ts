@@ -0,0 +1,114 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import { search } from '../controllers/search';
+
+const router: RouterType = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SearchResult:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [post, doc]
+ *         id:
+ *           type: string
+ *         title:
+ *           type: string
+ *         slug:
+ *           type: string
+ *         productSlug:
+ *           type: string
+ *           description: The documentation product slug (docs only)
+ *         productName:
+ *           type: string
+ *           description: The documentation product name (docs only)
+ *         titleHighlight:
+ *           type: string
+ *           description: The title as HTML with matches wrapped in mark elements
+ *         snippet:
+ *           type: string
+ *           description: Matching excerpts as HTML with matches wrapped in mark elements
+ *         rank:
+ *           type: number
+ *           description: Relevance score; higher is better
+ *         date:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/search:
+ *   get:
+ *     summary: Search published posts and documentation
+ *     description: Full-text search with stemming. Titles weigh more than excerpts, which weigh more than the body. The last word matches as a prefix.
+ *     tags: [Search]
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Search query
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [all, posts, docs]
+ *           default: all
+ *         description: What to search
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 50
+ *         description: Number of results per page
+ *     responses:
+ *       200:
+ *         description: Results ordered by relevance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     results:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/SearchResult'
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         page:
+ *                           type: number
+ *                         limit:
+ *                           type: number
+ *                         totalCount:
+ *                           type: number
+ *                         totalPages:
+ *                           type: number
+ *                         hasNextPage:
+ *                           type: boolean
+ *                         hasPrevPage:
+ *                           type: boolean
+ *       400:
+ *         description: Validation error
+ */
+router.get('/', search);
+
+export default router;
@@ -0,0 +1,227 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import {
+  getSegments,
+  getSegmentById,
+  createSegment,
+  updateSegment,
+  deleteSegment,
+  previewSegment,
+} from '../controllers/segments';
+
+const router: RouterType = Router();
+
+// Segments pick out subscribers for campaigns and exports, so they share the
+// newsletter permission
+router.use(authenticate, requirePermission('newsletter:manage'));
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SegmentRules:
+ *       type: object
+ *       properties:
+ *         tagIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Subscribers interested in any of these tags
+ *         includeAllTopics:
+ *           type: boolean
+ *           default: true
+ *           description: Also match subscribers who picked no topics
+ *         subscribedAfter:
+ *           type: string
+ *           format: date
+ *         subscribedBefore:
+ *           type: string
+ *           format: date
+ *         engagedWithinDays:
+ *           type: integer
+ *           description: Engaged within this many days
+ *         notEngagedWithinDays:
+ *           type: integer
+ *           description: Not engaged within this many days
+ */
+
+/**
+ * @swagger
+ * /api/segments:
+ *   get:
+ *     summary: List subscriber segments with their current size
+ *     tags: [Segments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Segments with subscriber counts
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ */
+router.get('/', getSegments);
+
+/**
+ * @swagger
+ * /api/segments/preview:
+ *   post:
+ *     summary: Count the subscribers matching unsaved segment rules
+ *     tags: [Segments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               rules:
+ *                 $ref: '#/components/schemas/SegmentRules'
+ *     responses:
+ *       200:
+ *         description: The number of confirmed subscribers matching
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ */
+router.post('/preview', previewSegment);
+
+/**
+ * @swagger
+ * /api/segments/{id}:
+ *   get:
+ *     summary: Get a segment
+ *     tags: [Segments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Segment details
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ *       404:
+ *         description: Segment not found
+ */
+router.get('/:id', getSegmentById);
+
+/**
+ * @swagger
+ * /api/segments:
+ *   post:
+ *     summary: Create a segment
+ *     tags: [Segments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - rules
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               rules:
+ *                 $ref: '#/components/schemas/SegmentRules'
+ *     responses:
+ *       201:
+ *         description: Segment created
+ *       400:
+ *         description: Validation error or name already taken
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ */
+router.post('/', createSegment);
+
+/**
+ * @swagger
+ * /api/segments/{id}:
+ *   put:
+ *     summary: Update a segment
+ *     tags: [Segments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               rules:
+ *                 $ref: '#/components/schemas/SegmentRules'
+ *     responses:
+ *       200:
+ *         description: Segment updated
+ *       400:
+ *         description: Validation error or name already taken
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ *       404:
+ *         description: Segment not found
+ */
+router.put('/:id', updateSegment);
+
+/**
+ * @swagger
+ * /api/segments/{id}:
+ *   delete:
+ *     summary: Delete a segment no unsent campaign uses
+ *     tags: [Segments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Segment deleted
+ *       400:
+ *         description: Used by a draft or scheduled campaign
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - missing permission
+ *       404:
+ *         description: Segment not found
+ */
+router.delete('/:id', deleteSegment);
+
+export default router;
@@ -0,0 +1,75 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import {
+  getSitemapIndex,
+  getPostsSitemap,
+  getTagsSitemap,
+  getAuthorsSitemap,
+  getDocsSitemap,
+  getRobotsTxt,
+} from '../controllers/sitemap';
+
+const router: RouterType = Router();
+
+/**
+ * @swagger
+ * /sitemap.xml:
+ *   get:
+ *     summary: Get the sitemap index
+ *     description: Points at the posts, tags, authors and documentation sitemaps.
+ *     tags: [SEO]
+ *     responses:
+ *       200:
+ *         description: Sitemap index
+ *         content:
+ *           application/xml:
+ *             schema:
+ *               type: string
+ */
+router.get('/sitemap.xml', getSitemapIndex);
+
+/**
+ * @swagger
+ * /sitemap-{section}.xml:
+ *   get:
+ *     summary: Get one section of the sitemap
+ *     description: Lists published content only. Documentation pages are left out when their section or product is unpublished.
+ *     tags: [SEO]
+ *     parameters:
+ *       - in: path
+ *         name: section
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [posts, tags, authors, docs]
+ *     responses:
+ *       200:
+ *         description: Sitemap
+ *         content:
+ *           application/xml:
+ *             schema:
+ *               type: string
+ */
+router.get('/sitemap-posts.xml', getPostsSitemap);
+router.get('/sitemap-tags.xml', getTagsSitemap);
+router.get('/sitemap-authors.xml', getAuthorsSitemap);
+router.get('/sitemap-docs.xml', getDocsSitemap);
+
+/**
+ * @swagger
+ * /robots.txt:
+ *   get:
+ *     summary: Get robots.txt
+ *     description: Built from ROBOTS_DISALLOW and ROBOTS_DISALLOW_ALL, and advertises the sitemap.
+ *     tags: [SEO]
+ *     responses:
+ *       200:
+ *         description: robots.txt
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ */
+router.get('/robots.txt', getRobotsTxt);
+
+export default router;
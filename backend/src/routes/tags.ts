@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 import {
   getAllTags,
   getTagById,
@@ -18,9 +18,14 @@ router.get('/slug/:slug', getTagBySlug);
 router.get('/:id', getTagById);
 router.get('/slug/:slug/posts', getPostsByTag);
 
-// Protected routes (admin only)
-router.post('/', authenticate, createTag);
-router.put('/:id', authenticate, updateTag);
-router.delete('/:id', authenticate, deleteTag);
+// Protected routes
+router.post('/', authenticate, requirePermission('tags:manage'), createTag);
+router.put('/:id', authenticate, requirePermission('tags:manage'), updateTag);
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission('tags:manage'),
+  deleteTag
+);
 
 export default router;
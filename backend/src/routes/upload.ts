@@ -1,7 +1,16 @@
 import { Router, type Router as RouterType } from 'express';
 import multer from 'multer';
-import { authenticate } from '../middleware/auth';
-import { uploadImage } from '../controllers/upload';
+import { authenticate, requirePermission } from '../middleware/auth';
+import {
+  completePresignedUpload,
+  createPresignedUpload,
+  getAssets,
+  getOrphanedUploads,
+  updateAsset,
+  uploadAttachment,
+  uploadImage,
+} from '../controllers/upload';
+import { MULTIPART_UPLOAD_MAX_SIZE } from '../utils/uploadTypes';
 
 const router: RouterType = Router();
 
@@ -14,11 +23,114 @@ const upload = multer({
   },
 });
 
+// Per-type limits are checked by the controller
+const attachmentUpload = multer({
+  storage,
+  limits: {
+    fileSize: MULTIPART_UPLOAD_MAX_SIZE,
+  },
+});
+
 /**
  * @route   POST /api/upload/image
- * @desc    Upload an image to MinIO storage
- * @access  Private (requires authentication)
+ * @desc    Upload an image to MinIO storage and add it to the media library
+ * @body    image (file), altText (optional)
+ * @access  Private (requires uploads:create)
+ */
+router.post(
+  '/image',
+  authenticate,
+  requirePermission('uploads:create'),
+  upload.single('image'),
+  uploadImage
+);
+
+/**
+ * @route   POST /api/upload/attachment
+ * @desc    Upload any allowed file and add it to the media library. The type
+ *          comes from the extension and must match the file's contents.
+ *          Up to 50MB; larger files go through /presign. A file the library
+ *          already has returns its existing asset with a 200.
+ * @body    file (file), altText (optional)
+ * @access  Private (requires uploads:create)
+ */
+router.post(
+  '/attachment',
+  authenticate,
+  requirePermission('uploads:create'),
+  attachmentUpload.single('file'),
+  uploadAttachment
+);
+
+/**
+ * @route   POST /api/upload/presign
+ * @desc    Start a direct upload: returns a presigned URL to send the file
+ *          to (a POST form for buckets, a PUT for local storage) and a token
+ *          for /complete. Images up to 20MB; PDFs, MP3/M4A/OGG/WAV
+ *          audio up to 50MB; zip archives up to 100MB; MP4/WebM videos up to
+ *          200MB. The type comes from the file name's extension.
+ * @body    fileName, size (bytes)
+ * @access  Private (requires uploads:create)
+ */
+router.post(
+  '/presign',
+  authenticate,
+  requirePermission('uploads:create'),
+  createPresignedUpload
+);
+
+/**
+ * @route   POST /api/upload/complete
+ * @desc    Finish a direct upload: checks the stored file's size and magic
+ *          bytes, moves it to its content-addressed name and adds it to the
+ *          media library (or returns the existing asset with a 200)
+ * @body    uploadToken, altText (optional)
+ * @access  Private (requires uploads:create)
+ */
+router.post(
+  '/complete',
+  authenticate,
+  requirePermission('uploads:create'),
+  completePresignedUpload
+);
+
+/**
+ * @route   GET /api/upload/assets
+ * @desc    List uploaded files for the media library, newest first
+ * @query   page, limit (max 100), search (file name or alt text), type (image)
+ * @access  Private (requires uploads:create)
+ */
+router.get(
+  '/assets',
+  authenticate,
+  requirePermission('uploads:create'),
+  getAssets
+);
+
+/**
+ * @route   PATCH /api/upload/assets/:id
+ * @desc    Change an uploaded file's alt text. Other people's uploads
+ *          need uploads:manage.
+ * @access  Private (requires uploads:create)
+ */
+router.patch(
+  '/assets/:id',
+  authenticate,
+  requirePermission('uploads:create'),
+  updateAsset
+);
+
+/**
+ * @route   GET /api/upload/orphans
+ * @desc    Dry run of the upload cleanup: files no post, doc page, avatar or
+ *          campaign links to, and when each will be deleted
+ * @access  Private (requires uploads:manage)
  */
-router.post('/image', authenticate, upload.single('image'), uploadImage);
+router.get(
+  '/orphans',
+  authenticate,
+  requirePermission('uploads:manage'),
+  getOrphanedUploads
+);
 
 export default router;
@@ -0,0 +1,58 @@
+import { config } from './config';
+import { htmlToText } from './diff';
+import { escapeHtml } from './mail';
+import type { UnsubscribeLinks } from './newsletter';
+
+export interface RenderedEmail {
+  html: string;
+  text: string;
+}
+
+/**
+ * Wrap a campaign's editor HTML in the newsletter email layout
+ * @param campaign - The campaign subject and content
+ * @param links - The recipient's unsubscribe links; omitted for addresses
+ * that aren't subscribed, such as test sends to someone else
+ * @returns The HTML and plain-text bodies
+ */
+export const renderCampaignEmail = (
+  campaign: {
+    subject: string;
+    content: string;
+  },
+  links?: Pick<UnsubscribeLinks, 'unsubscribeUrl' | 'preferencesUrl'>
+): RenderedEmail => {
+  const siteTitle = escapeHtml(config.SITE_TITLE);
+  const footer = `You're receiving this because you subscribed to the ${config.SITE_TITLE} newsletter.`;
+  const footerLinks = links
+    ? ` <a href="${escapeHtml(links.preferencesUrl)}" style="color:#6b7280;">Manage preferences</a> · <a href="${escapeHtml(links.unsubscribeUrl)}" style="color:#6b7280;">Unsubscribe</a>`
+    : '';
+  const textFooterLinks = links
+    ? `\nManage preferences: ${links.preferencesUrl}\nUnsubscribe: ${links.unsubscribeUrl}`
+    : '';
+
+  // Mail clients ignore stylesheets, so the layout uses inline styles only
+  const html = `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(campaign.subject)}</title>
+  </head>
+  <body style="margin:0;padding:0;background:#f9fafb;">
+    <div style="max-width:600px;margin:0 auto;padding:24px;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;font-size:16px;line-height:1.6;color:#111827;">
+      <p style="margin:0 0 24px;font-size:14px;font-weight:600;color:#6b7280;">
+        <a href="${escapeHtml(config.SITE_URL)}" style="color:#6b7280;text-decoration:none;">${siteTitle}</a>
+      </p>
+      <div style="background:#ffffff;border-radius:8px;padding:32px;">
+        ${campaign.content}
+      </div>
+      <p style="margin:24px 0 0;font-size:12px;color:#6b7280;">${escapeHtml(footer)}${footerLinks}</p>
+    </div>
+  </body>
+</html>`;
+
+  const text = `${htmlToText(campaign.content)}\n\n--\n${footer}\n${config.SITE_URL}${textFooterLinks}`;
+
+  return { html, text };
+};
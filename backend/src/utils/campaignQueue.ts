@@ -0,0 +1,391 @@
+import {
+  CampaignStatus,
+  CampaignType,
+  DeliveryStatus,
+  Prisma,
+  SubscriberStatus,
+} from '@prisma/client';
+import { db } from '../db/client';
+import { config } from './config';
+import { renderCampaignEmail } from './campaignEmail';
+import { addCampaignTracking } from './campaignTracking';
+import { sendMail } from './mail';
+import { applyMailFeedback, getSmtpHardBounce } from './mailFeedback';
+import { getUnsubscribeLinks } from './newsletter';
+import { buildSegmentWhere, parseSegmentRules } from './segments';
+
+// How often the queue looks for due campaigns and retries when idle
+const POLL_INTERVAL_MS = 15 * 1000;
+
+// Retries back off exponentially from this delay
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+// A claimed delivery is hidden from other processes for this long, and
+// retried after it if the process sending it dies
+const CLAIM_LEASE_MS = 10 * 60 * 1000;
+
+// Queuing a large audience can outlast Prisma's default 5 second transaction
+const START_TRANSACTION_TIMEOUT_MS = 2 * 60 * 1000;
+
+let pollTimer: NodeJS.Timeout | null = null;
+let isProcessing = false;
+let isStopped = true;
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms).unref());
+
+/**
+ * Build the filter for a campaign's recipients: every confirmed subscriber,
+ * narrowed to digest opt-ins for digests and to the campaign's segment
+ * @param campaign - The campaign's type and segment
+ * @returns A where clause matching the recipients
+ */
+export const getCampaignRecipientWhere = (campaign: {
+  type: CampaignType;
+  segment: { rules: Prisma.JsonValue } | null;
+}): Prisma.NewsletterSubscriberWhereInput => {
+  return {
+    status: SubscriberStatus.ACTIVE,
+    ...(campaign.type === CampaignType.DIGEST && { digest: true }),
+    ...(campaign.segment &&
+      buildSegmentWhere(parseSegmentRules(campaign.segment.rules))),
+  };
+};
+
+/**
+ * Create a delivery for each of a campaign's recipients
+ * @param tx - The transaction the campaign is being started in
+ * @param campaignId - The campaign to queue
+ * @returns The number of recipients queued
+ */
+const queueRecipients = async (
+  tx: Prisma.TransactionClient,
+  campaignId: string
+): Promise<number> => {
+  const campaign = await tx.campaign.findUniqueOrThrow({
+    where: { id: campaignId },
+    select: { type: true, segment: { select: { rules: true } } },
+  });
+
+  const subscribers = await tx.newsletterSubscriber.findMany({
+    where: getCampaignRecipientWhere(campaign),
+    select: { id: true },
+  });
+
+  const { count } = await tx.campaignDelivery.createMany({
+    data: subscribers.map((subscriber) => ({
+      campaignId,
+      subscriberId: subscriber.id,
+    })),
+    skipDuplicates: true,
+  });
+
+  return count;
+};
+
+/**
+ * Queue a campaign for its recipients and mark it as sending. Both happen in
+ * one transaction, so a campaign that fails to start keeps its old status.
+ * @param campaignId - The campaign to send
+ * @returns The number of recipients queued
+ */
+export const startCampaignDelivery = async (
+  campaignId: string
+): Promise<number> => {
+  const queued = await db.$transaction(
+    async (tx) => {
+      // Conditional update so a campaign is only started once even if
+      // several processes are running the queue
+      const { count } = await tx.campaign.updateMany({
+        where: {
+          id: campaignId,
+          status: { in: [CampaignStatus.DRAFT, CampaignStatus.SCHEDULED] },
+        },
+        data: { status: CampaignStatus.SENDING, scheduledAt: null },
+      });
+
+      return count === 0 ? null : queueRecipients(tx, campaignId);
+    },
+    { timeout: START_TRANSACTION_TIMEOUT_MS }
+  );
+
+  if (queued === null) {
+    return 0;
+  }
+
+  // Nobody to send to; the campaign is done straight away
+  await completeCampaignIfDone(campaignId);
+  kickCampaignQueue();
+
+  return queued;
+};
+
+/**
+ * Queue the recipients of campaigns left sending without any deliveries,
+ * which a crash while starting them used to leave behind. One that still
+ * can't be queued goes back to draft so an editor can fix it.
+ */
+const recoverStalledCampaigns = async (): Promise<void> => {
+  const stalledCampaigns = await db.campaign.findMany({
+    where: { status: CampaignStatus.SENDING, deliveries: { none: {} } },
+    select: { id: true, subject: true },
+  });
+
+  for (const campaign of stalledCampaigns) {
+    try {
+      const queued = await db.$transaction(
+        (tx) => queueRecipients(tx, campaign.id),
+        { timeout: START_TRANSACTION_TIMEOUT_MS }
+      );
+      await completeCampaignIfDone(campaign.id);
+      console.log(
+        `📨 Resumed campaign "${campaign.subject}" (${queued} recipients)`
+      );
+    } catch (error) {
+      console.error(`Error resuming campaign "${campaign.subject}":`, error);
+      await db.campaign.updateMany({
+        where: { id: campaign.id, status: CampaignStatus.SENDING },
+        data: { status: CampaignStatus.DRAFT },
+      });
+    }
+  }
+};
+
+/**
+ * Mark a sending campaign as sent once no delivery is left to attempt
+ * @param campaignId - The campaign to check
+ */
+const completeCampaignIfDone = async (campaignId: string): Promise<void> => {
+  const remaining = await db.campaignDelivery.count({
+    where: { campaignId, status: DeliveryStatus.PENDING },
+  });
+
+  if (remaining === 0) {
+    await db.campaign.updateMany({
+      where: { id: campaignId, status: CampaignStatus.SENDING },
+      data: { status: CampaignStatus.SENT, sentAt: new Date() },
+    });
+  }
+};
+
+/**
+ * Start every scheduled campaign whose time has come
+ */
+const startDueCampaigns = async (): Promise<void> => {
+  const dueCampaigns = await db.campaign.findMany({
+    where: {
+      status: CampaignStatus.SCHEDULED,
+      scheduledAt: { lte: new Date() },
+    },
+    select: { id: true, subject: true },
+  });
+
+  for (const campaign of dueCampaigns) {
+    try {
+      const queued = await startCampaignDelivery(campaign.id);
+      console.log(
+        `📨 Started campaign "${campaign.subject}" (${queued} recipients)`
+      );
+    } catch (error) {
+      // Left scheduled it would fail again on every poll, so an editor has
+      // to fix and reschedule it
+      console.error(`Error starting campaign "${campaign.subject}":`, error);
+      await db.campaign.updateMany({
+        where: { id: campaign.id, status: CampaignStatus.SCHEDULED },
+        data: { status: CampaignStatus.DRAFT, scheduledAt: null },
+      });
+    }
+  }
+};
+
+/**
+ * Attempt the next due delivery
+ * @returns False when nothing was due
+ */
+const processNextDelivery = async (): Promise<boolean> => {
+  const now = new Date();
+  const delivery = await db.campaignDelivery.findFirst({
+    where: {
+      status: DeliveryStatus.PENDING,
+      nextAttemptAt: { lte: now },
+      campaign: { status: CampaignStatus.SENDING },
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+    include: {
+      campaign: { select: { subject: true, content: true } },
+      subscriber: { select: { id: true, email: true, status: true } },
+    },
+  });
+
+  if (!delivery) {
+    return false;
+  }
+
+  // Claim the delivery by bumping its attempt count and moving its next
+  // attempt past the lease. Another process that read the row before the
+  // claim fails the attempts check; one that reads it after no longer sees
+  // it as due.
+  const { count } = await db.campaignDelivery.updateMany({
+    where: {
+      id: delivery.id,
+      status: DeliveryStatus.PENDING,
+      attempts: delivery.attempts,
+      nextAttemptAt: { lte: now },
+    },
+    data: {
+      attempts: { increment: 1 },
+      nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS),
+    },
+  });
+
+  if (count !== 1) {
+    return true;
+  }
+
+  const attempts = delivery.attempts + 1;
+
+  // People who unsubscribed or were suppressed after the campaign started
+  // are skipped
+  if (delivery.subscriber.status !== SubscriberStatus.ACTIVE) {
+    await db.campaignDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: DeliveryStatus.FAILED,
+        lastError:
+          delivery.subscriber.status === SubscriberStatus.UNSUBSCRIBED
+            ? 'Unsubscribed'
+            : 'Suppressed',
+      },
+    });
+  } else {
+    try {
+      const links = getUnsubscribeLinks(delivery.subscriber.id);
+      const { html, text } = renderCampaignEmail(
+        {
+          subject: delivery.campaign.subject,
+          content: config.NEWSLETTER_TRACKING_ENABLED
+            ? addCampaignTracking(delivery.campaign.content, delivery.id)
+            : delivery.campaign.content,
+        },
+        links
+      );
+
+      await sendMail({
+        to: delivery.subscriber.email,
+        subject: delivery.campaign.subject,
+        html,
+        text,
+        headers: links.headers,
+      });
+
+      await db.campaignDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: DeliveryStatus.SENT,
+          sentAt: new Date(),
+          lastError: null,
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // An address that doesn't exist won't start to on a retry
+      const hardBounce = getSmtpHardBounce(error);
+      const giveUp =
+        hardBounce !== null || attempts >= config.CAMPAIGN_MAX_ATTEMPTS;
+
+      if (hardBounce) {
+        await applyMailFeedback(
+          [
+            {
+              email: delivery.subscriber.email,
+              type: 'bounce',
+              permanent: true,
+              detail: hardBounce,
+            },
+          ],
+          'smtp'
+        );
+      }
+
+      await db.campaignDelivery.update({
+        where: { id: delivery.id },
+        data: giveUp
+          ? { status: DeliveryStatus.FAILED, lastError: message }
+          : {
+              lastError: message,
+              nextAttemptAt: new Date(
+                Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)
+              ),
+            },
+      });
+    }
+  }
+
+  await completeCampaignIfDone(delivery.campaignId);
+
+  return true;
+};
+
+/**
+ * Send everything that is due, one email at a time at the configured rate
+ */
+const processQueue = async (): Promise<void> => {
+  if (isProcessing || isStopped) {
+    return;
+  }
+
+  isProcessing = true;
+
+  try {
+    await startDueCampaigns();
+
+    const delay =
+      (60 * 1000) / Math.max(1, config.CAMPAIGN_SEND_RATE_PER_MINUTE);
+
+    while (!isStopped && (await processNextDelivery())) {
+      await sleep(delay);
+    }
+  } catch (error) {
+    console.error('Error processing campaign queue:', error);
+  } finally {
+    isProcessing = false;
+  }
+};
+
+/**
+ * Process the queue now instead of waiting for the next poll
+ */
+export const kickCampaignQueue = (): void => {
+  void processQueue();
+};
+
+/**
+ * Start polling for due campaigns and deliveries. Sending that was cut short
+ * by a restart picks up where it left off.
+ */
+export const startCampaignQueue = (): void => {
+  stopCampaignQueue();
+  isStopped = false;
+
+  pollTimer = setInterval(kickCampaignQueue, POLL_INTERVAL_MS);
+  // Polling must not keep the process alive during shutdown
+  pollTimer.unref();
+
+  recoverStalledCampaigns()
+    .catch((error) => {
+      console.error('Error recovering stalled campaigns:', error);
+    })
+    .finally(kickCampaignQueue);
+};
+
+/**
+ * Stop polling; a delivery already being sent is allowed to finish
+ */
+export const stopCampaignQueue = (): void => {
+  isStopped = true;
+
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+};
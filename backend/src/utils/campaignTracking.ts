@@ -0,0 +1,254 @@
+import { CampaignEventType, DeliveryStatus } from '@prisma/client';
+import { db } from '../db/client';
+import { config } from './config';
+import { escapeHtml } from './mail';
+import { createSignedToken, verifySignedToken } from './signedTokens';
+import { getClickTrackingUrl, getOpenTrackingUrl } from './siteUrls';
+
+// A transparent 1x1 GIF
+export const TRACKING_PIXEL = Buffer.from(
+  'R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7',
+  'base64'
+);
+
+// Delivery ids are cuids, so the first colon separates the id from the URL
+const CLICK_SUBJECT_SEPARATOR = ':';
+
+const unescapeHtmlAttribute = (value: string): string => {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+};
+
+/**
+ * Add an open-tracking pixel to a campaign's content and send its links
+ * through the click-tracking redirect
+ * @param html - The campaign content from the editor
+ * @param deliveryId - The delivery the email is for
+ * @returns The content with tracking added
+ */
+export const addCampaignTracking = (
+  html: string,
+  deliveryId: string
+): string => {
+  // Only web links are wrapped; mailto: and the like go straight through
+  const tracked = html.replace(
+    /(<a\b[^>]*?\bhref=)(["'])(https?:\/\/[^"']+)\2/gi,
+    (_match, start: string, quote: string, href: string) => {
+      const url = unescapeHtmlAttribute(href);
+      const token = createSignedToken(
+        'newsletter-click',
+        `${deliveryId}${CLICK_SUBJECT_SEPARATOR}${url}`
+      );
+
+      return `${start}${quote}${escapeHtml(getClickTrackingUrl(token))}${quote}`;
+    }
+  );
+
+  const pixelUrl = getOpenTrackingUrl(
+    createSignedToken('newsletter-open', deliveryId)
+  );
+
+  return `${tracked}<img src="${escapeHtml(pixelUrl)}" width="1" height="1" alt="" style="display:block;width:1px;height:1px;border:0;">`;
+};
+
+/**
+ * Read a click-tracking token
+ * @param token - The token from the tracked link
+ * @returns The delivery and target URL, or null if the token is invalid
+ */
+export const verifyClickToken = (
+  token: string
+): { deliveryId: string; url: string } | null => {
+  const subject = verifySignedToken('newsletter-click', token);
+  const separatorIndex = subject?.indexOf(CLICK_SUBJECT_SEPARATOR) ?? -1;
+
+  if (!subject || separatorIndex < 1) {
+    return null;
+  }
+
+  return {
+    deliveryId: subject.slice(0, separatorIndex),
+    url: subject.slice(separatorIndex + 1),
+  };
+};
+
+/**
+ * Record an open or click. Either counts as the subscriber engaging, and a
+ * click also counts as an open since images are often blocked.
+ * @param deliveryId - The delivery the email was for
+ * @param type - OPEN or CLICK
+ * @param url - The clicked link
+ */
+export const recordCampaignEvent = async (
+  deliveryId: string,
+  type: typeof CampaignEventType.OPEN | typeof CampaignEventType.CLICK,
+  url?: string
+): Promise<void> => {
+  const delivery = await db.campaignDelivery.findUnique({
+    where: { id: deliveryId },
+    select: { campaignId: true, subscriberId: true },
+  });
+
+  // The campaign or subscriber was deleted since the email went out
+  if (!delivery) {
+    return;
+  }
+
+  const now = new Date();
+
+  await db.$transaction([
+    db.campaignEvent.create({
+      data: {
+        type,
+        url: type === CampaignEventType.CLICK ? url : null,
+        campaignId: delivery.campaignId,
+        deliveryId,
+      },
+    }),
+    db.campaignDelivery.updateMany({
+      where: { id: deliveryId, openedAt: null },
+      data: { openedAt: now },
+    }),
+    ...(type === CampaignEventType.CLICK
+      ? [
+          db.campaignDelivery.updateMany({
+            where: { id: deliveryId, clickedAt: null },
+            data: { clickedAt: now },
+          }),
+        ]
+      : []),
+    db.newsletterSubscriber.update({
+      where: { id: delivery.subscriberId },
+      data: { lastEngagedAt: now },
+    }),
+  ]);
+};
+
+/**
+ * Attribute an unsubscribe to the last campaign the subscriber was sent, so
+ * campaign reports show which emails drove people away
+ * @param subscriberId - The subscriber who unsubscribed
+ */
+export const recordCampaignUnsubscribe = async (
+  subscriberId: string
+): Promise<void> => {
+  const delivery = await db.campaignDelivery.findFirst({
+    where: { subscriberId, status: DeliveryStatus.SENT },
+    orderBy: { sentAt: 'desc' },
+    select: { id: true, campaignId: true },
+  });
+
+  if (!delivery) {
+    return;
+  }
+
+  await db.campaignEvent.create({
+    data: {
+      type: CampaignEventType.UNSUBSCRIBE,
+      campaignId: delivery.campaignId,
+      deliveryId: delivery.id,
+    },
+  });
+};
+
+export interface CampaignReport {
+  trackingEnabled: boolean;
+  summary: {
+    delivered: number;
+    opened: number;
+    clicked: number;
+    unsubscribed: number;
+    openRate: number;
+    clickRate: number;
+  };
+  topLinks: { url: string; clicks: number; uniqueClicks: number }[];
+  timeline: {
+    date: string;
+    opens: number;
+    clicks: number;
+    unsubscribes: number;
+  }[];
+}
+
+const TOP_LINKS_LIMIT = 20;
+
+/**
+ * Summarise a campaign's opens, clicks and unsubscribes. Counts are of
+ * recipients rather than raw events, so one reader opening an email five
+ * times counts once.
+ * @param campaignId - The campaign
+ * @returns The campaign report
+ */
+export const loadCampaignReport = async (
+  campaignId: string
+): Promise<CampaignReport> => {
+  const [delivered, opened, clicked, unsubscribed, topLinks, timeline] =
+    await Promise.all([
+      db.campaignDelivery.count({
+        where: { campaignId, status: DeliveryStatus.SENT },
+      }),
+      db.campaignDelivery.count({
+        where: { campaignId, openedAt: { not: null } },
+      }),
+      db.campaignDelivery.count({
+        where: { campaignId, clickedAt: { not: null } },
+      }),
+      db.campaignEvent
+        .groupBy({
+          by: ['deliveryId'],
+          where: { campaignId, type: CampaignEventType.UNSUBSCRIBE },
+        })
+        .then((groups) => groups.length),
+      db.$queryRaw<{ url: string; clicks: bigint; uniqueClicks: bigint }[]>`
+        SELECT "url",
+          count(*) AS "clicks",
+          count(DISTINCT "deliveryId") AS "uniqueClicks"
+        FROM "campaign_events"
+        WHERE "campaignId" = ${campaignId}
+          AND "type" = 'CLICK'
+          AND "url" IS NOT NULL
+        GROUP BY "url"
+        ORDER BY "clicks" DESC, "url" ASC
+        LIMIT ${TOP_LINKS_LIMIT}
+      `,
+      db.$queryRaw<
+        { date: Date; opens: bigint; clicks: bigint; unsubscribes: bigint }[]
+      >`
+        SELECT date_trunc('day', "createdAt") AS "date",
+          count(DISTINCT "deliveryId") FILTER (WHERE "type" = 'OPEN') AS "opens",
+          count(DISTINCT "deliveryId") FILTER (WHERE "type" = 'CLICK') AS "clicks",
+          count(DISTINCT "deliveryId") FILTER (WHERE "type" = 'UNSUBSCRIBE') AS "unsubscribes"
+        FROM "campaign_events"
+        WHERE "campaignId" = ${campaignId}
+        GROUP BY 1
+        ORDER BY 1 ASC
+      `,
+    ]);
+
+  return {
+    trackingEnabled: config.NEWSLETTER_TRACKING_ENABLED,
+    summary: {
+      delivered,
+      opened,
+      clicked,
+      unsubscribed,
+      openRate: delivered > 0 ? opened / delivered : 0,
+      clickRate: delivered > 0 ? clicked / delivered : 0,
+    },
+    topLinks: topLinks.map((row) => ({
+      url: row.url,
+      clicks: Number(row.clicks),
+      uniqueClicks: Number(row.uniqueClicks),
+    })),
+    timeline: timeline.map((row) => ({
+      date: row.date.toISOString().slice(0, 10),
+      opens: Number(row.opens),
+      clicks: Number(row.clicks),
+      unsubscribes: Number(row.unsubscribes),
+    })),
+  };
+};
@@ -0,0 +1,75 @@
+import { CommentStatus } from '@prisma/client';
+import { db } from '../db/client';
+
+export type CommentTree<T> = T & { replies: CommentTree<T>[] };
+
+export interface CommentCounts {
+  approved: number;
+  pending: number;
+}
+
+/**
+ * Nest a flat list of comments under their parents. Replies whose parent is
+ * not in the list (e.g. it is still pending) are left out.
+ * @param comments - The comments, in display order
+ * @returns The top-level comments with their replies nested inside
+ */
+export const buildCommentTree = <
+  T extends { id: string; parentId: string | null },
+>(
+  comments: T[]
+): CommentTree<T>[] => {
+  const nodes = new Map<string, CommentTree<T>>(
+    comments.map((comment) => [comment.id, { ...comment, replies: [] }])
+  );
+  const roots: CommentTree<T>[] = [];
+
+  for (const node of nodes.values()) {
+    if (!node.parentId) {
+      roots.push(node);
+    } else {
+      nodes.get(node.parentId)?.replies.push(node);
+    }
+  }
+
+  return roots;
+};
+
+/**
+ * Count approved and pending comments for each post
+ * @param postIds - The posts to count comments for
+ * @returns The counts keyed by post id; posts without comments get zeroes
+ */
+export const getCommentCounts = async (
+  postIds: string[]
+): Promise<Record<string, CommentCounts>> => {
+  const counts: Record<string, CommentCounts> = Object.fromEntries(
+    postIds.map((postId) => [postId, { approved: 0, pending: 0 }])
+  );
+
+  if (postIds.length === 0) {
+    return counts;
+  }
+
+  const groups = await db.comment.groupBy({
+    by: ['postId', 'status'],
+    where: {
+      postId: { in: postIds },
+      status: { in: [CommentStatus.APPROVED, CommentStatus.PENDING] },
+    },
+    _count: { _all: true },
+  });
+
+  for (const group of groups) {
+    const postCounts = counts[group.postId];
+    if (!postCounts) continue;
+
+    if (group.status === CommentStatus.APPROVED) {
+      postCounts.approved = group._count._all;
+    } else {
+      postCounts.pending = group._count._all;
+    }
+  }
+
+  return counts;
+};
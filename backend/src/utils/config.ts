@@ -12,7 +12,80 @@ const configSchema = z.object({
   JWT_SECRET: z.string().min(32),
   JWT_EXPIRES_IN: z.string().default('7d'),
   CORS_ORIGIN: z.string().default('http://localhost:5173'),
+  // Public URL of the frontend, used for links in feeds and sitemaps
+  SITE_URL: z.string().url().default('http://localhost:5173'),
+  // Public URL of this API, used where mail clients call it directly
+  API_URL: z.string().url().default('http://localhost:3000'),
+  SITE_TITLE: z.string().default('Blog'),
+  SITE_DESCRIPTION: z.string().default('Latest posts'),
+  // Comma-separated paths crawlers should skip; ROBOTS_DISALLOW_ALL hides the
+  // whole site, e.g. on staging
+  ROBOTS_DISALLOW: z
+    .string()
+    .default('/dashboard,/profile,/create,/edit,/admin,/login,/register'),
+  ROBOTS_DISALLOW_ALL: z
+    .string()
+    .transform((val) => val === 'true')
+    .default('false'),
   RECAPTCHA_SECRET_KEY: z.string().optional(),
+  // Outgoing mail; MAIL_TRANSPORT=log prints messages instead of sending them
+  MAIL_TRANSPORT: z.enum(['smtp', 'log']).default('smtp'),
+  MAIL_FROM: z.string().default('Blog <no-reply@localhost>'),
+  SMTP_HOST: z.string().default('localhost'),
+  SMTP_PORT: z.string().transform(Number).default('1025'),
+  SMTP_SECURE: z
+    .string()
+    .transform((val) => val === 'true')
+    .default('false'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASS: z.string().optional(),
+  // Shared secret for the bounce and complaint webhooks; they are disabled
+  // until it is set
+  MAIL_WEBHOOK_SECRET: z.string().optional(),
+  // How long a newsletter signup waits for confirmation before it is dropped
+  NEWSLETTER_CONFIRMATION_TTL_HOURS: z.string().transform(Number).default('48'),
+  // Campaign sending is throttled to stay within the SMTP provider's limits
+  CAMPAIGN_SEND_RATE_PER_MINUTE: z.string().transform(Number).default('60'),
+  CAMPAIGN_MAX_ATTEMPTS: z.string().transform(Number).default('4'),
+  // Open and click tracking in campaign emails. Turning it off leaves out the
+  // tracking pixel and link redirects from emails sent afterwards, and stops
+  // recording opens and clicks from emails already sent.
+  NEWSLETTER_TRACKING_ENABLED: z
+    .string()
+    .transform((val) => val === 'true')
+    .default('true'),
+  // Digest of newly published posts for subscribers who opted in. The
+  // schedule is a cron expression; DIGEST_TAGS limits it to comma-separated
+  // tag slugs.
+  DIGEST_ENABLED: z
+    .string()
+    .transform((val) => val === 'true')
+    .default('false'),
+  DIGEST_SCHEDULE: z.string().default('0 9 * * 1'),
+  DIGEST_TIMEZONE: z.string().default('UTC'),
+  DIGEST_TAGS: z.string().default(''),
+  DIGEST_MAX_POSTS: z.string().transform(Number).default('20'),
+  // Where uploads are stored: the MinIO container, any S3-compatible
+  // service, or a directory served by the API itself
+  STORAGE_DRIVER: z.enum(['minio', 's3', 'local']).default('minio'),
+  LOCAL_STORAGE_DIR: z.string().default('uploads'),
+  S3_ENDPOINT: z.string().default('s3.amazonaws.com'),
+  S3_PORT: z.string().transform(Number).optional(),
+  S3_USE_SSL: z
+    .string()
+    .transform((val) => val === 'true')
+    .default('true'),
+  S3_REGION: z.string().default('us-east-1'),
+  S3_BUCKET: z.string().optional(),
+  S3_ACCESS_KEY: z.string().optional(),
+  S3_SECRET_KEY: z.string().optional(),
+  // Address buckets as endpoint/bucket rather than bucket.endpoint
+  S3_PATH_STYLE: z
+    .string()
+    .transform((val) => val === 'true')
+    .default('false'),
+  // Public base URL of the bucket, e.g. a CDN in front of it
+  S3_PUBLIC_URL: z.string().url().optional(),
   MINIO_ENDPOINT: z.string().default('localhost'),
   MINIO_PORT: z.string().transform(Number).default('9000'),
   MINIO_EXTERNAL_ENDPOINT: z.string().default('localhost'),
@@ -24,18 +97,85 @@ const configSchema = z.object({
     .transform((val) => val === 'true')
     .default('false'),
   MINIO_BUCKET: z.string().default('blog-images'),
+  // Uploaded images are resized to these comma-separated widths, in each of
+  // the formats, for responsive srcsets
+  IMAGE_VARIANT_WIDTHS: z.string().default('320,640,960,1280,1920'),
+  IMAGE_VARIANT_FORMATS: z.string().default('avif,webp'),
+  // Daily cleanup of uploads no post, revision, doc page, avatar or campaign
+  // links to. Objects are deleted once they have been unreferenced for the
+  // grace period, which must leave time for presigned uploads to finish.
+  UPLOAD_CLEANUP_ENABLED: z
+    .string()
+    .transform((val) => val === 'true')
+    .default('false'),
+  UPLOAD_CLEANUP_GRACE_DAYS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().min(1))
+    .default('7'),
+});
+
+const configSchemaWithStorage = configSchema.superRefine((value, ctx) => {
+  if (value.STORAGE_DRIVER !== 's3') {
+    return;
+  }
+
+  for (const key of ['S3_BUCKET', 'S3_ACCESS_KEY', 'S3_SECRET_KEY'] as const) {
+    if (!value[key]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [key],
+        message: `${key} is required when STORAGE_DRIVER is s3`,
+      });
+    }
+  }
 });
 
 const parseConfig = (): z.infer<typeof configSchema> => {
   try {
-    return configSchema.parse({
+    return configSchemaWithStorage.parse({
       NODE_ENV: process.env.NODE_ENV,
       PORT: process.env.PORT,
       DATABASE_URL: process.env.DATABASE_URL,
       JWT_SECRET: process.env.JWT_SECRET,
       JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN,
       CORS_ORIGIN: process.env.CORS_ORIGIN,
+      SITE_URL: process.env.SITE_URL,
+      API_URL: process.env.API_URL,
+      SITE_TITLE: process.env.SITE_TITLE,
+      SITE_DESCRIPTION: process.env.SITE_DESCRIPTION,
+      ROBOTS_DISALLOW: process.env.ROBOTS_DISALLOW,
+      ROBOTS_DISALLOW_ALL: process.env.ROBOTS_DISALLOW_ALL,
       RECAPTCHA_SECRET_KEY: process.env.RECAPTCHA_SECRET_KEY,
+      MAIL_TRANSPORT: process.env.MAIL_TRANSPORT,
+      MAIL_FROM: process.env.MAIL_FROM,
+      SMTP_HOST: process.env.SMTP_HOST,
+      SMTP_PORT: process.env.SMTP_PORT,
+      SMTP_SECURE: process.env.SMTP_SECURE,
+      SMTP_USER: process.env.SMTP_USER,
+      SMTP_PASS: process.env.SMTP_PASS,
+      MAIL_WEBHOOK_SECRET: process.env.MAIL_WEBHOOK_SECRET,
+      NEWSLETTER_CONFIRMATION_TTL_HOURS:
+        process.env.NEWSLETTER_CONFIRMATION_TTL_HOURS,
+      CAMPAIGN_SEND_RATE_PER_MINUTE: process.env.CAMPAIGN_SEND_RATE_PER_MINUTE,
+      CAMPAIGN_MAX_ATTEMPTS: process.env.CAMPAIGN_MAX_ATTEMPTS,
+      NEWSLETTER_TRACKING_ENABLED: process.env.NEWSLETTER_TRACKING_ENABLED,
+      DIGEST_ENABLED: process.env.DIGEST_ENABLED,
+      DIGEST_SCHEDULE: process.env.DIGEST_SCHEDULE,
+      DIGEST_TIMEZONE: process.env.DIGEST_TIMEZONE,
+      DIGEST_TAGS: process.env.DIGEST_TAGS,
+      DIGEST_MAX_POSTS: process.env.DIGEST_MAX_POSTS,
+      STORAGE_DRIVER: process.env.STORAGE_DRIVER,
+      LOCAL_STORAGE_DIR: process.env.LOCAL_STORAGE_DIR,
+      S3_ENDPOINT: process.env.S3_ENDPOINT,
+      S3_PORT: process.env.S3_PORT,
+      S3_USE_SSL: process.env.S3_USE_SSL,
+      S3_REGION: process.env.S3_REGION,
+      S3_BUCKET: process.env.S3_BUCKET,
+      S3_ACCESS_KEY: process.env.S3_ACCESS_KEY,
+      S3_SECRET_KEY: process.env.S3_SECRET_KEY,
+      S3_PATH_STYLE: process.env.S3_PATH_STYLE,
+      S3_PUBLIC_URL: process.env.S3_PUBLIC_URL,
       MINIO_ENDPOINT: process.env.MINIO_ENDPOINT,
       MINIO_PORT: process.env.MINIO_PORT,
       MINIO_EXTERNAL_ENDPOINT: process.env.MINIO_EXTERNAL_ENDPOINT,
@@ -44,6 +184,10 @@ const parseConfig = (): z.infer<typeof configSchema> => {
       MINIO_SECRET_KEY: process.env.MINIO_SECRET_KEY,
       MINIO_USE_SSL: process.env.MINIO_USE_SSL,
       MINIO_BUCKET: process.env.MINIO_BUCKET,
+      IMAGE_VARIANT_WIDTHS: process.env.IMAGE_VARIANT_WIDTHS,
+      IMAGE_VARIANT_FORMATS: process.env.IMAGE_VARIANT_FORMATS,
+      UPLOAD_CLEANUP_ENABLED: process.env.UPLOAD_CLEANUP_ENABLED,
+      UPLOAD_CLEANUP_GRACE_DAYS: process.env.UPLOAD_CLEANUP_GRACE_DAYS,
     });
   } catch (error) {
     console.error('Invalid configuration:', error);
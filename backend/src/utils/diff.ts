@@ -0,0 +1,175 @@
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  type: DiffOperation;
+  value: string;
+}
+
+/**
+ * Convert stored HTML content into plain text so diffs compare what readers
+ * actually see rather than markup
+ * @param html - HTML content from the editor
+ * @returns Plain text with block elements separated by newlines
+ */
+export const htmlToText = (html: string): string => {
+  return html
+    .replace(/<(br|hr)\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|blockquote|pre|tr)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// Split text into words while keeping the whitespace between them as tokens
+const tokenize = (text: string): string[] => {
+  return text.split(/(\s+)/).filter((token) => token.length > 0);
+};
+
+// Beyond this many inserted or deleted words the revisions are treated as
+// rewritten, which bounds the diff's memory at O(MAX_EDIT_DISTANCE²)
+const MAX_EDIT_DISTANCE = 2000;
+
+// Merge consecutive tokens of the same type into larger segments
+const mergeSegments = (operations: DiffSegment[]): DiffSegment[] =>
+  operations.reduce<DiffSegment[]>((segments, operation) => {
+    const last = segments[segments.length - 1];
+    if (operation.value.length === 0) {
+      return segments;
+    }
+    if (last && last.type === operation.type) {
+      last.value += operation.value;
+    } else {
+      segments.push({ ...operation });
+    }
+    return segments;
+  }, []);
+
+/**
+ * Myers' algorithm over two token lists
+ * @returns The edit script, or null when the lists differ by more than
+ * MAX_EDIT_DISTANCE tokens
+ */
+const diffTokens = (a: string[], b: string[]): DiffSegment[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 2).fill(0);
+  // trace[d] holds v for diagonals -d..d only, as that's all backtracking
+  // at distance d reads
+  const trace: number[][] = [];
+  let found = false;
+
+  // Forward pass: record the furthest reaching path for every edit distance
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (
+        k === -d ||
+        (k !== d && (v[offset + k - 1] ?? 0) < (v[offset + k + 1] ?? 0))
+      ) {
+        x = v[offset + k + 1] ?? 0;
+      } else {
+        x = (v[offset + k - 1] ?? 0) + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break outer;
+      }
+    }
+  }
+
+  if (!found) {
+    return null;
+  }
+
+  // Backtrack through the recorded paths to build the edit script
+  const operations: DiffSegment[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d] as number[];
+    const at = (k: number): number => vd[k + d] ?? 0;
+    const k = x - y;
+    let prevK: number;
+    if (k === -d || (k !== d && at(k - 1) < at(k + 1))) {
+      prevK = k + 1;
+    } else {
+      prevK = k - 1;
+    }
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      operations.push({ type: 'equal', value: a[x - 1] as string });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        operations.push({ type: 'insert', value: b[y - 1] as string });
+      } else {
+        operations.push({ type: 'delete', value: a[x - 1] as string });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return operations.reverse();
+};
+
+/**
+ * Compute a word-level diff between two strings using Myers' algorithm.
+ * Revisions that differ by more than MAX_EDIT_DISTANCE words are shown as
+ * the changed block deleted and rewritten.
+ * @param oldText - The original text
+ * @param newText - The changed text
+ * @returns Ordered segments describing how to turn oldText into newText
+ */
+export const diffWords = (oldText: string, newText: string): DiffSegment[] => {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+
+  // Unchanged text at either end costs nothing to skip
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < a.length - start &&
+    end < b.length - start &&
+    a[a.length - 1 - end] === b[b.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const oldMiddle = a.slice(start, a.length - end);
+  const newMiddle = b.slice(start, b.length - end);
+  const middle = diffTokens(oldMiddle, newMiddle) ?? [
+    { type: 'delete', value: oldMiddle.join('') },
+    { type: 'insert', value: newMiddle.join('') },
+  ];
+
+  return mergeSegments([
+    { type: 'equal', value: a.slice(0, start).join('') },
+    ...middle,
+    { type: 'equal', value: a.slice(a.length - end).join('') },
+  ]);
+};
@@ -0,0 +1,294 @@
+import { CampaignType, Prisma, SubscriberStatus } from '@prisma/client';
+import parser from 'cron-parser';
+import { db } from '../db/client';
+import { startCampaignDelivery } from './campaignQueue';
+import { config } from './config';
+import { htmlToText } from './diff';
+import { escapeHtml } from './mail';
+import { buildPostWhere } from './postFilters';
+import { getPostUrl } from './siteUrls';
+
+// setTimeout cannot wait longer than ~24.8 days, so long delays are re-armed
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const EXCERPT_LENGTH = 240;
+
+let digestTimer: NodeJS.Timeout | null = null;
+let isStopped = true;
+
+const digestPostSelect = {
+  id: true,
+  title: true,
+  slug: true,
+  excerpt: true,
+  content: true,
+  coverImage: true,
+  publishedAt: true,
+  author: {
+    select: {
+      username: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+} satisfies Prisma.PostSelect;
+
+type DigestPost = Prisma.PostGetPayload<{ select: typeof digestPostSelect }>;
+
+export interface Digest {
+  subject: string;
+  content: string; // HTML, wrapped in the email layout when sent
+  periodStart: Date;
+  periodEnd: Date;
+  tagSlugs: string[];
+  posts: {
+    id: string;
+    title: string;
+    slug: string;
+    publishedAt: Date | null;
+  }[];
+}
+
+/**
+ * Get the tag slugs the digest is limited to
+ * @returns The slugs from DIGEST_TAGS; empty means every post
+ */
+export const getDigestTagSlugs = (): string[] => {
+  return config.DIGEST_TAGS.split(',')
+    .map((slug) => slug.trim())
+    .filter(Boolean);
+};
+
+/**
+ * Work out when the digest runs next according to DIGEST_SCHEDULE
+ * @param after - Find the first run after this time
+ * @returns The next run time
+ */
+export const getNextDigestRun = (after: Date = new Date()): Date => {
+  return parser
+    .parseExpression(config.DIGEST_SCHEDULE, {
+      currentDate: after,
+      tz: config.DIGEST_TIMEZONE,
+    })
+    .next()
+    .toDate();
+};
+
+/**
+ * Find where the next digest picks up: the end of the last one, or the
+ * previous scheduled run when no digest has gone out yet
+ * @param before - The end of the period being collected
+ * @returns The start of the period
+ */
+const getDigestPeriodStart = async (before: Date): Promise<Date> => {
+  const lastDigest = await db.campaign.findFirst({
+    where: { type: CampaignType.DIGEST, periodEnd: { not: null } },
+    orderBy: { periodEnd: 'desc' },
+    select: { periodEnd: true },
+  });
+
+  if (lastDigest?.periodEnd) {
+    return lastDigest.periodEnd;
+  }
+
+  return parser
+    .parseExpression(config.DIGEST_SCHEDULE, {
+      currentDate: before,
+      tz: config.DIGEST_TIMEZONE,
+    })
+    .prev()
+    .toDate();
+};
+
+const getAuthorName = (author: DigestPost['author']): string => {
+  const name = [author.firstName, author.lastName].filter(Boolean).join(' ');
+  return name || author.username;
+};
+
+const getExcerpt = (post: DigestPost): string => {
+  if (post.excerpt) {
+    return post.excerpt;
+  }
+
+  const text = htmlToText(post.content).replace(/\s+/g, ' ');
+  return text.length > EXCERPT_LENGTH
+    ? `${text.slice(0, EXCERPT_LENGTH).trimEnd()}…`
+    : text;
+};
+
+// Mail clients ignore stylesheets, so posts are laid out with inline styles
+const renderDigestPost = (post: DigestPost): string => {
+  const url = escapeHtml(getPostUrl(post.slug));
+  const cover = post.coverImage
+    ? `<a href="${url}"><img src="${escapeHtml(post.coverImage)}" alt="" width="536" style="display:block;width:100%;max-width:536px;height:auto;border-radius:6px;margin:0 0 12px;"></a>`
+    : '';
+
+  return `<div style="margin:0 0 32px;">
+  ${cover}
+  <h2 style="margin:0 0 4px;font-size:20px;line-height:1.3;"><a href="${url}" style="color:#111827;text-decoration:none;">${escapeHtml(post.title)}</a></h2>
+  <p style="margin:0 0 8px;font-size:13px;color:#6b7280;">By ${escapeHtml(getAuthorName(post.author))}</p>
+  <p style="margin:0 0 8px;">${escapeHtml(getExcerpt(post))}</p>
+  <p style="margin:0;"><a href="${url}" style="color:#2563eb;">Read more</a></p>
+</div>`;
+};
+
+/**
+ * Collect the posts published since the last digest and render them
+ * @param periodEnd - Collect posts published before this time
+ * @returns The digest, with no posts when nothing new was published
+ */
+export const buildDigest = async (
+  periodEnd: Date = new Date()
+): Promise<Digest> => {
+  const periodStart = await getDigestPeriodStart(periodEnd);
+  const tagSlugs = getDigestTagSlugs();
+
+  const posts = await db.post.findMany({
+    where: {
+      ...buildPostWhere({ published: true, tagSlugs }),
+      publishedAt: { gte: periodStart, lt: periodEnd },
+    },
+    select: digestPostSelect,
+    orderBy: { publishedAt: 'desc' },
+    take: config.DIGEST_MAX_POSTS,
+  });
+
+  const subject =
+    posts.length === 1
+      ? `New on ${config.SITE_TITLE}: ${posts[0]?.title}`
+      : `${posts.length} new posts on ${config.SITE_TITLE}`;
+
+  const content = [
+    `<p style="margin:0 0 24px;">Here's what we published since the last digest.</p>`,
+    ...posts.map(renderDigestPost),
+  ].join('\n');
+
+  return {
+    subject,
+    content,
+    periodStart,
+    periodEnd,
+    tagSlugs,
+    posts: posts.map((post) => ({
+      id: post.id,
+      title: post.title,
+      slug: post.slug,
+      publishedAt: post.publishedAt,
+    })),
+  };
+};
+
+/**
+ * Build the digest and queue it for every subscriber who opted in. Each
+ * process runs the schedule, so the digest for a run is keyed on its time
+ * and only the first process to create it sends it.
+ * @param periodEnd - The scheduled run this digest is for
+ * @returns The digest campaign id, or null when there was nothing to send
+ * or another process already sent this run's digest
+ */
+export const sendDigest = async (
+  periodEnd: Date = new Date()
+): Promise<string | null> => {
+  const digest = await buildDigest(periodEnd);
+
+  // Nothing new; the next digest picks up from the same point
+  if (digest.posts.length === 0) {
+    return null;
+  }
+
+  let campaign: { id: string };
+  try {
+    campaign = await db.campaign.create({
+      data: {
+        type: CampaignType.DIGEST,
+        subject: digest.subject,
+        content: digest.content,
+        periodStart: digest.periodStart,
+        periodEnd: digest.periodEnd,
+      },
+      select: { id: true },
+    });
+  } catch (error) {
+    // Another process created this run's digest first
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      return null;
+    }
+    throw error;
+  }
+
+  await startCampaignDelivery(campaign.id);
+
+  return campaign.id;
+};
+
+/**
+ * Count the subscribers a digest would go to now
+ * @returns The number of confirmed subscribers who opted in
+ */
+export const countDigestRecipients = (): Promise<number> => {
+  return db.newsletterSubscriber.count({
+    where: { status: SubscriberStatus.ACTIVE, digest: true },
+  });
+};
+
+const runDigest = (runAt: Date): void => {
+  sendDigest(runAt)
+    .then((campaignId) => {
+      if (campaignId) {
+        console.log(`📰 Queued newsletter digest ${campaignId}`);
+      }
+    })
+    .catch((error) => {
+      console.error('Error sending newsletter digest:', error);
+    })
+    .finally(scheduleNextDigest);
+};
+
+const scheduleNextDigest = (): void => {
+  if (isStopped) {
+    return;
+  }
+
+  const nextRun = getNextDigestRun();
+  const delay = nextRun.getTime() - Date.now();
+
+  digestTimer =
+    delay > MAX_TIMEOUT_MS
+      ? setTimeout(scheduleNextDigest, MAX_TIMEOUT_MS)
+      : setTimeout(() => runDigest(nextRun), Math.max(0, delay));
+
+  // The digest timer must not keep the process alive during shutdown
+  digestTimer.unref();
+};
+
+/**
+ * Arm the digest timer when DIGEST_ENABLED is set
+ * @returns The next run time, or null when the digest is disabled
+ */
+export const startDigestScheduler = (): Date | null => {
+  stopDigestScheduler();
+
+  if (!config.DIGEST_ENABLED) {
+    return null;
+  }
+
+  isStopped = false;
+  scheduleNextDigest();
+
+  return getNextDigestRun();
+};
+
+/**
+ * Stop the digest timer
+ */
+export const stopDigestScheduler = (): void => {
+  isStopped = true;
+
+  if (digestTimer) {
+    clearTimeout(digestTimer);
+    digestTimer = null;
+  }
+};
@@ -0,0 +1,295 @@
+import { randomBytes } from 'crypto';
+import express, { Request, Response, Router } from 'express';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { config } from './config';
+import { createSignedToken, verifySignedToken } from './signedTokens';
+import type {
+  PresignedUpload,
+  StorageDriver,
+  StoredObject,
+  StoredObjectStat,
+} from './storage';
+
+// Where the API serves stored files
+export const DISK_STORAGE_ROUTE = '/uploads';
+
+// express.static doesn't know AVIF, which the image variants use
+const contentTypeOverrides: Record<string, string> = {
+  '.avif': 'image/avif',
+};
+
+interface DiskUploadGrant {
+  key: string;
+  maxSize: number; // Bytes
+}
+
+class UploadTooLargeError extends Error {}
+
+const getRoot = (): string => path.resolve(config.LOCAL_STORAGE_DIR);
+
+const getFileUrl = (key: string): string =>
+  `${config.API_URL}${DISK_STORAGE_ROUTE}/${key}`;
+
+/**
+ * Map an object name to a file inside the storage directory
+ * @param key - The object name
+ * @returns The absolute file path
+ */
+const resolveKey = (key: string): string => {
+  const root = getRoot();
+  const filePath = path.resolve(root, key);
+
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+
+  return filePath;
+};
+
+const listDirectory = async (
+  directory: string,
+  objects: StoredObject[]
+): Promise<void> => {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+
+  for (const entry of entries) {
+    // Dotfiles are uploads still being written
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+
+    const entryPath = path.join(directory, entry.name);
+
+    if (entry.isDirectory()) {
+      await listDirectory(entryPath, objects);
+    } else if (entry.isFile()) {
+      const stats = await fs.stat(entryPath);
+      objects.push({
+        key: path.relative(getRoot(), entryPath).split(path.sep).join('/'),
+        size: stats.size,
+        lastModified: stats.mtime,
+      });
+    }
+  }
+};
+
+/**
+ * Files in a directory on the API server, for single-box deployments
+ * without an object store. They are served publicly by the API itself.
+ * @returns The driver
+ */
+export const createDiskDriver = (): StorageDriver => ({
+  name: 'Local disk',
+
+  init: async (): Promise<void> => {
+    await fs.mkdir(getRoot(), { recursive: true });
+  },
+
+  put: async (key, file): Promise<void> => {
+    const filePath = resolveKey(key);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, file);
+  },
+
+  get: async (key, length): Promise<Buffer> => {
+    if (!length) {
+      return fs.readFile(resolveKey(key));
+    }
+
+    const file = await fs.open(resolveKey(key), 'r');
+
+    try {
+      const { buffer, bytesRead } = await file.read(
+        Buffer.alloc(length),
+        0,
+        length,
+        0
+      );
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await file.close();
+    }
+  },
+
+  getStream: (key) => Promise.resolve(createReadStream(resolveKey(key))),
+
+  stat: async (key): Promise<StoredObjectStat | null> => {
+    try {
+      const stats = await fs.stat(resolveKey(key));
+
+      return {
+        key,
+        size: stats.size,
+        lastModified: stats.mtime,
+        contentType: null,
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  delete: async (key): Promise<void> => {
+    try {
+      await fs.unlink(resolveKey(key));
+    } catch (error) {
+      // Deleting a missing object is not an error, as with S3
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  },
+
+  copy: async (sourceKey, key): Promise<void> => {
+    const filePath = resolveKey(key);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.copyFile(resolveKey(sourceKey), filePath);
+  },
+
+  url: getFileUrl,
+
+  // Stored files are public, like the bucket drivers' objects
+  presign: (key) => Promise.resolve(getFileUrl(key)),
+
+  // Uploads are streamed to disk by receiveDiskUpload, which enforces the
+  // size the URL was signed for
+  presignUpload: (
+    key,
+    mimetype,
+    maxSize,
+    expirySeconds
+  ): Promise<PresignedUpload> => {
+    // Fail now on a bad key rather than when the client uploads
+    resolveKey(key);
+
+    const grant: DiskUploadGrant = { key, maxSize };
+    const token = createSignedToken(
+      'storage-upload',
+      JSON.stringify(grant),
+      expirySeconds
+    );
+
+    return Promise.resolve({
+      url: `${getFileUrl(key)}?token=${encodeURIComponent(token)}`,
+      method: 'PUT',
+      headers: { 'Content-Type': mimetype },
+    });
+  },
+
+  list: async (): Promise<StoredObject[]> => {
+    const objects: StoredObject[] = [];
+
+    try {
+      await listDirectory(getRoot(), objects);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    return objects;
+  },
+});
+
+/**
+ * Write the body of a presigned PUT to disk, streaming it so large files
+ * never sit in memory
+ */
+const receiveDiskUpload = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const key = decodeURIComponent(req.path.slice(1));
+  const subject =
+    typeof req.query.token === 'string'
+      ? verifySignedToken('storage-upload', req.query.token)
+      : null;
+  const grant = subject ? (JSON.parse(subject) as DiskUploadGrant) : null;
+
+  if (!grant || grant.key !== key) {
+    res.status(403).json({ error: 'Invalid or expired upload URL' });
+    return;
+  }
+
+  if (Number(req.headers['content-length']) > grant.maxSize) {
+    res.status(413).json({ error: 'File is larger than this upload allows' });
+    return;
+  }
+
+  const filePath = resolveKey(key);
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${randomBytes(6).toString('hex')}.part`
+  );
+  let received = 0;
+
+  // Content-Length can be left out, so the limit is checked as bytes arrive
+  const limit = new Transform({
+    transform: (chunk: Buffer, _encoding, callback): void => {
+      received += chunk.length;
+      callback(
+        received > grant.maxSize ? new UploadTooLargeError() : null,
+        chunk
+      );
+    },
+  });
+
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await pipeline(req, limit, createWriteStream(tempPath));
+    await fs.rename(tempPath, filePath);
+
+    res.status(200).end();
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+
+    if (error instanceof UploadTooLargeError) {
+      res.status(413).json({ error: 'File is larger than this upload allows' });
+      return;
+    }
+
+    console.error('Disk upload error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Serve the stored files, and accept uploads to presigned URLs. Object
+ * names are never reused, so files can be cached for good.
+ * @returns Router to mount at DISK_STORAGE_ROUTE
+ */
+export const serveDiskFiles = (): Router => {
+  const router = Router();
+
+  router.put('/*', (req, res) => {
+    void receiveDiskUpload(req, res);
+  });
+  router.use(
+    express.static(getRoot(), {
+      index: false,
+      dotfiles: 'deny',
+      immutable: true,
+      maxAge: '1y',
+      setHeaders: (res, filePath) => {
+        const contentType =
+          contentTypeOverrides[path.extname(filePath).toLowerCase()];
+
+        if (contentType) {
+          res.setHeader('Content-Type', contentType);
+        }
+
+        // The frontend runs on another origin, which helmet blocks by default
+        res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+      },
+    })
+  );
+
+  return router;
+};
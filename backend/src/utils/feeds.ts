@@ -0,0 +1,194 @@
+export interface FeedAuthor {
+  name: string;
+}
+
+export interface FeedItem {
+  id: string; // Stable across slug changes
+  title: string;
+  url: string;
+  content: string; // HTML
+  summary?: string;
+  image?: string;
+  author: FeedAuthor;
+  categories: string[];
+  published: Date;
+  updated: Date;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  siteUrl: string;
+  urls: {
+    rss: string;
+    atom: string;
+    json: string;
+  };
+  updated: Date;
+  items: FeedItem[];
+}
+
+/**
+ * Escape text for use in XML element content and attribute values
+ * @param value - The raw text
+ * @returns The escaped text
+ */
+export const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+// CDATA sections cannot contain "]]>", so split it across two sections
+const cdata = (value: string): string => {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+};
+
+// Guess an image MIME type from its URL for enclosures
+const getImageMimeType = (url: string): string => {
+  const extension = url.split('?')[0]?.split('.').pop()?.toLowerCase();
+
+  switch (extension) {
+    case 'png':
+      return 'image/png';
+    case 'gif':
+      return 'image/gif';
+    case 'webp':
+      return 'image/webp';
+    case 'svg':
+      return 'image/svg+xml';
+    case 'avif':
+      return 'image/avif';
+    default:
+      return 'image/jpeg';
+  }
+};
+
+/**
+ * Render a feed as RSS 2.0
+ * @param feed - The feed to render
+ * @returns The RSS document
+ */
+export const buildRssFeed = (feed: Feed): string => {
+  const items = feed.items
+    .map((item) =>
+      [
+        '    <item>',
+        `      <title>${escapeXml(item.title)}</title>`,
+        `      <link>${escapeXml(item.url)}</link>`,
+        `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+        `      <pubDate>${item.published.toUTCString()}</pubDate>`,
+        `      <dc:creator>${escapeXml(item.author.name)}</dc:creator>`,
+        ...item.categories.map(
+          (category) => `      <category>${escapeXml(category)}</category>`
+        ),
+        item.summary
+          ? `      <description>${escapeXml(item.summary)}</description>`
+          : '',
+        `      <content:encoded>${cdata(item.content)}</content:encoded>`,
+        item.image
+          ? `      <enclosure url="${escapeXml(item.image)}" length="0" type="${getImageMimeType(item.image)}" />`
+          : '',
+        '    </item>',
+      ]
+        .filter(Boolean)
+        .join('\n')
+    )
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.siteUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(feed.urls.rss)}" rel="self" type="application/rss+xml" />`,
+    items,
+    '  </channel>',
+    '</rss>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+};
+
+/**
+ * Render a feed as Atom 1.0
+ * @param feed - The feed to render
+ * @returns The Atom document
+ */
+export const buildAtomFeed = (feed: Feed): string => {
+  const entries = feed.items
+    .map((item) =>
+      [
+        '  <entry>',
+        `    <title>${escapeXml(item.title)}</title>`,
+        `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />`,
+        `    <id>${escapeXml(item.id)}</id>`,
+        `    <published>${item.published.toISOString()}</published>`,
+        `    <updated>${item.updated.toISOString()}</updated>`,
+        `    <author><name>${escapeXml(item.author.name)}</name></author>`,
+        ...item.categories.map(
+          (category) => `    <category term="${escapeXml(category)}" />`
+        ),
+        item.summary ? `    <summary>${escapeXml(item.summary)}</summary>` : '',
+        `    <content type="html">${escapeXml(item.content)}</content>`,
+        item.image
+          ? `    <link rel="enclosure" type="${getImageMimeType(item.image)}" href="${escapeXml(item.image)}" />`
+          : '',
+        '  </entry>',
+      ]
+        .filter(Boolean)
+        .join('\n')
+    )
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.siteUrl)}" />`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.urls.atom)}" />`,
+    `  <id>${escapeXml(feed.urls.atom)}</id>`,
+    `  <updated>${feed.updated.toISOString()}</updated>`,
+    entries,
+    '</feed>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+};
+
+/**
+ * Render a feed as JSON Feed 1.1
+ * @param feed - The feed to render
+ * @returns The JSON Feed document
+ */
+export const buildJsonFeed = (feed: Feed): string => {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.siteUrl,
+    feed_url: feed.urls.json,
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      content_html: item.content,
+      summary: item.summary,
+      image: item.image,
+      date_published: item.published.toISOString(),
+      date_modified: item.updated.toISOString(),
+      authors: [item.author],
+      tags: item.categories,
+      attachments: item.image
+        ? [{ url: item.image, mime_type: getImageMimeType(item.image) }]
+        : undefined,
+    })),
+  });
+};
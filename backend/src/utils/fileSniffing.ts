@@ -0,0 +1,90 @@
+// Enough of the file's start for every signature below
+export const SNIFF_BYTES = 64;
+
+// ISO media brands that hold still images rather than audio or video
+const IMAGE_BRANDS = ['avif', 'avis', 'heic', 'heix', 'mif1', 'msf1'];
+
+const startsWith = (head: Buffer, signature: number[], offset = 0): boolean =>
+  head.length >= offset + signature.length &&
+  signature.every((byte, index) => head[offset + index] === byte);
+
+const hasAscii = (head: Buffer, text: string, offset = 0): boolean =>
+  head.toString('latin1', offset, offset + text.length) === text;
+
+/**
+ * An MPEG audio frame header: 11 sync bits, then a layer other than the
+ * reserved one, which is what ADTS (raw AAC) uses
+ */
+const isMpegAudioFrame = (head: Buffer): boolean =>
+  head.length >= 2 &&
+  head[0] === 0xff &&
+  ((head[1] ?? 0) & 0xe0) === 0xe0 &&
+  ((head[1] ?? 0) & 0x06) !== 0;
+
+/**
+ * Work out what a file is from its first bytes, rather than trusting the
+ * type the client claims
+ * @param head - The start of the file, at least SNIFF_BYTES long when the
+ * file is
+ * @returns The MIME types the contents could be. Some containers hold more
+ * than one kind of media, so the file's extension picks between them.
+ */
+export const sniffMimeTypes = (head: Buffer): string[] => {
+  if (startsWith(head, [0xff, 0xd8, 0xff])) {
+    return ['image/jpeg'];
+  }
+
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return ['image/png'];
+  }
+
+  if (hasAscii(head, 'GIF87a') || hasAscii(head, 'GIF89a')) {
+    return ['image/gif'];
+  }
+
+  if (hasAscii(head, 'RIFF')) {
+    if (hasAscii(head, 'WEBP', 8)) {
+      return ['image/webp'];
+    }
+    if (hasAscii(head, 'WAVE', 8)) {
+      return ['audio/wav'];
+    }
+    return [];
+  }
+
+  if (hasAscii(head, '%PDF-')) {
+    return ['application/pdf'];
+  }
+
+  // Local file header, or the end record of an empty archive
+  if (
+    startsWith(head, [0x50, 0x4b, 0x03, 0x04]) ||
+    startsWith(head, [0x50, 0x4b, 0x05, 0x06])
+  ) {
+    return ['application/zip'];
+  }
+
+  if (hasAscii(head, 'ftyp', 4)) {
+    const brand = head.toString('latin1', 8, 12);
+
+    if (IMAGE_BRANDS.includes(brand)) {
+      return [];
+    }
+    // Audio-only MP4s usually say so, but plenty are labelled as video
+    return brand === 'M4A ' ? ['audio/mp4'] : ['video/mp4', 'audio/mp4'];
+  }
+
+  if (startsWith(head, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return ['video/webm'];
+  }
+
+  if (hasAscii(head, 'OggS')) {
+    return ['audio/ogg'];
+  }
+
+  if (hasAscii(head, 'ID3') || isMpegAudioFrame(head)) {
+    return ['audio/mpeg'];
+  }
+
+  return [];
+};
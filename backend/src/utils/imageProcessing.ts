@@ -0,0 +1,96 @@
+import sharp from 'sharp';
+
+// Longest side of the placeholder; it is blurred up to the full size
+const PLACEHOLDER_SIZE = 16;
+
+export class InvalidImageError extends Error {}
+
+export interface PreparedImage {
+  buffer: Buffer; // What to store: upright, without EXIF, XMP or IPTC
+  width: number;
+  height: number;
+  dominantColor: string; // e.g. "#3a5f8c"
+  placeholder: string; // Tiny WebP data URL shown while the image loads
+}
+
+/**
+ * Whether an image carries metadata that could identify its author, such as
+ * GPS tags, or an orientation readers' browsers would have to apply
+ */
+const needsCleaning = (metadata: sharp.Metadata): boolean =>
+  Boolean(
+    metadata.exif ||
+      metadata.xmp ||
+      metadata.iptc ||
+      metadata.comments?.length ||
+      (metadata.orientation && metadata.orientation !== 1)
+  );
+
+/**
+ * Re-encode an image in its own format, rotated upright and without
+ * metadata. The colour profile is kept so colours don't shift.
+ * @param buffer - The original image
+ * @param format - The format sharp detected
+ * @returns The cleaned image
+ */
+const stripMetadata = (buffer: Buffer, format: string): Promise<Buffer> => {
+  const image = sharp(buffer, { animated: true }).autoOrient().keepIccProfile();
+
+  switch (format) {
+    case 'jpeg':
+      return image.jpeg({ quality: 90 }).toBuffer();
+    case 'png':
+      return image.png().toBuffer();
+    case 'webp':
+      return image.webp({ quality: 90 }).toBuffer();
+    default:
+      throw new InvalidImageError(`Unsupported image format: ${format}`);
+  }
+};
+
+/**
+ * Get an uploaded image ready to store: strip private metadata, rotate it
+ * upright, and work out what the media library records about it. GIFs are
+ * left as they are, since re-encoding them loses quality and they have no
+ * EXIF to leak.
+ * @param buffer - The uploaded image
+ * @returns The image to store and its details
+ * @throws InvalidImageError when the image can't be decoded
+ */
+export const prepareImage = async (buffer: Buffer): Promise<PreparedImage> => {
+  let metadata: sharp.Metadata;
+
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    throw new InvalidImageError('The image could not be read');
+  }
+
+  const cleaned =
+    metadata.format !== 'gif' && needsCleaning(metadata)
+      ? await stripMetadata(buffer, metadata.format ?? '')
+      : buffer;
+  const { width, height } = metadata.autoOrient;
+
+  // Both from the first frame of animated images
+  const [{ dominant }, placeholder] = await Promise.all([
+    sharp(cleaned).stats(),
+    sharp(cleaned)
+      .autoOrient()
+      .resize(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE, { fit: 'inside' })
+      .webp({ quality: 50 })
+      .toBuffer(),
+  ]);
+
+  const dominantColor = `#${[dominant.r, dominant.g, dominant.b]
+    .map((channel) => channel.toString(16).padStart(2, '0'))
+    .join('')}`;
+
+  return {
+    buffer: cleaned,
+    width,
+    height,
+    dominantColor,
+    placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+  };
+};
@@ -0,0 +1,220 @@
+import * as path from 'path';
+import sharp from 'sharp';
+import { db } from '../db/client';
+import { config } from './config';
+import { putFile } from './storage';
+
+export type ImageVariantFormat = 'avif' | 'webp';
+
+// Ordered by preference: browsers take the first <source> they support
+const supportedFormats: ImageVariantFormat[] = ['avif', 'webp'];
+
+const formatMimeTypes: Record<ImageVariantFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+};
+
+const variantWidths = config.IMAGE_VARIANT_WIDTHS.split(',')
+  .map((width) => Number(width.trim()))
+  .filter((width) => Number.isInteger(width) && width > 0)
+  .sort((a, b) => a - b);
+
+const variantFormats = supportedFormats.filter((format) =>
+  config.IMAGE_VARIANT_FORMATS.split(',')
+    .map((value) => value.trim().toLowerCase())
+    .includes(format)
+);
+
+export interface ImageVariantSource {
+  format: string;
+  width: number;
+  url: string;
+}
+
+// One srcset attribute value per format, e.g. "https://.../a-640w.webp 640w"
+export type ImageSrcset = Partial<Record<ImageVariantFormat, string>>;
+
+/**
+ * Pick the widths to resize an image to, never upscaling it
+ * @param width - The original image width
+ * @returns Ascending widths; the original width is included when it is
+ * within the configured range so the full size is available too
+ */
+const getTargetWidths = (width: number): number[] => {
+  const widths = variantWidths.filter((target) => target < width);
+  const largestWidth = variantWidths[variantWidths.length - 1];
+
+  if (largestWidth !== undefined && width <= largestWidth) {
+    widths.push(width);
+  }
+
+  return widths;
+};
+
+/**
+ * Resize an uploaded image to each configured width and format, store the
+ * results next to the original and record them against its asset
+ * @param assetId - The asset the variants belong to
+ * @param key - The original's object name in storage
+ * @param buffer - The original image
+ * @returns The number of variants created
+ */
+export const createImageVariants = async (
+  assetId: string,
+  key: string,
+  buffer: Buffer
+): Promise<number> => {
+  const image = sharp(buffer);
+  const metadata = await image.metadata();
+
+  // Resizing would drop the animation, so animated GIFs keep the original
+  if ((metadata.pages ?? 1) > 1 || variantFormats.length === 0) {
+    return 0;
+  }
+
+  // Rotate according to EXIF orientation, since the variants carry no EXIF
+  const { width } = metadata.autoOrient;
+  const baseName = key.slice(0, key.length - path.extname(key).length);
+  let created = 0;
+
+  // One at a time, as each encode holds a decoded copy of the image in memory
+  for (const targetWidth of getTargetWidths(width)) {
+    for (const format of variantFormats) {
+      const { data, info } = await image
+        .clone()
+        .autoOrient()
+        .resize({ width: targetWidth })
+        .toFormat(format)
+        .toBuffer({ resolveWithObject: true });
+
+      const variant = await putFile(
+        `${baseName}-${targetWidth}w.${format}`,
+        data,
+        formatMimeTypes[format]
+      );
+
+      await db.assetVariant.create({
+        data: {
+          assetId,
+          format,
+          width: info.width,
+          height: info.height,
+          key: variant.key,
+          url: variant.url,
+          size: info.size,
+        },
+      });
+      created++;
+    }
+  }
+
+  return created;
+};
+
+/**
+ * Build srcset attribute values from an image's variants
+ * @param variants - The variants, in any order
+ * @returns A srcset per format that has variants
+ */
+export const buildSrcset = (variants: ImageVariantSource[]): ImageSrcset => {
+  const srcset: ImageSrcset = {};
+
+  for (const format of supportedFormats) {
+    const candidates = variants
+      .filter((variant) => variant.format === format)
+      .sort((a, b) => a.width - b.width)
+      .map((variant) => `${variant.url} ${variant.width}w`);
+
+    if (candidates.length > 0) {
+      srcset[format] = candidates.join(', ');
+    }
+  }
+
+  return srcset;
+};
+
+// What a page shows while an image loads, and the box it reserves for it
+export interface ImagePlaceholder {
+  placeholder: string | null; // Tiny blurred data URL
+  dominantColor: string | null;
+  width: number | null;
+  height: number | null;
+}
+
+export interface ImageDetails {
+  srcset: ImageSrcset | null; // Null when the image has no variants
+  placeholder: ImagePlaceholder | null; // Null for older uploads
+}
+
+/**
+ * Look up srcsets and placeholders for images referenced by URL, such as
+ * post cover images
+ * @param urls - Image URLs; ones that aren't uploaded assets are ignored
+ * @returns A map from URL to the image's details
+ */
+export const getImageDetailsByUrl = async (
+  urls: (string | null | undefined)[]
+): Promise<Map<string, ImageDetails>> => {
+  const uniqueUrls = [
+    ...new Set(urls.filter((url): url is string => Boolean(url))),
+  ];
+  const details = new Map<string, ImageDetails>();
+
+  if (uniqueUrls.length === 0) {
+    return details;
+  }
+
+  const assets = await db.asset.findMany({
+    where: { url: { in: uniqueUrls } },
+    select: {
+      url: true,
+      width: true,
+      height: true,
+      dominantColor: true,
+      placeholder: true,
+      variants: { select: { format: true, width: true, url: true } },
+    },
+  });
+
+  for (const { url, variants, ...asset } of assets) {
+    details.set(url, {
+      srcset: variants.length > 0 ? buildSrcset(variants) : null,
+      placeholder: asset.placeholder || asset.dominantColor ? asset : null,
+    });
+  }
+
+  return details;
+};
+
+/**
+ * Add the cover image's srcset and placeholder to each post, so readers
+ * can load a size that fits instead of the full upload and see something
+ * while it arrives
+ * @param posts - Posts with a coverImage
+ * @returns The posts with coverImageSrcset and coverImagePlaceholder set
+ * (null when there is none)
+ */
+export const withCoverImageDetails = async <
+  T extends { coverImage: string | null },
+>(
+  posts: T[]
+): Promise<
+  (T & {
+    coverImageSrcset: ImageSrcset | null;
+    coverImagePlaceholder: ImagePlaceholder | null;
+  })[]
+> => {
+  const details = await getImageDetailsByUrl(
+    posts.map((post) => post.coverImage)
+  );
+
+  return posts.map((post) => {
+    const cover = post.coverImage ? details.get(post.coverImage) : undefined;
+
+    return {
+      ...post,
+      coverImageSrcset: cover?.srcset ?? null,
+      coverImagePlaceholder: cover?.placeholder ?? null,
+    };
+  });
+};
@@ -0,0 +1,94 @@
+import nodemailer from 'nodemailer';
+import { config } from './config';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+/**
+ * Create a transport that delivers mail through an SMTP server
+ * @returns The SMTP mail transport
+ */
+export const createSmtpTransport = (): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: config.SMTP_HOST,
+    port: config.SMTP_PORT,
+    secure: config.SMTP_SECURE,
+    auth: config.SMTP_USER
+      ? { user: config.SMTP_USER, pass: config.SMTP_PASS }
+      : undefined,
+  });
+
+  return {
+    send: async (message: MailMessage): Promise<void> => {
+      await transporter.sendMail({ from: config.MAIL_FROM, ...message });
+    },
+  };
+};
+
+/**
+ * Create a transport that prints mail to the console instead of sending it
+ * @returns The logging mail transport
+ */
+export const createLogTransport = (): MailTransport => ({
+  send: (message: MailMessage): Promise<void> => {
+    console.log(
+      `✉️  Mail to ${message.to}: ${message.subject}\n${message.text}`
+    );
+    return Promise.resolve();
+  },
+});
+
+const createConfiguredTransport = (): MailTransport => {
+  switch (config.MAIL_TRANSPORT) {
+    case 'log':
+      return createLogTransport();
+    case 'smtp':
+    default:
+      return createSmtpTransport();
+  }
+};
+
+let transport: MailTransport | null = null;
+
+/**
+ * Swap the transport used by sendMail, e.g. for a different provider
+ * @param mailTransport - The transport to use from now on
+ */
+export const setMailTransport = (mailTransport: MailTransport): void => {
+  transport = mailTransport;
+};
+
+/**
+ * Send an email through the configured transport
+ * @param message - The message to send
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  if (!transport) {
+    transport = createConfiguredTransport();
+  }
+
+  await transport.send(message);
+};
+
+/**
+ * Escape text for use in an HTML email
+ * @param text - The text to escape
+ * @returns The escaped text
+ */
+export const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
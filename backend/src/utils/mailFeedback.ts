@@ -0,0 +1,458 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import fetch from 'node-fetch';
+import { SubscriberStatus, SuppressionReason } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '../db/client';
+import { config } from './config';
+
+// A bounce or complaint about one recipient, whatever format it came in
+export interface MailFeedback {
+  email: string;
+  type: 'bounce' | 'complaint';
+  permanent: boolean; // Soft bounces are retried as usual, not suppressed
+  detail?: string;
+}
+
+export interface ParsedWebhook {
+  format: 'ses' | 'postmark' | 'generic';
+  feedback: MailFeedback[];
+  subscribeUrl?: string; // SNS asks for the subscription to be confirmed first
+}
+
+export type FeedbackSource = ParsedWebhook['format'] | 'dsn' | 'smtp';
+
+const EMAIL_PATTERN = /[^\s<>"';,]+@[^\s<>"';,]+\.[^\s<>"';,]+/;
+
+const extractEmail = (value: unknown): string | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = EMAIL_PATTERN.exec(value);
+  return match ? match[0].toLowerCase() : null;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+};
+
+const asString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value ? value : undefined;
+};
+
+const asRecords = (value: unknown): Record<string, unknown>[] => {
+  return Array.isArray(value)
+    ? value
+        .map(asRecord)
+        .filter((item): item is Record<string, unknown> => item !== null)
+    : [];
+};
+
+// SNS only ever asks us to visit its own endpoints; anything else is someone
+// trying to make the server fetch URLs for them
+const SNS_HOST_PATTERN = /^sns\.[a-z0-9-]+\.amazonaws\.com(\.cn)?$/;
+
+/**
+ * Read an Amazon SES notification delivered through SNS
+ * @param body - The SNS message
+ * @returns The parsed notification, or null if it isn't one
+ */
+const parseSesWebhook = (
+  body: Record<string, unknown>
+): ParsedWebhook | null => {
+  if (body.Type === 'SubscriptionConfirmation') {
+    const subscribeUrl = asString(body.SubscribeURL);
+
+    if (!subscribeUrl) {
+      return null;
+    }
+
+    let url: URL;
+
+    try {
+      url = new URL(subscribeUrl);
+    } catch {
+      return null;
+    }
+
+    return url.protocol === 'https:' && SNS_HOST_PATTERN.test(url.hostname)
+      ? { format: 'ses', feedback: [], subscribeUrl }
+      : null;
+  }
+
+  if (body.Type !== 'Notification' || typeof body.Message !== 'string') {
+    return null;
+  }
+
+  let message: Record<string, unknown> | null;
+
+  try {
+    message = asRecord(JSON.parse(body.Message));
+  } catch {
+    return null;
+  }
+
+  if (!message) {
+    return null;
+  }
+
+  // Notifications use notificationType; configuration set events use eventType
+  const type = message.notificationType ?? message.eventType;
+  const feedback: MailFeedback[] = [];
+
+  if (type === 'Bounce') {
+    const bounce = asRecord(message.bounce);
+    const permanent = bounce?.bounceType === 'Permanent';
+
+    for (const recipient of asRecords(bounce?.bouncedRecipients)) {
+      const email = extractEmail(recipient.emailAddress);
+
+      if (email) {
+        feedback.push({
+          email,
+          type: 'bounce',
+          permanent,
+          detail: asString(recipient.diagnosticCode),
+        });
+      }
+    }
+  } else if (type === 'Complaint') {
+    const complaint = asRecord(message.complaint);
+
+    for (const recipient of asRecords(complaint?.complainedRecipients)) {
+      const email = extractEmail(recipient.emailAddress);
+
+      if (email) {
+        feedback.push({
+          email,
+          type: 'complaint',
+          permanent: true,
+          detail: asString(complaint?.complaintFeedbackType),
+        });
+      }
+    }
+  }
+
+  // Deliveries and other event types are acknowledged and ignored
+  return { format: 'ses', feedback };
+};
+
+// Postmark bounce types that mean the address will never accept mail
+const POSTMARK_HARD_BOUNCE_TYPES = new Set(['HardBounce', 'BadEmailAddress']);
+
+/**
+ * Read a Postmark bounce or spam complaint webhook
+ * @param body - The webhook payload
+ * @returns The parsed notification, or null if it isn't one
+ */
+const parsePostmarkWebhook = (
+  body: Record<string, unknown>
+): ParsedWebhook | null => {
+  const email = extractEmail(body.Email);
+
+  if (!email) {
+    return null;
+  }
+
+  const detail = asString(body.Description) ?? asString(body.Details);
+
+  if (body.RecordType === 'SpamComplaint' || body.Type === 'SpamComplaint') {
+    return {
+      format: 'postmark',
+      feedback: [{ email, type: 'complaint', permanent: true, detail }],
+    };
+  }
+
+  if (body.RecordType === 'Bounce') {
+    return {
+      format: 'postmark',
+      feedback: [
+        {
+          email,
+          type: 'bounce',
+          permanent: POSTMARK_HARD_BOUNCE_TYPES.has(String(body.Type)),
+          detail,
+        },
+      ],
+    };
+  }
+
+  return null;
+};
+
+const genericEventSchema = z.object({
+  type: z.enum(['bounce', 'complaint']),
+  email: z.string().email(),
+  permanent: z.boolean().default(true), // Only applies to bounces
+  reason: z.string().max(1000).optional(),
+});
+
+const genericWebhookSchema = z.union([
+  genericEventSchema,
+  z.array(genericEventSchema).max(1000),
+  z.object({ events: z.array(genericEventSchema).max(1000) }),
+]);
+
+/**
+ * Read the generic JSON format: one event, an array of them, or
+ * { events: [...] }, each { type: 'bounce' | 'complaint', email,
+ * permanent?, reason? }
+ * @param body - The webhook payload
+ * @returns The parsed notification, or null if it isn't one
+ */
+const parseGenericWebhook = (body: unknown): ParsedWebhook | null => {
+  const result = genericWebhookSchema.safeParse(body);
+
+  if (!result.success) {
+    return null;
+  }
+
+  const events = Array.isArray(result.data)
+    ? result.data
+    : 'events' in result.data
+      ? result.data.events
+      : [result.data];
+
+  return {
+    format: 'generic',
+    feedback: events.map((event) => ({
+      email: event.email.toLowerCase(),
+      type: event.type,
+      permanent: event.type === 'complaint' || event.permanent,
+      detail: event.reason,
+    })),
+  };
+};
+
+/**
+ * Work out which provider sent a webhook and read the bounces and
+ * complaints in it
+ * @param body - The parsed JSON body
+ * @returns The parsed notification, or null if the format isn't recognised
+ */
+export const parseFeedbackWebhook = (body: unknown): ParsedWebhook | null => {
+  const record = asRecord(body);
+
+  if (record && typeof record.Type === 'string' && 'TopicArn' in record) {
+    return parseSesWebhook(record);
+  }
+
+  if (record && 'RecordType' in record) {
+    return parsePostmarkWebhook(record);
+  }
+
+  return parseGenericWebhook(body);
+};
+
+/**
+ * Confirm an SNS subscription so SES notifications start arriving
+ * @param subscribeUrl - The SubscribeURL from the confirmation request
+ */
+export const confirmSnsSubscription = async (
+  subscribeUrl: string
+): Promise<void> => {
+  const response = await fetch(subscribeUrl);
+
+  if (!response.ok) {
+    throw new Error(`SNS subscription confirmation failed: ${response.status}`);
+  }
+};
+
+/**
+ * Split a block of RFC 822 style fields into a map of lowercased names to
+ * values, joining folded lines
+ * @param block - The fields, one per line
+ * @returns The field values by name
+ */
+const parseFields = (block: string): Map<string, string> => {
+  const fields = new Map<string, string>();
+
+  for (const line of block.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const separator = line.indexOf(':');
+
+    if (separator > 0) {
+      fields.set(
+        line.slice(0, separator).trim().toLowerCase(),
+        line.slice(separator + 1).trim()
+      );
+    }
+  }
+
+  return fields;
+};
+
+/**
+ * Read the failed recipients from a delivery status notification
+ * (RFC 3464) or a spam complaint in Abuse Reporting Format (RFC 5965), as
+ * found in the bounce mailbox
+ * @param raw - The full message, headers included
+ * @returns The bounces and complaints in the message; empty if it is neither
+ */
+export const parseDsnMessage = (raw: string): MailFeedback[] => {
+  const text = raw.replace(/\r\n/g, '\n');
+  const blocks = text.split(/\n[ \t]*\n/);
+  const feedback: MailFeedback[] = [];
+
+  blocks.forEach((block, index) => {
+    const fields = parseFields(block);
+
+    // Per-recipient block of a message/delivery-status part
+    const recipient =
+      extractEmail(fields.get('final-recipient')) ??
+      extractEmail(fields.get('original-recipient'));
+
+    if (recipient && fields.has('action')) {
+      const action = fields.get('action')?.toLowerCase();
+      const status = fields.get('status') ?? '';
+
+      if (action === 'failed' || action === 'delayed') {
+        feedback.push({
+          email: recipient,
+          type: 'bounce',
+          permanent: action === 'failed' && status.startsWith('5'),
+          detail: fields.get('diagnostic-code') ?? status,
+        });
+      }
+      return;
+    }
+
+    // message/feedback-report part; the recipient may only be in the copy
+    // of our message that follows it
+    if (fields.has('feedback-type')) {
+      const email =
+        extractEmail(fields.get('original-rcpt-to')) ??
+        extractEmail(
+          /^To:(.*)$/im.exec(blocks.slice(index + 1).join('\n\n'))?.[1]
+        );
+
+      if (email) {
+        feedback.push({
+          email,
+          type: 'complaint',
+          permanent: true,
+          detail: fields.get('feedback-type'),
+        });
+      }
+    }
+  });
+
+  return feedback;
+};
+
+// Mailbox-level rejections (5.1.x) are a hard bounce; other 5xx replies can
+// mean the server refused us rather than the address, so they are retried
+const SMTP_HARD_BOUNCE_PATTERN = /\b5\.1\.\d{1,3}\b/;
+
+/**
+ * Tell whether a send failed because the recipient's address doesn't exist
+ * @param error - The error from the mail transport
+ * @returns The server's reply if it was a hard bounce, or null
+ */
+export const getSmtpHardBounce = (error: unknown): string | null => {
+  const record = asRecord(error);
+  const responseCode = record?.responseCode;
+  const response = asString(record?.response);
+
+  return typeof responseCode === 'number' &&
+    responseCode >= 550 &&
+    responseCode <= 553 &&
+    response &&
+    SMTP_HARD_BOUNCE_PATTERN.test(response)
+    ? response
+    : null;
+};
+
+/**
+ * Check the secret a webhook was called with
+ * @param secret - The secret from the request
+ * @returns Whether it matches MAIL_WEBHOOK_SECRET
+ */
+export const isValidWebhookSecret = (secret: unknown): boolean => {
+  if (!config.MAIL_WEBHOOK_SECRET || typeof secret !== 'string') {
+    return false;
+  }
+
+  // Hashing first gives equal lengths, as timingSafeEqual requires
+  const digest = (value: string): Buffer =>
+    createHash('sha256').update(value).digest();
+
+  return timingSafeEqual(digest(secret), digest(config.MAIL_WEBHOOK_SECRET));
+};
+
+/**
+ * Check whether an address is on the suppression list
+ * @param email - The address
+ * @returns Whether mail to it must not be sent
+ */
+export const isEmailSuppressed = async (email: string): Promise<boolean> => {
+  const suppressed = await db.suppressedEmail.findUnique({
+    where: { email: email.toLowerCase() },
+    select: { id: true },
+  });
+
+  return suppressed !== null;
+};
+
+/**
+ * Put the addresses behind hard bounces and complaints on the suppression
+ * list and stop mailing their subscribers. Soft bounces are left alone.
+ * @param feedback - The bounces and complaints
+ * @param source - Where the reports came from
+ * @returns How many addresses were suppressed and how many reports ignored
+ */
+export const applyMailFeedback = async (
+  feedback: MailFeedback[],
+  source: FeedbackSource
+): Promise<{ suppressed: number; ignored: number }> => {
+  let suppressed = 0;
+
+  for (const item of feedback) {
+    if (!item.permanent) {
+      continue;
+    }
+
+    const email = item.email.toLowerCase();
+    const isComplaint = item.type === 'complaint';
+    const data = {
+      reason: isComplaint
+        ? SuppressionReason.COMPLAINT
+        : SuppressionReason.HARD_BOUNCE,
+      source,
+      detail: item.detail?.slice(0, 1000) ?? null,
+    };
+
+    // Subscriber addresses keep the case they were typed in
+    await db.$transaction([
+      db.suppressedEmail.upsert({
+        where: { email },
+        create: { email, ...data },
+        update: data,
+      }),
+      db.newsletterSubscriber.updateMany({
+        where: { email: { equals: email, mode: 'insensitive' } },
+        data: {
+          status: isComplaint
+            ? SubscriberStatus.COMPLAINED
+            : SubscriberStatus.BOUNCED,
+        },
+      }),
+    ]);
+
+    suppressed += 1;
+  }
+
+  return { suppressed, ignored: feedback.length - suppressed };
+};
+
+/**
+ * Take an address off the suppression list, e.g. when its owner
+ * resubscribes through a link we emailed them
+ * @param email - The address
+ */
+export const liftSuppression = async (email: string): Promise<void> => {
+  await db.suppressedEmail.deleteMany({
+    where: { email: email.toLowerCase() },
+  });
+};
@@ -1,135 +1,209 @@
 import * as Minio from 'minio';
-import * as path from 'path';
-import { config } from './config';
 import { Readable } from 'stream';
+import { config } from './config';
+import type {
+  PresignedUpload,
+  StorageDriver,
+  StoredObject,
+  StoredObjectStat,
+} from './storage';
 
-// Initialize MinIO client
-export const minioClient = new Minio.Client({
-  endPoint: config.MINIO_ENDPOINT,
-  port: config.MINIO_PORT,
-  useSSL: config.MINIO_USE_SSL,
-  accessKey: config.MINIO_ACCESS_KEY,
-  secretKey: config.MINIO_SECRET_KEY,
-});
+const MINIO_REGION = 'us-east-1';
+
+interface BucketDriverOptions {
+  name: string;
+  client: Minio.Client;
+  // Signs URLs handed to browsers, when they reach storage by another host
+  presignClient?: Minio.Client;
+  bucket: string;
+  publicUrl: string; // Objects are served from `${publicUrl}/${key}`
+  init: () => Promise<void>;
+}
 
 /**
- * Ensure the bucket exists, create it if it doesn't
+ * Build a storage driver on an S3-compatible bucket
+ * @param options - The client, bucket and where objects are served from
+ * @returns The driver
  */
-export const ensureBucketExists = async (): Promise<void> => {
-  try {
-    const bucketExists = await minioClient.bucketExists(config.MINIO_BUCKET);
-
-    if (!bucketExists) {
-      await minioClient.makeBucket(config.MINIO_BUCKET, 'us-east-1');
-      console.log(`Bucket '${config.MINIO_BUCKET}' created successfully`);
-
-      // Set bucket policy to allow public read access to images
-      const policy = {
-        Version: '2012-10-17',
-        Statement: [
-          {
-            Effect: 'Allow',
-            Principal: { AWS: ['*'] },
-            Action: ['s3:GetObject'],
-            Resource: [`arn:aws:s3:::${config.MINIO_BUCKET}/*`],
-          },
-        ],
-      };
+export const createBucketDriver = ({
+  name,
+  client,
+  presignClient = client,
+  bucket,
+  publicUrl,
+  init,
+}: BucketDriverOptions): StorageDriver => ({
+  name,
+  init,
 
-      await minioClient.setBucketPolicy(
-        config.MINIO_BUCKET,
-        JSON.stringify(policy)
-      );
-      console.log(`Bucket policy set for '${config.MINIO_BUCKET}'`);
-    }
-  } catch (error) {
-    console.error('Error ensuring bucket exists:', error);
-    throw error;
-  }
-};
+  put: async (key, file, mimetype): Promise<void> => {
+    await client.putObject(bucket, key, Readable.from(file), file.length, {
+      'Content-Type': mimetype,
+    });
+  },
 
-/**
- * Upload a file to MinIO
- * @param file - The file buffer to upload
- * @param originalName - Original filename
- * @param mimetype - File MIME type
- * @returns The public URL of the uploaded file
- */
-export const uploadFile = async (
-  file: Buffer,
-  originalName: string,
-  mimetype: string
-): Promise<string> => {
-  try {
-    // Generate unique filename
-    const timestamp = Date.now();
-    const randomString = Math.random().toString(36).substring(2, 15);
-    const extension = path.extname(originalName).toLowerCase() || '';
-    
-    // Validate that the file has an extension
-    if (!extension) {
-      throw new Error('File must have a valid extension (e.g., .jpg, .png, .gif, .webp)');
+  get: async (key, length): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    const stream = length
+      ? await client.getPartialObject(bucket, key, 0, length)
+      : await client.getObject(bucket, key);
+
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
     }
-    
-    const fileName = `${timestamp}-${randomString}${extension}`;
-
-    // Convert buffer to stream
-    const stream = Readable.from(file);
-
-    // Upload to MinIO
-    await minioClient.putObject(
-      config.MINIO_BUCKET,
-      fileName,
-      stream,
-      file.length,
-      {
-        'Content-Type': mimetype,
+
+    return Buffer.concat(chunks);
+  },
+
+  getStream: (key) => client.getObject(bucket, key),
+
+  stat: async (key): Promise<StoredObjectStat | null> => {
+    try {
+      const stat = await client.statObject(bucket, key);
+      const contentType: unknown = stat.metaData['content-type'];
+
+      return {
+        key,
+        size: stat.size,
+        lastModified: stat.lastModified,
+        contentType: typeof contentType === 'string' ? contentType : null,
+      };
+    } catch (error) {
+      if ((error as { code?: string }).code === 'NotFound') {
+        return null;
       }
+      throw error;
+    }
+  },
+
+  delete: async (key): Promise<void> => {
+    await client.removeObject(bucket, key);
+  },
+
+  // Server-side, so the file doesn't pass through the API
+  copy: async (sourceKey, key): Promise<void> => {
+    await client.copyObject(bucket, key, `/${bucket}/${sourceKey}`);
+  },
+
+  url: (key) => `${publicUrl}/${key}`,
+
+  presign: (key, expirySeconds) =>
+    presignClient.presignedGetObject(bucket, key, expirySeconds),
+
+  // A presigned PUT can't limit the size or type of what is sent, but a
+  // POST policy can, so nothing else lands in the public bucket even if the
+  // upload is never completed
+  presignUpload: async (
+    key,
+    mimetype,
+    maxSize,
+    expirySeconds
+  ): Promise<PresignedUpload> => {
+    const policy = presignClient.newPostPolicy();
+    policy.setBucket(bucket);
+    policy.setKey(key);
+    policy.setContentType(mimetype);
+    policy.setContentLengthRange(0, maxSize);
+    policy.setExpires(new Date(Date.now() + expirySeconds * 1000));
+
+    const { postURL, formData } =
+      await presignClient.presignedPostPolicy(policy);
+
+    return { url: postURL, method: 'POST', fields: formData };
+  },
+
+  list: async (): Promise<StoredObject[]> => {
+    const objects: StoredObject[] = [];
+    const stream: AsyncIterable<Minio.BucketItem> = client.listObjectsV2(
+      bucket,
+      '',
+      true
     );
 
-    // Generate public URL using external endpoint for client access
-    const protocol = config.MINIO_USE_SSL ? 'https' : 'http';
-    const publicUrl = `${protocol}://${config.MINIO_EXTERNAL_ENDPOINT}:${config.MINIO_EXTERNAL_PORT}/${config.MINIO_BUCKET}/${fileName}`;
+    for await (const item of stream) {
+      if (item.name) {
+        objects.push({
+          key: item.name,
+          size: item.size,
+          lastModified: item.lastModified,
+        });
+      }
+    }
 
-    return publicUrl;
-  } catch (error) {
-    console.error('Error uploading file to MinIO:', error);
-    throw error;
-  }
-};
+    return objects;
+  },
+});
 
 /**
- * Delete a file from MinIO
- * @param fileName - The name of the file to delete
+ * The MinIO container from docker-compose. The bucket is created with a
+ * public-read policy on first start.
+ * @returns The driver
  */
-export const deleteFile = async (fileName: string): Promise<void> => {
-  try {
-    await minioClient.removeObject(config.MINIO_BUCKET, fileName);
-  } catch (error) {
-    console.error('Error deleting file from MinIO:', error);
-    throw error;
-  }
-};
+export const createMinioDriver = (): StorageDriver => {
+  const client = new Minio.Client({
+    endPoint: config.MINIO_ENDPOINT,
+    port: config.MINIO_PORT,
+    useSSL: config.MINIO_USE_SSL,
+    accessKey: config.MINIO_ACCESS_KEY,
+    secretKey: config.MINIO_SECRET_KEY,
+  });
 
-/**
- * Get a presigned URL for temporary access to a file
- * @param fileName - The name of the file
- * @param expirySeconds - How long the URL should be valid (default: 24 hours)
- * @returns The presigned URL
- */
-export const getPresignedUrl = async (
-  fileName: string,
-  expirySeconds: number = 86400
-): Promise<string> => {
-  try {
-    const url = await minioClient.presignedGetObject(
-      config.MINIO_BUCKET,
-      fileName,
-      expirySeconds
-    );
-    return url;
-  } catch (error) {
-    console.error('Error generating presigned URL:', error);
-    throw error;
-  }
+  // Public and presigned URLs use the external endpoint, which clients can
+  // reach. Setting the region lets it sign URLs without calling MinIO.
+  const presignClient = new Minio.Client({
+    endPoint: config.MINIO_EXTERNAL_ENDPOINT,
+    port: config.MINIO_EXTERNAL_PORT,
+    useSSL: config.MINIO_USE_SSL,
+    accessKey: config.MINIO_ACCESS_KEY,
+    secretKey: config.MINIO_SECRET_KEY,
+    region: MINIO_REGION,
+  });
+
+  const protocol = config.MINIO_USE_SSL ? 'https' : 'http';
+  const publicUrl = `${protocol}://${config.MINIO_EXTERNAL_ENDPOINT}:${config.MINIO_EXTERNAL_PORT}/${config.MINIO_BUCKET}`;
+
+  /**
+   * Ensure the bucket exists, create it if it doesn't
+   */
+  const ensureBucketExists = async (): Promise<void> => {
+    try {
+      const bucketExists = await client.bucketExists(config.MINIO_BUCKET);
+
+      if (!bucketExists) {
+        await client.makeBucket(config.MINIO_BUCKET, MINIO_REGION);
+        console.log(`Bucket '${config.MINIO_BUCKET}' created successfully`);
+
+        // Set bucket policy to allow public read access to images
+        const policy = {
+          Version: '2012-10-17',
+          Statement: [
+            {
+              Effect: 'Allow',
+              Principal: { AWS: ['*'] },
+              Action: ['s3:GetObject'],
+              Resource: [`arn:aws:s3:::${config.MINIO_BUCKET}/*`],
+            },
+          ],
+        };
+
+        await client.setBucketPolicy(
+          config.MINIO_BUCKET,
+          JSON.stringify(policy)
+        );
+        console.log(`Bucket policy set for '${config.MINIO_BUCKET}'`);
+      }
+    } catch (error) {
+      console.error('Error ensuring bucket exists:', error);
+      throw error;
+    }
+  };
+
+  return createBucketDriver({
+    name: 'MinIO',
+    client,
+    presignClient,
+    bucket: config.MINIO_BUCKET,
+    publicUrl,
+    init: ensureBucketExists,
+  });
 };
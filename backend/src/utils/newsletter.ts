@@ -0,0 +1,145 @@
+import { NewsletterSubscriber, SubscriberStatus } from '@prisma/client';
+import { db } from '../db/client';
+import { config } from './config';
+import { escapeHtml, sendMail } from './mail';
+import { createSignedToken } from './signedTokens';
+import {
+  getNewsletterConfirmUrl,
+  getNewsletterPreferencesUrl,
+  getNewsletterUnsubscribeUrl,
+  getOneClickUnsubscribeUrl,
+} from './siteUrls';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Signing up again within this window does not send another email, so the
+// form cannot be used to flood someone's inbox
+export const CONFIRMATION_RESEND_INTERVAL_MS = 5 * 60 * 1000;
+
+const EXPIRY_SWEEP_INTERVAL_MS = HOUR_MS;
+
+let expiryTimer: NodeJS.Timeout | null = null;
+
+export interface UnsubscribeLinks {
+  unsubscribeUrl: string;
+  preferencesUrl: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Build the links that let a subscriber leave or change their subscription
+ * without logging in. The token never expires, so links in old issues keep
+ * working.
+ * @param subscriberId - The subscriber the email is addressed to
+ * @returns The page links plus RFC 8058 List-Unsubscribe headers
+ */
+export const getUnsubscribeLinks = (subscriberId: string): UnsubscribeLinks => {
+  const token = createSignedToken('newsletter-unsubscribe', subscriberId);
+
+  return {
+    unsubscribeUrl: getNewsletterUnsubscribeUrl(token),
+    preferencesUrl: getNewsletterPreferencesUrl(token),
+    headers: {
+      'List-Unsubscribe': `<${getOneClickUnsubscribeUrl(token)}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  };
+};
+
+/**
+ * Email a subscriber the link that confirms their signup
+ * @param subscriber - The pending subscriber
+ */
+export const sendConfirmationEmail = async (
+  subscriber: Pick<NewsletterSubscriber, 'id' | 'email'>
+): Promise<void> => {
+  const token = createSignedToken(
+    'newsletter-confirm',
+    subscriber.id,
+    config.NEWSLETTER_CONFIRMATION_TTL_HOURS * 60 * 60
+  );
+  const url = getNewsletterConfirmUrl(token);
+  const siteTitle = config.SITE_TITLE;
+
+  await sendMail({
+    to: subscriber.email,
+    subject: `Confirm your subscription to ${siteTitle}`,
+    text: [
+      `Please confirm that you want to receive the ${siteTitle} newsletter:`,
+      '',
+      url,
+      '',
+      `The link is valid for ${config.NEWSLETTER_CONFIRMATION_TTL_HOURS} hours. If you didn't sign up, ignore this email and you won't hear from us again.`,
+    ].join('\n'),
+    html: [
+      `<p>Please confirm that you want to receive the ${escapeHtml(siteTitle)} newsletter.</p>`,
+      `<p><a href="${escapeHtml(url)}">Confirm my subscription</a></p>`,
+      `<p>The link is valid for ${config.NEWSLETTER_CONFIRMATION_TTL_HOURS} hours. If you didn't sign up, ignore this email and you won't hear from us again.</p>`,
+    ].join('\n'),
+  });
+};
+
+/**
+ * Drop signups that were not confirmed in time. Addresses that had confirmed
+ * before go back to being unsubscribed; the rest are forgotten.
+ * @returns The number of signups that expired
+ */
+export const expireUnconfirmedSubscriptions = async (): Promise<number> => {
+  const cutoff = new Date(
+    Date.now() - config.NEWSLETTER_CONFIRMATION_TTL_HOURS * HOUR_MS
+  );
+
+  const [reverted, deleted] = await db.$transaction([
+    db.newsletterSubscriber.updateMany({
+      where: {
+        status: SubscriberStatus.PENDING,
+        subscribedAt: { lt: cutoff },
+        confirmedAt: { not: null },
+      },
+      data: { status: SubscriberStatus.UNSUBSCRIBED },
+    }),
+    db.newsletterSubscriber.deleteMany({
+      where: {
+        status: SubscriberStatus.PENDING,
+        subscribedAt: { lt: cutoff },
+        confirmedAt: null,
+      },
+    }),
+  ]);
+
+  return reverted.count + deleted.count;
+};
+
+const runExpirySweep = (): void => {
+  expireUnconfirmedSubscriptions()
+    .then((count) => {
+      if (count > 0) {
+        console.log(`📭 Expired ${count} unconfirmed newsletter signup(s)`);
+      }
+    })
+    .catch((error) => {
+      console.error('Error expiring newsletter signups:', error);
+    });
+};
+
+/**
+ * Expire unconfirmed signups now and then every hour
+ */
+export const startSubscriptionExpiry = (): void => {
+  stopSubscriptionExpiry();
+  runExpirySweep();
+
+  expiryTimer = setInterval(runExpirySweep, EXPIRY_SWEEP_INTERVAL_MS);
+  // The sweep must not keep the process alive during shutdown
+  expiryTimer.unref();
+};
+
+/**
+ * Stop the periodic expiry sweep
+ */
+export const stopSubscriptionExpiry = (): void => {
+  if (expiryTimer) {
+    clearInterval(expiryTimer);
+    expiryTimer = null;
+  }
+};
@@ -0,0 +1,84 @@
+import { Role } from '@prisma/client';
+
+export const PERMISSIONS = [
+  'posts:create', // Write and edit your own drafts
+  'posts:publish', // Publish, schedule and unpublish your own posts
+  'posts:delete', // Delete your own posts
+  'posts:edit_others', // Edit, publish and delete posts by anyone
+  'comments:moderate', // Approve, reject and delete reader comments
+  'tags:manage',
+  'documentation:manage',
+  'redirects:manage', // Add and remove manual slug redirects
+  'newsletter:manage',
+  'uploads:create',
+  'uploads:manage', // Edit anyone's uploads; review unlinked ones before deletion
+  'users:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  OWNER: PERMISSIONS,
+  ADMIN: PERMISSIONS,
+  EDITOR: [
+    'posts:create',
+    'posts:publish',
+    'posts:delete',
+    'posts:edit_others',
+    'comments:moderate',
+    'tags:manage',
+    'documentation:manage',
+    'redirects:manage',
+    'uploads:create',
+  ],
+  AUTHOR: ['posts:create', 'posts:publish', 'posts:delete', 'uploads:create'],
+  CONTRIBUTOR: ['posts:create', 'posts:delete'],
+  SUBSCRIBER: [],
+};
+
+/**
+ * Check whether a role grants a permission
+ * @param role - The user's role
+ * @param permission - The permission to check
+ * @returns True if the role includes the permission
+ */
+export const hasPermission = (role: Role, permission: Permission): boolean => {
+  return ROLE_PERMISSIONS[role].includes(permission);
+};
+
+/**
+ * List every permission granted by a role
+ * @param role - The user's role
+ * @returns The permissions, in declaration order
+ */
+export const getRolePermissions = (role: Role): Permission[] => {
+  return [...ROLE_PERMISSIONS[role]];
+};
+
+/**
+ * Check whether a user may work on a post. Everyone may work on their own
+ * posts; editing other people's posts needs posts:edit_others.
+ * @param user - The authenticated user
+ * @param authorId - The id of the post's author
+ * @returns True if the user may edit the post
+ */
+export const canManagePost = (
+  user: { id: string; role: Role },
+  authorId: string
+): boolean => {
+  return authorId === user.id || hasPermission(user.role, 'posts:edit_others');
+};
+
+/**
+ * Check whether a user may edit an upload's details. Everyone may edit their
+ * own uploads; other people's need uploads:manage.
+ * @param user - The authenticated user
+ * @param uploadedById - The id of the uploader, null if they were deleted
+ * @returns True if the user may edit the upload
+ */
+export const canManageAsset = (
+  user: { id: string; role: Role },
+  uploadedById: string | null
+): boolean => {
+  return uploadedById === user.id || hasPermission(user.role, 'uploads:manage');
+};
@@ -0,0 +1,63 @@
+import { Prisma } from '@prisma/client';
+
+export interface PostFilters {
+  ids?: string[]; // e.g. the matches of a full-text search
+  author?: string; // Partial match on username, first or last name
+  authorUsername?: string; // Exact username
+  tagSlugs?: string[];
+  tagId?: string;
+  published?: boolean;
+}
+
+/**
+ * Build the Prisma where clause shared by post listings and feeds
+ * @param filters - The filters to apply; undefined filters are ignored
+ * @returns The where clause for db.post queries
+ */
+export const buildPostWhere = (filters: PostFilters): Prisma.PostWhereInput => {
+  const where: Prisma.PostWhereInput = {};
+
+  if (filters.ids) {
+    where.id = { in: filters.ids };
+  }
+
+  if (filters.author) {
+    where.author = {
+      OR: [
+        { username: { contains: filters.author, mode: 'insensitive' } },
+        { firstName: { contains: filters.author, mode: 'insensitive' } },
+        { lastName: { contains: filters.author, mode: 'insensitive' } },
+      ],
+    };
+  }
+
+  if (filters.authorUsername) {
+    where.author = { username: filters.authorUsername };
+  }
+
+  if (filters.published !== undefined) {
+    where.published = filters.published;
+  }
+
+  if (filters.tagSlugs && filters.tagSlugs.length > 0) {
+    where.tags = {
+      some: {
+        tag: {
+          slug: {
+            in: filters.tagSlugs,
+          },
+        },
+      },
+    };
+  }
+
+  if (filters.tagId) {
+    where.tags = {
+      some: {
+        tagId: filters.tagId,
+      },
+    };
+  }
+
+  return where;
+};
@@ -0,0 +1,124 @@
+import { db } from '../db/client';
+
+// setTimeout cannot wait longer than ~24.8 days, so long delays are re-armed
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const timers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Publish a scheduled post if its time has come
+ * @param postId - The scheduled post id
+ */
+const publishScheduledPost = async (postId: string): Promise<void> => {
+  timers.delete(postId);
+
+  const post = await db.post.findUnique({
+    where: { id: postId },
+    select: { id: true, title: true, published: true, publishAt: true },
+  });
+
+  if (!post || post.published || !post.publishAt) {
+    return;
+  }
+
+  // The post may have been rescheduled after this timer was armed
+  if (post.publishAt.getTime() > Date.now()) {
+    schedulePostPublication(post.id, post.publishAt);
+    return;
+  }
+
+  // Conditional update so a post is only flipped once even if several
+  // processes are running the scheduler
+  const { count } = await db.post.updateMany({
+    where: {
+      id: post.id,
+      published: false,
+      publishAt: { lte: new Date() },
+    },
+    data: {
+      published: true,
+      publishedAt: post.publishAt,
+      publishAt: null,
+    },
+  });
+
+  if (count > 0) {
+    console.log(`📅 Published scheduled post "${post.title}"`);
+  }
+};
+
+/**
+ * Arm (or re-arm) the timer that publishes a post at its scheduled time
+ * @param postId - The post to publish
+ * @param publishAt - When the post should go live
+ */
+export const schedulePostPublication = (
+  postId: string,
+  publishAt: Date
+): void => {
+  cancelScheduledPublication(postId);
+
+  const delay = Math.max(0, publishAt.getTime() - Date.now());
+
+  const timer =
+    delay > MAX_TIMEOUT_MS
+      ? setTimeout(
+          () => schedulePostPublication(postId, publishAt),
+          MAX_TIMEOUT_MS
+        )
+      : setTimeout(() => {
+          publishScheduledPost(postId).catch((error) => {
+            console.error('Error publishing scheduled post:', error);
+          });
+        }, delay);
+
+  // Pending publications must not keep the process alive during shutdown
+  timer.unref();
+  timers.set(postId, timer);
+};
+
+/**
+ * Cancel a pending publication, e.g. when a post is unscheduled or deleted
+ * @param postId - The post whose timer should be cleared
+ */
+export const cancelScheduledPublication = (postId: string): void => {
+  const timer = timers.get(postId);
+
+  if (timer) {
+    clearTimeout(timer);
+    timers.delete(postId);
+  }
+};
+
+/**
+ * Load every pending scheduled post and arm its timer. Posts whose time
+ * passed while the server was down are published immediately.
+ * @returns The number of scheduled posts found
+ */
+export const startPublishScheduler = async (): Promise<number> => {
+  const pendingPosts = await db.post.findMany({
+    where: {
+      published: false,
+      publishAt: { not: null },
+    },
+    select: { id: true, publishAt: true },
+  });
+
+  for (const post of pendingPosts) {
+    if (post.publishAt) {
+      schedulePostPublication(post.id, post.publishAt);
+    }
+  }
+
+  return pendingPosts.length;
+};
+
+/**
+ * Clear all pending timers
+ */
+export const stopPublishScheduler = (): void => {
+  for (const timer of timers.values()) {
+    clearTimeout(timer);
+  }
+  timers.clear();
+};
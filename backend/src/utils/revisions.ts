@@ -0,0 +1,36 @@
+import { db } from '../db/client';
+
+/**
+ * Snapshot the current state of a post so it can be compared or restored later
+ * @param postId - The post to snapshot
+ * @param createdById - The user whose save triggered the snapshot
+ */
+export const createPostRevision = async (
+  postId: string,
+  createdById?: string
+): Promise<void> => {
+  const post = await db.post.findUnique({
+    where: { id: postId },
+    include: {
+      tags: {
+        select: { tagId: true },
+      },
+    },
+  });
+
+  if (!post) {
+    return;
+  }
+
+  await db.postRevision.create({
+    data: {
+      postId: post.id,
+      title: post.title,
+      content: post.content,
+      excerpt: post.excerpt,
+      coverImage: post.coverImage,
+      tagIds: post.tags.map((postTag) => postTag.tagId),
+      createdById: createdById ?? null,
+    },
+  });
+};
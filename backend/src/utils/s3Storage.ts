@@ -0,0 +1,52 @@
+import * as Minio from 'minio';
+import { config } from './config';
+import { createBucketDriver } from './minio';
+import type { StorageDriver } from './storage';
+
+/**
+ * Any S3-compatible service that takes presigned POST uploads: AWS S3,
+ * DigitalOcean Spaces and the like. The bucket must already exist and allow
+ * public reads, or sit behind a CDN set as S3_PUBLIC_URL.
+ * @returns The driver
+ */
+export const createS3Driver = (): StorageDriver => {
+  // The config schema requires these when STORAGE_DRIVER is s3
+  const bucket = config.S3_BUCKET ?? '';
+
+  const client = new Minio.Client({
+    endPoint: config.S3_ENDPOINT,
+    port: config.S3_PORT,
+    useSSL: config.S3_USE_SSL,
+    accessKey: config.S3_ACCESS_KEY ?? '',
+    secretKey: config.S3_SECRET_KEY ?? '',
+    region: config.S3_REGION,
+    pathStyle: config.S3_PATH_STYLE,
+  });
+
+  const protocol = config.S3_USE_SSL ? 'https' : 'http';
+  const host = config.S3_PORT
+    ? `${config.S3_ENDPOINT}:${config.S3_PORT}`
+    : config.S3_ENDPOINT;
+  const publicUrl = (
+    config.S3_PUBLIC_URL ??
+    (config.S3_PATH_STYLE
+      ? `${protocol}://${host}/${bucket}`
+      : `${protocol}://${bucket}.${host}`)
+  ).replace(/\/+$/, '');
+
+  // Unlike MinIO, the bucket and its access policy are managed outside the
+  // app, so a missing bucket is a configuration error
+  const ensureBucketExists = async (): Promise<void> => {
+    if (!(await client.bucketExists(bucket))) {
+      throw new Error(`S3 bucket '${bucket}' does not exist`);
+    }
+  };
+
+  return createBucketDriver({
+    name: 'S3',
+    client,
+    bucket,
+    publicUrl,
+    init: ensureBucketExists,
+  });
+};
@@ -0,0 +1,269 @@
+import { Prisma } from '@prisma/client';
+import { db } from '../db/client';
+import { htmlToText } from './diff';
+
+export type SearchType = 'all' | 'posts' | 'docs';
+
+export interface SearchResult {
+  type: 'post' | 'doc';
+  id: string;
+  title: string;
+  slug: string;
+  productSlug: string | null; // Docs only
+  productName: string | null; // Docs only
+  titleHighlight: string; // HTML, matches wrapped in <mark>
+  snippet: string; // HTML, matches wrapped in <mark>
+  rank: number;
+  date: Date;
+}
+
+interface MatchRow {
+  type: 'post' | 'doc';
+  id: string;
+  rank: number;
+  date: Date;
+}
+
+interface HighlightRow {
+  id: string;
+  title: string;
+  slug: string;
+  productSlug: string | null;
+  productName: string | null;
+  titleHighlight: string;
+  snippet: string;
+}
+
+// ts_headline wraps matches in these; they are swapped for <mark> once the
+// rest of the text has been escaped
+const HIGHLIGHT_START = '⟪';
+const HIGHLIGHT_END = '⟫';
+
+const SNIPPET_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+const TITLE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, HighlightAll=true`;
+
+/**
+ * Turn user input into a tsquery that matches every word, treating the last
+ * one as a prefix so results show up while the user is still typing
+ * @param query - The raw search input
+ * @returns The tsquery source, or null when the input has no searchable words
+ */
+export const toPrefixTsQuery = (query: string): string | null => {
+  const words = query.match(/[\p{L}\p{N}]+/gu);
+
+  if (!words || words.length === 0) {
+    return null;
+  }
+
+  return words
+    .map((word, index) => (index === words.length - 1 ? `${word}:*` : word))
+    .join(' & ');
+};
+
+const renderHighlight = (headline: string): string => {
+  return htmlToText(headline)
+    .replace(/\s+/g, ' ')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(new RegExp(HIGHLIGHT_START, 'g'), '<mark>')
+    .replace(new RegExp(HIGHLIGHT_END, 'g'), '</mark>');
+};
+
+const postMatches = (tsQuery: Prisma.Sql): Prisma.Sql => Prisma.sql`
+  SELECT 'post' AS "type", "id", ts_rank_cd("searchVector", ${tsQuery}) AS "rank",
+    coalesce("publishedAt", "createdAt") AS "date"
+  FROM "posts"
+  WHERE "published" = true AND "searchVector" @@ ${tsQuery}
+`;
+
+// Docs pages are only public when their section and product are too
+const docMatches = (tsQuery: Prisma.Sql): Prisma.Sql => Prisma.sql`
+  SELECT 'doc' AS "type", d."id", ts_rank_cd(d."searchVector", ${tsQuery}) AS "rank",
+    d."updatedAt" AS "date"
+  FROM "documentation_pages" d
+  JOIN "documentation_sections" s ON s."id" = d."sectionId"
+  JOIN "documentation_products" pr ON pr."id" = s."productId"
+  WHERE d."published" = true
+    AND s."published" = true
+    AND pr."published" = true
+    AND d."searchVector" @@ ${tsQuery}
+`;
+
+// Headlines are costly, so they are only built for the page being returned.
+// Tags are stripped the same way as in the generated search vectors.
+const postHighlights = (
+  tsQuery: Prisma.Sql,
+  ids: string[]
+): Promise<HighlightRow[]> => db.$queryRaw<HighlightRow[]>`
+  SELECT "id", "title", "slug", NULL AS "productSlug", NULL AS "productName",
+    ts_headline('english', "title", ${tsQuery}, ${TITLE_OPTIONS}) AS "titleHighlight",
+    ts_headline('english', regexp_replace("content", '<[^>]*>', ' ', 'g'), ${tsQuery}, ${SNIPPET_OPTIONS}) AS "snippet"
+  FROM "posts"
+  WHERE "id" IN (${Prisma.join(ids)})
+`;
+
+const docHighlights = (
+  tsQuery: Prisma.Sql,
+  ids: string[]
+): Promise<HighlightRow[]> => db.$queryRaw<HighlightRow[]>`
+  SELECT d."id", d."title", d."slug", pr."slug" AS "productSlug", pr."name" AS "productName",
+    ts_headline('english', d."title", ${tsQuery}, ${TITLE_OPTIONS}) AS "titleHighlight",
+    ts_headline('english', regexp_replace(d."content", '<[^>]*>', ' ', 'g'), ${tsQuery}, ${SNIPPET_OPTIONS}) AS "snippet"
+  FROM "documentation_pages" d
+  JOIN "documentation_sections" s ON s."id" = d."sectionId"
+  JOIN "documentation_products" pr ON pr."id" = s."productId"
+  WHERE d."id" IN (${Prisma.join(ids)})
+`;
+
+/**
+ * Search published posts and documentation pages, best matches first
+ * @param options - The search input, what to search and which page to return
+ * @returns The page of results and the total number of matches
+ */
+export const searchContent = async (options: {
+  query: string;
+  type: SearchType;
+  limit: number;
+  offset: number;
+}): Promise<{ results: SearchResult[]; totalCount: number }> => {
+  const source = toPrefixTsQuery(options.query);
+
+  if (!source) {
+    return { results: [], totalCount: 0 };
+  }
+
+  const tsQuery = Prisma.sql`to_tsquery('english', ${source})`;
+  const parts: Prisma.Sql[] = [];
+
+  if (options.type !== 'docs') {
+    parts.push(postMatches(tsQuery));
+  }
+
+  if (options.type !== 'posts') {
+    parts.push(docMatches(tsQuery));
+  }
+
+  const matches = Prisma.join(parts, ' UNION ALL ');
+
+  const [page, counts] = await Promise.all([
+    db.$queryRaw<MatchRow[]>`
+      SELECT * FROM (${matches}) AS matches
+      ORDER BY "rank" DESC, "date" DESC
+      LIMIT ${options.limit} OFFSET ${options.offset}
+    `,
+    db.$queryRaw<{ count: bigint }[]>`
+      SELECT count(*) AS "count" FROM (${matches}) AS matches
+    `,
+  ]);
+
+  const postIds = page
+    .filter((row) => row.type === 'post')
+    .map((row) => row.id);
+  const docIds = page.filter((row) => row.type === 'doc').map((row) => row.id);
+
+  const [posts, docs] = await Promise.all([
+    postIds.length > 0 ? postHighlights(tsQuery, postIds) : [],
+    docIds.length > 0 ? docHighlights(tsQuery, docIds) : [],
+  ]);
+
+  const highlights = new Map([...posts, ...docs].map((row) => [row.id, row]));
+
+  const results = page.flatMap((match) => {
+    const highlight = highlights.get(match.id);
+
+    if (!highlight) {
+      return [];
+    }
+
+    return [
+      {
+        ...highlight,
+        type: match.type,
+        rank: Number(match.rank),
+        date: match.date,
+        titleHighlight: renderHighlight(highlight.titleHighlight),
+        snippet: renderHighlight(highlight.snippet),
+      },
+    ];
+  });
+
+  return {
+    results,
+    totalCount: Number(counts[0]?.count ?? 0),
+  };
+};
+
+// Backslash is Postgres' default LIKE escape
+const escapeLikePattern = (value: string): string =>
+  value.replace(/[\\%_]/g, '\\$&');
+
+/**
+ * Find one page of the posts matching a search, regardless of whether they
+ * are published. The listing's other filters, the ordering and the paging
+ * all happen in the database, so broad prefix searches stay cheap.
+ * @param options - The search input, the same filters as buildPostWhere
+ * and which page to return
+ * @returns The page's post ids, newest first, and the total number of
+ * matches
+ */
+export const searchPostPage = async (options: {
+  query: string;
+  author?: string;
+  published?: boolean;
+  tagSlugs?: string[];
+  limit: number;
+  offset: number;
+}): Promise<{ ids: string[]; totalCount: number }> => {
+  const source = toPrefixTsQuery(options.query);
+
+  if (!source) {
+    return { ids: [], totalCount: 0 };
+  }
+
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`p."searchVector" @@ to_tsquery('english', ${source})`,
+  ];
+
+  if (options.published !== undefined) {
+    conditions.push(Prisma.sql`p."published" = ${options.published}`);
+  }
+
+  if (options.author) {
+    const pattern = `%${escapeLikePattern(options.author)}%`;
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "users" u
+      WHERE u."id" = p."authorId"
+        AND (u."username" ILIKE ${pattern} OR u."firstName" ILIKE ${pattern} OR u."lastName" ILIKE ${pattern})
+    )`);
+  }
+
+  if (options.tagSlugs && options.tagSlugs.length > 0) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "post_tags" pt
+      JOIN "tags" t ON t."id" = pt."tagId"
+      WHERE pt."postId" = p."id" AND t."slug" IN (${Prisma.join(options.tagSlugs)})
+    )`);
+  }
+
+  const where = Prisma.join(conditions, ' AND ');
+
+  const [rows, counts] = await Promise.all([
+    db.$queryRaw<{ id: string }[]>`
+      SELECT p."id" FROM "posts" p
+      WHERE ${where}
+      ORDER BY p."createdAt" DESC
+      LIMIT ${options.limit} OFFSET ${options.offset}
+    `,
+    db.$queryRaw<{ count: bigint }[]>`
+      SELECT count(*) AS "count" FROM "posts" p
+      WHERE ${where}
+    `,
+  ]);
+
+  return {
+    ids: rows.map((row) => row.id),
+    totalCount: Number(counts[0]?.count ?? 0),
+  };
+};
@@ -0,0 +1,135 @@
+import { Prisma, SubscriberStatus } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '../db/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const optionalDate = z
+  .string()
+  .optional()
+  .refine((val) => !val || !isNaN(Date.parse(val)), 'Invalid date');
+
+const optionalDays = z.number().int().min(1).max(3650).optional();
+
+// Every rule narrows the segment; a segment without rules is everyone
+export const segmentRulesSchema = z
+  .object({
+    tagIds: z.array(z.string()).default([]), // Interested in any of these
+    // Subscribers who picked no topics get everything, so they match too
+    includeAllTopics: z.boolean().default(true),
+    subscribedAfter: optionalDate,
+    subscribedBefore: optionalDate,
+    engagedWithinDays: optionalDays,
+    notEngagedWithinDays: optionalDays,
+  })
+  .refine(
+    (rules) =>
+      !rules.subscribedAfter ||
+      !rules.subscribedBefore ||
+      Date.parse(rules.subscribedAfter) < Date.parse(rules.subscribedBefore),
+    {
+      message: 'Signup date range is empty',
+      path: ['subscribedBefore'],
+    }
+  );
+
+export type SegmentRules = z.infer<typeof segmentRulesSchema>;
+
+/**
+ * Read the rules stored on a segment
+ * @param rules - The segment's rules column
+ * @returns The rules with defaults filled in
+ */
+export const parseSegmentRules = (rules: Prisma.JsonValue): SegmentRules => {
+  return segmentRulesSchema.parse(rules);
+};
+
+/**
+ * Turn segment rules into a subscriber filter. Status is left to the caller
+ * so the same rules work for campaigns, exports and counts.
+ * @param rules - The segment's rules
+ * @param now - Reference time for the engagement windows
+ * @returns A where clause matching the segment's subscribers
+ */
+export const buildSegmentWhere = (
+  rules: SegmentRules,
+  now: Date = new Date()
+): Prisma.NewsletterSubscriberWhereInput => {
+  const conditions: Prisma.NewsletterSubscriberWhereInput[] = [];
+
+  if (rules.tagIds.length > 0) {
+    const interested = { tags: { some: { tagId: { in: rules.tagIds } } } };
+
+    conditions.push(
+      rules.includeAllTopics
+        ? { OR: [interested, { tags: { none: {} } }] }
+        : interested
+    );
+  }
+
+  if (rules.subscribedAfter) {
+    conditions.push({
+      subscribedAt: { gte: new Date(rules.subscribedAfter) },
+    });
+  }
+
+  if (rules.subscribedBefore) {
+    conditions.push({
+      subscribedAt: { lt: new Date(rules.subscribedBefore) },
+    });
+  }
+
+  if (rules.engagedWithinDays) {
+    conditions.push({
+      lastEngagedAt: {
+        gte: new Date(now.getTime() - rules.engagedWithinDays * DAY_MS),
+      },
+    });
+  }
+
+  if (rules.notEngagedWithinDays) {
+    const cutoff = new Date(
+      now.getTime() - rules.notEngagedWithinDays * DAY_MS
+    );
+
+    conditions.push({
+      OR: [{ lastEngagedAt: null }, { lastEngagedAt: { lt: cutoff } }],
+    });
+  }
+
+  return { AND: conditions };
+};
+
+/**
+ * Count the confirmed subscribers in a segment
+ * @param rules - The segment's rules
+ * @returns The number of subscribers a campaign to the segment would reach
+ */
+export const countSegmentSubscribers = (
+  rules: SegmentRules
+): Promise<number> => {
+  return db.newsletterSubscriber.count({
+    where: { status: SubscriberStatus.ACTIVE, ...buildSegmentWhere(rules) },
+  });
+};
+
+/**
+ * Keep only the ids of tags that exist, so subscribers can't pick topics
+ * that were deleted or never existed
+ * @param tagIds - The tag ids to check
+ * @returns The ids that belong to a tag
+ */
+export const filterExistingTagIds = async (
+  tagIds: string[]
+): Promise<string[]> => {
+  if (tagIds.length === 0) {
+    return [];
+  }
+
+  const tags = await db.tag.findMany({
+    where: { id: { in: tagIds } },
+    select: { id: true },
+  });
+
+  return tags.map((tag) => tag.id);
+};
@@ -0,0 +1,93 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { config } from './config';
+
+export type SignedTokenPurpose =
+  | 'newsletter-confirm'
+  | 'newsletter-unsubscribe'
+  | 'newsletter-open'
+  | 'newsletter-click'
+  | 'storage-upload'
+  | 'upload-complete';
+
+interface SignedTokenBody {
+  sub: string; // The id of the record the token acts on
+  exp?: number; // Expiry as a Unix timestamp in seconds
+}
+
+// Each purpose gets its own key, so a token minted for one job can never be
+// replayed against another, nor mistaken for a login token
+const getKey = (purpose: SignedTokenPurpose): Buffer => {
+  return createHmac('sha256', config.JWT_SECRET).update(purpose).digest();
+};
+
+const sign = (purpose: SignedTokenPurpose, payload: string): string => {
+  return createHmac('sha256', getKey(purpose))
+    .update(payload)
+    .digest('base64url');
+};
+
+/**
+ * Create a URL-safe token that proves the server issued it for a record
+ * @param purpose - What the token may be used for
+ * @param subject - The id of the record the token acts on
+ * @param expiresInSeconds - How long the token stays valid; omit for no expiry
+ * @returns The signed token
+ */
+export const createSignedToken = (
+  purpose: SignedTokenPurpose,
+  subject: string,
+  expiresInSeconds?: number
+): string => {
+  const body: SignedTokenBody = { sub: subject };
+
+  if (expiresInSeconds !== undefined) {
+    body.exp = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  }
+
+  const payload = Buffer.from(JSON.stringify(body)).toString('base64url');
+
+  return `${payload}.${sign(purpose, payload)}`;
+};
+
+/**
+ * Check a token's signature and expiry
+ * @param purpose - What the token is being used for
+ * @param token - The token to check
+ * @returns The subject the token was issued for, or null if the token is
+ * forged, malformed, meant for something else or expired
+ */
+export const verifySignedToken = (
+  purpose: SignedTokenPurpose,
+  token: string
+): string | null => {
+  const [payload, signature] = token.split('.');
+
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(purpose, payload));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const body = JSON.parse(
+      Buffer.from(payload, 'base64url').toString('utf8')
+    ) as SignedTokenBody;
+
+    if (typeof body.sub !== 'string') {
+      return null;
+    }
+
+    if (body.exp !== undefined && body.exp * 1000 < Date.now()) {
+      return null;
+    }
+
+    return body.sub;
+  } catch {
+    return null;
+  }
+};
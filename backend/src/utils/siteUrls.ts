@@ -0,0 +1,99 @@
+import { config } from './config';
+
+// Public frontend URLs for content, used wherever the backend links to the
+// site (feeds, sitemaps, emails)
+
+/**
+ * Get the public URL of a post
+ * @param slug - The post slug
+ * @returns The absolute URL of the post page
+ */
+export const getPostUrl = (slug: string): string => {
+  return `${config.SITE_URL}/post/${encodeURIComponent(slug)}`;
+};
+
+/**
+ * Get the public URL listing posts with a tag
+ * @param slug - The tag slug
+ * @returns The absolute URL of the home page filtered by the tag
+ */
+export const getTagUrl = (slug: string): string => {
+  return `${config.SITE_URL}/?tags=${encodeURIComponent(slug)}`;
+};
+
+/**
+ * Get the public URL listing posts by an author
+ * @param username - The author's username
+ * @returns The absolute URL of the home page filtered by the author
+ */
+export const getAuthorUrl = (username: string): string => {
+  return `${config.SITE_URL}/?author=${encodeURIComponent(username)}`;
+};
+
+/**
+ * Get the public URL of a documentation product or page
+ * @param productSlug - The product slug
+ * @param pageSlug - The page slug; omit for the product landing page
+ * @returns The absolute URL of the documentation page
+ */
+export const getDocsUrl = (productSlug: string, pageSlug?: string): string => {
+  const productUrl = `${config.SITE_URL}/docs/${encodeURIComponent(productSlug)}`;
+  return pageSlug
+    ? `${productUrl}/${encodeURIComponent(pageSlug)}`
+    : productUrl;
+};
+
+/**
+ * Get the public URL where a newsletter signup is confirmed
+ * @param token - The signed confirmation token
+ * @returns The absolute URL of the confirmation page
+ */
+export const getNewsletterConfirmUrl = (token: string): string => {
+  return `${config.SITE_URL}/newsletter/confirm?token=${encodeURIComponent(token)}`;
+};
+
+/**
+ * Get the public URL where a subscriber confirms unsubscribing
+ * @param token - The signed unsubscribe token
+ * @returns The absolute URL of the unsubscribe page
+ */
+export const getNewsletterUnsubscribeUrl = (token: string): string => {
+  return `${config.SITE_URL}/newsletter/unsubscribe?token=${encodeURIComponent(token)}`;
+};
+
+/**
+ * Get the public URL where a subscriber manages their newsletter settings
+ * @param token - The signed unsubscribe token
+ * @returns The absolute URL of the preferences page
+ */
+export const getNewsletterPreferencesUrl = (token: string): string => {
+  return `${config.SITE_URL}/newsletter/preferences?token=${encodeURIComponent(token)}`;
+};
+
+/**
+ * Get the API URL mail clients POST to for RFC 8058 one-click unsubscribe.
+ * Unlike the other links this points at the API, not the frontend.
+ * @param token - The signed unsubscribe token
+ * @returns The absolute one-click unsubscribe URL
+ */
+export const getOneClickUnsubscribeUrl = (token: string): string => {
+  return `${config.API_URL}/api/newsletter/unsubscribe?token=${encodeURIComponent(token)}`;
+};
+
+/**
+ * Get the API URL of the tracking pixel that records a campaign email open
+ * @param token - The signed open-tracking token
+ * @returns The absolute pixel URL
+ */
+export const getOpenTrackingUrl = (token: string): string => {
+  return `${config.API_URL}/api/newsletter/open/${encodeURIComponent(token)}`;
+};
+
+/**
+ * Get the API URL that records a click in a campaign email and redirects on
+ * @param token - The signed click-tracking token, which carries the target
+ * @returns The absolute redirect URL
+ */
+export const getClickTrackingUrl = (token: string): string => {
+  return `${config.API_URL}/api/newsletter/click/${encodeURIComponent(token)}`;
+};
@@ -0,0 +1,87 @@
+import { escapeXml } from './feeds';
+
+// The sitemap protocol caps a single sitemap at 50,000 URLs
+export const SITEMAP_MAX_URLS = 50000;
+
+export interface SitemapUrl {
+  loc: string;
+  lastmod?: Date;
+}
+
+/**
+ * Render a urlset sitemap
+ * @param urls - The URLs to list
+ * @returns The sitemap document
+ */
+export const buildSitemap = (urls: SitemapUrl[]): string => {
+  const entries = urls.map((url) =>
+    [
+      '  <url>',
+      `    <loc>${escapeXml(url.loc)}</loc>`,
+      url.lastmod ? `    <lastmod>${url.lastmod.toISOString()}</lastmod>` : '',
+      '  </url>',
+    ]
+      .filter(Boolean)
+      .join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries,
+    '</urlset>',
+  ].join('\n');
+};
+
+/**
+ * Render a sitemap index pointing at other sitemaps
+ * @param sitemaps - The sitemaps to list, with the newest change in each
+ * @returns The sitemap index document
+ */
+export const buildSitemapIndex = (sitemaps: SitemapUrl[]): string => {
+  const entries = sitemaps.map((sitemap) =>
+    [
+      '  <sitemap>',
+      `    <loc>${escapeXml(sitemap.loc)}</loc>`,
+      sitemap.lastmod
+        ? `    <lastmod>${sitemap.lastmod.toISOString()}</lastmod>`
+        : '',
+      '  </sitemap>',
+    ]
+      .filter(Boolean)
+      .join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries,
+    '</sitemapindex>',
+  ].join('\n');
+};
+
+/**
+ * Render robots.txt
+ * @param options - Paths to disallow, whether to disallow everything, and the
+ * sitemap URL to advertise
+ * @returns The robots.txt contents
+ */
+export const buildRobotsTxt = (options: {
+  disallow: string[];
+  disallowAll: boolean;
+  sitemapUrl: string;
+}): string => {
+  const rules = options.disallowAll
+    ? ['Disallow: /']
+    : options.disallow.length > 0
+      ? options.disallow.map((path) => `Disallow: ${path}`)
+      : ['Disallow:'];
+
+  return [
+    'User-agent: *',
+    ...rules,
+    '',
+    `Sitemap: ${options.sitemapUrl}`,
+    '',
+  ].join('\n');
+};
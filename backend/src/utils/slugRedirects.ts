@@ -0,0 +1,109 @@
+import { SlugRedirectType } from '@prisma/client';
+import { db } from '../db/client';
+
+export interface SlugRedirectHint {
+  slug: string; // The current slug
+  location: string; // Where the content now lives in the frontend
+}
+
+/**
+ * Remember an old slug so links to it keep working after a rename
+ * @param options - The kind of content, its id, the old and new slugs, and
+ * for docs pages the id of their product
+ */
+export const recordSlugChange = async (options: {
+  type: SlugRedirectType;
+  targetId: string;
+  fromSlug: string;
+  toSlug: string;
+  scope?: string;
+}): Promise<void> => {
+  const { type, targetId, fromSlug, toSlug, scope = '' } = options;
+
+  if (fromSlug === toSlug) {
+    return;
+  }
+
+  await db.$transaction([
+    // The new slug is live now, so it must not redirect anywhere
+    db.slugRedirect.deleteMany({
+      where: { type, scope, fromSlug: toSlug },
+    }),
+    db.slugRedirect.upsert({
+      where: { type_scope_fromSlug: { type, scope, fromSlug } },
+      create: { type, scope, fromSlug, targetId },
+      update: { targetId, manual: false },
+    }),
+  ]);
+};
+
+/**
+ * Look up where an old slug points now
+ * @param type - The kind of content the slug belonged to
+ * @param slug - The slug that was requested
+ * @param scope - The product id for docs pages; empty otherwise
+ * @returns The current slug and frontend location, or null if the slug was
+ * never redirected or its target has since been deleted
+ */
+export const resolveSlugRedirect = async (
+  type: SlugRedirectType,
+  slug: string,
+  scope = ''
+): Promise<SlugRedirectHint | null> => {
+  const redirect = await db.slugRedirect.findUnique({
+    where: { type_scope_fromSlug: { type, scope, fromSlug: slug } },
+  });
+
+  if (!redirect) {
+    return null;
+  }
+
+  switch (type) {
+    case SlugRedirectType.POST: {
+      const post = await db.post.findUnique({
+        where: { id: redirect.targetId },
+        select: { slug: true },
+      });
+      return post ? { slug: post.slug, location: `/post/${post.slug}` } : null;
+    }
+    case SlugRedirectType.TAG: {
+      const tag = await db.tag.findUnique({
+        where: { id: redirect.targetId },
+        select: { slug: true },
+      });
+      return tag ? { slug: tag.slug, location: `/?tags=${tag.slug}` } : null;
+    }
+    case SlugRedirectType.DOCUMENTATION_PRODUCT: {
+      const product = await db.documentationProduct.findUnique({
+        where: { id: redirect.targetId },
+        select: { slug: true },
+      });
+      return product
+        ? { slug: product.slug, location: `/docs/${product.slug}` }
+        : null;
+    }
+    case SlugRedirectType.DOCUMENTATION_PAGE: {
+      const page = await db.documentationPage.findUnique({
+        where: { id: redirect.targetId },
+        select: {
+          slug: true,
+          section: {
+            select: {
+              product: {
+                select: { slug: true },
+              },
+            },
+          },
+        },
+      });
+      return page
+        ? {
+            slug: page.slug,
+            location: `/docs/${page.section.product.slug}/${page.slug}`,
+          }
+        : null;
+    }
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,175 @@
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { config } from './config';
+import { createDiskDriver } from './diskStorage';
+import { createMinioDriver } from './minio';
+import { createS3Driver } from './s3Storage';
+
+export interface StoredObject {
+  key: string; // Object name
+  size: number; // Bytes
+  lastModified: Date;
+}
+
+export interface StoredObjectStat extends StoredObject {
+  contentType: string | null; // Null where the driver doesn't keep it
+}
+
+// Where and how a client sends a file straight to storage: as the body of
+// a PUT sent with the headers, or as a POST form of the fields then the file
+export type PresignedUpload =
+  | { url: string; method: 'PUT'; headers: Record<string, string> }
+  | { url: string; method: 'POST'; fields: Record<string, string> };
+
+// Where uploaded files live. Chosen by STORAGE_DRIVER.
+export interface StorageDriver {
+  name: string; // For logs
+  // Prepare the bucket or directory; called once at startup
+  init: () => Promise<void>;
+  put: (key: string, file: Buffer, mimetype: string) => Promise<void>;
+  // Only the first `length` bytes when given
+  get: (key: string, length?: number) => Promise<Buffer>;
+  // For files too big to hold in memory
+  getStream: (key: string) => Promise<Readable>;
+  // Null when the object doesn't exist
+  stat: (key: string) => Promise<StoredObjectStat | null>;
+  delete: (key: string) => Promise<void>;
+  copy: (sourceKey: string, key: string) => Promise<void>;
+  // Public URL clients load the object from
+  url: (key: string) => string;
+  // Temporary URL for reading the object
+  presign: (key: string, expirySeconds: number) => Promise<string>;
+  // Temporary URL a client can upload the object to without going through
+  // the API. Storage rejects anything bigger than maxSize or of another
+  // type; the contents are checked once the client completes the upload.
+  presignUpload: (
+    key: string,
+    mimetype: string,
+    maxSize: number,
+    expirySeconds: number
+  ) => Promise<PresignedUpload>;
+  list: () => Promise<StoredObject[]>;
+}
+
+const createStorageDriver = (): StorageDriver => {
+  switch (config.STORAGE_DRIVER) {
+    case 'local':
+      return createDiskDriver();
+    case 's3':
+      return createS3Driver();
+    case 'minio':
+      return createMinioDriver();
+  }
+};
+
+export const storage = createStorageDriver();
+
+export interface UploadedFile {
+  key: string; // Object name in storage
+  url: string;
+}
+
+const getExtension = (originalName: string): string => {
+  const extension = path.extname(originalName).toLowerCase() || '';
+
+  // Validate that the file has an extension
+  if (!extension) {
+    throw new Error(
+      'File must have a valid extension (e.g., .jpg, .png, .gif, .webp)'
+    );
+  }
+
+  return extension;
+};
+
+/**
+ * Pick a new unique object name for a file whose contents aren't known yet,
+ * such as a presigned upload
+ * @param originalName - Original filename
+ * @returns The object name, keeping the file's extension
+ */
+export const createObjectKey = (originalName: string): string => {
+  // Generate unique filename
+  const timestamp = Date.now();
+  const randomString = Math.random().toString(36).substring(2, 15);
+
+  return `${timestamp}-${randomString}${getExtension(originalName)}`;
+};
+
+/**
+ * Name an object after its contents, so the same file is only stored once
+ * @param contentHash - The file's SHA-256, from getContentHash
+ * @param originalName - Original filename
+ * @returns The object name, keeping the file's extension
+ */
+export const createContentKey = (
+  contentHash: string,
+  originalName: string
+): string => `${contentHash}${getExtension(originalName)}`;
+
+/**
+ * Hash a file's contents
+ * @param file - The file buffer
+ * @returns The SHA-256, in hex
+ */
+export const getContentHash = (file: Buffer): string =>
+  createHash('sha256').update(file).digest('hex');
+
+/**
+ * Hash a stored object without loading it all into memory
+ * @param key - The object name
+ * @returns The SHA-256, in hex
+ */
+export const getStoredContentHash = async (key: string): Promise<string> => {
+  const hash = createHash('sha256');
+
+  for await (const chunk of await storage.getStream(key)) {
+    hash.update(chunk as Buffer);
+  }
+
+  return hash.digest('hex');
+};
+
+/**
+ * Store a file under the given object name
+ * @param key - The object name
+ * @param file - The file buffer to upload
+ * @param mimetype - File MIME type
+ * @returns The object name and public URL of the stored file
+ */
+export const putFile = async (
+  key: string,
+  file: Buffer,
+  mimetype: string
+): Promise<UploadedFile> => {
+  await storage.put(key, file, mimetype);
+
+  return { key, url: storage.url(key) };
+};
+
+/**
+ * Upload a file under a name derived from its contents
+ * @param file - The file buffer to upload
+ * @param originalName - Original filename
+ * @param mimetype - File MIME type
+ * @param contentHash - The file's SHA-256, when already worked out
+ * @returns The object name and public URL of the uploaded file
+ */
+export const uploadFile = async (
+  file: Buffer,
+  originalName: string,
+  mimetype: string,
+  contentHash = getContentHash(file)
+): Promise<UploadedFile> => {
+  try {
+    return await putFile(
+      createContentKey(contentHash, originalName),
+      file,
+      mimetype
+    );
+  } catch (error) {
+    console.error(`Error uploading file to ${storage.name} storage:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,315 @@
+import { SubscriberStatus } from '@prisma/client';
+import * as XLSX from 'xlsx';
+import { z } from 'zod';
+import { db } from '../db/client';
+
+// Large lists are counted in full, but only this many rows per outcome are
+// listed back for review
+const MAX_LISTED_ROWS = 100;
+
+export const MAX_IMPORT_ROWS = 50000;
+
+export interface ImportColumnMapping {
+  email?: string;
+  subscribedAt?: string; // Optional; rows without it count as subscribed now
+}
+
+export interface ParsedSubscriberFile {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+export interface ImportRow {
+  row: number; // Spreadsheet row number, counting the header as row 1
+  email: string;
+  reason?: string;
+}
+
+interface NewImportRow extends ImportRow {
+  subscribedAt: Date;
+}
+
+interface ReactivatedImportRow extends ImportRow {
+  subscriberId: string;
+}
+
+export interface SubscriberImportPlan {
+  new: NewImportRow[];
+  reactivated: ReactivatedImportRow[];
+  invalid: ImportRow[];
+  duplicate: ImportRow[];
+}
+
+export interface SubscriberImportReport {
+  summary: Record<keyof SubscriberImportPlan, number>;
+  rows: Record<keyof SubscriberImportPlan, ImportRow[]>;
+}
+
+const emailSchema = z.string().email();
+
+/**
+ * Read the first sheet of a CSV or XLSX file
+ * @param buffer - The uploaded file
+ * @returns The header row and one object per data row, keyed by header
+ */
+export const parseSubscriberFile = (buffer: Buffer): ParsedSubscriberFile => {
+  const workbook = XLSX.read(buffer, { type: 'buffer', cellDates: true });
+  const sheetName = workbook.SheetNames[0];
+  const sheet = sheetName ? workbook.Sheets[sheetName] : undefined;
+
+  if (!sheet) {
+    return { columns: [], rows: [] };
+  }
+
+  const [header = [], ...dataRows] = XLSX.utils.sheet_to_json<unknown[]>(
+    sheet,
+    { header: 1, blankrows: false, defval: '' }
+  );
+
+  const columns = header.map((cell) => String(cell).trim());
+
+  const rows = dataRows.map((cells) =>
+    Object.fromEntries(columns.map((column, i) => [column, cells[i]]))
+  );
+
+  return { columns, rows };
+};
+
+/**
+ * Pick likely columns from the headers Mailchimp, Substack and most other
+ * services use in their exports
+ * @param columns - The file's header row
+ * @returns The guessed mapping; fields without a likely column are omitted
+ */
+export const guessColumnMapping = (columns: string[]): ImportColumnMapping => {
+  const find = (pattern: RegExp): string | undefined =>
+    columns.find((column) => pattern.test(column));
+
+  return {
+    email: find(/^e-?mail(\s*address)?$/i) ?? find(/e-?mail/i),
+    subscribedAt: find(
+      /(opt-?in|subscribed|signup|sign[\s_-]?up|created)[\s_-]*(at|date|time)?/i
+    ),
+  };
+};
+
+const parseDate = (value: unknown): Date | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+
+  if (typeof value === 'string' && value.trim()) {
+    const date = new Date(value.trim());
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  return null;
+};
+
+/**
+ * Sort every row into what importing it would do. Addresses that
+ * unsubscribed here are left alone unless reactivateUnsubscribed is set, so
+ * an old export cannot undo an opt-out.
+ * @param file - The parsed file
+ * @param mapping - Which columns hold which fields; email is required
+ * @param reactivateUnsubscribed - Also resubscribe people who unsubscribed
+ * @returns The rows grouped by outcome
+ */
+export const planSubscriberImport = async (
+  file: ParsedSubscriberFile,
+  mapping: ImportColumnMapping & { email: string },
+  reactivateUnsubscribed = false
+): Promise<SubscriberImportPlan> => {
+  const plan: SubscriberImportPlan = {
+    new: [],
+    reactivated: [],
+    invalid: [],
+    duplicate: [],
+  };
+
+  const candidates: NewImportRow[] = [];
+  const seen = new Set<string>();
+  const now = new Date();
+
+  file.rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const rawEmail = row[mapping.email];
+    const email =
+      typeof rawEmail === 'string' ? rawEmail.trim().toLowerCase() : '';
+
+    if (!emailSchema.safeParse(email).success) {
+      plan.invalid.push({
+        row: rowNumber,
+        email: typeof rawEmail === 'string' ? rawEmail : String(rawEmail),
+        reason: email ? 'Not a valid email address' : 'Missing email address',
+      });
+      return;
+    }
+
+    if (seen.has(email)) {
+      plan.duplicate.push({
+        row: rowNumber,
+        email,
+        reason: 'Repeated in this file',
+      });
+      return;
+    }
+
+    seen.add(email);
+
+    // Dates in the future or that don't parse fall back to now
+    const subscribedAt = mapping.subscribedAt
+      ? parseDate(row[mapping.subscribedAt])
+      : null;
+
+    candidates.push({
+      row: rowNumber,
+      email,
+      subscribedAt: subscribedAt && subscribedAt <= now ? subscribedAt : now,
+    });
+  });
+
+  // Addresses typed into the signup form keep their original case, so
+  // compare case-insensitively
+  const existing =
+    candidates.length > 0
+      ? await db.$queryRaw<
+          { id: string; email: string; status: SubscriberStatus }[]
+        >`SELECT "id", "email", "status" FROM "newsletter_subscribers" WHERE LOWER("email") = ANY(${candidates.map((c) => c.email)})`
+      : [];
+
+  // Mailing these again would hurt deliverability for everyone else
+  const suppressedEmails = new Set(
+    candidates.length > 0
+      ? (
+          await db.suppressedEmail.findMany({
+            where: { email: { in: candidates.map((c) => c.email) } },
+            select: { email: true },
+          })
+        ).map((suppressed) => suppressed.email)
+      : []
+  );
+
+  const existingByEmail = new Map(
+    existing.map((subscriber) => [subscriber.email.toLowerCase(), subscriber])
+  );
+
+  for (const candidate of candidates) {
+    const subscriber = existingByEmail.get(candidate.email);
+
+    if (suppressedEmails.has(candidate.email)) {
+      plan.duplicate.push({
+        row: candidate.row,
+        email: candidate.email,
+        reason: 'Suppressed after a bounce or spam complaint',
+      });
+    } else if (subscriber?.status === SubscriberStatus.BOUNCED) {
+      // The status alone counts, even where the suppression row is gone
+      plan.duplicate.push({
+        row: candidate.row,
+        email: candidate.email,
+        reason: 'Bounced; not imported',
+      });
+    } else if (subscriber?.status === SubscriberStatus.COMPLAINED) {
+      plan.duplicate.push({
+        row: candidate.row,
+        email: candidate.email,
+        reason: 'Marked our email as spam; not imported',
+      });
+    } else if (!subscriber) {
+      plan.new.push(candidate);
+    } else if (subscriber.status === SubscriberStatus.ACTIVE) {
+      plan.duplicate.push({
+        row: candidate.row,
+        email: candidate.email,
+        reason: 'Already subscribed',
+      });
+    } else if (
+      subscriber.status === SubscriberStatus.UNSUBSCRIBED &&
+      !reactivateUnsubscribed
+    ) {
+      plan.duplicate.push({
+        row: candidate.row,
+        email: candidate.email,
+        reason: 'Unsubscribed here; left unsubscribed',
+      });
+    } else {
+      plan.reactivated.push({
+        row: candidate.row,
+        email: candidate.email,
+        subscriberId: subscriber.id,
+        reason:
+          subscriber.status === SubscriberStatus.PENDING
+            ? 'Awaiting confirmation'
+            : 'Previously unsubscribed',
+      });
+    }
+  }
+
+  return plan;
+};
+
+/**
+ * Summarize a plan for the dry-run report
+ * @param plan - The planned import
+ * @returns Counts per outcome and the first rows of each
+ */
+export const summarizeImportPlan = (
+  plan: SubscriberImportPlan
+): SubscriberImportReport => {
+  const list = (rows: ImportRow[]): ImportRow[] =>
+    rows
+      .slice(0, MAX_LISTED_ROWS)
+      .map(({ row, email, reason }) => ({ row, email, reason }));
+
+  return {
+    summary: {
+      new: plan.new.length,
+      reactivated: plan.reactivated.length,
+      invalid: plan.invalid.length,
+      duplicate: plan.duplicate.length,
+    },
+    rows: {
+      new: list(plan.new),
+      reactivated: list(plan.reactivated),
+      invalid: list(plan.invalid),
+      duplicate: list(plan.duplicate),
+    },
+  };
+};
+
+/**
+ * Create and reactivate the subscribers in a plan. Imported addresses
+ * already opted in with the previous provider, so they start out confirmed.
+ * @param plan - The planned import
+ * @returns How many subscribers were created and reactivated
+ */
+export const applySubscriberImport = async (
+  plan: SubscriberImportPlan
+): Promise<{ created: number; reactivated: number }> => {
+  const confirmedAt = new Date();
+
+  const [created, reactivated] = await db.$transaction([
+    db.newsletterSubscriber.createMany({
+      data: plan.new.map((row) => ({
+        email: row.email,
+        status: SubscriberStatus.ACTIVE,
+        subscribedAt: row.subscribedAt,
+        confirmedAt,
+      })),
+      skipDuplicates: true,
+    }),
+    db.newsletterSubscriber.updateMany({
+      where: {
+        id: { in: plan.reactivated.map((row) => row.subscriberId) },
+        // In case they bounced or complained since the plan was made
+        status: {
+          notIn: [SubscriberStatus.BOUNCED, SubscriberStatus.COMPLAINED],
+        },
+      },
+      data: { status: SubscriberStatus.ACTIVE, confirmedAt },
+    }),
+  ]);
+
+  return { created: created.count, reactivated: reactivated.count };
+};
@@ -0,0 +1,413 @@
+import { db } from '../db/client';
+import { config } from './config';
+import { storage, StoredObject } from './storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CLEANUP_INTERVAL_MS = DAY_MS;
+
+// Rows of content loaded at once while looking for references
+const SCAN_BATCH_SIZE = 200;
+
+// Keys sent in one query; Postgres allows at most 65535 bind parameters
+const KEY_BATCH_SIZE = 1000;
+
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+export interface OrphanedUploadEntry {
+  key: string;
+  url: string;
+  size: number; // Bytes
+  lastModified: Date;
+  detectedAt: Date | null; // Null until the cleanup job has seen it
+  deleteAfter: Date | null;
+}
+
+export interface OrphanedUploadReport {
+  cleanupEnabled: boolean;
+  graceDays: number;
+  totalSize: number; // Bytes
+  orphans: OrphanedUploadEntry[];
+}
+
+interface ReferenceRow {
+  id: string;
+  text: (string | null)[]; // HTML or URLs that may link to uploads
+}
+
+interface ReferenceScan {
+  paths: Set<string>; // Every path linked from content
+  counts: Map<string, number>; // Rows of content linking to each asset, by id
+}
+
+interface PageArgs {
+  orderBy: { id: 'asc' };
+  take: number;
+  skip?: number;
+  cursor?: { id: string };
+}
+
+const getPage = (cursor: string | undefined): PageArgs => ({
+  orderBy: { id: 'asc' },
+  take: SCAN_BATCH_SIZE,
+  ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+});
+
+const loadPostReferences = async (page: PageArgs): Promise<ReferenceRow[]> =>
+  (
+    await db.post.findMany({
+      select: { id: true, content: true, coverImage: true },
+      ...page,
+    })
+  ).map((post) => ({ id: post.id, text: [post.content, post.coverImage] }));
+
+const loadAutosaveReferences = async (
+  page: PageArgs
+): Promise<ReferenceRow[]> =>
+  (
+    await db.postAutosave.findMany({
+      select: { id: true, content: true, coverImage: true },
+      ...page,
+    })
+  ).map((autosave) => ({
+    id: autosave.id,
+    text: [autosave.content, autosave.coverImage],
+  }));
+
+// Restoring a revision brings its images back, so they must still exist
+const loadRevisionReferences = async (
+  page: PageArgs
+): Promise<ReferenceRow[]> =>
+  (
+    await db.postRevision.findMany({
+      select: { id: true, content: true, coverImage: true },
+      ...page,
+    })
+  ).map((revision) => ({
+    id: revision.id,
+    text: [revision.content, revision.coverImage],
+  }));
+
+const loadDocumentationReferences = async (
+  page: PageArgs
+): Promise<ReferenceRow[]> =>
+  (
+    await db.documentationPage.findMany({
+      select: { id: true, content: true },
+      ...page,
+    })
+  ).map((docPage) => ({ id: docPage.id, text: [docPage.content] }));
+
+const loadAvatarReferences = async (page: PageArgs): Promise<ReferenceRow[]> =>
+  (
+    await db.user.findMany({
+      select: { id: true, avatar: true },
+      ...page,
+    })
+  ).map((user) => ({ id: user.id, text: [user.avatar] }));
+
+// Sent emails keep loading their images from storage
+const loadCampaignReferences = async (
+  page: PageArgs
+): Promise<ReferenceRow[]> =>
+  (
+    await db.campaign.findMany({
+      select: { id: true, content: true },
+      ...page,
+    })
+  ).map((campaign) => ({ id: campaign.id, text: [campaign.content] }));
+
+// Everything that can link to an upload
+const referenceLoaders = [
+  loadPostReferences,
+  loadAutosaveReferences,
+  loadRevisionReferences,
+  loadDocumentationReferences,
+  loadAvatarReferences,
+  loadCampaignReferences,
+];
+
+/**
+ * Split a list into batches small enough to send as query parameters
+ * @param items - The list
+ * @returns Batches of at most KEY_BATCH_SIZE items
+ */
+const inBatches = <T>(items: T[]): T[][] => {
+  const batches: T[][] = [];
+  for (let index = 0; index < items.length; index += KEY_BATCH_SIZE) {
+    batches.push(items.slice(index, index + KEY_BATCH_SIZE));
+  }
+  return batches;
+};
+
+/**
+ * Add every path in a piece of content that could name an object. Each URL
+ * path contributes all of its trailing parts, so a reference still matches
+ * when storage is served from another host or path.
+ * @param text - HTML or a bare URL
+ * @param paths - Collected paths
+ */
+const addReferencedPaths = (text: string, paths: Set<string>): void => {
+  for (const match of text.matchAll(/\/([^\s"'<>()?#,]+)/g)) {
+    let path = match[1] ?? '';
+
+    try {
+      path = decodeURIComponent(path);
+    } catch {
+      // Not percent-encoded after all; use it as written
+    }
+
+    const segments = path.split('/');
+    for (let index = 0; index < segments.length; index++) {
+      paths.add(segments.slice(index).join('/'));
+    }
+  }
+};
+
+/**
+ * Collect every path linked from content, revisions, cover images, avatars
+ * and campaigns, counting how many rows link to each asset
+ * @param assetIds - The asset each object belongs to, by object key
+ * @returns The paths, to be matched against object names, and the counts
+ */
+const scanReferences = async (
+  assetIds: Map<string, string>
+): Promise<ReferenceScan> => {
+  const paths = new Set<string>();
+  const counts = new Map<string, number>();
+
+  for (const loadBatch of referenceLoaders) {
+    let cursor: string | undefined;
+
+    do {
+      const rows = await loadBatch(getPage(cursor));
+
+      for (const row of rows) {
+        const rowPaths = new Set<string>();
+        for (const text of row.text) {
+          if (text) {
+            addReferencedPaths(text, rowPaths);
+          }
+        }
+
+        // A row linking to an image and its variants counts once
+        const linkedAssets = new Set<string>();
+        for (const path of rowPaths) {
+          paths.add(path);
+          const assetId = assetIds.get(path);
+          if (assetId) {
+            linkedAssets.add(assetId);
+          }
+        }
+        for (const assetId of linkedAssets) {
+          counts.set(assetId, (counts.get(assetId) ?? 0) + 1);
+        }
+      }
+
+      cursor =
+        rows.length === SCAN_BATCH_SIZE ? rows[rows.length - 1]?.id : undefined;
+    } while (cursor);
+  }
+
+  return { paths, counts };
+};
+
+/**
+ * Find stored objects nothing links to. An uploaded image and its resized
+ * variants count as one: a link to any of them keeps them all.
+ * @returns The unreferenced objects, and how many rows link to each asset
+ */
+const findUnreferencedObjects = async (): Promise<{
+  orphans: StoredObject[];
+  counts: Map<string, number>;
+}> => {
+  const [objects, assets] = await Promise.all([
+    storage.list(),
+    db.asset.findMany({
+      select: { id: true, key: true, variants: { select: { key: true } } },
+    }),
+  ]);
+
+  const groups = new Map<string, string[]>();
+  const assetIds = new Map<string, string>();
+  for (const asset of assets) {
+    const keys = [asset.key, ...asset.variants.map((variant) => variant.key)];
+    for (const key of keys) {
+      groups.set(key, keys);
+      assetIds.set(key, asset.id);
+    }
+  }
+
+  const { paths, counts } = await scanReferences(assetIds);
+
+  // Every asset gets a count, so ones nothing links to any more drop to 0
+  for (const asset of assets) {
+    counts.set(asset.id, counts.get(asset.id) ?? 0);
+  }
+
+  return {
+    orphans: objects.filter((object) => {
+      const keys = groups.get(object.key) ?? [object.key];
+      return !keys.some((key) => paths.has(key));
+    }),
+    counts,
+  };
+};
+
+/**
+ * Store what the latest scan found in each asset's reference count
+ * @param counts - Rows of content linking to each asset, by id
+ */
+const updateReferenceCounts = async (
+  counts: Map<string, number>
+): Promise<void> => {
+  const idsByCount = new Map<number, string[]>();
+  for (const [assetId, count] of counts) {
+    const ids = idsByCount.get(count) ?? [];
+    ids.push(assetId);
+    idsByCount.set(count, ids);
+  }
+
+  for (const [count, assetIds] of idsByCount) {
+    for (const ids of inBatches(assetIds)) {
+      await db.asset.updateMany({
+        where: { id: { in: ids } },
+        data: { referenceCount: count },
+      });
+    }
+  }
+};
+
+/**
+ * Preview what the cleanup job would delete, without changing anything
+ * @returns Unreferenced objects, oldest first, with when each becomes due
+ */
+export const getOrphanedUploadReport =
+  async (): Promise<OrphanedUploadReport> => {
+    const { orphans } = await findUnreferencedObjects();
+    const tracked = await db.orphanedUpload.findMany({
+      select: { key: true, detectedAt: true },
+    });
+    const detectedAt = new Map(
+      tracked.map((upload) => [upload.key, upload.detectedAt])
+    );
+    const graceMs = config.UPLOAD_CLEANUP_GRACE_DAYS * DAY_MS;
+
+    return {
+      cleanupEnabled: config.UPLOAD_CLEANUP_ENABLED,
+      graceDays: config.UPLOAD_CLEANUP_GRACE_DAYS,
+      totalSize: orphans.reduce((total, orphan) => total + orphan.size, 0),
+      orphans: orphans
+        .map((orphan) => {
+          const detected = detectedAt.get(orphan.key) ?? null;
+
+          return {
+            ...orphan,
+            url: storage.url(orphan.key),
+            detectedAt: detected,
+            deleteAfter: detected
+              ? new Date(detected.getTime() + graceMs)
+              : null,
+          };
+        })
+        .sort((a, b) => a.lastModified.getTime() - b.lastModified.getTime()),
+    };
+  };
+
+/**
+ * Refresh each asset's reference count, record newly unreferenced objects
+ * and delete the ones that have stayed unreferenced for the grace period,
+ * along with their media library entries
+ * @returns The number of objects deleted
+ */
+export const cleanUpOrphanedUploads = async (): Promise<number> => {
+  const { orphans, counts } = await findUnreferencedObjects();
+  await updateReferenceCounts(counts);
+  const orphanKeys = new Set(orphans.map((orphan) => orphan.key));
+
+  // Objects that are linked again, or already gone, start over if orphaned
+  const tracked = await db.orphanedUpload.findMany({ select: { key: true } });
+  const resolved = tracked
+    .map((upload) => upload.key)
+    .filter((key) => !orphanKeys.has(key));
+
+  for (const keys of inBatches(resolved)) {
+    await db.orphanedUpload.deleteMany({ where: { key: { in: keys } } });
+  }
+  for (const batch of inBatches(orphans)) {
+    await db.orphanedUpload.createMany({
+      data: batch.map((orphan) => ({ key: orphan.key, size: orphan.size })),
+      skipDuplicates: true,
+    });
+  }
+
+  const cutoff = new Date(
+    Date.now() - config.UPLOAD_CLEANUP_GRACE_DAYS * DAY_MS
+  );
+  const due = await db.orphanedUpload.findMany({
+    where: { detectedAt: { lt: cutoff } },
+    select: { key: true },
+  });
+
+  let deleted = 0;
+  for (const { key } of due) {
+    // Uploading the same file again since the scan clears its record
+    const { count } = await db.orphanedUpload.deleteMany({
+      where: { key, detectedAt: { lt: cutoff } },
+    });
+    if (count === 0) {
+      continue;
+    }
+
+    await storage.delete(key);
+    await db.$transaction([
+      db.assetVariant.deleteMany({ where: { key } }),
+      db.asset.deleteMany({ where: { key } }),
+    ]);
+    deleted++;
+  }
+
+  return deleted;
+};
+
+const runCleanup = (): void => {
+  cleanUpOrphanedUploads()
+    .then((count) => {
+      if (count > 0) {
+        console.log(`🧹 Deleted ${count} unused upload(s)`);
+      }
+    })
+    .catch((error) => {
+      console.error('Error cleaning up unused uploads:', error);
+    });
+};
+
+/**
+ * Clean up unused uploads now and then once a day, if enabled
+ * @returns Whether the cleanup job was started
+ */
+export const startUploadCleanup = (): boolean => {
+  stopUploadCleanup();
+
+  if (!config.UPLOAD_CLEANUP_ENABLED) {
+    return false;
+  }
+
+  runCleanup();
+
+  cleanupTimer = setInterval(runCleanup, CLEANUP_INTERVAL_MS);
+  // The cleanup must not keep the process alive during shutdown
+  cleanupTimer.unref();
+
+  return true;
+};
+
+/**
+ * Stop the daily upload cleanup
+ */
+export const stopUploadCleanup = (): void => {
+  if (cleanupTimer) {
+    clearInterval(cleanupTimer);
+    cleanupTimer = null;
+  }
+};
@@ -0,0 +1,134 @@
+import * as path from 'path';
+import { sniffMimeTypes } from './fileSniffing';
+
+const MB = 1024 * 1024;
+
+// Multipart uploads are held in memory, so bigger files must be presigned
+export const MULTIPART_UPLOAD_MAX_SIZE = 50 * MB;
+
+export type UploadKind = 'image' | 'document' | 'archive' | 'audio' | 'video';
+
+export interface UploadType {
+  mimeType: string;
+  kind: UploadKind;
+  extensions: string[]; // Lowercase, with the dot
+  maxSize: number; // Bytes
+}
+
+// Files editors can attach to posts and docs. Each extension belongs to
+// one type, so a file's name decides what it must contain.
+export const UPLOAD_TYPES: UploadType[] = [
+  {
+    mimeType: 'image/jpeg',
+    kind: 'image',
+    extensions: ['.jpg', '.jpeg'],
+    maxSize: 20 * MB,
+  },
+  {
+    mimeType: 'image/png',
+    kind: 'image',
+    extensions: ['.png'],
+    maxSize: 20 * MB,
+  },
+  {
+    mimeType: 'image/gif',
+    kind: 'image',
+    extensions: ['.gif'],
+    maxSize: 20 * MB,
+  },
+  {
+    mimeType: 'image/webp',
+    kind: 'image',
+    extensions: ['.webp'],
+    maxSize: 20 * MB,
+  },
+  {
+    mimeType: 'application/pdf',
+    kind: 'document',
+    extensions: ['.pdf'],
+    maxSize: 50 * MB,
+  },
+  {
+    mimeType: 'application/zip',
+    kind: 'archive',
+    extensions: ['.zip'],
+    maxSize: 100 * MB,
+  },
+  {
+    mimeType: 'audio/mpeg',
+    kind: 'audio',
+    extensions: ['.mp3'],
+    maxSize: 50 * MB,
+  },
+  {
+    mimeType: 'audio/mp4',
+    kind: 'audio',
+    extensions: ['.m4a'],
+    maxSize: 50 * MB,
+  },
+  {
+    mimeType: 'audio/ogg',
+    kind: 'audio',
+    extensions: ['.ogg', '.oga', '.opus'],
+    maxSize: 50 * MB,
+  },
+  {
+    mimeType: 'audio/wav',
+    kind: 'audio',
+    extensions: ['.wav'],
+    maxSize: 50 * MB,
+  },
+  {
+    mimeType: 'video/mp4',
+    kind: 'video',
+    extensions: ['.mp4', '.m4v'],
+    maxSize: 200 * MB,
+  },
+  {
+    mimeType: 'video/webm',
+    kind: 'video',
+    extensions: ['.webm'],
+    maxSize: 200 * MB,
+  },
+];
+
+/**
+ * Look up the upload rules for a file by its extension
+ * @param fileName - The file's name
+ * @returns The rules, or null if the extension isn't allowed
+ */
+export const getUploadType = (fileName: string): UploadType | null => {
+  const extension = path.extname(fileName).toLowerCase();
+
+  return (
+    UPLOAD_TYPES.find((uploadType) =>
+      uploadType.extensions.includes(extension)
+    ) ?? null
+  );
+};
+
+/**
+ * Check a file's contents are what its extension says
+ * @param uploadType - The rules picked by the file's extension
+ * @param head - The start of the file; see SNIFF_BYTES
+ * @returns Whether the magic bytes match the type
+ */
+export const contentMatchesType = (
+  uploadType: UploadType,
+  head: Buffer
+): boolean => sniffMimeTypes(head).includes(uploadType.mimeType);
+
+/**
+ * Format a size limit for error messages
+ * @param bytes - The limit
+ * @returns The limit in whole megabytes, e.g. "20MB"
+ */
+export const formatSizeLimit = (bytes: number): string =>
+  `${Math.floor(bytes / MB)}MB`;
+
+/**
+ * List the allowed extensions for error messages
+ * @returns The extensions, e.g. ".jpg, .jpeg, .png"
+ */
+export const describeUploadTypes = (): string =>
+  UPLOAD_TYPES.flatMap((uploadType) => uploadType.extensions).join(', ');
@@ -21,6 +21,10 @@ import DocumentationHub from "./pages/DocumentationHub";
 import DocumentationEditor from "./pages/DocumentationEditor";
 import DocumentationViewer from "./pages/DocumentationViewer";
 import DocsLanding from "./pages/DocsLanding";
+import Search from "./pages/Search";
+import NewsletterConfirm from "./pages/NewsletterConfirm";
+import NewsletterUnsubscribe from "./pages/NewsletterUnsubscribe";
+import NewsletterPreferences from "./pages/NewsletterPreferences";
 import ProtectedRoute from "./components/ProtectedRoute";
 
 // Create a client
@@ -47,6 +51,19 @@ function App() {
                   <Route path="/login" element={<Login />} />
                   <Route path="/register" element={<Register />} />
                   <Route path="/post/:slug" element={<PostDetail />} />
+                  <Route path="/search" element={<Search />} />
+                  <Route
+                    path="/newsletter/confirm"
+                    element={<NewsletterConfirm />}
+                  />
+                  <Route
+                    path="/newsletter/unsubscribe"
+                    element={<NewsletterUnsubscribe />}
+                  />
+                  <Route
+                    path="/newsletter/preferences"
+                    element={<NewsletterPreferences />}
+                  />
 
                   {/* Protected routes */}
                   <Route
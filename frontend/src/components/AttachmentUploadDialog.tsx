@@ -0,0 +1,277 @@
+import React, { useState, useRef, useEffect } from "react";
+import axios from "axios";
+import { Upload, X, Paperclip, Loader2 } from "lucide-react";
+import { uploadAPI } from "../services/api";
+import { formatFileSize } from "../lib/utils";
+import type { Asset } from "../types";
+
+interface AttachmentUploadDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onAttachmentUploaded: (asset: Asset) => void;
+}
+
+const MB = 1024 * 1024;
+
+// Mirrors the API's allowlist; it checks the contents as well
+const attachmentLimits: Record<string, number> = {
+  ".pdf": 50 * MB,
+  ".zip": 100 * MB,
+  ".mp3": 50 * MB,
+  ".m4a": 50 * MB,
+  ".ogg": 50 * MB,
+  ".oga": 50 * MB,
+  ".opus": 50 * MB,
+  ".wav": 50 * MB,
+  ".mp4": 200 * MB,
+  ".m4v": 200 * MB,
+  ".webm": 200 * MB,
+};
+
+const getExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf(".");
+  return dot === -1 ? "" : fileName.slice(dot).toLowerCase();
+};
+
+const AttachmentUploadDialog: React.FC<AttachmentUploadDialogProps> = ({
+  isOpen,
+  onClose,
+  onAttachmentUploaded,
+}) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectFile = (file: File) => {
+    const maxSize = attachmentLimits[getExtension(file.name)];
+    if (!maxSize) {
+      setError(
+        "Invalid file type. Only PDFs, zip archives, MP3/M4A/OGG/WAV audio and MP4/WebM videos are allowed.",
+      );
+      return;
+    }
+
+    if (file.size > maxSize) {
+      setError(
+        `File size too large. Maximum size for this type is ${maxSize / MB}MB.`,
+      );
+      return;
+    }
+
+    setError(null);
+    setSelectedFile(file);
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) selectFile(file);
+  };
+
+  const handleUpload = async () => {
+    if (!selectedFile) return;
+
+    setUploading(true);
+    setError(null);
+    setUploadProgress(0);
+
+    try {
+      const response = await uploadAPI.uploadDirect(
+        selectedFile,
+        (progressEvent) => {
+          const progress = progressEvent.total
+            ? Math.round((progressEvent.loaded * 100) / progressEvent.total)
+            : 0;
+          setUploadProgress(progress);
+        },
+      );
+
+      onAttachmentUploaded(response.data.asset);
+      handleClose();
+    } catch (err) {
+      console.error("Upload error:", err);
+      setError(
+        (axios.isAxiosError(err) && err.response?.data?.error) ||
+          "Failed to upload file. Please try again.",
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setSelectedFile(null);
+    setUploadProgress(0);
+    setError(null);
+    onClose();
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    const file = event.dataTransfer.files[0];
+    if (file) selectFile(file);
+  };
+
+  // Handle escape key to close dialog
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !uploading) {
+        setSelectedFile(null);
+        setUploadProgress(0);
+        setError(null);
+        onClose();
+      }
+    };
+    if (isOpen) {
+      document.addEventListener("keydown", handleEscape);
+      return () => document.removeEventListener("keydown", handleEscape);
+    }
+  }, [isOpen, uploading, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="attachment-dialog-title"
+      onClick={(e) =>
+        e.target === e.currentTarget && !uploading && handleClose()
+      }
+    >
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2
+            id="attachment-dialog-title"
+            className="text-lg font-semibold text-gray-900"
+          >
+            Attach File
+          </h2>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            disabled={uploading}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4">
+          {!selectedFile ? (
+            <div
+              onDragOver={handleDragOver}
+              onDrop={handleDrop}
+              onClick={() => fileInputRef.current?.click()}
+              className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center cursor-pointer hover:border-primary-500 transition-colors"
+            >
+              <Upload className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-sm text-gray-600 mb-2">
+                Click to upload or drag and drop
+              </p>
+              <p className="text-xs text-gray-500">
+                PDF and audio up to 50MB, ZIP up to 100MB, MP4 and WebM up to
+                200MB
+              </p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={Object.keys(attachmentLimits).join(",")}
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+            </div>
+          ) : (
+            <div>
+              {/* File info */}
+              <div className="flex items-center gap-2 mb-4 p-3 bg-gray-50 rounded-lg">
+                <Paperclip size={20} className="text-gray-400" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {selectedFile.name}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatFileSize(selectedFile.size)}
+                  </p>
+                </div>
+                {!uploading && (
+                  <button
+                    onClick={() => {
+                      setSelectedFile(null);
+                      setError(null);
+                    }}
+                    className="text-gray-400 hover:text-gray-600"
+                  >
+                    <X size={16} />
+                  </button>
+                )}
+              </div>
+
+              {/* Upload progress */}
+              {uploading && (
+                <div className="mb-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm text-gray-600">Uploading...</span>
+                    <span className="text-sm font-medium text-gray-900">
+                      {uploadProgress}%
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-primary-600 h-2 rounded-full transition-all duration-300"
+                      style={{ width: `${uploadProgress}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Error message */}
+          {error && (
+            <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 p-4 border-t">
+          <button
+            onClick={handleClose}
+            disabled={uploading}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleUpload}
+            disabled={!selectedFile || uploading}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+          >
+            {uploading ? (
+              <>
+                <Loader2 size={16} className="animate-spin" />
+                Uploading...
+              </>
+            ) : (
+              <>
+                <Upload size={16} />
+                Upload
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentUploadDialog;
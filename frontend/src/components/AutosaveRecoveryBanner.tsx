@@ -0,0 +1,55 @@
+import React from "react";
+import { History, RotateCcw, Trash2 } from "lucide-react";
+import type { PostAutosave } from "../types";
+import { formatPostDate } from "../lib/dateUtils";
+
+interface AutosaveRecoveryBannerProps {
+  autosave: PostAutosave;
+  onRecover: () => void;
+  onDiscard: () => void;
+}
+
+const AutosaveRecoveryBanner: React.FC<AutosaveRecoveryBannerProps> = ({
+  autosave,
+  onRecover,
+  onDiscard,
+}) => {
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3">
+      <div className="flex items-start space-x-3">
+        <History className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+        <div>
+          <p className="text-sm font-semibold text-amber-900">
+            Unsaved changes found
+          </p>
+          <p className="text-sm text-amber-800">
+            An autosaved copy
+            {autosave.title ? ` of "${autosave.title}"` : ""} from{" "}
+            {formatPostDate(autosave.updatedAt, { showRelative: true })} is
+            newer than the saved version.
+          </p>
+        </div>
+      </div>
+      <div className="flex items-center space-x-2 flex-shrink-0">
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="btn-ghost btn-sm flex items-center space-x-1 text-amber-900"
+        >
+          <Trash2 className="h-4 w-4" />
+          <span>Discard</span>
+        </button>
+        <button
+          type="button"
+          onClick={onRecover}
+          className="btn-primary btn-sm flex items-center space-x-1"
+        >
+          <RotateCcw className="h-4 w-4" />
+          <span>Recover</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AutosaveRecoveryBanner;
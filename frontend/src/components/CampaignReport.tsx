@@ -0,0 +1,267 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  createColumnHelper,
+  flexRender,
+  getCoreRowModel,
+  getSortedRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+import type { ColumnDef, SortingState } from "@tanstack/react-table";
+import { ArrowDown, ArrowUp, BarChart3 } from "lucide-react";
+import { campaignsAPI } from "../services/api";
+import type { CampaignReportDay, CampaignReportLink } from "../types";
+
+const formatPercent = (rate: number): string =>
+  `${(rate * 100).toFixed(rate > 0 && rate < 0.1 ? 1 : 0)}%`;
+
+// Days come back as UTC dates, so they're shown in UTC to avoid shifting
+const formatDay = (date: string): string =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    timeZone: "UTC",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+interface ReportTableProps<T> {
+  data: T[];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  columns: ColumnDef<T, any>[];
+  initialSorting: SortingState;
+  emptyMessage: string;
+}
+
+const ReportTable = <T,>({
+  data,
+  columns,
+  initialSorting,
+  emptyMessage,
+}: ReportTableProps<T>) => {
+  const [sorting, setSorting] = useState<SortingState>(initialSorting);
+
+  const table = useReactTable({
+    data,
+    columns,
+    state: { sorting },
+    onSortingChange: setSorting,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+  });
+
+  if (data.length === 0) {
+    return <p className="text-sm text-gray-500 py-4">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto border border-gray-200 rounded-md">
+      <table className="w-full">
+        <thead className="bg-gray-50">
+          {table.getHeaderGroups().map((headerGroup) => (
+            <tr key={headerGroup.id}>
+              {headerGroup.headers.map((header) => {
+                const sorted = header.column.getIsSorted();
+
+                return (
+                  <th
+                    key={header.id}
+                    onClick={header.column.getToggleSortingHandler()}
+                    className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer select-none"
+                  >
+                    <span className="inline-flex items-center space-x-1">
+                      <span>
+                        {flexRender(
+                          header.column.columnDef.header,
+                          header.getContext(),
+                        )}
+                      </span>
+                      {sorted === "asc" && <ArrowUp className="h-3 w-3" />}
+                      {sorted === "desc" && <ArrowDown className="h-3 w-3" />}
+                    </span>
+                  </th>
+                );
+              })}
+            </tr>
+          ))}
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {table.getRowModel().rows.map((row) => (
+            <tr key={row.id}>
+              {row.getVisibleCells().map((cell) => (
+                <td key={cell.id} className="px-4 py-2 text-sm text-gray-900">
+                  {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const linkColumn = createColumnHelper<CampaignReportLink>();
+
+const linkColumns = [
+  linkColumn.accessor("url", {
+    header: "Link",
+    cell: (info) => (
+      <a
+        href={info.getValue()}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-primary-600 hover:text-primary-700 break-all"
+      >
+        {info.getValue()}
+      </a>
+    ),
+  }),
+  linkColumn.accessor("uniqueClicks", { header: "Readers" }),
+  linkColumn.accessor("clicks", { header: "Clicks" }),
+];
+
+const dayColumn = createColumnHelper<CampaignReportDay>();
+
+const buildDayColumns = (maxOpens: number) => [
+  dayColumn.accessor("date", {
+    header: "Day",
+    cell: (info) => (
+      <span className="whitespace-nowrap">{formatDay(info.getValue())}</span>
+    ),
+  }),
+  dayColumn.accessor("opens", {
+    header: "Opens",
+    cell: (info) => (
+      <div className="flex items-center space-x-2">
+        <span className="w-8 text-right">{info.getValue()}</span>
+        <div className="flex-1 min-w-[4rem] h-2 bg-gray-100 rounded">
+          <div
+            className="h-2 bg-primary-500 rounded"
+            style={{
+              width: `${maxOpens > 0 ? (info.getValue() / maxOpens) * 100 : 0}%`,
+            }}
+          />
+        </div>
+      </div>
+    ),
+  }),
+  dayColumn.accessor("clicks", { header: "Clicks" }),
+  dayColumn.accessor("unsubscribes", {
+    header: "Unsubscribes",
+    cell: (info) => (
+      <span className={info.getValue() > 0 ? "text-red-600" : undefined}>
+        {info.getValue()}
+      </span>
+    ),
+  }),
+];
+
+interface CampaignReportProps {
+  campaignId: string;
+  isSending: boolean;
+}
+
+// Opens and clicks per recipient, so repeat opens by one reader count once
+const CampaignReport: React.FC<CampaignReportProps> = ({
+  campaignId,
+  isSending,
+}) => {
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["campaign-report", campaignId],
+    queryFn: () => campaignsAPI.getReport(campaignId),
+    refetchInterval: isSending ? 15000 : false,
+  });
+
+  const report = data?.data?.report;
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-3">
+        <div className="h-16 bg-gray-200 rounded"></div>
+        <div className="h-32 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  if (isError || !report) {
+    return (
+      <p className="text-sm text-gray-600">
+        Failed to load the campaign report.
+      </p>
+    );
+  }
+
+  const { summary } = report;
+  const maxOpens = Math.max(0, ...report.timeline.map((day) => day.opens));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <BarChart3 className="h-4 w-4 text-gray-500" />
+        <h4 className="text-sm font-semibold text-gray-900">Engagement</h4>
+      </div>
+
+      {!report.trackingEnabled && (
+        <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md px-3 py-2">
+          Open and click tracking is turned off (NEWSLETTER_TRACKING_ENABLED),
+          so only unsubscribes are being recorded.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
+        <div className="bg-white border border-gray-200 rounded-md py-3">
+          <div className="text-2xl font-semibold text-gray-900">
+            {formatPercent(summary.openRate)}
+          </div>
+          <div className="text-xs text-gray-500">Opened ({summary.opened})</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-md py-3">
+          <div className="text-2xl font-semibold text-gray-900">
+            {formatPercent(summary.clickRate)}
+          </div>
+          <div className="text-xs text-gray-500">
+            Clicked ({summary.clicked})
+          </div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-md py-3">
+          <div className="text-2xl font-semibold text-red-600">
+            {summary.unsubscribed}
+          </div>
+          <div className="text-xs text-gray-500">Unsubscribed</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-md py-3">
+          <div className="text-2xl font-semibold text-gray-900">
+            {summary.delivered}
+          </div>
+          <div className="text-xs text-gray-500">Delivered</div>
+        </div>
+      </div>
+
+      <div>
+        <h5 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+          Top links
+        </h5>
+        <ReportTable
+          data={report.topLinks}
+          columns={linkColumns}
+          initialSorting={[{ id: "clicks", desc: true }]}
+          emptyMessage="No links have been clicked yet."
+        />
+      </div>
+
+      <div>
+        <h5 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+          Activity by day
+        </h5>
+        <ReportTable
+          data={report.timeline}
+          columns={buildDayColumns(maxOpens)}
+          initialSorting={[{ id: "date", desc: false }]}
+          emptyMessage="No opens, clicks or unsubscribes yet."
+        />
+      </div>
+    </div>
+  );
+};
+
+export default CampaignReport;
@@ -0,0 +1,740 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import toast from "react-hot-toast";
+import {
+  ArrowLeft,
+  CalendarClock,
+  ChevronLeft,
+  ChevronRight,
+  Edit,
+  Newspaper,
+  Plus,
+  Send,
+  Trash2,
+  X,
+} from "lucide-react";
+import { campaignsAPI, segmentsAPI } from "../services/api";
+import { useAuth } from "../context/AuthContext";
+import CampaignReport from "./CampaignReport";
+import TipTapEditor from "./TipTapEditor";
+import {
+  formatDateForInput,
+  formatRelativeTimeFromUtc,
+  parseScheduleInputToIso,
+} from "../lib/dateUtils";
+import type { CampaignStatus } from "../types";
+
+const STATUS_STYLES: Record<CampaignStatus, string> = {
+  DRAFT: "bg-gray-100 text-gray-700",
+  SCHEDULED: "bg-blue-100 text-blue-800",
+  SENDING: "bg-yellow-100 text-yellow-800",
+  SENT: "bg-green-100 text-green-800",
+};
+
+const STATUS_LABELS: Record<CampaignStatus, string> = {
+  DRAFT: "Draft",
+  SCHEDULED: "Scheduled",
+  SENDING: "Sending",
+  SENT: "Sent",
+};
+
+const pageSize = 20;
+
+const DigestPreview: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["digest-preview"],
+    queryFn: campaignsAPI.previewDigest,
+  });
+
+  const preview = data?.data;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Next digest</h3>
+            {preview && (
+              <p className="text-sm text-gray-600">
+                {preview.enabled && preview.nextRunAt
+                  ? `Sends ${formatRelativeTimeFromUtc(preview.nextRunAt)}`
+                  : "Scheduled sending is turned off (DIGEST_ENABLED)"}{" "}
+                · {preview.recipientCount}{" "}
+                {preview.recipientCount === 1 ? "subscriber" : "subscribers"}{" "}
+                opted in
+                {preview.digest.tagSlugs.length > 0 &&
+                  ` · Tags: ${preview.digest.tagSlugs.join(", ")}`}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="btn-ghost btn-sm" title="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="p-6 animate-pulse space-y-4">
+            <div className="h-10 bg-gray-200 rounded"></div>
+            <div className="h-64 bg-gray-200 rounded"></div>
+          </div>
+        ) : isError || !preview ? (
+          <div className="p-6 text-center text-gray-600">
+            Failed to load the digest preview.
+          </div>
+        ) : preview.digest.posts.length === 0 ? (
+          <div className="text-center py-12">
+            <Newspaper className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">
+              No new posts since{" "}
+              {formatRelativeTimeFromUtc(preview.digest.periodStart)}. The
+              digest will be skipped unless something is published.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="px-6 py-3 border-b border-gray-200 text-sm">
+              <span className="text-gray-500">Subject:</span>{" "}
+              <span className="font-medium text-gray-900">
+                {preview.digest.subject}
+              </span>
+            </div>
+            {/* Sandboxed so the email's markup can't touch the dashboard */}
+            <iframe
+              title="Digest preview"
+              srcDoc={preview.digest.html}
+              sandbox=""
+              className="w-full flex-1 min-h-[60vh] border-0"
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const errorMessage = (error: unknown, fallback: string): string =>
+  (axios.isAxiosError(error) && error.response?.data?.error) || fallback;
+
+interface CampaignComposerProps {
+  campaignId: string | null; // Null while writing a new campaign
+  onCreated: (id: string) => void;
+  onClose: () => void;
+}
+
+const CampaignComposer: React.FC<CampaignComposerProps> = ({
+  campaignId,
+  onCreated,
+  onClose,
+}) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [subject, setSubject] = useState("");
+  const [content, setContent] = useState("");
+  const [segmentId, setSegmentId] = useState(""); // Empty sends to everyone
+  const [loadedId, setLoadedId] = useState<string | null>(null);
+  const [testEmail, setTestEmail] = useState(user?.email || "");
+  const [scheduleInput, setScheduleInput] = useState("");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["campaign", campaignId],
+    queryFn: () => campaignsAPI.getCampaign(campaignId as string),
+    enabled: !!campaignId,
+    // Keep the delivery counts moving while the queue works through the list
+    refetchInterval: (query) =>
+      query.state.data?.data.campaign.status === "SENDING" ? 5000 : false,
+  });
+
+  const campaign = data?.data?.campaign;
+  const failedDeliveries = data?.data?.failedDeliveries || [];
+
+  const { data: segmentsData } = useQuery({
+    queryKey: ["segments"],
+    queryFn: segmentsAPI.getSegments,
+  });
+
+  const segments = segmentsData?.data?.segments || [];
+  const selectedSegment = segments.find((s) => s.id === segmentId);
+
+  // Fill the form once per campaign, so refetches don't clobber edits
+  if (campaign && loadedId !== campaign.id) {
+    setLoadedId(campaign.id);
+    setSubject(campaign.subject);
+    setContent(campaign.content);
+    setSegmentId(campaign.segmentId || "");
+    setScheduleInput(
+      campaign.scheduledAt ? formatDateForInput(campaign.scheduledAt) : "",
+    );
+  }
+
+  const isEditable =
+    !campaign || campaign.status === "DRAFT" || campaign.status === "SCHEDULED";
+  const isDirty =
+    !campaign ||
+    subject !== campaign.subject ||
+    content !== campaign.content ||
+    segmentId !== (campaign.segmentId || "");
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["campaigns"] });
+    queryClient.invalidateQueries({ queryKey: ["campaign"] });
+  };
+
+  // Sending and test sends always use the saved copy, so save first
+  const saveCampaign = async (): Promise<string> => {
+    if (!campaignId) {
+      const response = await campaignsAPI.createCampaign({
+        subject,
+        content,
+        segmentId: segmentId || null,
+      });
+      // Seed the cache so the composer doesn't flash a loading state
+      queryClient.setQueryData(["campaign", response.data.campaign.id], {
+        ...response,
+        data: { ...response.data, failedDeliveries: [] },
+      });
+      onCreated(response.data.campaign.id);
+      return response.data.campaign.id;
+    }
+
+    if (isDirty) {
+      await campaignsAPI.updateCampaign(campaignId, {
+        subject,
+        content,
+        segmentId: segmentId || null,
+      });
+    }
+
+    return campaignId;
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: saveCampaign,
+    onSuccess: () => {
+      toast.success("Campaign saved");
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, "Failed to save campaign"));
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const id = await saveCampaign();
+      return campaignsAPI.sendTest(id, testEmail || undefined);
+    },
+    onSuccess: (response) => {
+      toast.success(response.message);
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, "Failed to send test email"));
+    },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (scheduledAt?: string) => {
+      const id = await saveCampaign();
+      return campaignsAPI.sendCampaign(id, scheduledAt);
+    },
+    onSuccess: (response) => {
+      toast.success(response.message || "Campaign sent");
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, "Failed to send campaign"));
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => campaignsAPI.cancelSchedule(campaignId as string),
+    onSuccess: () => {
+      toast.success("Campaign moved back to drafts");
+      setScheduleInput("");
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, "Failed to cancel schedule"));
+    },
+  });
+
+  const isBusy =
+    saveMutation.isPending ||
+    testMutation.isPending ||
+    sendMutation.isPending ||
+    cancelMutation.isPending;
+  const canSubmit = !!subject.trim() && !!content.trim() && !isBusy;
+
+  const handleSendNow = () => {
+    const audience = selectedSegment
+      ? `the ${selectedSegment.subscriberCount} subscribers in "${selectedSegment.name}"`
+      : "every confirmed subscriber";
+
+    if (
+      window.confirm(
+        `Send this campaign to ${audience} now? This can't be undone.`,
+      )
+    ) {
+      sendMutation.mutate(undefined);
+    }
+  };
+
+  const handleSchedule = () => {
+    const scheduledAt = parseScheduleInputToIso(scheduleInput);
+
+    if (!scheduledAt) {
+      toast.error("Please pick a send date and time");
+      return;
+    }
+
+    sendMutation.mutate(scheduledAt);
+  };
+
+  if (campaignId && isLoading) {
+    return (
+      <div className="p-6 animate-pulse space-y-4">
+        <div className="h-10 bg-gray-200 rounded"></div>
+        <div className="h-64 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+        <button
+          onClick={onClose}
+          className="btn-ghost btn-sm inline-flex items-center space-x-1"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          <span>All campaigns</span>
+        </button>
+        {campaign && (
+          <span
+            className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[campaign.status]}`}
+          >
+            {STATUS_LABELS[campaign.status]}
+            {campaign.status === "SCHEDULED" &&
+              campaign.scheduledAt &&
+              ` · ${formatRelativeTimeFromUtc(campaign.scheduledAt)}`}
+          </span>
+        )}
+      </div>
+
+      {campaign && !isEditable && (
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <div className="text-2xl font-semibold text-gray-900">
+                {campaign.deliveryStats.SENT}
+              </div>
+              <div className="text-xs text-gray-500">Delivered</div>
+            </div>
+            <div>
+              <div className="text-2xl font-semibold text-gray-900">
+                {campaign.deliveryStats.PENDING}
+              </div>
+              <div className="text-xs text-gray-500">Queued</div>
+            </div>
+            <div>
+              <div className="text-2xl font-semibold text-red-600">
+                {campaign.deliveryStats.FAILED}
+              </div>
+              <div className="text-xs text-gray-500">Failed</div>
+            </div>
+          </div>
+          {failedDeliveries.length > 0 && (
+            <ul className="mt-4 text-sm divide-y divide-gray-200 border border-gray-200 rounded-md bg-white">
+              {failedDeliveries.map((delivery) => (
+                <li
+                  key={delivery.id}
+                  className="px-3 py-2 flex items-center justify-between gap-4"
+                >
+                  <span className="text-gray-900 truncate">
+                    {delivery.subscriber.email}
+                  </span>
+                  <span className="text-xs text-gray-500 truncate">
+                    {delivery.lastError} ({delivery.attempts}{" "}
+                    {delivery.attempts === 1 ? "attempt" : "attempts"})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="mt-6">
+            <CampaignReport
+              campaignId={campaign.id}
+              isSending={campaign.status === "SENDING"}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="px-6 py-4 space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Subject
+          </label>
+          <input
+            type="text"
+            value={subject}
+            onChange={(e) => setSubject(e.target.value)}
+            placeholder="What's new this month"
+            className="input"
+            maxLength={200}
+            disabled={!isEditable}
+          />
+        </div>
+
+        {campaign?.type !== "DIGEST" && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Audience
+            </label>
+            <select
+              value={segmentId}
+              onChange={(e) => setSegmentId(e.target.value)}
+              className="input"
+              disabled={!isEditable}
+            >
+              <option value="">Every confirmed subscriber</option>
+              {segments.map((segment) => (
+                <option key={segment.id} value={segment.id}>
+                  {segment.name} ({segment.subscriberCount})
+                </option>
+              ))}
+              {/* Sent campaigns may point at a segment that changed since */}
+              {campaign?.segment && !selectedSegment && (
+                <option value={campaign.segment.id}>
+                  {campaign.segment.name}
+                </option>
+              )}
+            </select>
+          </div>
+        )}
+
+        {isEditable ? (
+          <TipTapEditor
+            value={content}
+            onChange={setContent}
+            placeholder="Write your newsletter..."
+            height={400}
+          />
+        ) : (
+          <div
+            className="prose max-w-none border border-gray-200 rounded-md p-4"
+            dangerouslySetInnerHTML={{ __html: content }}
+          />
+        )}
+      </div>
+
+      {isEditable && (
+        <div className="px-6 py-4 border-t border-gray-200 bg-gray-50 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center space-x-2">
+              <input
+                type="email"
+                value={testEmail}
+                onChange={(e) => setTestEmail(e.target.value)}
+                placeholder="you@example.com"
+                className="input"
+              />
+              <button
+                onClick={() => testMutation.mutate()}
+                disabled={!canSubmit}
+                className="btn-outline btn-sm whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {testMutation.isPending ? "Sending..." : "Send test"}
+              </button>
+            </div>
+            <button
+              onClick={() => saveMutation.mutate()}
+              disabled={!canSubmit || !isDirty}
+              className="btn-outline btn-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save draft"}
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center space-x-2">
+              <input
+                type="datetime-local"
+                value={scheduleInput}
+                onChange={(e) => setScheduleInput(e.target.value)}
+                className="input"
+              />
+              <button
+                onClick={handleSchedule}
+                disabled={!canSubmit || !scheduleInput}
+                className="btn-outline btn-sm inline-flex items-center space-x-1 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <CalendarClock className="h-4 w-4" />
+                <span>
+                  {campaign?.status === "SCHEDULED" ? "Reschedule" : "Schedule"}
+                </span>
+              </button>
+              {campaign?.status === "SCHEDULED" && (
+                <button
+                  onClick={() => cancelMutation.mutate()}
+                  disabled={isBusy}
+                  className="btn-ghost btn-sm whitespace-nowrap"
+                >
+                  Cancel schedule
+                </button>
+              )}
+            </div>
+            <button
+              onClick={handleSendNow}
+              disabled={!canSubmit}
+              className="btn-primary btn-sm inline-flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Send className="h-4 w-4" />
+              <span>{sendMutation.isPending ? "Sending..." : "Send now"}</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const CampaignsManagement: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<CampaignStatus | "">("");
+  const [page, setPage] = useState(1);
+  const [isComposing, setIsComposing] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [showDigestPreview, setShowDigestPreview] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["campaigns", statusFilter, page],
+    queryFn: () =>
+      campaignsAPI.getCampaigns({
+        status: statusFilter || undefined,
+        page,
+        limit: pageSize,
+      }),
+    enabled: !isComposing,
+  });
+
+  const campaigns = data?.data?.campaigns || [];
+  const pagination = data?.data?.pagination;
+
+  const deleteMutation = useMutation({
+    mutationFn: campaignsAPI.deleteCampaign,
+    onSuccess: () => {
+      toast.success("Campaign deleted");
+      setDeleteConfirm(null);
+      queryClient.invalidateQueries({ queryKey: ["campaigns"] });
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, "Failed to delete campaign"));
+    },
+  });
+
+  const openComposer = (id: string | null) => {
+    setSelectedId(id);
+    setIsComposing(true);
+  };
+
+  const handleStatusFilterChange = (status: CampaignStatus | "") => {
+    setStatusFilter(status);
+    setPage(1);
+  };
+
+  if (isComposing) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200">
+        <CampaignComposer
+          campaignId={selectedId}
+          onCreated={setSelectedId}
+          onClose={() => {
+            setIsComposing(false);
+            setSelectedId(null);
+          }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Campaigns</h2>
+          <p className="text-sm text-gray-600">
+            Write an email and send it to every confirmed subscriber.
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={statusFilter}
+            onChange={(e) =>
+              handleStatusFilterChange(e.target.value as CampaignStatus | "")
+            }
+            className="input"
+          >
+            <option value="">All campaigns</option>
+            {Object.entries(STATUS_LABELS).map(([status, label]) => (
+              <option key={status} value={status}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowDigestPreview(true)}
+            className="btn-outline btn-sm inline-flex items-center space-x-1 whitespace-nowrap"
+          >
+            <Newspaper className="h-4 w-4" />
+            <span>Preview digest</span>
+          </button>
+          <button
+            onClick={() => openComposer(null)}
+            className="btn-primary btn-sm inline-flex items-center space-x-1 whitespace-nowrap"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New campaign</span>
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="p-6 animate-pulse space-y-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-10 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      ) : campaigns.length === 0 ? (
+        <div className="text-center py-12">
+          <Send className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">No campaigns yet.</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {campaigns.map((campaign) => (
+            <li
+              key={campaign.id}
+              className="px-6 py-4 flex items-center justify-between gap-4"
+            >
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span
+                    className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[campaign.status]}`}
+                  >
+                    {STATUS_LABELS[campaign.status]}
+                  </span>
+                  {campaign.type === "DIGEST" && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                      Digest
+                    </span>
+                  )}
+                  {campaign.segment && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                      {campaign.segment.name}
+                    </span>
+                  )}
+                  <button
+                    onClick={() => openComposer(campaign.id)}
+                    className="text-sm font-medium text-gray-900 hover:text-primary-600 truncate"
+                  >
+                    {campaign.subject}
+                  </button>
+                </div>
+                <div className="mt-1 text-xs text-gray-500">
+                  {campaign.status === "SCHEDULED" && campaign.scheduledAt
+                    ? `Sends ${formatRelativeTimeFromUtc(campaign.scheduledAt)}`
+                    : campaign.status === "SENT" && campaign.sentAt
+                      ? `Sent ${formatRelativeTimeFromUtc(campaign.sentAt)}`
+                      : `Updated ${formatRelativeTimeFromUtc(campaign.updatedAt)}`}
+                  {campaign.deliveryStats.total > 0 &&
+                    ` · ${campaign.deliveryStats.SENT}/${campaign.deliveryStats.total} delivered`}
+                  {campaign.deliveryStats.FAILED > 0 &&
+                    ` · ${campaign.deliveryStats.FAILED} failed`}
+                </div>
+              </div>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => openComposer(campaign.id)}
+                  className="btn-ghost btn-sm"
+                  title="Open campaign"
+                >
+                  <Edit className="h-4 w-4" />
+                </button>
+                {campaign.status !== "SENDING" && (
+                  <button
+                    onClick={() => setDeleteConfirm(campaign.id)}
+                    className="btn-ghost btn-sm text-red-600 hover:bg-red-50"
+                    title="Delete campaign"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          <div className="text-sm text-gray-700">
+            Page {pagination.page} of {pagination.totalPages}
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={!pagination.hasPrevPage}
+              className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={!pagination.hasNextPage}
+              className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showDigestPreview && (
+        <DigestPreview onClose={() => setShowDigestPreview(false)} />
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {deleteConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              Delete Campaign
+            </h3>
+            <p className="text-gray-600 mb-6">
+              The campaign and its delivery history will be removed.
+            </p>
+            <div className="flex space-x-3 justify-end">
+              <button
+                onClick={() => setDeleteConfirm(null)}
+                className="btn-outline"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => deleteMutation.mutate(deleteConfirm)}
+                disabled={deleteMutation.isPending}
+                className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 disabled:opacity-50"
+              >
+                {deleteMutation.isPending ? "Deleting..." : "Delete"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CampaignsManagement;
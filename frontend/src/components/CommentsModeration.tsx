@@ -0,0 +1,343 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import toast from "react-hot-toast";
+import {
+  Check,
+  ChevronLeft,
+  ChevronRight,
+  MessageCircle,
+  ShieldAlert,
+  Trash2,
+  Undo2,
+} from "lucide-react";
+import { commentsAPI } from "../services/api";
+import { formatRelativeTimeFromUtc } from "../lib/dateUtils";
+import type { CommentStatus, ModerationComment } from "../types";
+
+const STATUS_TABS: { status: CommentStatus; label: string }[] = [
+  { status: "PENDING", label: "Pending" },
+  { status: "APPROVED", label: "Approved" },
+  { status: "SPAM", label: "Spam" },
+  { status: "TRASHED", label: "Trash" },
+];
+
+const pageSize = 20;
+
+const getAuthorLabel = (comment: ModerationComment) => {
+  if (comment.author) {
+    return comment.author.firstName && comment.author.lastName
+      ? `${comment.author.firstName} ${comment.author.lastName}`
+      : comment.author.username;
+  }
+
+  return comment.authorName || "Anonymous";
+};
+
+const CommentsModeration: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<CommentStatus>("PENDING");
+  const [page, setPage] = useState(1);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["moderation-comments", status, page],
+    queryFn: () =>
+      commentsAPI.getComments({ status, page, limit: pageSize }),
+  });
+
+  const comments = data?.data?.comments || [];
+  const counts = data?.data?.counts;
+  const pagination = data?.data?.pagination;
+
+  const refresh = () => {
+    setSelectedIds([]);
+    queryClient.invalidateQueries({ queryKey: ["moderation-comments"] });
+    // Approving or rejecting changes what readers and authors see
+    queryClient.invalidateQueries({ queryKey: ["comments"] });
+    queryClient.invalidateQueries({ queryKey: ["my-posts"] });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: ({
+      ids,
+      newStatus,
+    }: {
+      ids: string[];
+      newStatus: CommentStatus;
+    }) => commentsAPI.updateCommentStatus(ids, newStatus),
+    onSuccess: (response) => {
+      toast.success(response.message);
+      refresh();
+    },
+    onError: () => {
+      toast.error("Failed to update comments");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: commentsAPI.deleteComment,
+    onSuccess: () => {
+      toast.success("Comment deleted permanently");
+      setDeleteConfirm(null);
+      refresh();
+    },
+    onError: () => {
+      toast.error("Failed to delete comment");
+    },
+  });
+
+  const handleStatusTabChange = (newStatus: CommentStatus) => {
+    setStatus(newStatus);
+    setPage(1);
+    setSelectedIds([]);
+  };
+
+  const updateStatus = (ids: string[], newStatus: CommentStatus) => {
+    if (ids.length === 0) return;
+    statusMutation.mutate({ ids, newStatus });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(id) ? ids.filter((selected) => selected !== id) : [...ids, id]
+    );
+  };
+
+  const allSelected =
+    comments.length > 0 && selectedIds.length === comments.length;
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : comments.map((comment) => comment.id));
+  };
+
+  // The bulk actions that make sense for the comments being viewed
+  const bulkActions: { label: string; status: CommentStatus }[] =
+    status === "PENDING"
+      ? [
+        { label: "Approve", status: "APPROVED" },
+        { label: "Mark as spam", status: "SPAM" },
+        { label: "Trash", status: "TRASHED" },
+      ]
+      : status === "APPROVED"
+        ? [
+          { label: "Unapprove", status: "PENDING" },
+          { label: "Mark as spam", status: "SPAM" },
+          { label: "Trash", status: "TRASHED" },
+        ]
+        : [
+          { label: "Approve", status: "APPROVED" },
+          { label: "Move to pending", status: "PENDING" },
+        ];
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Comments</h2>
+        <div className="mt-4 flex flex-wrap gap-2">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.status}
+              onClick={() => handleStatusTabChange(tab.status)}
+              className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${status === tab.status
+                ? "bg-blue-600 text-white"
+                : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+            >
+              {tab.label}
+              {counts && ` (${counts[tab.status]})`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {comments.length > 0 && (
+        <div className="px-6 py-3 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center gap-3">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={toggleAll}
+              className="rounded border-gray-300"
+            />
+            <span>
+              {selectedIds.length > 0
+                ? `${selectedIds.length} selected`
+                : "Select all"}
+            </span>
+          </label>
+          {bulkActions.map((action) => (
+            <button
+              key={action.status}
+              onClick={() => updateStatus(selectedIds, action.status)}
+              disabled={selectedIds.length === 0 || statusMutation.isPending}
+              className="btn-outline btn-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="p-6 animate-pulse space-y-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-16 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      ) : comments.length === 0 ? (
+        <div className="text-center py-12">
+          <MessageCircle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">No comments here.</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {comments.map((comment) => (
+            <li key={comment.id} className="p-6 flex items-start space-x-4">
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(comment.id)}
+                onChange={() => toggleSelected(comment.id)}
+                className="mt-1 rounded border-gray-300"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-x-2 text-sm">
+                  <span className="font-semibold text-gray-900">
+                    {getAuthorLabel(comment)}
+                  </span>
+                  {!comment.author && comment.authorEmail && (
+                    <span className="text-gray-500">{comment.authorEmail}</span>
+                  )}
+                  {comment.author && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                      Registered
+                    </span>
+                  )}
+                  <span className="text-gray-500">
+                    {formatRelativeTimeFromUtc(comment.createdAt)}
+                  </span>
+                </div>
+                <p className="mt-1 text-gray-700 whitespace-pre-line break-words">
+                  {comment.content}
+                </p>
+                <div className="mt-2 text-xs text-gray-500">
+                  {comment.parentId ? "Reply on " : "On "}
+                  <Link
+                    to={`/post/${comment.post.slug}`}
+                    className="text-primary-600 hover:underline"
+                  >
+                    {comment.post.title}
+                  </Link>
+                  {comment.ipAddress && <span> · {comment.ipAddress}</span>}
+                </div>
+              </div>
+              <div className="flex items-center space-x-1">
+                {status !== "APPROVED" && (
+                  <button
+                    onClick={() => updateStatus([comment.id], "APPROVED")}
+                    className="btn-ghost btn-sm text-green-600 hover:bg-green-50"
+                    title="Approve"
+                  >
+                    <Check className="h-4 w-4" />
+                  </button>
+                )}
+                {status !== "SPAM" && status !== "TRASHED" && (
+                  <button
+                    onClick={() => updateStatus([comment.id], "SPAM")}
+                    className="btn-ghost btn-sm text-orange-600 hover:bg-orange-50"
+                    title="Mark as spam"
+                  >
+                    <ShieldAlert className="h-4 w-4" />
+                  </button>
+                )}
+                {status === "SPAM" || status === "TRASHED" ? (
+                  <>
+                    <button
+                      onClick={() => updateStatus([comment.id], "PENDING")}
+                      className="btn-ghost btn-sm"
+                      title="Move to pending"
+                    >
+                      <Undo2 className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setDeleteConfirm(comment.id)}
+                      className="btn-ghost btn-sm text-red-600 hover:bg-red-50"
+                      title="Delete permanently"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => updateStatus([comment.id], "TRASHED")}
+                    className="btn-ghost btn-sm text-red-600 hover:bg-red-50"
+                    title="Trash"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          <div className="text-sm text-gray-700">
+            Page {pagination.page} of {pagination.totalPages}
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={!pagination.hasPrevPage}
+              className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={!pagination.hasNextPage}
+              className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {deleteConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              Delete Comment
+            </h3>
+            <p className="text-gray-600 mb-6">
+              This permanently deletes the comment and any replies to it. This
+              action cannot be undone.
+            </p>
+            <div className="flex space-x-3 justify-end">
+              <button
+                onClick={() => setDeleteConfirm(null)}
+                className="btn-outline"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => deleteMutation.mutate(deleteConfirm)}
+                disabled={deleteMutation.isPending}
+                className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 disabled:opacity-50"
+              >
+                {deleteMutation.isPending ? "Deleting..." : "Delete"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommentsModeration;
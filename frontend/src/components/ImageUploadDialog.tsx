@@ -1,11 +1,16 @@
 import React, { useState, useRef, useEffect } from "react";
+import axios from "axios";
 import { Upload, X, Image as ImageIcon, Loader2 } from "lucide-react";
 import { uploadAPI } from "../services/api";
+import { useAuth } from "../context/AuthContext";
+import MediaLibraryPicker from "./MediaLibraryPicker";
+import type { Asset } from "../types";
 
 interface ImageUploadDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onImageUploaded: (imageUrl: string) => void;
+  // Called with the new upload or the image picked from the media library
+  onImageUploaded: (imageUrl: string, asset?: Asset) => void;
 }
 
 const ImageUploadDialog: React.FC<ImageUploadDialogProps> = ({
@@ -18,23 +23,35 @@ const ImageUploadDialog: React.FC<ImageUploadDialogProps> = ({
   const [uploading, setUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<"upload" | "library">("upload");
+  const [altText, setAltText] = useState("");
+  const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { user, hasPermission } = useAuth();
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     // Validate file type
-    const allowedTypes = ["image/jpeg", "image/jpg", "image/png", "image/gif", "image/webp"];
+    const allowedTypes = [
+      "image/jpeg",
+      "image/jpg",
+      "image/png",
+      "image/gif",
+      "image/webp",
+    ];
     if (!allowedTypes.includes(file.type)) {
-      setError("Invalid file type. Only JPEG, PNG, GIF, and WebP images are allowed.");
+      setError(
+        "Invalid file type. Only JPEG, PNG, GIF, and WebP images are allowed.",
+      );
       return;
     }
 
-    // Validate file size (5MB)
-    const maxSize = 5 * 1024 * 1024;
+    // Validate file size (20MB); files go straight to storage, not the API
+    const maxSize = 20 * 1024 * 1024;
     if (file.size > maxSize) {
-      setError("File size too large. Maximum size is 5MB.");
+      setError("File size too large. Maximum size is 20MB.");
       return;
     }
 
@@ -54,15 +71,19 @@ const ImageUploadDialog: React.FC<ImageUploadDialogProps> = ({
     setUploadProgress(0);
 
     try {
-      const response = await uploadAPI.uploadImage(selectedFile, (progressEvent) => {
-        const progress = progressEvent.total
-          ? Math.round((progressEvent.loaded * 100) / progressEvent.total)
-          : 0;
-        setUploadProgress(progress);
-      });
-
-      if (response.success && response.imageUrl) {
-        onImageUploaded(response.imageUrl);
+      const response = await uploadAPI.uploadDirect(
+        selectedFile,
+        (progressEvent) => {
+          const progress = progressEvent.total
+            ? Math.round((progressEvent.loaded * 100) / progressEvent.total)
+            : 0;
+          setUploadProgress(progress);
+        },
+        altText.trim() || undefined,
+      );
+
+      if (response.success) {
+        onImageUploaded(response.data.asset.url, response.data.asset);
         handleClose();
       } else {
         setError("Failed to upload image. Please try again.");
@@ -71,19 +92,72 @@ const ImageUploadDialog: React.FC<ImageUploadDialogProps> = ({
       console.error("Upload error:", err);
       setError(
         err.response?.data?.error ||
-        err.response?.data?.details ||
-        "Failed to upload image. Please try again."
+          err.response?.data?.details ||
+          "Failed to upload image. Please try again.",
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // Reusing an image from the library, saving its alt text if it changed.
+  // Other people's uploads keep their saved alt text unless the user may
+  // manage uploads; the new text is only used for this insert.
+  const handleInsert = async () => {
+    if (!selectedAsset) return;
+
+    setUploading(true);
+    setError(null);
+
+    try {
+      const trimmedAltText = altText.trim();
+      const canSaveAltText =
+        selectedAsset.uploadedBy?.id === user?.id ||
+        hasPermission("uploads:manage");
+      let asset = selectedAsset;
+
+      if (trimmedAltText !== (selectedAsset.altText || "")) {
+        asset = canSaveAltText
+          ? (
+              await uploadAPI.updateAsset(
+                selectedAsset.id,
+                trimmedAltText || null,
+              )
+            ).data.asset
+          : { ...selectedAsset, altText: trimmedAltText || null };
+      }
+
+      onImageUploaded(asset.url, asset);
+      handleClose();
+    } catch (err) {
+      setError(
+        (axios.isAxiosError(err) && err.response?.data?.error) ||
+          "Failed to save the alt text.",
       );
     } finally {
       setUploading(false);
     }
   };
 
+  const handleSelectAsset = (asset: Asset) => {
+    setSelectedAsset(asset);
+    setAltText(asset.altText || "");
+  };
+
+  const switchTab = (newTab: "upload" | "library") => {
+    setTab(newTab);
+    setAltText(newTab === "library" ? selectedAsset?.altText || "" : "");
+    setError(null);
+  };
+
   const handleClose = () => {
     setSelectedFile(null);
     setPreviewUrl(null);
     setUploadProgress(0);
     setError(null);
+    setTab("upload");
+    setAltText("");
+    setSelectedAsset(null);
     onClose();
   };
 
@@ -117,34 +191,48 @@ const ImageUploadDialog: React.FC<ImageUploadDialogProps> = ({
   // Handle escape key to close dialog
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && !uploading) {
+      if (e.key === "Escape" && !uploading) {
         setSelectedFile(null);
         setPreviewUrl(null);
         setUploadProgress(0);
         setError(null);
+        setTab("upload");
+        setAltText("");
+        setSelectedAsset(null);
         onClose();
       }
     };
     if (isOpen) {
-      document.addEventListener('keydown', handleEscape);
-      return () => document.removeEventListener('keydown', handleEscape);
+      document.addEventListener("keydown", handleEscape);
+      return () => document.removeEventListener("keydown", handleEscape);
     }
   }, [isOpen, uploading, onClose]);
 
   if (!isOpen) return null;
 
   return (
-    <div 
+    <div
       className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
       role="dialog"
       aria-modal="true"
       aria-labelledby="upload-dialog-title"
-      onClick={(e) => e.target === e.currentTarget && !uploading && handleClose()}
+      onClick={(e) =>
+        e.target === e.currentTarget && !uploading && handleClose()
+      }
     >
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+      <div
+        className={`bg-white rounded-lg shadow-xl w-full mx-4 ${
+          tab === "library" ? "max-w-2xl" : "max-w-md"
+        }`}
+      >
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b">
-          <h2 id="upload-dialog-title" className="text-lg font-semibold text-gray-900">Upload Image</h2>
+          <h2
+            id="upload-dialog-title"
+            className="text-lg font-semibold text-gray-900"
+          >
+            {tab === "library" ? "Media Library" : "Upload Image"}
+          </h2>
           <button
             onClick={handleClose}
             className="text-gray-400 hover:text-gray-600 transition-colors"
@@ -154,9 +242,40 @@ const ImageUploadDialog: React.FC<ImageUploadDialogProps> = ({
           </button>
         </div>
 
+        {/* Tabs */}
+        <div className="flex border-b px-4" role="tablist">
+          {(
+            [
+              ["upload", "Upload new"],
+              ["library", "Media library"],
+            ] as const
+          ).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              role="tab"
+              aria-selected={tab === value}
+              onClick={() => switchTab(value)}
+              disabled={uploading}
+              className={`px-3 py-2 -mb-px text-sm font-medium border-b-2 transition-colors ${
+                tab === value
+                  ? "border-primary-600 text-primary-600"
+                  : "border-transparent text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
         {/* Content */}
         <div className="p-4">
-          {!selectedFile ? (
+          {tab === "library" ? (
+            <MediaLibraryPicker
+              selectedId={selectedAsset?.id ?? null}
+              onSelect={handleSelectAsset}
+            />
+          ) : !selectedFile ? (
             <div
               onDragOver={handleDragOver}
               onDrop={handleDrop}
@@ -168,7 +287,7 @@ const ImageUploadDialog: React.FC<ImageUploadDialogProps> = ({
                 Click to upload or drag and drop
               </p>
               <p className="text-xs text-gray-500">
-                PNG, JPG, GIF, WebP up to 5MB
+                PNG, JPG, GIF, WebP up to 20MB
               </p>
               <input
                 ref={fileInputRef}
@@ -236,6 +355,28 @@ const ImageUploadDialog: React.FC<ImageUploadDialogProps> = ({
             </div>
           )}
 
+          {/* Alt text describes the image for screen readers */}
+          {(selectedFile || (tab === "library" && selectedAsset)) && (
+            <div className="mt-4">
+              <label
+                htmlFor="image-alt-text"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Alt text
+              </label>
+              <input
+                id="image-alt-text"
+                type="text"
+                value={altText}
+                onChange={(e) => setAltText(e.target.value)}
+                placeholder="Describe the image"
+                maxLength={500}
+                disabled={uploading}
+                className="input"
+              />
+            </div>
+          )}
+
           {/* Error message */}
           {error && (
             <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
@@ -253,23 +394,38 @@ const ImageUploadDialog: React.FC<ImageUploadDialogProps> = ({
           >
             Cancel
           </button>
-          <button
-            onClick={handleUpload}
-            disabled={!selectedFile || uploading}
-            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
-          >
-            {uploading ? (
-              <>
+          {tab === "library" ? (
+            <button
+              onClick={handleInsert}
+              disabled={!selectedAsset || uploading}
+              className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+            >
+              {uploading ? (
                 <Loader2 size={16} className="animate-spin" />
-                Uploading...
-              </>
-            ) : (
-              <>
-                <Upload size={16} />
-                Upload
-              </>
-            )}
-          </button>
+              ) : (
+                <ImageIcon size={16} />
+              )}
+              Insert
+            </button>
+          ) : (
+            <button
+              onClick={handleUpload}
+              disabled={!selectedFile || uploading}
+              className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+            >
+              {uploading ? (
+                <>
+                  <Loader2 size={16} className="animate-spin" />
+                  Uploading...
+                </>
+              ) : (
+                <>
+                  <Upload size={16} />
+                  Upload
+                </>
+              )}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -4,6 +4,7 @@ import { useAuth } from "../context/AuthContext";
 import { useZenMode } from "../context/ZenModeContext";
 import Avatar from "./Avatar";
 import NewsletterSubscriptionForm from "./NewsletterSubscriptionForm";
+import SearchPalette from "./SearchPalette";
 import {
   LogOut,
   User,
@@ -14,6 +15,7 @@ import {
   MessageCircleIcon,
   UserCogIcon,
   Users,
+  Search,
 } from "lucide-react";
 
 interface LayoutProps {
@@ -21,11 +23,12 @@ interface LayoutProps {
 }
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
-  const { user, isAuthenticated, logout } = useAuth();
+  const { user, isAuthenticated, logout, hasPermission } = useAuth();
   const { isZenMode } = useZenMode();
   const navigate = useNavigate();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
   const userMenuRef = useRef<HTMLDivElement>(null);
 
   // Close user menu when clicking outside
@@ -45,6 +48,21 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     };
   }, []);
 
+  // Open the search palette with Cmd+K / Ctrl+K
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        setIsSearchOpen((open) => !open);
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, []);
+
   // Close mobile menu on route change
   useEffect(() => {
     setIsMobileMenuOpen(false);
@@ -109,6 +127,17 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                   <span className="font-medium">Docs</span>
                 </Link>
 
+                <button
+                  onClick={() => setIsSearchOpen(true)}
+                  className="group flex items-center space-x-2 px-4 py-3 rounded-xl text-gray-600 hover:text-primary-600 hover:bg-primary-50/50 transition-all duration-200 relative"
+                  aria-label="Search"
+                >
+                  <Search className="h-5 w-5 transition-transform duration-200 group-hover:scale-110" />
+                  <kbd className="hidden xl:inline-block px-1.5 py-0.5 text-xs text-gray-500 bg-gray-100 rounded">
+                    ⌘K
+                  </kbd>
+                </button>
+
                 {isAuthenticated ? (
                   <>
                     <Link
@@ -119,18 +148,20 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                       <span className="font-medium">Posts Panel</span>
                     </Link>
 
-                    {user?.isAdmin && (
-                      <>
-                        <Link
-                          to="/admin/documentation"
-                          className="group flex items-center space-x-2 px-4 py-3 rounded-xl text-gray-600 hover:text-primary-600 hover:bg-primary-50/50 transition-all duration-200 relative"
-                        >
-                          <svg className="h-5 w-5 transition-transform duration-200 group-hover:scale-110" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
-                          </svg>
-                          <span className="font-medium">Docs Panel</span>
-                        </Link>
+                    {hasPermission("documentation:manage") && (
+                      <Link
+                        to="/admin/documentation"
+                        className="group flex items-center space-x-2 px-4 py-3 rounded-xl text-gray-600 hover:text-primary-600 hover:bg-primary-50/50 transition-all duration-200 relative"
+                      >
+                        <svg className="h-5 w-5 transition-transform duration-200 group-hover:scale-110" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                        </svg>
+                        <span className="font-medium">Docs Panel</span>
+                      </Link>
+                    )}
 
+                    {hasPermission("users:manage") && (
+                      <>
                         <button
                           onClick={() => navigate("/dashboard?tab=users")}
                           className="group flex items-center space-x-2 px-4 py-3 rounded-xl text-gray-600 hover:text-primary-600 hover:bg-primary-50/50 transition-all duration-200 relative"
@@ -259,6 +290,17 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                     <span className="font-medium">Home</span>
                   </Link>
 
+                  <button
+                    onClick={() => {
+                      setIsSearchOpen(true);
+                      setIsMobileMenuOpen(false);
+                    }}
+                    className="w-full flex items-center space-x-3 px-4 py-3 rounded-xl text-gray-600 hover:text-primary-600 hover:bg-primary-50/50 transition-all duration-200"
+                  >
+                    <Search className="h-5 w-5" />
+                    <span className="font-medium">Search</span>
+                  </button>
+
                   {isAuthenticated ? (
                     <>
                       <Link
@@ -270,7 +312,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                         <span className="font-medium">Admin Panel</span>
                       </Link>
 
-                      {user?.isAdmin && (
+                      {hasPermission("users:manage") && (
                         <>
                           <button
                             onClick={() => {
@@ -357,6 +399,11 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
         </nav>
       )}
 
+      <SearchPalette
+        isOpen={isSearchOpen}
+        onClose={() => setIsSearchOpen(false)}
+      />
+
       {/* Main Content */}
       <main className="flex-1 relative">
         <div className="absolute inset-0 bg-gradient-to-br from-transparent via-primary-50/30 to-transparent pointer-events-none"></div>
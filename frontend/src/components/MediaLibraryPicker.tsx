@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Image as ImageIcon,
+  Search,
+} from "lucide-react";
+import { uploadAPI } from "../services/api";
+import type { Asset } from "../types";
+
+interface MediaLibraryPickerProps {
+  selectedId: string | null;
+  onSelect: (asset: Asset) => void;
+}
+
+const pageSize = 12;
+
+const MediaLibraryPicker: React.FC<MediaLibraryPickerProps> = ({
+  selectedId,
+  onSelect,
+}) => {
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [page, setPage] = useState(1);
+
+  // Debounce the search so we query once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(search.trim());
+      setPage(1);
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["assets", { search: debouncedSearch, page }],
+    queryFn: () =>
+      uploadAPI.getAssets({
+        page,
+        limit: pageSize,
+        search: debouncedSearch || undefined,
+        type: "image",
+      }),
+  });
+
+  const assets = data?.data?.assets || [];
+  const pagination = data?.data?.pagination;
+
+  return (
+    <div>
+      <div className="relative mb-4">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by file name or alt text"
+          className="input pl-9"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 animate-pulse">
+          {Array.from({ length: 8 }).map((_, index) => (
+            <div key={index} className="aspect-square bg-gray-200 rounded" />
+          ))}
+        </div>
+      ) : isError ? (
+        <p className="text-sm text-gray-600 text-center py-8">
+          Failed to load the media library.
+        </p>
+      ) : assets.length === 0 ? (
+        <div className="text-center py-8">
+          <ImageIcon className="h-10 w-10 text-gray-400 mx-auto mb-2" />
+          <p className="text-sm text-gray-600">
+            {debouncedSearch
+              ? "No images match your search."
+              : "No images have been uploaded yet."}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 max-h-80 overflow-y-auto">
+          {assets.map((asset) => (
+            <button
+              key={asset.id}
+              type="button"
+              onClick={() => onSelect(asset)}
+              aria-pressed={asset.id === selectedId}
+              title={asset.altText || asset.originalName || undefined}
+              className={`aspect-square rounded overflow-hidden border-2 bg-gray-50 transition-colors ${
+                asset.id === selectedId
+                  ? "border-primary-600"
+                  : "border-transparent hover:border-gray-300"
+              }`}
+            >
+              <img
+                src={asset.url}
+                srcSet={asset.srcset.webp}
+                sizes="160px"
+                alt={asset.altText || ""}
+                loading="lazy"
+                className="w-full h-full object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+          <span>
+            Page {pagination.page} of {pagination.totalPages}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              type="button"
+              onClick={() => setPage((p) => p - 1)}
+              disabled={!pagination.hasPrevPage}
+              className="btn-ghost btn-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => setPage((p) => p + 1)}
+              disabled={!pagination.hasNextPage}
+              className="btn-ghost btn-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaLibraryPicker;
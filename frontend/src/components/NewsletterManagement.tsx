@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback } from "react";
-import { Mail, Download, Users, Clock } from "lucide-react";
+import { Mail, Download, Upload, Users, Clock } from "lucide-react";
 import { newsletterAPI } from "../services/api";
+import SubscriberImportWizard from "./SubscriberImportWizard";
 import type { NewsletterSubscriber } from "../types";
 import toast from "react-hot-toast";
 
@@ -16,6 +17,7 @@ const NewsletterManagement: React.FC<NewsletterManagementProps> = ({
   const [subscribers, setSubscribers] = useState<NewsletterSubscriber[]>([]);
   const [loading, setLoading] = useState(true);
   const [exporting, setExporting] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [page, setPage] = useState(1);
   const [pagination, setPagination] = useState({
     page: 1,
@@ -87,6 +89,12 @@ const NewsletterManagement: React.FC<NewsletterManagementProps> = ({
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      {showImport && (
+        <SubscriberImportWizard
+          onClose={() => setShowImport(false)}
+          onImported={fetchSubscribers}
+        />
+      )}
       <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[80vh] overflow-hidden mx-4 animate-in zoom-in-95 duration-200">
         {/* Header */}
         <div className="bg-gradient-to-r from-blue-600 to-blue-700 px-6 py-4 text-white">
@@ -152,7 +160,7 @@ const NewsletterManagement: React.FC<NewsletterManagementProps> = ({
                         Active Subscriptions
                       </p>
                       <p className="text-2xl font-bold text-green-900">
-                        {subscribers.filter((s) => s.isActive).length}
+                        {subscribers.filter((s) => s.status === "ACTIVE").length}
                       </p>
                     </div>
                   </div>
@@ -175,23 +183,32 @@ const NewsletterManagement: React.FC<NewsletterManagementProps> = ({
                 </div>
               </div>
 
-              {/* Export Button */}
+              {/* Import and Export Buttons */}
               <div className="flex justify-between items-center">
                 <h3 className="text-lg font-semibold text-gray-900">
                   Subscriber List
                 </h3>
-                <button
-                  onClick={handleExportSubscribers}
-                  disabled={exporting}
-                  className="flex items-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {exporting ? (
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                  ) : (
-                    <Download className="h-4 w-4" />
-                  )}
-                  <span>{exporting ? "Exporting..." : "Export to Excel"}</span>
-                </button>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setShowImport(true)}
+                    className="flex items-center space-x-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <Upload className="h-4 w-4" />
+                    <span>Import</span>
+                  </button>
+                  <button
+                    onClick={handleExportSubscribers}
+                    disabled={exporting}
+                    className="flex items-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {exporting ? (
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                    ) : (
+                      <Download className="h-4 w-4" />
+                    )}
+                    <span>{exporting ? "Exporting..." : "Export to Excel"}</span>
+                  </button>
+                </div>
               </div>
 
               {/* Subscribers List */}
@@ -222,12 +239,12 @@ const NewsletterManagement: React.FC<NewsletterManagementProps> = ({
                         </span>
                         <span
                           className={`text-xs px-2 py-1 rounded-full font-medium ${
-                            subscriber.isActive
+                            subscriber.status === "ACTIVE"
                               ? "bg-green-100 text-green-800"
                               : "bg-gray-100 text-gray-800"
                           }`}
                         >
-                          {subscriber.isActive ? "Active" : "Inactive"}
+                          {subscriber.status === "ACTIVE" ? "Active" : "Inactive"}
                         </span>
                       </div>
                     </div>
@@ -2,21 +2,41 @@ import React, { useState, useEffect, useCallback } from "react";
 import {
   Mail,
   Download,
+  Upload,
   Users,
   Clock,
   ChevronLeft,
   ChevronRight,
 } from "lucide-react";
 import { newsletterAPI } from "../services/api";
-import type { NewsletterSubscriber } from "../types";
+import SubscriberImportWizard from "./SubscriberImportWizard";
+import type { NewsletterSubscriber, SubscriberStatus } from "../types";
 import toast from "react-hot-toast";
 
+const STATUS_LABELS: Record<SubscriberStatus, string> = {
+  ACTIVE: "Active",
+  PENDING: "Awaiting confirmation",
+  UNSUBSCRIBED: "Unsubscribed",
+  BOUNCED: "Bounced",
+  COMPLAINED: "Marked as spam",
+};
+
+const STATUS_BADGE_CLASSES: Record<SubscriberStatus, string> = {
+  ACTIVE: "bg-green-100 text-green-800",
+  PENDING: "bg-yellow-100 text-yellow-800",
+  UNSUBSCRIBED: "bg-gray-100 text-gray-800",
+  BOUNCED: "bg-red-100 text-red-800",
+  COMPLAINED: "bg-red-100 text-red-800",
+};
+
 const NewsletterSubscribersTable: React.FC = () => {
   const [subscribers, setSubscribers] = useState<NewsletterSubscriber[]>([]);
   const [loading, setLoading] = useState(true);
   const [exporting, setExporting] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(10);
+  const [status, setStatus] = useState<SubscriberStatus>("ACTIVE");
   const [pagination, setPagination] = useState({
     page: 1,
     limit: 10,
@@ -30,6 +50,7 @@ const NewsletterSubscribersTable: React.FC = () => {
       const response = await newsletterAPI.getSubscribers({
         page,
         limit: pageSize,
+        status,
       });
       setSubscribers(response.data.subscribers);
       setPagination(response.data.pagination);
@@ -39,7 +60,7 @@ const NewsletterSubscribersTable: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [page, pageSize]);
+  }, [page, pageSize, status]);
 
   useEffect(() => {
     fetchSubscribers();
@@ -50,6 +71,11 @@ const NewsletterSubscribersTable: React.FC = () => {
     setPage(1); // Reset to first page when changing page size
   };
 
+  const handleStatusChange = (newStatus: SubscriberStatus) => {
+    setStatus(newStatus);
+    setPage(1);
+  };
+
   const handleExportSubscribers = async () => {
     try {
       setExporting(true);
@@ -110,6 +136,13 @@ const NewsletterSubscribersTable: React.FC = () => {
 
   return (
     <div className="bg-white rounded-lg border border-gray-200">
+      {showImport && (
+        <SubscriberImportWizard
+          onClose={() => setShowImport(false)}
+          onImported={fetchSubscribers}
+        />
+      )}
+
       {/* Header */}
       <div className="px-6 py-4 border-b border-gray-200">
         <div className="flex items-center justify-between">
@@ -135,19 +168,41 @@ const NewsletterSubscribersTable: React.FC = () => {
               </select>
               <span className="text-sm text-gray-600">per page</span>
             </div>
+            <select
+              value={status}
+              onChange={(e) =>
+                handleStatusChange(e.target.value as SubscriberStatus)
+              }
+              className="text-sm border border-gray-300 rounded-md px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setShowImport(true)}
+              className="flex items-center space-x-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Upload className="h-4 w-4" />
+              <span>Import</span>
+            </button>
+            <button
+              onClick={handleExportSubscribers}
+              disabled={exporting}
+              className="flex items-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {exporting ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+              ) : (
+                <Download className="h-4 w-4" />
+              )}
+              <span>{exporting ? "Exporting..." : "Export Excel"}</span>
+            </button>
           </div>
-          <button
-            onClick={handleExportSubscribers}
-            disabled={exporting}
-            className="flex items-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {exporting ? (
-              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-            ) : (
-              <Download className="h-4 w-4" />
-            )}
-            <span>{exporting ? "Exporting..." : "Export Excel"}</span>
-          </button>
         </div>
       </div>
 
@@ -173,7 +228,7 @@ const NewsletterSubscribersTable: React.FC = () => {
             <div>
               <p className="text-sm text-gray-600">Active Subscriptions</p>
               <p className="text-xl font-bold text-gray-900">
-                {subscribers.filter((s) => s.isActive).length}
+                {subscribers.filter((s) => s.status === "ACTIVE").length}
               </p>
             </div>
           </div>
@@ -250,13 +305,27 @@ const NewsletterSubscribersTable: React.FC = () => {
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span
                       className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                        subscriber.isActive
-                          ? "bg-green-100 text-green-800"
-                          : "bg-gray-100 text-gray-800"
+                        STATUS_BADGE_CLASSES[subscriber.status]
                       }`}
                     >
-                      {subscriber.isActive ? "Active" : "Inactive"}
+                      {STATUS_LABELS[subscriber.status]}
                     </span>
+                    {subscriber.digest && (
+                      <span className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-purple-100 text-purple-800">
+                        Digest
+                      </span>
+                    )}
+                    {subscriber.suppression && (
+                      <div
+                        className="mt-1 text-xs text-gray-500 max-w-xs truncate"
+                        title={subscriber.suppression.detail || undefined}
+                      >
+                        {formatDate(subscriber.suppression.createdAt)} via{" "}
+                        {subscriber.suppression.source}
+                        {subscriber.suppression.detail &&
+                          ` · ${subscriber.suppression.detail}`}
+                      </div>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -321,7 +390,7 @@ const NewsletterSubscribersTable: React.FC = () => {
                           {pageNumber}
                         </button>
                       );
-                    }
+                    },
                   )}
                 </div>
 
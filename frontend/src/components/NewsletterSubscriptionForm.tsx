@@ -1,6 +1,7 @@
 import React, { useState } from "react";
 import { Mail, Check } from "lucide-react";
 import toast from "react-hot-toast";
+import NewsletterTopicPicker from "./NewsletterTopicPicker";
 
 interface NewsletterSubscriptionFormProps {
   className?: string;
@@ -14,6 +15,7 @@ const NewsletterSubscriptionForm: React.FC<NewsletterSubscriptionFormProps> = ({
   compact = false,
 }) => {
   const [email, setEmail] = useState("");
+  const [tagIds, setTagIds] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isSubscribed, setIsSubscribed] = useState(false);
 
@@ -42,7 +44,7 @@ const NewsletterSubscriptionForm: React.FC<NewsletterSubscriptionFormProps> = ({
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ email: email.trim() }),
+        body: JSON.stringify({ email: email.trim(), tagIds }),
       });
 
       const data = await response.json();
@@ -59,8 +61,9 @@ const NewsletterSubscriptionForm: React.FC<NewsletterSubscriptionFormProps> = ({
       // Success
       setIsSubscribed(true);
       setEmail("");
+      setTagIds([]);
       toast.success(
-        data.message || "Successfully subscribed to our newsletter!"
+        data.message || "Check your inbox to confirm your subscription"
       );
 
       // Reset success state after 5 seconds
@@ -148,6 +151,20 @@ const NewsletterSubscriptionForm: React.FC<NewsletterSubscriptionFormProps> = ({
           )}
         </div>
 
+        {/* The compact form skips topics; they can be picked later from the
+            preferences link in every email */}
+        <div>
+          <p className="text-sm text-gray-700 mb-2">
+            Pick the topics you care about, or leave them all off to get
+            everything:
+          </p>
+          <NewsletterTopicPicker
+            selectedIds={tagIds}
+            onChange={setTagIds}
+            disabled={isLoading}
+          />
+        </div>
+
         <button
           type="submit"
           disabled={isLoading || isSubscribed}
@@ -165,7 +182,7 @@ const NewsletterSubscriptionForm: React.FC<NewsletterSubscriptionFormProps> = ({
           ) : isSubscribed ? (
             <div className="flex items-center justify-center space-x-2">
               <Check className="h-5 w-5" />
-              <span>Subscribed!</span>
+              <span>Check your inbox!</span>
             </div>
           ) : (
             "Subscribe to Newsletter"
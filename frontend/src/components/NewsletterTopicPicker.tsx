@@ -0,0 +1,70 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { tagsAPI } from "../services/api";
+
+interface NewsletterTopicPickerProps {
+  selectedIds: string[];
+  onChange: (tagIds: string[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Tags double as newsletter topics, so the picker lists every tag
+const NewsletterTopicPicker: React.FC<NewsletterTopicPickerProps> = ({
+  selectedIds,
+  onChange,
+  disabled = false,
+  className = "",
+}) => {
+  const { data } = useQuery({
+    queryKey: ["tags", "topics"],
+    queryFn: () => tagsAPI.getAllTags({ limit: 100 }),
+  });
+
+  const tags = data?.data?.tags || [];
+
+  if (tags.length === 0) {
+    return null;
+  }
+
+  const toggle = (tagId: string) => {
+    onChange(
+      selectedIds.includes(tagId)
+        ? selectedIds.filter((id) => id !== tagId)
+        : [...selectedIds, tagId]
+    );
+  };
+
+  return (
+    <div className={`flex flex-wrap gap-2 ${className}`}>
+      {tags.map((tag) => {
+        const isSelected = selectedIds.includes(tag.id);
+
+        return (
+          <button
+            key={tag.id}
+            type="button"
+            onClick={() => toggle(tag.id)}
+            disabled={disabled}
+            aria-pressed={isSelected}
+            className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              isSelected
+                ? "text-white border-transparent shadow-sm"
+                : "text-gray-700 border-gray-300 hover:bg-gray-50"
+            }`}
+            style={{
+              backgroundColor: isSelected
+                ? tag.color || "#3B82F6"
+                : "transparent",
+              borderColor: isSelected ? tag.color || "#3B82F6" : undefined,
+            }}
+          >
+            {tag.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default NewsletterTopicPicker;
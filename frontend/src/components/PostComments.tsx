@@ -0,0 +1,284 @@
+import React, { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import ReCAPTCHA from "react-google-recaptcha";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { MessageCircle, Reply } from "lucide-react";
+import { commentsAPI } from "../services/api";
+import { useAuth } from "../context/AuthContext";
+import Avatar from "./Avatar";
+import { formatRelativeTimeFromUtc } from "../lib/dateUtils";
+import type { Comment } from "../types";
+
+interface PostCommentsProps {
+  postId: string;
+}
+
+// Replies keep indenting up to this depth, then continue flat
+const MAX_INDENT_DEPTH = 3;
+
+const RECAPTCHA_SITE_KEY =
+  import.meta.env.VITE_RECAPTCHA_SITE_KEY ||
+  "6LeIxAcTAAAAAJcZVRqyHh71UMIEGNQ_MXjiZKhI"; // Test key
+
+const getCommentAuthorName = (comment: Comment) => {
+  if (!comment.author) {
+    return comment.authorName || "Anonymous";
+  }
+
+  return comment.author.firstName && comment.author.lastName
+    ? `${comment.author.firstName} ${comment.author.lastName}`
+    : comment.author.username;
+};
+
+interface CommentFormProps {
+  postId: string;
+  parentId?: string;
+  onDone?: () => void;
+}
+
+const CommentForm: React.FC<CommentFormProps> = ({
+  postId,
+  parentId,
+  onDone,
+}) => {
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  const [content, setContent] = useState("");
+  const [authorName, setAuthorName] = useState("");
+  const [authorEmail, setAuthorEmail] = useState("");
+  const [recaptchaValue, setRecaptchaValue] = useState<string | null>(null);
+  const recaptchaRef = useRef<ReCAPTCHA>(null);
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      commentsAPI.createComment(postId, {
+        content,
+        parentId,
+        authorName: isAuthenticated ? undefined : authorName,
+        authorEmail: isAuthenticated ? undefined : authorEmail,
+        recaptchaToken: recaptchaValue || undefined,
+      }),
+    onSuccess: (response) => {
+      if (response.data.comment.status === "APPROVED") {
+        queryClient.invalidateQueries({ queryKey: ["comments", postId] });
+      }
+      toast.success(response.message);
+      setContent("");
+      onDone?.();
+    },
+    onError: (error) => {
+      toast.error(
+        (axios.isAxiosError(error) && error.response?.data?.error) ||
+          "Failed to post comment"
+      );
+    },
+    onSettled: () => {
+      // A reCAPTCHA token can only be verified once
+      recaptchaRef.current?.reset();
+      setRecaptchaValue(null);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+    createMutation.mutate();
+  };
+
+  const canSubmit =
+    content.trim().length > 0 &&
+    (isAuthenticated ||
+      (authorName.trim().length > 0 &&
+        authorEmail.trim().length > 0 &&
+        !!recaptchaValue));
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={parentId ? "Write a reply..." : "Share your thoughts..."}
+        maxLength={5000}
+        className="textarea"
+      />
+
+      {!isAuthenticated && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={authorName}
+              onChange={(e) => setAuthorName(e.target.value)}
+              placeholder="Name *"
+              maxLength={100}
+              className="input"
+            />
+            <input
+              type="email"
+              value={authorEmail}
+              onChange={(e) => setAuthorEmail(e.target.value)}
+              placeholder="Email * (never shown)"
+              className="input"
+            />
+          </div>
+          <ReCAPTCHA
+            ref={recaptchaRef}
+            sitekey={RECAPTCHA_SITE_KEY}
+            onChange={setRecaptchaValue}
+            theme="light"
+          />
+          <p className="text-xs text-gray-500">
+            Comments are reviewed before they appear.{" "}
+            <Link to="/login" className="text-primary-600 hover:underline">
+              Sign in
+            </Link>{" "}
+            to comment without the security check.
+          </p>
+        </>
+      )}
+
+      <div className="flex items-center justify-end space-x-2">
+        {onDone && (
+          <button type="button" onClick={onDone} className="btn-ghost btn-sm">
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={!canSubmit || createMutation.isPending}
+          className="btn-primary btn-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {createMutation.isPending
+            ? "Posting..."
+            : parentId
+              ? "Reply"
+              : "Post comment"}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+interface CommentItemProps {
+  comment: Comment;
+  postId: string;
+  depth: number;
+}
+
+const CommentItem: React.FC<CommentItemProps> = ({
+  comment,
+  postId,
+  depth,
+}) => {
+  const [isReplying, setIsReplying] = useState(false);
+  const authorName = getCommentAuthorName(comment);
+
+  return (
+    <li>
+      <div className="flex items-start space-x-3">
+        <Avatar
+          src={comment.author?.avatar}
+          alt={`${authorName} avatar`}
+          size="md"
+          className="flex-shrink-0"
+        />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center space-x-2 text-sm">
+            <span className="font-semibold text-gray-900">{authorName}</span>
+            <span className="text-gray-500">
+              {formatRelativeTimeFromUtc(comment.createdAt)}
+            </span>
+          </div>
+          <p className="mt-1 text-gray-700 whitespace-pre-line break-words">
+            {comment.content}
+          </p>
+          <button
+            onClick={() => setIsReplying(!isReplying)}
+            className="mt-1 inline-flex items-center space-x-1 text-sm text-gray-500 hover:text-primary-600"
+          >
+            <Reply className="h-3 w-3" />
+            <span>Reply</span>
+          </button>
+
+          {isReplying && (
+            <div className="mt-3">
+              <CommentForm
+                postId={postId}
+                parentId={comment.id}
+                onDone={() => setIsReplying(false)}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {comment.replies.length > 0 && (
+        <ul
+          className={`mt-4 space-y-4 ${depth < MAX_INDENT_DEPTH ? "ml-11 pl-4 border-l border-gray-200" : ""
+            }`}
+        >
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              postId={postId}
+              depth={depth + 1}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+const PostComments: React.FC<PostCommentsProps> = ({ postId }) => {
+  const { data, isLoading } = useQuery({
+    queryKey: ["comments", postId],
+    queryFn: () => commentsAPI.getPostComments(postId),
+  });
+
+  const comments = data?.data?.comments || [];
+  const totalCount = data?.data?.totalCount || 0;
+
+  return (
+    <section className="mt-12 pt-8 border-t border-gray-200">
+      <h2 className="flex items-center space-x-2 text-2xl font-bold text-gray-900 mb-6">
+        <MessageCircle className="h-6 w-6" />
+        <span>
+          {totalCount > 0
+            ? `${totalCount} Comment${totalCount === 1 ? "" : "s"}`
+            : "Comments"}
+        </span>
+      </h2>
+
+      <div className="mb-8">
+        <CommentForm postId={postId} />
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-16 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="text-gray-500">No comments yet. Be the first!</p>
+      ) : (
+        <ul className="space-y-6">
+          {comments.map((comment) => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              postId={postId}
+              depth={0}
+            />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default PostComments;
@@ -0,0 +1,292 @@
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { History, X, RotateCcw, Loader2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { postsAPI } from "../services/api";
+import type { DiffSegment, Post } from "../types";
+import { formatPostDate } from "../lib/dateUtils";
+
+interface PostHistoryPanelProps {
+  postId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onRestored: (post: Post) => void;
+}
+
+const DiffText: React.FC<{ segments: DiffSegment[] }> = ({ segments }) => {
+  if (segments.length === 0) {
+    return <span className="text-gray-400 italic">Empty</span>;
+  }
+
+  return (
+    <span className="whitespace-pre-wrap">
+      {segments.map((segment, index) => {
+        if (segment.type === "insert") {
+          return (
+            <ins key={index} className="bg-green-100 text-green-800 no-underline">
+              {segment.value}
+            </ins>
+          );
+        }
+        if (segment.type === "delete") {
+          return (
+            <del key={index} className="bg-red-100 text-red-700">
+              {segment.value}
+            </del>
+          );
+        }
+        return <span key={index}>{segment.value}</span>;
+      })}
+    </span>
+  );
+};
+
+const PostHistoryPanel: React.FC<PostHistoryPanelProps> = ({
+  postId,
+  isOpen,
+  onClose,
+  onRestored,
+}) => {
+  const queryClient = useQueryClient();
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(
+    null
+  );
+  const [compareTo, setCompareTo] = useState("current");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["post-revisions", postId],
+    queryFn: () => postsAPI.getRevisions(postId),
+    enabled: isOpen,
+  });
+
+  const { data: diffData, isLoading: isDiffLoading } = useQuery({
+    queryKey: ["post-revision-diff", postId, selectedRevisionId, compareTo],
+    queryFn: () =>
+      postsAPI.getRevisionDiff(postId, selectedRevisionId!, compareTo),
+    enabled: isOpen && !!selectedRevisionId,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (revisionId: string) =>
+      postsAPI.restoreRevision(postId, revisionId),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["post", postId] });
+      queryClient.invalidateQueries({ queryKey: ["post-revisions", postId] });
+      queryClient.invalidateQueries({ queryKey: ["my-posts"] });
+      toast.success("Revision restored");
+      setSelectedRevisionId(null);
+      setCompareTo("current");
+      onRestored(data.data.post);
+    },
+    onError: () => {
+      toast.error("Failed to restore revision");
+    },
+  });
+
+  const handleRestore = (revisionId: string) => {
+    if (
+      window.confirm(
+        "Restore this revision? The current version will be kept in the history."
+      )
+    ) {
+      restoreMutation.mutate(revisionId);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const revisions = data?.data.revisions || [];
+  const diff = diffData?.data.diff;
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-40 w-full max-w-xl bg-white border-l border-gray-200 shadow-2xl flex flex-col">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          <History className="h-5 w-5 text-primary-600" />
+          <h2 className="text-lg font-semibold text-gray-900">
+            Revision History
+          </h2>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 transition-colors"
+          title="Close history"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12 text-gray-500">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading revisions...
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="px-6 py-12 text-center text-gray-500">
+            No revisions yet. A revision is saved every time you update this
+            post.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {revisions.map((revision) => (
+              <li
+                key={revision.id}
+                className={`px-6 py-4 cursor-pointer transition-colors ${
+                  selectedRevisionId === revision.id
+                    ? "bg-primary-50"
+                    : "hover:bg-gray-50"
+                }`}
+                onClick={() => setSelectedRevisionId(revision.id)}
+              >
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {revision.title}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {formatPostDate(revision.createdAt, {
+                        showRelative: true,
+                      })}
+                      {revision.createdBy &&
+                        ` by ${revision.createdBy.username}`}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleRestore(revision.id);
+                    }}
+                    disabled={restoreMutation.isPending}
+                    className="btn-outline btn-sm flex items-center space-x-1 flex-shrink-0 ml-4"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    <span>Restore</span>
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {selectedRevisionId && (
+          <div className="border-t border-gray-200 px-6 py-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold tracking-wide text-gray-700">
+                CHANGES
+              </h3>
+              <select
+                value={compareTo}
+                onChange={(e) => setCompareTo(e.target.value)}
+                className="text-sm border border-gray-300 rounded-lg px-2 py-1"
+              >
+                <option value="current">Compared with current version</option>
+                {revisions
+                  .filter((revision) => revision.id !== selectedRevisionId)
+                  .map((revision) => (
+                    <option key={revision.id} value={revision.id}>
+                      Compared with{" "}
+                      {formatPostDate(revision.createdAt, {
+                        format: "SHORT",
+                      })}
+                    </option>
+                  ))}
+              </select>
+            </div>
+
+            {isDiffLoading || !diff ? (
+              <div className="flex items-center text-gray-500 text-sm">
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                Computing diff...
+              </div>
+            ) : (
+              <div className="space-y-4 text-sm text-gray-800">
+                <div>
+                  <p className="text-xs font-medium text-gray-500 mb-1">
+                    Title
+                  </p>
+                  <DiffText segments={diff.title} />
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-gray-500 mb-1">
+                    Excerpt
+                  </p>
+                  <DiffText segments={diff.excerpt} />
+                </div>
+                {diff.coverImage.changed && (
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 mb-1">
+                      Cover image
+                    </p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[diff.coverImage.from, diff.coverImage.to].map(
+                        (url, index) =>
+                          url ? (
+                            <img
+                              key={index}
+                              src={url}
+                              alt={index === 0 ? "Before" : "After"}
+                              className={`h-24 w-full object-cover rounded-lg border-2 ${
+                                index === 0
+                                  ? "border-red-300"
+                                  : "border-green-300"
+                              }`}
+                            />
+                          ) : (
+                            <div
+                              key={index}
+                              className="h-24 flex items-center justify-center rounded-lg border-2 border-dashed border-gray-200 text-gray-400"
+                            >
+                              No image
+                            </div>
+                          )
+                      )}
+                    </div>
+                  </div>
+                )}
+                {(diff.tags.added.length > 0 ||
+                  diff.tags.removed.length > 0) && (
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 mb-1">
+                      Tags
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {diff.tags.removed.map((tag) => (
+                        <span
+                          key={tag.id}
+                          className="px-2 py-0.5 rounded-full bg-red-100 text-red-700 line-through"
+                        >
+                          {tag.name}
+                        </span>
+                      ))}
+                      {diff.tags.added.map((tag) => (
+                        <span
+                          key={tag.id}
+                          className="px-2 py-0.5 rounded-full bg-green-100 text-green-800"
+                        >
+                          {tag.name}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div>
+                  <p className="text-xs font-medium text-gray-500 mb-1">
+                    Content
+                  </p>
+                  <div className="max-h-96 overflow-y-auto rounded-lg border border-gray-200 p-3 leading-relaxed">
+                    <DiffText segments={diff.content} />
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PostHistoryPanel;
@@ -0,0 +1,345 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import axios from "axios";
+import toast from "react-hot-toast";
+import {
+  ArrowRight,
+  ChevronLeft,
+  ChevronRight,
+  CornerUpRight,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { redirectsAPI } from "../services/api";
+import { formatRelativeTimeFromUtc } from "../lib/dateUtils";
+import type { CreateSlugRedirectData, SlugRedirectType } from "../types";
+
+const TYPE_LABELS: Record<SlugRedirectType, string> = {
+  POST: "Post",
+  TAG: "Tag",
+  DOCUMENTATION_PRODUCT: "Docs product",
+  DOCUMENTATION_PAGE: "Docs page",
+};
+
+const pageSize = 20;
+
+const emptyForm: CreateSlugRedirectData = {
+  type: "POST",
+  fromSlug: "",
+  toSlug: "",
+  productSlug: "",
+};
+
+const RedirectsManagement: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [typeFilter, setTypeFilter] = useState<SlugRedirectType | "">("");
+  const [page, setPage] = useState(1);
+  const [isCreating, setIsCreating] = useState(false);
+  const [formData, setFormData] = useState<CreateSlugRedirectData>(emptyForm);
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["redirects", typeFilter, page],
+    queryFn: () =>
+      redirectsAPI.getRedirects({
+        type: typeFilter || undefined,
+        page,
+        limit: pageSize,
+      }),
+  });
+
+  const redirects = data?.data?.redirects || [];
+  const pagination = data?.data?.pagination;
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      redirectsAPI.createRedirect({
+        ...formData,
+        productSlug:
+          formData.type === "DOCUMENTATION_PAGE"
+            ? formData.productSlug
+            : undefined,
+      }),
+    onSuccess: () => {
+      toast.success("Redirect added");
+      setFormData(emptyForm);
+      setIsCreating(false);
+      queryClient.invalidateQueries({ queryKey: ["redirects"] });
+    },
+    onError: (error) => {
+      toast.error(
+        (axios.isAxiosError(error) && error.response?.data?.error) ||
+          "Failed to add redirect"
+      );
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: redirectsAPI.deleteRedirect,
+    onSuccess: () => {
+      toast.success("Redirect deleted");
+      setDeleteConfirm(null);
+      queryClient.invalidateQueries({ queryKey: ["redirects"] });
+    },
+    onError: () => {
+      toast.error("Failed to delete redirect");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate();
+  };
+
+  const handleTypeFilterChange = (type: SlugRedirectType | "") => {
+    setTypeFilter(type);
+    setPage(1);
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Redirects</h2>
+          <p className="text-sm text-gray-600">
+            Old links keep working after a rename. Add your own to point any
+            other old slug at existing content.
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={typeFilter}
+            onChange={(e) =>
+              handleTypeFilterChange(e.target.value as SlugRedirectType | "")
+            }
+            className="input"
+          >
+            <option value="">All types</option>
+            {Object.entries(TYPE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {!isCreating && (
+            <button
+              onClick={() => setIsCreating(true)}
+              className="btn-primary btn-sm inline-flex items-center space-x-1 whitespace-nowrap"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add redirect</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isCreating && (
+        <form
+          onSubmit={handleSubmit}
+          className="px-6 py-4 border-b border-gray-200 bg-gray-50 space-y-3"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Type
+              </label>
+              <select
+                value={formData.type}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    type: e.target.value as SlugRedirectType,
+                  })
+                }
+                className="input"
+              >
+                {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {formData.type === "DOCUMENTATION_PAGE" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Product slug
+                </label>
+                <input
+                  type="text"
+                  value={formData.productSlug}
+                  onChange={(e) =>
+                    setFormData({ ...formData, productSlug: e.target.value })
+                  }
+                  placeholder="my-product"
+                  className="input"
+                  required
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Old slug
+              </label>
+              <input
+                type="text"
+                value={formData.fromSlug}
+                onChange={(e) =>
+                  setFormData({ ...formData, fromSlug: e.target.value })
+                }
+                placeholder="old-slug"
+                className="input"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Current slug
+              </label>
+              <input
+                type="text"
+                value={formData.toSlug}
+                onChange={(e) =>
+                  setFormData({ ...formData, toSlug: e.target.value })
+                }
+                placeholder="current-slug"
+                className="input"
+                required
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => {
+                setIsCreating(false);
+                setFormData(emptyForm);
+              }}
+              className="btn-ghost btn-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={createMutation.isPending}
+              className="btn-primary btn-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {createMutation.isPending ? "Adding..." : "Add redirect"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="p-6 animate-pulse space-y-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-10 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      ) : redirects.length === 0 ? (
+        <div className="text-center py-12">
+          <CornerUpRight className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">No redirects yet.</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {redirects.map((redirect) => (
+            <li
+              key={redirect.id}
+              className="px-6 py-4 flex items-center justify-between gap-4"
+            >
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                    {TYPE_LABELS[redirect.type]}
+                  </span>
+                  <code className="text-gray-900">{redirect.fromSlug}</code>
+                  <ArrowRight className="h-4 w-4 text-gray-400" />
+                  {redirect.target ? (
+                    <Link
+                      to={redirect.target.location}
+                      className="text-primary-600 hover:underline truncate"
+                    >
+                      {redirect.target.title}
+                    </Link>
+                  ) : (
+                    <span className="text-gray-500 italic">
+                      Deleted content
+                    </span>
+                  )}
+                </div>
+                <div className="mt-1 text-xs text-gray-500">
+                  {redirect.manual ? "Added manually" : "Recorded on rename"} ·{" "}
+                  {formatRelativeTimeFromUtc(redirect.createdAt)}
+                </div>
+              </div>
+              <button
+                onClick={() => setDeleteConfirm(redirect.id)}
+                className="btn-ghost btn-sm text-red-600 hover:bg-red-50"
+                title="Delete redirect"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          <div className="text-sm text-gray-700">
+            Page {pagination.page} of {pagination.totalPages}
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={!pagination.hasPrevPage}
+              className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={!pagination.hasNextPage}
+              className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {deleteConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              Delete Redirect
+            </h3>
+            <p className="text-gray-600 mb-6">
+              Links that use the old slug will stop working.
+            </p>
+            <div className="flex space-x-3 justify-end">
+              <button
+                onClick={() => setDeleteConfirm(null)}
+                className="btn-outline"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => deleteMutation.mutate(deleteConfirm)}
+                disabled={deleteMutation.isPending}
+                className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 disabled:opacity-50"
+              >
+                {deleteMutation.isPending ? "Deleting..." : "Delete"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RedirectsManagement;
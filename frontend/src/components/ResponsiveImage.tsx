@@ -0,0 +1,72 @@
+import React from "react";
+import type { ImagePlaceholder, ImageSrcset } from "../types";
+
+interface ResponsiveImageProps
+  extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, "srcSet"> {
+  src: string;
+  srcset?: ImageSrcset | null;
+  placeholder?: ImagePlaceholder | null;
+  sizes: string; // How wide the image is laid out, e.g. "100vw"
+}
+
+// Lets the browser pick the smallest resized copy that fills the layout,
+// falling back to the original for images without variants
+const ResponsiveImage: React.FC<ResponsiveImageProps> = ({
+  src,
+  srcset,
+  placeholder,
+  sizes,
+  style,
+  onLoad,
+  ...imgProps
+}) => {
+  const [loaded, setLoaded] = React.useState(false);
+
+  // The blurred thumbnail and dominant colour sit behind the image until it
+  // arrives; the browser's smoothing does the blurring
+  const placeholderStyle: React.CSSProperties | undefined =
+    placeholder && !loaded
+      ? {
+          backgroundColor: placeholder.dominantColor ?? undefined,
+          backgroundImage: placeholder.placeholder
+            ? `url("${placeholder.placeholder}")`
+            : undefined,
+          backgroundSize: "cover",
+          backgroundPosition: "center",
+        }
+      : undefined;
+
+  const image = (
+    <img
+      src={src}
+      width={placeholder?.width ?? undefined}
+      height={placeholder?.height ?? undefined}
+      style={{ ...placeholderStyle, ...style }}
+      onLoad={(event) => {
+        setLoaded(true);
+        onLoad?.(event);
+      }}
+      {...imgProps}
+    />
+  );
+
+  if (!srcset?.avif && !srcset?.webp) {
+    return image;
+  }
+
+  // "contents" keeps <picture> out of layout, so sizing classes on the
+  // image behave as if it were the parent's direct child
+  return (
+    <picture className="contents">
+      {srcset.avif && (
+        <source type="image/avif" srcSet={srcset.avif} sizes={sizes} />
+      )}
+      {srcset.webp && (
+        <source type="image/webp" srcSet={srcset.webp} sizes={sizes} />
+      )}
+      {image}
+    </picture>
+  );
+};
+
+export default ResponsiveImage;
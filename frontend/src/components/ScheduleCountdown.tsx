@@ -0,0 +1,37 @@
+import React, { useEffect, useState } from "react";
+import { CalendarClock } from "lucide-react";
+import { formatCountdown, formatPostDate } from "../lib/dateUtils";
+
+interface ScheduleCountdownProps {
+  publishAt: string;
+  className?: string;
+  showDate?: boolean;
+}
+
+const ScheduleCountdown: React.FC<ScheduleCountdownProps> = ({
+  publishAt,
+  className = "",
+  showDate = false,
+}) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <span
+      className={`inline-flex items-center space-x-1 ${className}`}
+      title={formatPostDate(publishAt, { format: "FULL" })}
+    >
+      <CalendarClock className="h-3 w-3" />
+      <span>
+        Publishes in {formatCountdown(publishAt, now)}
+        {showDate && ` (${formatPostDate(publishAt)})`}
+      </span>
+    </span>
+  );
+};
+
+export default ScheduleCountdown;
@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { BookOpen, FileText, Search, ArrowRight } from "lucide-react";
+import { searchAPI } from "../services/api";
+import { getSearchResultPath, HIGHLIGHT_CLASSES } from "../lib/search";
+import type { SearchResult } from "../types";
+
+interface SearchPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SearchPalette: React.FC<SearchPaletteProps> = ({ isOpen, onClose }) => {
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // Debounce the query so we search once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedQuery(query.trim());
+      setActiveIndex(0);
+    }, 200);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Start fresh each time the palette opens
+  useEffect(() => {
+    if (isOpen) {
+      setQuery("");
+      setDebouncedQuery("");
+      setActiveIndex(0);
+      inputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  const { data, isFetching } = useQuery({
+    queryKey: ["search", { q: debouncedQuery, palette: true }],
+    queryFn: () => searchAPI.search({ q: debouncedQuery, limit: 8 }),
+    enabled: isOpen && debouncedQuery.length > 0,
+  });
+
+  const results = debouncedQuery ? data?.data?.results || [] : [];
+  const totalCount = data?.data?.pagination.totalCount || 0;
+
+  const openResult = (result: SearchResult) => {
+    navigate(getSearchResultPath(result));
+    onClose();
+  };
+
+  const openAllResults = () => {
+    navigate(`/search?q=${encodeURIComponent(query.trim())}`);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((index) => Math.min(index + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const result = results[activeIndex];
+      if (result) {
+        openResult(result);
+      } else if (query.trim()) {
+        openAllResults();
+      }
+    } else if (e.key === "Escape") {
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-start justify-center bg-gray-900/40 backdrop-blur-sm px-4 pt-24"
+      onMouseDown={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search"
+        className="w-full max-w-2xl bg-white rounded-2xl shadow-2xl border border-gray-200 overflow-hidden"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center px-4 border-b border-gray-100">
+          <Search className="h-5 w-5 text-gray-400" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search posts and docs..."
+            className="flex-1 px-3 py-4 text-gray-900 placeholder-gray-400 focus:outline-none"
+          />
+          <kbd className="hidden sm:inline-block px-2 py-1 text-xs text-gray-500 bg-gray-100 rounded">
+            Esc
+          </kbd>
+        </div>
+
+        {debouncedQuery && (
+          <div className="max-h-96 overflow-y-auto py-2">
+            {results.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm text-gray-500">
+                {isFetching ? "Searching..." : `No results for "${debouncedQuery}"`}
+              </p>
+            ) : (
+              results.map((result, index) => (
+                <button
+                  key={`${result.type}-${result.id}`}
+                  onClick={() => openResult(result)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={`w-full flex items-start space-x-3 px-4 py-3 text-left transition-colors ${index === activeIndex ? "bg-primary-50" : ""
+                    }`}
+                >
+                  {result.type === "doc" ? (
+                    <BookOpen className="h-5 w-5 mt-0.5 text-gray-400 flex-shrink-0" />
+                  ) : (
+                    <FileText className="h-5 w-5 mt-0.5 text-gray-400 flex-shrink-0" />
+                  )}
+                  <div className={`min-w-0 ${HIGHLIGHT_CLASSES}`}>
+                    <div
+                      className="font-medium text-gray-900 truncate"
+                      dangerouslySetInnerHTML={{ __html: result.titleHighlight }}
+                    />
+                    <div
+                      className="text-sm text-gray-500 line-clamp-2"
+                      dangerouslySetInnerHTML={{ __html: result.snippet }}
+                    />
+                    {result.productName && (
+                      <div className="text-xs text-gray-400 mt-1">
+                        Docs · {result.productName}
+                      </div>
+                    )}
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        )}
+
+        {debouncedQuery && totalCount > results.length && (
+          <button
+            onClick={openAllResults}
+            className="w-full flex items-center justify-between px-4 py-3 text-sm text-primary-600 border-t border-gray-100 hover:bg-primary-50"
+          >
+            <span>See all {totalCount} results</span>
+            <ArrowRight className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPalette;
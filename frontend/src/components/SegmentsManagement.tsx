@@ -0,0 +1,497 @@
+import React, { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { Download, Edit, Filter, Plus, Trash2, Users } from "lucide-react";
+import { newsletterAPI, segmentsAPI } from "../services/api";
+import type { Segment, SegmentData, SegmentRules } from "../types";
+import NewsletterTopicPicker from "./NewsletterTopicPicker";
+
+type EngagementMode = "any" | "engaged" | "notEngaged";
+
+interface SegmentForm {
+  name: string;
+  description: string;
+  tagIds: string[];
+  includeAllTopics: boolean;
+  subscribedAfter: string;
+  subscribedBefore: string;
+  engagement: EngagementMode;
+  engagementDays: number;
+}
+
+const emptyForm: SegmentForm = {
+  name: "",
+  description: "",
+  tagIds: [],
+  includeAllTopics: true,
+  subscribedAfter: "",
+  subscribedBefore: "",
+  engagement: "any",
+  engagementDays: 90,
+};
+
+const toForm = (segment: Segment): SegmentForm => ({
+  name: segment.name,
+  description: segment.description || "",
+  tagIds: segment.rules.tagIds,
+  includeAllTopics: segment.rules.includeAllTopics,
+  subscribedAfter: segment.rules.subscribedAfter?.slice(0, 10) || "",
+  subscribedBefore: segment.rules.subscribedBefore?.slice(0, 10) || "",
+  engagement: segment.rules.engagedWithinDays
+    ? "engaged"
+    : segment.rules.notEngagedWithinDays
+      ? "notEngaged"
+      : "any",
+  engagementDays:
+    segment.rules.engagedWithinDays ||
+    segment.rules.notEngagedWithinDays ||
+    90,
+});
+
+const toRules = (form: SegmentForm): SegmentRules => ({
+  tagIds: form.tagIds,
+  includeAllTopics: form.includeAllTopics,
+  subscribedAfter: form.subscribedAfter || undefined,
+  subscribedBefore: form.subscribedBefore || undefined,
+  engagedWithinDays:
+    form.engagement === "engaged" ? form.engagementDays : undefined,
+  notEngagedWithinDays:
+    form.engagement === "notEngaged" ? form.engagementDays : undefined,
+});
+
+const describeRules = (rules: SegmentRules): string => {
+  const parts: string[] = [];
+
+  if (rules.tagIds.length > 0) {
+    parts.push(
+      `${rules.tagIds.length} ${rules.tagIds.length === 1 ? "topic" : "topics"}`
+    );
+  }
+  if (rules.subscribedAfter) {
+    parts.push(`signed up after ${rules.subscribedAfter.slice(0, 10)}`);
+  }
+  if (rules.subscribedBefore) {
+    parts.push(`signed up before ${rules.subscribedBefore.slice(0, 10)}`);
+  }
+  if (rules.engagedWithinDays) {
+    parts.push(`engaged in the last ${rules.engagedWithinDays} days`);
+  }
+  if (rules.notEngagedWithinDays) {
+    parts.push(`not engaged in the last ${rules.notEngagedWithinDays} days`);
+  }
+
+  return parts.length > 0 ? parts.join(" · ") : "Every subscriber";
+};
+
+const SegmentsManagement: React.FC = () => {
+  const queryClient = useQueryClient();
+  // null while closed, "new" while creating, or the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [formData, setFormData] = useState<SegmentForm>(emptyForm);
+  const [previewRules, setPreviewRules] = useState<SegmentRules | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["segments"],
+    queryFn: segmentsAPI.getSegments,
+  });
+
+  const segments = data?.data?.segments || [];
+
+  // Debounce the live count so typing a date doesn't fire a request per key
+  useEffect(() => {
+    if (!editing) {
+      setPreviewRules(null);
+      return;
+    }
+
+    const timer = setTimeout(() => setPreviewRules(toRules(formData)), 300);
+    return () => clearTimeout(timer);
+  }, [editing, formData]);
+
+  const { data: previewData, isError: isPreviewError } = useQuery({
+    queryKey: ["segment-preview", previewRules],
+    queryFn: () => segmentsAPI.previewSegment(previewRules as SegmentRules),
+    enabled: !!previewRules,
+    retry: false,
+  });
+
+  const closeForm = () => {
+    setEditing(null);
+    setFormData(emptyForm);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (segment: SegmentData) =>
+      editing && editing !== "new"
+        ? segmentsAPI.updateSegment(editing, segment)
+        : segmentsAPI.createSegment(segment),
+    onSuccess: () => {
+      toast.success(editing === "new" ? "Segment created" : "Segment saved");
+      closeForm();
+      queryClient.invalidateQueries({ queryKey: ["segments"] });
+    },
+    onError: (error) => {
+      toast.error(
+        (axios.isAxiosError(error) && error.response?.data?.error) ||
+          "Failed to save segment"
+      );
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: segmentsAPI.deleteSegment,
+    onSuccess: () => {
+      toast.success("Segment deleted");
+      setDeleteConfirm(null);
+      queryClient.invalidateQueries({ queryKey: ["segments"] });
+    },
+    onError: (error) => {
+      toast.error(
+        (axios.isAxiosError(error) && error.response?.data?.error) ||
+          "Failed to delete segment"
+      );
+      setDeleteConfirm(null);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate({
+      name: formData.name,
+      description: formData.description || undefined,
+      rules: toRules(formData),
+    });
+  };
+
+  const handleExport = async (segment: Segment) => {
+    try {
+      setExportingId(segment.id);
+      const blob = await newsletterAPI.exportSubscribers(segment.id);
+
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `newsletter-subscribers-${segment.name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")}-${new Date().toISOString().split("T")[0]}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting segment:", error);
+      toast.error("Failed to export segment");
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Segments</h2>
+          <p className="text-sm text-gray-600">
+            Saved groups of subscribers to target campaigns and exports at.
+          </p>
+        </div>
+        {!editing && (
+          <button
+            onClick={() => setEditing("new")}
+            className="btn-primary btn-sm inline-flex items-center space-x-1 whitespace-nowrap"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New segment</span>
+          </button>
+        )}
+      </div>
+
+      {editing && (
+        <form
+          onSubmit={handleSubmit}
+          className="px-6 py-4 border-b border-gray-200 bg-gray-50 space-y-4"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Name
+              </label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData({ ...formData, name: e.target.value })
+                }
+                placeholder="Frontend readers"
+                className="input"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Description
+              </label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(e) =>
+                  setFormData({ ...formData, description: e.target.value })
+                }
+                placeholder="Optional"
+                className="input"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Interested in any of these topics
+            </label>
+            <NewsletterTopicPicker
+              selectedIds={formData.tagIds}
+              onChange={(tagIds) => setFormData({ ...formData, tagIds })}
+            />
+            {formData.tagIds.length > 0 && (
+              <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.includeAllTopics}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      includeAllTopics: e.target.checked,
+                    })
+                  }
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span>
+                  Include subscribers who haven't picked any topics (they asked
+                  for everything)
+                </span>
+              </label>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Signed up after
+              </label>
+              <input
+                type="date"
+                value={formData.subscribedAfter}
+                onChange={(e) =>
+                  setFormData({ ...formData, subscribedAfter: e.target.value })
+                }
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Signed up before
+              </label>
+              <input
+                type="date"
+                value={formData.subscribedBefore}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    subscribedBefore: e.target.value,
+                  })
+                }
+                className="input"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Engagement
+            </label>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={formData.engagement}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    engagement: e.target.value as EngagementMode,
+                  })
+                }
+                className="input w-auto"
+              >
+                <option value="any">Any</option>
+                <option value="engaged">Engaged in the last</option>
+                <option value="notEngaged">Not engaged in the last</option>
+              </select>
+              {formData.engagement !== "any" && (
+                <>
+                  <input
+                    type="number"
+                    min={1}
+                    max={3650}
+                    value={formData.engagementDays}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        engagementDays: Number(e.target.value) || 1,
+                      })
+                    }
+                    className="input w-24"
+                  />
+                  <span className="text-sm text-gray-600">days</span>
+                </>
+              )}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Confirming a subscription or changing preferences counts as
+              engagement.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center space-x-2 text-sm text-gray-700">
+              <Users className="h-4 w-4 text-gray-400" />
+              <span>
+                {isPreviewError
+                  ? "Check the rules above"
+                  : previewData
+                    ? `${previewData.data.subscriberCount} confirmed ${
+                        previewData.data.subscriberCount === 1
+                          ? "subscriber matches"
+                          : "subscribers match"
+                      }`
+                    : "Counting subscribers..."}
+              </span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                type="button"
+                onClick={closeForm}
+                className="btn-ghost btn-sm"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saveMutation.isPending}
+                className="btn-primary btn-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saveMutation.isPending
+                  ? "Saving..."
+                  : editing === "new"
+                    ? "Create segment"
+                    : "Save segment"}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="p-6 animate-pulse space-y-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-10 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      ) : segments.length === 0 ? (
+        <div className="text-center py-12">
+          <Filter className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">No segments yet.</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {segments.map((segment) => (
+            <li
+              key={segment.id}
+              className="px-6 py-4 flex items-center justify-between gap-4"
+            >
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-gray-900">
+                    {segment.name}
+                  </span>
+                  <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                    {segment.subscriberCount}{" "}
+                    {segment.subscriberCount === 1
+                      ? "subscriber"
+                      : "subscribers"}
+                  </span>
+                </div>
+                {segment.description && (
+                  <p className="text-sm text-gray-600">
+                    {segment.description}
+                  </p>
+                )}
+                <p className="mt-1 text-xs text-gray-500">
+                  {describeRules(segment.rules)}
+                </p>
+              </div>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => handleExport(segment)}
+                  disabled={exportingId === segment.id}
+                  className="btn-ghost btn-sm disabled:opacity-50"
+                  title="Export to Excel"
+                >
+                  <Download className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => {
+                    setEditing(segment.id);
+                    setFormData(toForm(segment));
+                  }}
+                  className="btn-ghost btn-sm"
+                  title="Edit segment"
+                >
+                  <Edit className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => setDeleteConfirm(segment.id)}
+                  className="btn-ghost btn-sm text-red-600 hover:bg-red-50"
+                  title="Delete segment"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {deleteConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              Delete Segment
+            </h3>
+            <p className="text-gray-600 mb-6">
+              Sent campaigns keep their history. Segments used by draft or
+              scheduled campaigns can't be deleted.
+            </p>
+            <div className="flex space-x-3 justify-end">
+              <button
+                onClick={() => setDeleteConfirm(null)}
+                className="btn-outline"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => deleteMutation.mutate(deleteConfirm)}
+                disabled={deleteMutation.isPending}
+                className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 disabled:opacity-50"
+              >
+                {deleteMutation.isPending ? "Deleting..." : "Delete"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SegmentsManagement;
@@ -0,0 +1,345 @@
+import React, { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { FileSpreadsheet, Upload, X } from "lucide-react";
+import { newsletterAPI } from "../services/api";
+import type {
+  SubscriberImportOptions,
+  SubscriberImportOutcome,
+  SubscriberImportResponse,
+} from "../types";
+
+// Matches the upload limit on the import endpoint
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+const OUTCOMES: {
+  key: SubscriberImportOutcome;
+  label: string;
+  description: string;
+  classes: string;
+}[] = [
+  {
+    key: "new",
+    label: "New",
+    description: "Will be added as confirmed subscribers",
+    classes: "bg-green-50 border-green-200 text-green-800",
+  },
+  {
+    key: "reactivated",
+    label: "Reactivated",
+    description: "Already known here and will be subscribed again",
+    classes: "bg-blue-50 border-blue-200 text-blue-800",
+  },
+  {
+    key: "duplicate",
+    label: "Duplicate",
+    description: "Already subscribed or repeated in the file; skipped",
+    classes: "bg-gray-50 border-gray-200 text-gray-800",
+  },
+  {
+    key: "invalid",
+    label: "Invalid",
+    description: "Missing or malformed email addresses; skipped",
+    classes: "bg-red-50 border-red-200 text-red-800",
+  },
+];
+
+interface SubscriberImportWizardProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const SubscriberImportWizard: React.FC<SubscriberImportWizardProps> = ({
+  onClose,
+  onImported,
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<SubscriberImportResponse["data"] | null>(
+    null
+  );
+  const [emailColumn, setEmailColumn] = useState("");
+  const [subscribedAtColumn, setSubscribedAtColumn] = useState("");
+  const [reactivateUnsubscribed, setReactivateUnsubscribed] = useState(false);
+  const [outcome, setOutcome] = useState<SubscriberImportOutcome>("new");
+
+  const dryRunMutation = useMutation({
+    mutationFn: ({
+      file,
+      options,
+    }: {
+      file: File;
+      options: SubscriberImportOptions;
+    }) => newsletterAPI.importSubscribers(file, { ...options, dryRun: true }),
+    onSuccess: (response) => {
+      setResult(response.data);
+      setEmailColumn(response.data.mapping.email || "");
+      setSubscribedAtColumn(response.data.mapping.subscribedAt || "");
+    },
+    onError: (error) => {
+      toast.error(
+        (axios.isAxiosError(error) && error.response?.data?.error) ||
+          "Failed to read the file"
+      );
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (file: File) =>
+      newsletterAPI.importSubscribers(file, {
+        emailColumn,
+        subscribedAtColumn,
+        reactivateUnsubscribed,
+        dryRun: false,
+      }),
+    onSuccess: (response) => {
+      toast.success(response.message || "Subscribers imported");
+      onImported();
+      onClose();
+    },
+    onError: (error) => {
+      toast.error(
+        (axios.isAxiosError(error) && error.response?.data?.error) ||
+          "Failed to import subscribers"
+      );
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+
+    if (!selected) return;
+
+    if (selected.size > MAX_FILE_SIZE) {
+      toast.error("Files must be 10MB or smaller");
+      return;
+    }
+
+    setFile(selected);
+    setResult(null);
+    setOutcome("new");
+    // No columns yet, so the server guesses them from the header row
+    dryRunMutation.mutate({ file: selected, options: {} });
+  };
+
+  // Every mapping change re-runs the dry run so the diff stays accurate
+  const rerun = (changes: SubscriberImportOptions) => {
+    if (!file) return;
+
+    const options = {
+      emailColumn,
+      subscribedAtColumn,
+      reactivateUnsubscribed,
+      ...changes,
+    };
+
+    setEmailColumn(options.emailColumn);
+    setSubscribedAtColumn(options.subscribedAtColumn);
+    setReactivateUnsubscribed(options.reactivateUnsubscribed);
+    dryRunMutation.mutate({ file, options });
+  };
+
+  const report = result?.report;
+  const importCount = report
+    ? report.summary.new + report.summary.reactivated
+    : 0;
+  const isBusy = dryRunMutation.isPending || importMutation.isPending;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              Import subscribers
+            </h3>
+            <p className="text-sm text-gray-600">
+              Upload a CSV or Excel export from another newsletter service.
+              Nothing is saved until you confirm the import.
+            </p>
+          </div>
+          <button onClick={onClose} className="btn-ghost btn-sm" title="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {/* Step 1: file */}
+          <label className="flex items-center justify-center gap-3 border-2 border-dashed border-gray-300 rounded-lg px-4 py-6 cursor-pointer hover:border-primary-400 transition-colors">
+            {file ? (
+              <FileSpreadsheet className="h-6 w-6 text-primary-600" />
+            ) : (
+              <Upload className="h-6 w-6 text-gray-400" />
+            )}
+            <span className="text-sm text-gray-700">
+              {file ? (
+                <>
+                  <span className="font-medium">{file.name}</span>
+                  {result && ` · ${result.totalRows} rows`} · Choose another
+                  file
+                </>
+              ) : (
+                "Choose a .csv or .xlsx file"
+              )}
+            </span>
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xls,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={handleFileChange}
+              disabled={isBusy}
+              className="hidden"
+            />
+          </label>
+
+          {/* Step 2: columns and dry run */}
+          {result && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Email column
+                </label>
+                <select
+                  value={emailColumn}
+                  onChange={(e) => rerun({ emailColumn: e.target.value })}
+                  disabled={isBusy}
+                  className="input"
+                >
+                  <option value="">Choose a column</option>
+                  {result.columns.map((column) => (
+                    <option key={column} value={column}>
+                      {column}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Subscribed date column
+                </label>
+                <select
+                  value={subscribedAtColumn}
+                  onChange={(e) =>
+                    rerun({ subscribedAtColumn: e.target.value })
+                  }
+                  disabled={isBusy}
+                  className="input"
+                >
+                  <option value="">None (use the import date)</option>
+                  {result.columns.map((column) => (
+                    <option key={column} value={column}>
+                      {column}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <label className="md:col-span-2 flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={reactivateUnsubscribed}
+                  onChange={(e) =>
+                    rerun({ reactivateUnsubscribed: e.target.checked })
+                  }
+                  disabled={isBusy}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span>
+                  Resubscribe people who unsubscribed here. Only do this if
+                  they opted in again with the other service.
+                </span>
+              </label>
+            </div>
+          )}
+
+          {dryRunMutation.isPending ? (
+            <div className="animate-pulse grid grid-cols-2 md:grid-cols-4 gap-3">
+              {OUTCOMES.map(({ key }) => (
+                <div key={key} className="h-20 bg-gray-200 rounded-lg"></div>
+              ))}
+            </div>
+          ) : result && !report ? (
+            <p className="text-sm text-gray-600">
+              Choose the column that holds the email addresses to see what
+              would be imported.
+            </p>
+          ) : (
+            report && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {OUTCOMES.map(({ key, label, classes }) => (
+                    <button
+                      key={key}
+                      onClick={() => setOutcome(key)}
+                      className={`text-left border rounded-lg px-4 py-3 ${classes} ${
+                        outcome === key ? "ring-2 ring-primary-500" : ""
+                      }`}
+                    >
+                      <div className="text-2xl font-bold">
+                        {report.summary[key]}
+                      </div>
+                      <div className="text-sm font-medium">{label}</div>
+                    </button>
+                  ))}
+                </div>
+
+                <div>
+                  <p className="text-sm text-gray-600 mb-2">
+                    {OUTCOMES.find(({ key }) => key === outcome)?.description}
+                    {report.summary[outcome] > report.rows[outcome].length &&
+                      ` · Showing the first ${report.rows[outcome].length}`}
+                  </p>
+                  {report.rows[outcome].length === 0 ? (
+                    <p className="text-sm text-gray-500">No rows.</p>
+                  ) : (
+                    <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 max-h-64 overflow-y-auto">
+                      {report.rows[outcome].map((row) => (
+                        <div
+                          key={row.row}
+                          className="px-4 py-2 flex items-center justify-between gap-4 text-sm"
+                        >
+                          <div className="min-w-0">
+                            <span className="text-gray-400 mr-3">
+                              Row {row.row}
+                            </span>
+                            <span className="text-gray-900 break-all">
+                              {row.email || "(empty)"}
+                            </span>
+                          </div>
+                          {row.reason && (
+                            <span className="text-gray-500 shrink-0">
+                              {row.reason}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          )}
+        </div>
+
+        {/* Step 3: confirm */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button onClick={onClose} className="btn-outline">
+            Cancel
+          </button>
+          <button
+            onClick={() => file && importMutation.mutate(file)}
+            disabled={!file || importCount === 0 || isBusy}
+            className="btn-primary disabled:opacity-50"
+          >
+            {importMutation.isPending
+              ? "Importing..."
+              : `Import ${importCount} ${
+                  importCount === 1 ? "subscriber" : "subscribers"
+                }`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubscriberImportWizard;
@@ -1,5 +1,10 @@
 import React from "react";
-import { useEditor, EditorContent } from "@tiptap/react";
+import {
+  useEditor,
+  EditorContent,
+  Node,
+  mergeAttributes,
+} from "@tiptap/react";
 import { StarterKit } from "@tiptap/starter-kit";
 import { Typography } from "@tiptap/extension-typography";
 import { TextStyle } from "@tiptap/extension-text-style";
@@ -33,6 +38,7 @@ import {
   Code2,
   Link as LinkIcon,
   Image as ImageIcon,
+  Paperclip,
   Table as TableIcon,
   AlignLeft,
   AlignCenter,
@@ -47,8 +53,10 @@ import {
   Redo,
   Palette,
 } from "lucide-react";
-import { cn } from "../lib/utils";
+import { cn, formatFileSize } from "../lib/utils";
 import ImageUploadDialog from "./ImageUploadDialog";
+import AttachmentUploadDialog from "./AttachmentUploadDialog";
+import type { Asset } from "../types";
 
 interface TipTapEditorProps {
   value: string;
@@ -59,6 +67,140 @@ interface TipTapEditorProps {
   className?: string;
 }
 
+// Keeps srcset and sizes on inline images, so posts serve resized uploads
+const ResponsiveImageNode = Image.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      srcset: { default: null },
+      sizes: { default: null },
+    };
+  },
+});
+
+// Download card for PDFs, archives and anything else readers save rather
+// than view. The name and size are rendered into the HTML, so posts show
+// the card without any script.
+const FileAttachmentNode = Node.create({
+  name: "fileAttachment",
+  group: "block",
+  atom: true,
+  draggable: true,
+
+  addAttributes() {
+    return {
+      href: { default: null },
+      name: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-name"),
+        renderHTML: (attributes) => ({ "data-name": attributes.name }),
+      },
+      size: {
+        default: null,
+        parseHTML: (element) =>
+          Number(element.getAttribute("data-size")) || null,
+        renderHTML: (attributes) => ({ "data-size": attributes.size }),
+      },
+      mimeType: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-mime-type"),
+        renderHTML: (attributes) => ({
+          "data-mime-type": attributes.mimeType,
+        }),
+      },
+    };
+  },
+
+  parseHTML() {
+    // Ahead of the link mark, which would otherwise claim the <a>
+    return [{ tag: "a[data-file-attachment]", priority: 100 }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      "a",
+      mergeAttributes(HTMLAttributes, {
+        "data-file-attachment": "",
+        download: node.attrs.name || "",
+        target: "_blank",
+        rel: "noopener noreferrer",
+        class:
+          "not-prose flex items-center justify-between gap-4 my-4 p-4 border border-gray-200 rounded-lg no-underline hover:bg-gray-50",
+      }),
+      [
+        "span",
+        { class: "font-medium text-gray-900 truncate" },
+        node.attrs.name || "Download file",
+      ],
+      [
+        "span",
+        { class: "text-sm text-gray-500 shrink-0" },
+        node.attrs.size ? formatFileSize(node.attrs.size) : "",
+      ],
+    ];
+  },
+});
+
+const AudioPlayerNode = Node.create({
+  name: "audio",
+  group: "block",
+  atom: true,
+  draggable: true,
+
+  addAttributes() {
+    return {
+      src: { default: null },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "audio[src]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      "audio",
+      mergeAttributes(HTMLAttributes, {
+        controls: "",
+        preload: "metadata",
+        class: "w-full my-4",
+      }),
+    ];
+  },
+});
+
+const VideoPlayerNode = Node.create({
+  name: "video",
+  group: "block",
+  atom: true,
+  draggable: true,
+
+  addAttributes() {
+    return {
+      src: { default: null },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "video[src]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      "video",
+      mergeAttributes(HTMLAttributes, {
+        controls: "",
+        preload: "metadata",
+        playsinline: "",
+        class: "max-w-full h-auto rounded-md my-4",
+      }),
+    ];
+  },
+});
+
+// Post content spans the page width, capped only by the image's own size
+const inlineImageSizes = "100vw";
+
 const TipTapEditor: React.FC<TipTapEditorProps> = ({
   value,
   onChange,
@@ -68,6 +210,8 @@ const TipTapEditor: React.FC<TipTapEditorProps> = ({
   className,
 }) => {
   const [isUploadDialogOpen, setIsUploadDialogOpen] = React.useState(false);
+  const [isAttachmentDialogOpen, setIsAttachmentDialogOpen] =
+    React.useState(false);
 
   const editor = useEditor({
     extensions: [
@@ -81,11 +225,14 @@ const TipTapEditor: React.FC<TipTapEditorProps> = ({
           class: "text-blue-600 underline",
         },
       }),
-      Image.configure({
+      ResponsiveImageNode.configure({
         HTMLAttributes: {
           class: "max-w-full h-auto rounded-md",
         },
       }),
+      FileAttachmentNode,
+      AudioPlayerNode,
+      VideoPlayerNode,
       Table.configure({
         resizable: true,
       }),
@@ -136,14 +283,50 @@ const TipTapEditor: React.FC<TipTapEditorProps> = ({
   }, []);
 
   const handleImageUploaded = React.useCallback(
-    (imageUrl: string) => {
+    (imageUrl: string, asset?: Asset) => {
       if (editor) {
-        editor.chain().focus().setImage({ src: imageUrl }).run();
+        editor
+          .chain()
+          .focus()
+          .insertContent({
+            type: "image",
+            attrs: {
+              src: imageUrl,
+              alt: asset?.altText || null,
+              srcset: asset?.srcset.webp || null,
+              sizes: asset?.srcset.webp ? inlineImageSizes : null,
+            },
+          })
+          .run();
       }
     },
     [editor]
   );
 
+  // Audio and video get players; everything else a download card
+  const handleAttachmentUploaded = React.useCallback(
+    (asset: Asset) => {
+      if (!editor) return;
+
+      const content = asset.mimeType.startsWith("audio/")
+        ? { type: "audio", attrs: { src: asset.url } }
+        : asset.mimeType.startsWith("video/")
+          ? { type: "video", attrs: { src: asset.url } }
+          : {
+              type: "fileAttachment",
+              attrs: {
+                href: asset.url,
+                name: asset.originalName,
+                size: asset.size,
+                mimeType: asset.mimeType,
+              },
+            };
+
+      editor.chain().focus().insertContent(content).run();
+    },
+    [editor]
+  );
+
   const setLink = React.useCallback(() => {
     const previousUrl = editor?.getAttributes("link").href;
     const url = window.prompt("Enter URL:", previousUrl);
@@ -554,6 +737,17 @@ const TipTapEditor: React.FC<TipTapEditorProps> = ({
             >
               <ImageIcon size={16} />
             </button>
+            <button
+              type="button"
+              onClick={(e) => {
+                e.preventDefault();
+                setIsAttachmentDialogOpen(true);
+              }}
+              className="p-2 text-sm rounded-md transition-colors bg-white text-gray-700 border border-gray-200 hover:bg-gray-50"
+              title="Attach File, Audio or Video"
+            >
+              <Paperclip size={16} />
+            </button>
             <button
               type="button"
               onClick={(e) => {
@@ -646,6 +840,13 @@ const TipTapEditor: React.FC<TipTapEditorProps> = ({
         onClose={() => setIsUploadDialogOpen(false)}
         onImageUploaded={handleImageUploaded}
       />
+
+      {/* Attachment Upload Dialog */}
+      <AttachmentUploadDialog
+        isOpen={isAttachmentDialogOpen}
+        onClose={() => setIsAttachmentDialogOpen(false)}
+        onAttachmentUploaded={handleAttachmentUploaded}
+      />
     </div>
   );
 };
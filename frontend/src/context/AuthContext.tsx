@@ -1,7 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from "react";
 import type { ReactNode } from "react";
 import { authAPI } from "../services/api";
-import type { User, RegisterData, LoginData } from "../types";
+import type { User, RegisterData, LoginData, Permission } from "../types";
 import toast from "react-hot-toast";
 
 interface AuthContextType {
@@ -12,6 +12,7 @@ interface AuthContextType {
   register: (data: RegisterData) => Promise<void>;
   logout: () => void;
   updateUser: (updatedUser: User) => void;
+  hasPermission: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -110,6 +111,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     localStorage.setItem("user", JSON.stringify(updatedUser));
   };
 
+  const hasPermission = (permission: Permission) =>
+    !!user?.permissions?.includes(permission);
+
   const value: AuthContextType = {
     user,
     isAuthenticated,
@@ -118,6 +122,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     register,
     logout,
     updateUser,
+    hasPermission,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -112,6 +112,54 @@ export const parseInputDateToUtc = (inputValue: string): string => {
   }
 };
 
+/**
+ * Parse a datetime-local input value into an ISO string for the same instant.
+ * Used for publish schedules, where the exact moment the user picked matters.
+ */
+export const parseScheduleInputToIso = (inputValue: string): string => {
+  if (!inputValue) {
+    return "";
+  }
+
+  const localDate = new Date(inputValue);
+  if (!isValid(localDate)) {
+    return "";
+  }
+
+  return localDate.toISOString();
+};
+
+/**
+ * Format the time remaining until a UTC date (e.g., "2d 4h 10m")
+ */
+export const formatCountdown = (
+  utcDateString: string,
+  now: Date = new Date()
+): string => {
+  const target = parseISO(utcDateString);
+  if (!isValid(target)) {
+    return "Invalid date";
+  }
+
+  const totalSeconds = Math.floor((target.getTime() - now.getTime()) / 1000);
+  if (totalSeconds <= 0) {
+    return "any moment now";
+  }
+
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) {
+    return `${days}d ${hours}h ${minutes}m`;
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m ${seconds}s`;
+};
+
 /**
  * Common date formatting presets
  */
@@ -0,0 +1,29 @@
+import type { Role } from "../types";
+
+// Ordered from most to least privileged, matching the backend
+export const ROLES: Role[] = [
+  "OWNER",
+  "ADMIN",
+  "EDITOR",
+  "AUTHOR",
+  "CONTRIBUTOR",
+  "SUBSCRIBER",
+];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  OWNER: "Owner",
+  ADMIN: "Administrator",
+  EDITOR: "Editor",
+  AUTHOR: "Author",
+  CONTRIBUTOR: "Contributor",
+  SUBSCRIBER: "Subscriber",
+};
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  OWNER: "Full access, including ownership of the site",
+  ADMIN: "Full access, including users and the newsletter",
+  EDITOR: "Publishes and manages everyone's posts, comments, tags, docs and redirects",
+  AUTHOR: "Writes, publishes and manages their own posts",
+  CONTRIBUTOR: "Writes drafts but cannot publish them",
+  SUBSCRIBER: "Can sign in and manage their profile",
+};
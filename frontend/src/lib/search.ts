@@ -0,0 +1,15 @@
+import type { SearchResult } from "../types";
+
+// Where a search result lives in the app
+export const getSearchResultPath = (result: SearchResult): string => {
+  if (result.type === "doc") {
+    return `/docs/${result.productSlug}/${result.slug}`;
+  }
+
+  return `/post/${result.slug}`;
+};
+
+// Highlighted fields come back from the API as escaped HTML with <mark>
+// around the matches
+export const HIGHLIGHT_CLASSES =
+  "[&_mark]:bg-yellow-100 [&_mark]:text-gray-900 [&_mark]:rounded-sm [&_mark]:px-0.5";
@@ -1,11 +1,11 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useMutation } from "@tanstack/react-query";
 import { postsAPI } from "../services/api";
-import type { CreatePostData } from "../types";
+import type { CreatePostData, PostAutosave } from "../types";
 import {
   Save,
   Eye,
@@ -24,9 +24,15 @@ import TipTapEditor from "../components/TipTapEditor";
 import UnsplashPhotoPicker from "../components/UnsplashPhotoPicker";
 import ImageUploadDialog from "../components/ImageUploadDialog";
 import TagSelector from "../components/TagSelector";
+import ScheduleCountdown from "../components/ScheduleCountdown";
+import AutosaveRecoveryBanner from "../components/AutosaveRecoveryBanner";
 import { useAuth } from "../context/AuthContext";
 import { useZenMode } from "../context/ZenModeContext";
-import { parseInputDateToUtc, getTimezoneInfo } from "../lib/dateUtils";
+import {
+  parseInputDateToUtc,
+  parseScheduleInputToIso,
+  getTimezoneInfo,
+} from "../lib/dateUtils";
 
 const createPostSchema = z.object({
   title: z
@@ -47,6 +53,13 @@ const createPostSchema = z.object({
       "Please enter a valid URL"
     ),
   published: z.boolean().default(false),
+  publishAt: z
+    .string()
+    .optional()
+    .refine(
+      (val) => !val || new Date(val).getTime() > Date.now(),
+      "Scheduled time must be in the future"
+    ),
   tagIds: z.array(z.string()).optional(),
   createdAt: z
     .string()
@@ -59,21 +72,33 @@ const createPostSchema = z.object({
 
 type CreatePostFormData = z.infer<typeof createPostSchema>;
 
+// Remembers the draft behind an unfinished post so it can be recovered later
+const DRAFT_STORAGE_KEY = "createPostDraftId";
+
 const CreatePost: React.FC = () => {
   const [isPreview, setIsPreview] = useState(false);
   const { isZenMode, setZenMode, toggleZenMode } = useZenMode();
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
-  const [autoSaveTimer, setAutoSaveTimer] = useState<NodeJS.Timeout | null>(
-    null
+  const [recoverableAutosave, setRecoverableAutosave] =
+    useState<PostAutosave | null>(null);
+  const autoSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const draftIdRef = useRef<string | null>(
+    localStorage.getItem(DRAFT_STORAGE_KEY)
   );
+  const draftCreationRef = useRef<Promise<string> | null>(null);
+  // Autosaves wait until a pending recovery has been resolved
+  const autoSavePausedRef = useRef(!!draftIdRef.current);
   const [isUnsplashPickerOpen, setIsUnsplashPickerOpen] = useState(false);
   const [isImageUploadDialogOpen, setIsImageUploadDialogOpen] = useState(false);
   const [imageInputMode, setImageInputMode] = useState<"unsplash" | "upload">(
     "unsplash"
   );
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const selectedTagIdsRef = useRef<string[]>([]);
+  selectedTagIdsRef.current = selectedTagIds;
   const navigate = useNavigate();
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, hasPermission } = useAuth();
+  const canPublish = hasPermission("posts:publish");
 
   // Word count and reading time calculation
   const calculateWordCount = (text: string) => {
@@ -106,7 +131,7 @@ const CreatePost: React.FC = () => {
   } = useForm<CreatePostFormData>({
     resolver: zodResolver(createPostSchema),
     defaultValues: {
-      published: true,
+      published: canPublish,
       content: "",
     },
   });
@@ -117,13 +142,20 @@ const CreatePost: React.FC = () => {
   }, [register]);
 
   const createMutation = useMutation({
-    mutationFn: postsAPI.createPost,
+    // Posts that were autosaved already exist as a draft, so save over it
+    mutationFn: (data: CreatePostData) =>
+      draftIdRef.current
+        ? postsAPI.updatePost(draftIdRef.current, data)
+        : postsAPI.createPost(data),
     onSuccess: (data) => {
       const post = data.data.post;
+      localStorage.removeItem(DRAFT_STORAGE_KEY);
       toast.success(
         post.published
           ? "Post published successfully!"
-          : "Draft saved successfully!"
+          : post.publishAt
+            ? "Post scheduled successfully!"
+            : "Draft saved successfully!"
       );
       // Exit zen mode before navigating
       setZenMode(false);
@@ -131,6 +163,7 @@ const CreatePost: React.FC = () => {
     },
     onError: (error: unknown) => {
       console.error("Create post error:", error);
+      autoSavePausedRef.current = false;
 
       if (error && typeof error === "object" && "response" in error) {
         const axiosError = error as {
@@ -206,37 +239,113 @@ const CreatePost: React.FC = () => {
       createdAt: data.createdAt?.trim()
         ? parseInputDateToUtc(data.createdAt.trim())
         : undefined,
+      publishAt: data.publishAt?.trim()
+        ? parseScheduleInputToIso(data.publishAt.trim())
+        : undefined,
     };
 
+    // Stop pending autosaves from recreating the autosave after saving
+    autoSavePausedRef.current = true;
+    if (autoSaveTimerRef.current) {
+      clearTimeout(autoSaveTimerRef.current);
+    }
+
     // console.log("Cleaned data:", cleanedData);
     createMutation.mutate(cleanedData);
   };
 
+  // Check for an autosave left behind by a previous session
+  useEffect(() => {
+    const draftId = draftIdRef.current;
+    if (!draftId || !isAuthenticated) return;
+
+    postsAPI
+      .getAutosave(draftId)
+      .then((response) => {
+        if (response.data.autosave) {
+          setRecoverableAutosave(response.data.autosave);
+        } else {
+          autoSavePausedRef.current = false;
+        }
+      })
+      .catch(() => {
+        // The draft no longer exists, start over with a fresh one
+        localStorage.removeItem(DRAFT_STORAGE_KEY);
+        draftIdRef.current = null;
+        autoSavePausedRef.current = false;
+      });
+  }, [isAuthenticated]);
+
+  // Create the draft that autosaves are stored against, only once
+  const ensureDraft = useCallback(async (): Promise<string> => {
+    if (draftIdRef.current) {
+      return draftIdRef.current;
+    }
+
+    if (!draftCreationRef.current) {
+      draftCreationRef.current = postsAPI
+        .createDraft()
+        .then((response) => {
+          const draftId = response.data.post.id;
+          draftIdRef.current = draftId;
+          localStorage.setItem(DRAFT_STORAGE_KEY, draftId);
+          return draftId;
+        })
+        .finally(() => {
+          draftCreationRef.current = null;
+        });
+    }
+
+    return draftCreationRef.current;
+  }, []);
+
   // Auto-save functionality
   const autoSave = useCallback(
     async (data: Partial<CreatePostFormData>) => {
-      if (!isAuthenticated || !data.title?.trim() || !data.content?.trim())
+      if (
+        !isAuthenticated ||
+        autoSavePausedRef.current ||
+        (!data.title?.trim() && !data.content?.trim())
+      )
         return;
 
       try {
-        // This would be an auto-save API call - for now just simulate
+        const draftId = await ensureDraft();
+        await postsAPI.autosave(draftId, {
+          title: data.title || "",
+          content: data.content || "",
+          excerpt: data.excerpt?.trim() || undefined,
+          coverImage: data.coverImage?.trim() || undefined,
+          tagIds: selectedTagIdsRef.current,
+        });
         setLastSaved(new Date());
-        // In a real implementation, you'd call an auto-save endpoint here
       } catch (error) {
         console.error("Auto-save failed:", error);
       }
     },
-    [isAuthenticated]
+    [isAuthenticated, ensureDraft]
   );
 
   // Set up auto-save
   useEffect(() => {
     const subscription = watch((data) => {
-      if (autoSaveTimer) {
-        clearTimeout(autoSaveTimer);
+      // The draft is created on the first edit so nothing is lost if the
+      // page is closed before the first autosave
+      if (
+        isAuthenticated &&
+        !autoSavePausedRef.current &&
+        (data.title?.trim() || data.content?.trim())
+      ) {
+        ensureDraft().catch((error) => {
+          console.error("Draft creation failed:", error);
+        });
+      }
+
+      if (autoSaveTimerRef.current) {
+        clearTimeout(autoSaveTimerRef.current);
       }
 
-      const timer = setTimeout(() => {
+      autoSaveTimerRef.current = setTimeout(() => {
         // Clean the data before passing to autoSave to ensure correct types
         const cleanedData = {
           ...data,
@@ -246,17 +355,47 @@ const CreatePost: React.FC = () => {
         };
         autoSave(cleanedData);
       }, 2000); // Auto-save after 2 seconds of inactivity
-
-      setAutoSaveTimer(timer);
     });
 
     return () => {
       subscription.unsubscribe();
-      if (autoSaveTimer) {
-        clearTimeout(autoSaveTimer);
+      if (autoSaveTimerRef.current) {
+        clearTimeout(autoSaveTimerRef.current);
       }
     };
-  }, [watch, autoSave, autoSaveTimer]);
+  }, [watch, autoSave, ensureDraft, isAuthenticated]);
+
+  const handleRecoverAutosave = () => {
+    if (!recoverableAutosave) return;
+
+    setValue("title", recoverableAutosave.title);
+    setValue("content", recoverableAutosave.content);
+    setValue("excerpt", recoverableAutosave.excerpt || "");
+    setValue("coverImage", recoverableAutosave.coverImage || "");
+    setSelectedTagIds(recoverableAutosave.tagIds);
+    setLastSaved(new Date(recoverableAutosave.updatedAt));
+    setRecoverableAutosave(null);
+    autoSavePausedRef.current = false;
+    toast.success("Draft recovered");
+  };
+
+  const handleDiscardAutosave = async () => {
+    const draftId = draftIdRef.current;
+
+    setRecoverableAutosave(null);
+    localStorage.removeItem(DRAFT_STORAGE_KEY);
+    draftIdRef.current = null;
+    autoSavePausedRef.current = false;
+
+    // The draft was never saved explicitly, so it goes along with its autosave
+    if (draftId) {
+      try {
+        await postsAPI.deletePost(draftId);
+      } catch (error) {
+        console.error("Failed to discard draft:", error);
+      }
+    }
+  };
 
   // Escape key handler for zen mode
   useEffect(() => {
@@ -440,6 +579,14 @@ const CreatePost: React.FC = () => {
               className={`space-y-6 sm:space-y-8 ${isZenMode ? "max-w-4xl mx-auto px-4 sm:px-8 py-8 sm:py-16" : ""
                 }`}
             >
+              {recoverableAutosave && !isZenMode && (
+                <AutosaveRecoveryBanner
+                  autosave={recoverableAutosave}
+                  onRecover={handleRecoverAutosave}
+                  onDiscard={handleDiscardAutosave}
+                />
+              )}
+
               {/* Title - Enhanced */}
               <div className="space-y-3">
                 <label
@@ -522,6 +669,43 @@ const CreatePost: React.FC = () => {
                 </div>
               )}
 
+              {/* Publish Schedule */}
+              {!isZenMode && canPublish && (
+                <div className="space-y-3">
+                  <label
+                    htmlFor="publishAt"
+                    className="block text-sm font-semibold tracking-wide text-gray-700 mb-3"
+                  >
+                    SCHEDULE PUBLISHING
+                  </label>
+                  <input
+                    {...register("publishAt")}
+                    type="datetime-local"
+                    className={`w-full text-base sm:text-lg border border-gray-200 rounded-xl px-3 sm:px-4 py-3 sm:py-4 bg-white shadow-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200 min-h-[48px] ${errors.publishAt
+                        ? "border-red-500 focus:ring-red-500"
+                        : ""
+                      }`}
+                  />
+                  <p className="text-xs sm:text-sm text-gray-500">
+                    Pick a future time to publish this post automatically (in
+                    your local timezone: {getTimezoneInfo().timeZoneName})
+                  </p>
+                  {watchedValues.publishAt && !errors.publishAt && (
+                    <ScheduleCountdown
+                      publishAt={parseScheduleInputToIso(
+                        watchedValues.publishAt
+                      )}
+                      className="text-sm text-blue-700"
+                    />
+                  )}
+                  {errors.publishAt && (
+                    <p className="text-red-500 text-sm font-medium">
+                      {errors.publishAt.message}
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Cover Image - Enhanced with Unsplash Integration */}
               {!isZenMode && (
                 <div className="space-y-3">
@@ -743,7 +927,13 @@ const CreatePost: React.FC = () => {
                         {...register("published")}
                         type="checkbox"
                         id="published"
-                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500 h-5 w-5"
+                        disabled={!canPublish}
+                        title={
+                          canPublish
+                            ? undefined
+                            : "Your role can only save drafts"
+                        }
+                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500 h-5 w-5 disabled:opacity-50"
                       />
                       <label
                         htmlFor="published"
@@ -775,9 +965,11 @@ const CreatePost: React.FC = () => {
                       <div className="flex items-center justify-center space-x-2">
                         <Save className="h-5 w-5" />
                         <span>
-                          {watchedValues.published
-                            ? "Publish Post"
-                            : "Save Draft"}
+                          {watchedValues.publishAt
+                            ? "Schedule Post"
+                            : watchedValues.published
+                              ? "Publish Post"
+                              : "Save Draft"}
                         </span>
                       </div>
                     )}
@@ -795,6 +987,12 @@ const CreatePost: React.FC = () => {
                         onChange={(e) =>
                           setValue("published", e.target.checked)
                         }
+                        disabled={!canPublish}
+                        title={
+                          canPublish
+                            ? undefined
+                            : "Your role can only save drafts"
+                        }
                       />
                       <label
                         className={`text-sm font-medium ${isZenMode ? "text-gray-300" : "text-gray-700"
@@ -828,9 +1026,11 @@ const CreatePost: React.FC = () => {
                         <div className="flex items-center space-x-2">
                           <Save className="h-4 w-4" />
                           <span>
-                            {watchedValues.published
-                              ? "Publish Post"
-                              : "Save Draft"}
+                            {watchedValues.publishAt
+                              ? "Schedule Post"
+                              : watchedValues.published
+                                ? "Publish Post"
+                                : "Save Draft"}
                           </span>
                         </div>
                       )}
@@ -5,6 +5,11 @@ import { postsAPI } from "../services/api";
 import { useAuth } from "../context/AuthContext";
 import NewsletterSubscribersTable from "../components/NewsletterSubscribersTable";
 import TagsManagement from "../components/TagsManagement";
+import CommentsModeration from "../components/CommentsModeration";
+import RedirectsManagement from "../components/RedirectsManagement";
+import CampaignsManagement from "../components/CampaignsManagement";
+import SegmentsManagement from "../components/SegmentsManagement";
+import ScheduleCountdown from "../components/ScheduleCountdown";
 import UsersManagement from "./UsersManagement";
 import {
   Plus,
@@ -17,12 +22,16 @@ import {
   Mail,
   Tag,
   Users,
+  MessageCircle,
+  CornerUpRight,
+  Send,
+  Filter,
 } from "lucide-react";
 import toast from "react-hot-toast";
 import { formatRelativeTimeFromUtc } from "../lib/dateUtils";
 
 const Dashboard: React.FC = () => {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const location = useLocation();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
@@ -133,7 +142,7 @@ const Dashboard: React.FC = () => {
               Manage your blog posts and content
             </p>
           </div>
-          {user?.isAdmin && activeTab === "posts" && (
+          {hasPermission("posts:create") && activeTab === "posts" && (
             <Link
               to="/create"
               className="btn-primary flex items-center space-x-2"
@@ -146,7 +155,11 @@ const Dashboard: React.FC = () => {
       </div>
 
       {/* Tabs */}
-      {user?.isAdmin && (
+      {(hasPermission("comments:moderate") ||
+        hasPermission("tags:manage") ||
+        hasPermission("redirects:manage") ||
+        hasPermission("newsletter:manage") ||
+        hasPermission("users:manage")) && (
         <div className="mb-8">
           <div className="border-b border-gray-200">
             <nav className="-mb-px flex space-x-8">
@@ -162,42 +175,104 @@ const Dashboard: React.FC = () => {
                   <span>Posts</span>
                 </div>
               </button>
-              <button
-                onClick={() => handleTabChange("tags")}
-                className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === "tags"
-                    ? "border-blue-500 text-blue-600"
-                    : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
-                  }`}
-              >
-                <div className="flex items-center space-x-2">
-                  <Tag className="h-4 w-4" />
-                  <span>Tags</span>
-                </div>
-              </button>
-              <button
-                onClick={() => handleTabChange("newsletter")}
-                className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === "newsletter"
-                    ? "border-blue-500 text-blue-600"
-                    : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
-                  }`}
-              >
-                <div className="flex items-center space-x-2">
-                  <Mail className="h-4 w-4" />
-                  <span>Newsletter</span>
-                </div>
-              </button>
-              <button
-                onClick={() => handleTabChange("users")}
-                className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === "users"
-                    ? "border-blue-500 text-blue-600"
-                    : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
-                  }`}
-              >
-                <div className="flex items-center space-x-2">
-                  <Users className="h-4 w-4" />
-                  <span>Users</span>
-                </div>
-              </button>
+              {hasPermission("comments:moderate") && (
+                <button
+                  onClick={() => handleTabChange("comments")}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === "comments"
+                      ? "border-blue-500 text-blue-600"
+                      : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                    }`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <MessageCircle className="h-4 w-4" />
+                    <span>Comments</span>
+                  </div>
+                </button>
+              )}
+              {hasPermission("tags:manage") && (
+                <button
+                  onClick={() => handleTabChange("tags")}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === "tags"
+                      ? "border-blue-500 text-blue-600"
+                      : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                    }`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <Tag className="h-4 w-4" />
+                    <span>Tags</span>
+                  </div>
+                </button>
+              )}
+              {hasPermission("redirects:manage") && (
+                <button
+                  onClick={() => handleTabChange("redirects")}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === "redirects"
+                      ? "border-blue-500 text-blue-600"
+                      : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                    }`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <CornerUpRight className="h-4 w-4" />
+                    <span>Redirects</span>
+                  </div>
+                </button>
+              )}
+              {hasPermission("newsletter:manage") && (
+                <button
+                  onClick={() => handleTabChange("newsletter")}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === "newsletter"
+                      ? "border-blue-500 text-blue-600"
+                      : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                    }`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <Mail className="h-4 w-4" />
+                    <span>Newsletter</span>
+                  </div>
+                </button>
+              )}
+              {hasPermission("newsletter:manage") && (
+                <button
+                  onClick={() => handleTabChange("campaigns")}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === "campaigns"
+                      ? "border-blue-500 text-blue-600"
+                      : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                    }`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <Send className="h-4 w-4" />
+                    <span>Campaigns</span>
+                  </div>
+                </button>
+              )}
+              {hasPermission("newsletter:manage") && (
+                <button
+                  onClick={() => handleTabChange("segments")}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === "segments"
+                      ? "border-blue-500 text-blue-600"
+                      : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                    }`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <Filter className="h-4 w-4" />
+                    <span>Segments</span>
+                  </div>
+                </button>
+              )}
+              {hasPermission("users:manage") && (
+                <button
+                  onClick={() => handleTabChange("users")}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm ${activeTab === "users"
+                      ? "border-blue-500 text-blue-600"
+                      : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                    }`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <Users className="h-4 w-4" />
+                    <span>Users</span>
+                  </div>
+                </button>
+              )}
             </nav>
           </div>
         </div>
@@ -238,7 +313,10 @@ const Dashboard: React.FC = () => {
                 <div className="ml-4">
                   <p className="text-sm font-medium text-gray-600">Drafts</p>
                   <p className="text-2xl font-bold text-gray-900">
-                    {posts.filter((post) => !post.published).length}
+                    {
+                      posts.filter((post) => !post.published && !post.publishAt)
+                        .length
+                    }
                   </p>
                 </div>
               </div>
@@ -275,11 +353,11 @@ const Dashboard: React.FC = () => {
                   No posts yet
                 </h3>
                 <p className="text-gray-600 mb-6">
-                  {user?.isAdmin
+                  {hasPermission("posts:create")
                     ? "Start sharing your thoughts with the world!"
-                    : "Only admin users can create posts."}
+                    : "Your role does not allow creating posts yet."}
                 </p>
-                {user?.isAdmin && (
+                {hasPermission("posts:create") && (
                   <Link to="/create" className="btn-primary">
                     Create Your First Post
                   </Link>
@@ -301,10 +379,16 @@ const Dashboard: React.FC = () => {
                           <span
                             className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${post.published
                                 ? "bg-green-100 text-green-800"
-                                : "bg-orange-100 text-orange-800"
+                                : post.publishAt
+                                  ? "bg-blue-100 text-blue-800"
+                                  : "bg-orange-100 text-orange-800"
                               }`}
                           >
-                            {post.published ? "Published" : "Draft"}
+                            {post.published
+                              ? "Published"
+                              : post.publishAt
+                                ? "Scheduled"
+                                : "Draft"}
                           </span>
                         </div>
 
@@ -331,6 +415,30 @@ const Dashboard: React.FC = () => {
                               </span>
                             </div>
                           )}
+                          {!post.published && post.publishAt && (
+                            <ScheduleCountdown
+                              publishAt={post.publishAt}
+                              className="text-blue-700"
+                              showDate
+                            />
+                          )}
+                          {post.commentCounts &&
+                            (post.commentCounts.approved > 0 ||
+                              post.commentCounts.pending > 0) && (
+                              <div className="flex items-center space-x-1">
+                                <MessageCircle className="h-3 w-3" />
+                                <span>
+                                  {post.commentCounts.approved} comment
+                                  {post.commentCounts.approved === 1 ? "" : "s"}
+                                  {post.commentCounts.pending > 0 && (
+                                    <span className="text-orange-600">
+                                      {" "}
+                                      ({post.commentCounts.pending} pending)
+                                    </span>
+                                  )}
+                                </span>
+                              </div>
+                            )}
                         </div>
                       </div>
 
@@ -351,13 +459,15 @@ const Dashboard: React.FC = () => {
                         >
                           <Edit className="h-4 w-4" />
                         </Link>
-                        <button
-                          onClick={() => setDeleteConfirm(post.id)}
-                          className="btn-ghost btn-sm text-red-600 hover:bg-red-50"
-                          title="Delete post"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
+                        {hasPermission("posts:delete") && (
+                          <button
+                            onClick={() => setDeleteConfirm(post.id)}
+                            className="btn-ghost btn-sm text-red-600 hover:bg-red-50"
+                            title="Delete post"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -438,9 +548,21 @@ const Dashboard: React.FC = () => {
       ) : activeTab === "newsletter" ? (
         /* Newsletter Tab */
         <NewsletterSubscribersTable />
+      ) : activeTab === "campaigns" ? (
+        /* Campaigns Tab */
+        <CampaignsManagement />
+      ) : activeTab === "segments" ? (
+        /* Segments Tab */
+        <SegmentsManagement />
+      ) : activeTab === "comments" ? (
+        /* Comments Tab */
+        <CommentsModeration />
       ) : activeTab === "tags" ? (
         /* Tags Tab */
         <TagsManagement />
+      ) : activeTab === "redirects" ? (
+        /* Redirects Tab */
+        <RedirectsManagement />
       ) : activeTab === "users" ? (
         /* Users Tab */
         <UsersManagement />
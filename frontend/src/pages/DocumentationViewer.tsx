@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, Navigate } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 import { documentationAPI } from "../services/api";
 import { ChevronRight, ChevronLeft, Menu } from "lucide-react";
@@ -20,6 +20,7 @@ const DocumentationViewer: React.FC = () => {
   });
 
   const product = productData?.data?.product;
+  const productRedirect = productData?.data?.redirect;
   const sections = product?.sections || [];
 
   // Find the current page
@@ -41,6 +42,15 @@ const DocumentationViewer: React.FC = () => {
     currentSection = sections[0];
   }
 
+  // Only ask about an old page slug once it's clear the page isn't there
+  const { data: pageRedirectData } = useQuery({
+    queryKey: ["documentation-page-redirect", productSlug, pageSlug],
+    queryFn: () => documentationAPI.getProductBySlug(productSlug!, pageSlug),
+    enabled: !!product && !!pageSlug && !currentPage,
+  });
+
+  const pageRedirect = pageRedirectData?.data?.redirect;
+
   useEffect(() => {
     // Only navigate if we have a currentPage but no pageSlug in URL
     if (currentPage && !pageSlug) {
@@ -56,6 +66,24 @@ const DocumentationViewer: React.FC = () => {
     );
   }
 
+  // The product or page was renamed since this link was made
+  if (productRedirect) {
+    return (
+      <Navigate
+        to={
+          pageSlug
+            ? `${productRedirect.location}/${pageSlug}`
+            : productRedirect.location
+        }
+        replace
+      />
+    );
+  }
+
+  if (pageRedirect) {
+    return <Navigate to={pageRedirect.location} replace />;
+  }
+
   if (!product) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -150,9 +178,13 @@ const DocumentationViewer: React.FC = () => {
                       'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
                       'code', 'pre', 'blockquote',
                       'a', 'img', 'table', 'thead', 'tbody', 'tr', 'th', 'td',
-                      'div', 'span', 'hr', 'sub', 'sup'
+                      'div', 'span', 'hr', 'sub', 'sup',
+                      'audio', 'video'
+                    ],
+                    ALLOWED_ATTR: [
+                      'href', 'src', 'alt', 'title', 'class', 'id', 'target', 'rel',
+                      'download', 'controls', 'preload', 'playsinline'
                     ],
-                    ALLOWED_ATTR: ['href', 'src', 'alt', 'title', 'class', 'id', 'target', 'rel'],
                   })
                 }}
               />
@@ -1,20 +1,34 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { postsAPI } from "../services/api";
-import { Save, Eye, FileText, ArrowLeft, Minimize2, Focus } from "lucide-react";
+import type { PostAutosave, UpdatePostData } from "../types";
+import {
+  Save,
+  Eye,
+  FileText,
+  ArrowLeft,
+  Minimize2,
+  Focus,
+  History,
+} from "lucide-react";
 import { Link } from "react-router-dom";
 import toast from "react-hot-toast";
 import TipTapEditor from "../components/TipTapEditor";
 import ImageUploadDialog from "../components/ImageUploadDialog";
 import TagSelector from "../components/TagSelector";
+import PostHistoryPanel from "../components/PostHistoryPanel";
+import ScheduleCountdown from "../components/ScheduleCountdown";
+import AutosaveRecoveryBanner from "../components/AutosaveRecoveryBanner";
+import { useAuth } from "../context/AuthContext";
 import { useZenMode } from "../context/ZenModeContext";
 import {
   formatDateForInput,
   parseInputDateToUtc,
+  parseScheduleInputToIso,
   getTimezoneInfo,
 } from "../lib/dateUtils";
 
@@ -37,6 +51,13 @@ const updatePostSchema = z.object({
       "Please enter a valid URL"
     ),
   published: z.boolean().default(false),
+  publishAt: z
+    .string()
+    .optional()
+    .refine(
+      (val) => !val || new Date(val).getTime() > Date.now(),
+      "Scheduled time must be in the future"
+    ),
   tagIds: z.array(z.string()).optional(),
   createdAt: z
     .string()
@@ -52,8 +73,19 @@ type UpdatePostFormData = z.infer<typeof updatePostSchema>;
 const EditPost: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const [isPreview, setIsPreview] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const [recoverableAutosave, setRecoverableAutosave] =
+    useState<PostAutosave | null>(null);
+  const autoSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Autosaves wait until we know whether there is something to recover
+  const autoSavePausedRef = useRef(true);
+  const selectedTagIdsRef = useRef<string[]>([]);
+  selectedTagIdsRef.current = selectedTagIds;
   const { isZenMode, setZenMode, toggleZenMode } = useZenMode();
+  const { hasPermission } = useAuth();
+  const canPublish = hasPermission("posts:publish");
   const navigate = useNavigate();
   const queryClient = useQueryClient();
 
@@ -85,6 +117,7 @@ const EditPost: React.FC = () => {
         excerpt: post.excerpt || "",
         coverImage: post.coverImage || "",
         published: post.published,
+        publishAt: post.publishAt ? formatDateForInput(post.publishAt) : "",
         createdAt: post.createdAt ? formatDateForInput(post.createdAt) : "",
       });
       // Initialize selected tags
@@ -94,6 +127,99 @@ const EditPost: React.FC = () => {
     }
   }, [data, reset]);
 
+  // Offer to recover an autosave that is newer than the saved post
+  useEffect(() => {
+    if (!id) return;
+
+    autoSavePausedRef.current = true;
+    postsAPI
+      .getAutosave(id)
+      .then((response) => {
+        if (response.data.isNewer && response.data.autosave) {
+          setRecoverableAutosave(response.data.autosave);
+        } else {
+          autoSavePausedRef.current = false;
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to check for autosave:", error);
+        autoSavePausedRef.current = false;
+      });
+  }, [id]);
+
+  // Auto-save functionality
+  const autoSave = useCallback(
+    async (
+      values: Partial<
+        Pick<UpdatePostFormData, "title" | "content" | "excerpt" | "coverImage">
+      >
+    ) => {
+      if (!id || autoSavePausedRef.current) return;
+
+      try {
+        await postsAPI.autosave(id, {
+          title: values.title || "",
+          content: values.content || "",
+          excerpt: values.excerpt?.trim() || undefined,
+          coverImage: values.coverImage?.trim() || undefined,
+          tagIds: selectedTagIdsRef.current,
+        });
+        setLastSaved(new Date());
+      } catch (error) {
+        console.error("Auto-save failed:", error);
+      }
+    },
+    [id]
+  );
+
+  // Set up auto-save
+  useEffect(() => {
+    const subscription = watch((values, { name }) => {
+      // Resetting the form with the loaded post is not an edit
+      if (!name) return;
+
+      if (autoSaveTimerRef.current) {
+        clearTimeout(autoSaveTimerRef.current);
+      }
+
+      autoSaveTimerRef.current = setTimeout(() => {
+        autoSave(values);
+      }, 2000); // Auto-save after 2 seconds of inactivity
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      if (autoSaveTimerRef.current) {
+        clearTimeout(autoSaveTimerRef.current);
+      }
+    };
+  }, [watch, autoSave]);
+
+  const handleRecoverAutosave = () => {
+    if (!recoverableAutosave) return;
+
+    setValue("title", recoverableAutosave.title);
+    setValue("content", recoverableAutosave.content);
+    setValue("excerpt", recoverableAutosave.excerpt || "");
+    setValue("coverImage", recoverableAutosave.coverImage || "");
+    setSelectedTagIds(recoverableAutosave.tagIds);
+    setLastSaved(new Date(recoverableAutosave.updatedAt));
+    setRecoverableAutosave(null);
+    autoSavePausedRef.current = false;
+    toast.success("Unsaved changes recovered");
+  };
+
+  const handleDiscardAutosave = async () => {
+    setRecoverableAutosave(null);
+    autoSavePausedRef.current = false;
+
+    try {
+      await postsAPI.discardAutosave(id!);
+    } catch (error) {
+      console.error("Failed to discard autosave:", error);
+    }
+  };
+
   // Escape key handler for zen mode
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -109,7 +235,7 @@ const EditPost: React.FC = () => {
   }, [isZenMode, setZenMode]);
 
   const updateMutation = useMutation({
-    mutationFn: (updateData: UpdatePostFormData) =>
+    mutationFn: (updateData: UpdatePostData) =>
       postsAPI.updatePost(id!, updateData),
     onSuccess: (data) => {
       const post = data.data.post;
@@ -118,13 +244,16 @@ const EditPost: React.FC = () => {
       toast.success(
         post.published
           ? "Post updated and published!"
-          : "Draft saved successfully!"
+          : post.publishAt
+            ? "Post scheduled successfully!"
+            : "Draft saved successfully!"
       );
       // Exit zen mode before navigating
       setZenMode(false);
       navigate("/dashboard");
     },
     onError: () => {
+      autoSavePausedRef.current = false;
       toast.error("Failed to update post");
     },
   });
@@ -140,8 +269,18 @@ const EditPost: React.FC = () => {
       createdAt: data.createdAt?.trim()
         ? parseInputDateToUtc(data.createdAt.trim())
         : undefined,
+      // Send null so clearing the field cancels an existing schedule
+      publishAt: data.publishAt?.trim()
+        ? parseScheduleInputToIso(data.publishAt.trim())
+        : null,
     };
 
+    // Saving clears the autosave, so keep pending autosaves from recreating it
+    autoSavePausedRef.current = true;
+    if (autoSaveTimerRef.current) {
+      clearTimeout(autoSaveTimerRef.current);
+    }
+
     updateMutation.mutate(cleanedData);
   };
   const watchedValues = watch();
@@ -210,6 +349,13 @@ const EditPost: React.FC = () => {
               </div>
 
               <div className="flex items-center space-x-4">
+                {lastSaved && (
+                  <div className="hidden lg:flex items-center space-x-1 text-sm text-green-600">
+                    <div className="h-2 w-2 bg-green-500 rounded-full animate-pulse"></div>
+                    <span>Autosaved {lastSaved.toLocaleTimeString()}</span>
+                  </div>
+                )}
+
                 {/* Action Buttons */}
                 <div className="flex items-center space-x-2">
                   <button
@@ -221,6 +367,19 @@ const EditPost: React.FC = () => {
                     <Focus className="h-4 w-4" />
                     <span className="hidden sm:inline">Zen</span>
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                    className={`btn-outline btn-sm flex items-center space-x-1 ${
+                      isHistoryOpen
+                        ? "bg-primary-50 border-primary-200 text-primary-700"
+                        : ""
+                    }`}
+                    title="Revision History"
+                  >
+                    <History className="h-4 w-4" />
+                    <span className="hidden sm:inline">History</span>
+                  </button>
                   <button
                     type="button"
                     onClick={() => setIsPreview(!isPreview)}
@@ -264,6 +423,14 @@ const EditPost: React.FC = () => {
                 isZenMode ? "max-w-4xl mx-auto px-8 py-16" : ""
               }`}
             >
+              {recoverableAutosave && !isZenMode && (
+                <AutosaveRecoveryBanner
+                  autosave={recoverableAutosave}
+                  onRecover={handleRecoverAutosave}
+                  onDiscard={handleDiscardAutosave}
+                />
+              )}
+
               {/* Title */}
               <div className="space-y-3">
                 <label
@@ -353,6 +520,45 @@ const EditPost: React.FC = () => {
                 </div>
               )}
 
+              {/* Publish Schedule */}
+              {!isZenMode && canPublish && (
+                <div>
+                  <label
+                    htmlFor="publishAt"
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    Schedule Publishing
+                  </label>
+                  <input
+                    {...register("publishAt")}
+                    type="datetime-local"
+                    className={`input ${
+                      errors.publishAt
+                        ? "border-red-500 focus-visible:ring-red-500"
+                        : ""
+                    }`}
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    Pick a future time to publish this post automatically, or
+                    clear it to cancel the schedule (in your local timezone:{" "}
+                    {getTimezoneInfo().timeZoneName})
+                  </p>
+                  {watchedValues.publishAt && !errors.publishAt && (
+                    <ScheduleCountdown
+                      publishAt={parseScheduleInputToIso(
+                        watchedValues.publishAt
+                      )}
+                      className="mt-1 text-sm text-blue-700"
+                    />
+                  )}
+                  {errors.publishAt && (
+                    <p className="mt-1 text-sm text-red-600">
+                      {errors.publishAt.message}
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Cover Image - With Upload Option */}
               {!isZenMode && (
                 <div className="space-y-3">
@@ -488,7 +694,11 @@ const EditPost: React.FC = () => {
                     {...register("published")}
                     type="checkbox"
                     id="published"
-                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500 h-5 w-5"
+                    disabled={!canPublish}
+                    title={
+                      canPublish ? undefined : "Your role can only save drafts"
+                    }
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500 h-5 w-5 disabled:opacity-50"
                   />
                   <label
                     htmlFor="published"
@@ -574,6 +784,14 @@ const EditPost: React.FC = () => {
         </div>
       </div>
 
+      {/* Revision History Panel */}
+      <PostHistoryPanel
+        postId={id!}
+        isOpen={isHistoryOpen && !isZenMode}
+        onClose={() => setIsHistoryOpen(false)}
+        onRestored={() => setIsHistoryOpen(false)}
+      />
+
       {/* Image Upload Dialog for MinIO */}
       <ImageUploadDialog
         isOpen={isImageUploadDialogOpen}
@@ -1,8 +1,9 @@
 import React, { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Link } from "react-router-dom";
+import { Link, useSearchParams } from "react-router-dom";
 import { postsAPI, tagsAPI } from "../services/api";
 import Avatar from "../components/Avatar";
+import ResponsiveImage from "../components/ResponsiveImage";
 import NewsletterSubscriptionForm from "../components/NewsletterSubscriptionForm";
 import { useAuth } from "../context/AuthContext";
 import {
@@ -16,10 +17,15 @@ import { formatRelativeTimeFromUtc } from "../lib/dateUtils";
 
 const Home: React.FC = () => {
   const { isAuthenticated } = useAuth();
+  // Tag and author filters can be linked to directly, e.g. from the sitemap
+  const [searchParams] = useSearchParams();
+  const author = searchParams.get("author") || undefined;
   const [currentPage, setCurrentPage] = useState(1);
   const [searchTerm, setSearchTerm] = useState("");
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
-  const [selectedTagSlugs, setSelectedTagSlugs] = useState<string[]>([]);
+  const [selectedTagSlugs, setSelectedTagSlugs] = useState<string[]>(
+    () => searchParams.get("tags")?.split(",").filter(Boolean) || []
+  );
   const postsPerPage = 12;
 
   // Debounce search term
@@ -45,6 +51,7 @@ const Home: React.FC = () => {
         page: currentPage,
         search: debouncedSearchTerm,
         tags: selectedTagSlugs,
+        author,
       },
     ],
     queryFn: () =>
@@ -53,6 +60,7 @@ const Home: React.FC = () => {
         page: currentPage,
         limit: postsPerPage,
         search: debouncedSearchTerm || undefined,
+        author,
         tags:
           selectedTagSlugs.length > 0 ? selectedTagSlugs.join(",") : undefined,
       }),
@@ -245,7 +253,7 @@ const Home: React.FC = () => {
           </div>
         )}
 
-        {(debouncedSearchTerm || selectedTagSlugs.length > 0) && (
+        {(debouncedSearchTerm || selectedTagSlugs.length > 0 || author) && (
           <p className="mt-2 text-sm text-gray-600">
             {pagination?.totalCount || 0} result
             {(pagination?.totalCount || 0) !== 1 ? "s" : ""}{" "}
@@ -257,6 +265,12 @@ const Home: React.FC = () => {
                 {selectedTagSlugs.join(", ")}
               </>
             )}
+            {author && (
+              <>
+                {debouncedSearchTerm || selectedTagSlugs.length > 0 ? " " : ""}
+                by {author}
+              </>
+            )}
           </p>
         )}
       </div>
@@ -307,9 +321,13 @@ const Home: React.FC = () => {
               >
                 {post.coverImage ? (
                   <div className="h-48 bg-gray-200 overflow-hidden relative">
-                    <img
+                    <ResponsiveImage
                       src={post.coverImage}
+                      srcset={post.coverImageSrcset}
+                      placeholder={post.coverImagePlaceholder}
+                      sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
                       alt={post.title}
+                      loading="lazy"
                       className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
                     />
                   </div>
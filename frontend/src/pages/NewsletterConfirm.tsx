@@ -0,0 +1,60 @@
+import React from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import axios from "axios";
+import { CheckCircle, Mail, XCircle } from "lucide-react";
+import { newsletterAPI } from "../services/api";
+import NewsletterSubscriptionForm from "../components/NewsletterSubscriptionForm";
+
+const NewsletterConfirm: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+
+  // Confirming twice is harmless, so a query is enough to run it once
+  const { data, error, isLoading } = useQuery({
+    queryKey: ["newsletter-confirm", token],
+    queryFn: () => newsletterAPI.confirm(token),
+    enabled: !!token,
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  const errorMessage =
+    (axios.isAxiosError(error) && error.response?.data?.error) ||
+    "This confirmation link is invalid or has expired.";
+
+  return (
+    <div className="container mx-auto px-4 py-16">
+      <div className="max-w-md mx-auto text-center">
+        {token && isLoading ? (
+          <>
+            <Mail className="h-12 w-12 text-primary-600 mx-auto mb-4 animate-pulse" />
+            <p className="text-gray-600">Confirming your subscription...</p>
+          </>
+        ) : data ? (
+          <>
+            <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              You're subscribed
+            </h1>
+            <p className="text-gray-600 mb-8">{data.message}</p>
+            <Link to="/" className="btn-primary">
+              Read the latest posts
+            </Link>
+          </>
+        ) : (
+          <>
+            <XCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              Couldn't confirm your subscription
+            </h1>
+            <p className="text-gray-600 mb-8">{errorMessage}</p>
+            <NewsletterSubscriptionForm showTitle={false} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NewsletterConfirm;
@@ -0,0 +1,147 @@
+import React from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { Mail, Settings, XCircle } from "lucide-react";
+import { newsletterAPI } from "../services/api";
+import type { UpdateNewsletterPreferencesData } from "../types";
+import NewsletterTopicPicker from "../components/NewsletterTopicPicker";
+
+const NewsletterPreferences: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["newsletter-preferences", token],
+    queryFn: () => newsletterAPI.getPreferences(token),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const preferences = data?.data?.preferences;
+
+  const updateMutation = useMutation({
+    mutationFn: (data: UpdateNewsletterPreferencesData) =>
+      newsletterAPI.updatePreferences(token, data),
+    onSuccess: (response) => {
+      queryClient.setQueryData(["newsletter-preferences", token], response);
+      toast.success(response.message || "Preferences saved");
+    },
+    onError: (error) => {
+      toast.error(
+        (axios.isAxiosError(error) && error.response?.data?.error) ||
+          "Failed to save preferences"
+      );
+    },
+  });
+
+  if (token && isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto text-center">
+          <Mail className="h-12 w-12 text-primary-600 mx-auto mb-4 animate-pulse" />
+          <p className="text-gray-600">Loading your preferences...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!token || isError || !preferences) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto text-center">
+          <XCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Invalid preferences link
+          </h1>
+          <p className="text-gray-600 mb-8">
+            Please use the "Manage preferences" link from one of our emails.
+          </p>
+          <Link to="/" className="btn-outline">
+            Back to the blog
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const isSubscribed = preferences.status === "ACTIVE";
+
+  return (
+    <div className="container mx-auto px-4 py-16">
+      <div className="max-w-lg mx-auto">
+        <div className="text-center mb-8">
+          <Settings className="h-12 w-12 text-primary-600 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Newsletter preferences
+          </h1>
+          <p className="text-gray-600">{preferences.email}</p>
+        </div>
+
+        <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200">
+          <label className="px-6 py-4 flex items-center justify-between gap-4 cursor-pointer">
+            <div>
+              <div className="font-medium text-gray-900">Newsletter</div>
+              <div className="text-sm text-gray-600">
+                Newsletters and announcements from the team.
+              </div>
+            </div>
+            <input
+              type="checkbox"
+              checked={isSubscribed}
+              onChange={(e) =>
+                updateMutation.mutate({ subscribed: e.target.checked })
+              }
+              disabled={updateMutation.isPending}
+              className="h-5 w-5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+          </label>
+          <label
+            className={`px-6 py-4 flex items-center justify-between gap-4 ${
+              isSubscribed ? "cursor-pointer" : "opacity-50"
+            }`}
+          >
+            <div>
+              <div className="font-medium text-gray-900">Digest</div>
+              <div className="text-sm text-gray-600">
+                A regular roundup of the latest posts with their cover images
+                and excerpts.
+              </div>
+            </div>
+            <input
+              type="checkbox"
+              checked={preferences.digest}
+              onChange={(e) =>
+                updateMutation.mutate({ digest: e.target.checked })
+              }
+              disabled={!isSubscribed || updateMutation.isPending}
+              className="h-5 w-5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+          </label>
+          <div className={`px-6 py-4 ${isSubscribed ? "" : "opacity-50"}`}>
+            <div className="font-medium text-gray-900">Topics</div>
+            <div className="text-sm text-gray-600 mb-3">
+              Pick what you're interested in so we can send you the emails
+              that matter to you. Leave them all off to hear about everything.
+            </div>
+            <NewsletterTopicPicker
+              selectedIds={preferences.tagIds}
+              onChange={(tagIds) => updateMutation.mutate({ tagIds })}
+              disabled={!isSubscribed || updateMutation.isPending}
+            />
+          </div>
+        </div>
+
+        {!isSubscribed && (
+          <p className="mt-4 text-sm text-gray-600 text-center">
+            You're not receiving any emails from us.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NewsletterPreferences;
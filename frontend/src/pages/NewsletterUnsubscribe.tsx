@@ -0,0 +1,133 @@
+import React from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { CheckCircle, Mail, Settings, XCircle } from "lucide-react";
+import { newsletterAPI } from "../services/api";
+
+const NewsletterUnsubscribe: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const queryClient = useQueryClient();
+
+  // Only look the subscriber up here: link scanners open email links too,
+  // so unsubscribing waits for the button
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["newsletter-preferences", token],
+    queryFn: () => newsletterAPI.getPreferences(token),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const preferences = data?.data?.preferences;
+
+  const unsubscribeMutation = useMutation({
+    mutationFn: () => newsletterAPI.unsubscribe(token),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["newsletter-preferences", token],
+      });
+    },
+    onError: (error) => {
+      toast.error(
+        (axios.isAxiosError(error) && error.response?.data?.error) ||
+          "Failed to unsubscribe",
+      );
+    },
+  });
+
+  const resubscribeMutation = useMutation({
+    mutationFn: () =>
+      newsletterAPI.updatePreferences(token, { subscribed: true }),
+    onSuccess: (response) => {
+      queryClient.setQueryData(["newsletter-preferences", token], response);
+      toast.success("Welcome back!");
+    },
+    onError: (error) => {
+      toast.error(
+        (axios.isAxiosError(error) && error.response?.data?.error) ||
+          "Failed to resubscribe",
+      );
+    },
+  });
+
+  const preferencesLink = `/newsletter/preferences?token=${encodeURIComponent(token)}`;
+
+  return (
+    <div className="container mx-auto px-4 py-16">
+      <div className="max-w-md mx-auto text-center">
+        {token && isLoading ? (
+          <>
+            <Mail className="h-12 w-12 text-primary-600 mx-auto mb-4 animate-pulse" />
+            <p className="text-gray-600">Loading your subscription...</p>
+          </>
+        ) : !token || isError || !preferences ? (
+          <>
+            <XCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              Invalid unsubscribe link
+            </h1>
+            <p className="text-gray-600 mb-8">
+              Please use the unsubscribe link from one of our emails.
+            </p>
+            <Link to="/" className="btn-outline">
+              Back to the blog
+            </Link>
+          </>
+        ) : preferences.status === "UNSUBSCRIBED" ||
+          preferences.status === "BOUNCED" ||
+          preferences.status === "COMPLAINED" ? (
+          <>
+            <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              You're unsubscribed
+            </h1>
+            <p className="text-gray-600 mb-8">
+              {preferences.email} won't receive the newsletter anymore.
+            </p>
+            <button
+              onClick={() => resubscribeMutation.mutate()}
+              disabled={resubscribeMutation.isPending}
+              className="btn-outline disabled:opacity-50"
+            >
+              {resubscribeMutation.isPending
+                ? "Resubscribing..."
+                : "Changed your mind? Resubscribe"}
+            </button>
+          </>
+        ) : (
+          <>
+            <Mail className="h-12 w-12 text-primary-600 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              Unsubscribe from the newsletter?
+            </h1>
+            <p className="text-gray-600 mb-8">
+              {preferences.email} will stop receiving our emails.
+            </p>
+            <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
+              <button
+                onClick={() => unsubscribeMutation.mutate()}
+                disabled={unsubscribeMutation.isPending}
+                className="btn-primary disabled:opacity-50"
+              >
+                {unsubscribeMutation.isPending
+                  ? "Unsubscribing..."
+                  : "Unsubscribe"}
+              </button>
+              <Link
+                to={preferencesLink}
+                className="btn-outline inline-flex items-center space-x-2"
+              >
+                <Settings className="h-4 w-4" />
+                <span>Manage preferences instead</span>
+              </Link>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NewsletterUnsubscribe;
@@ -3,6 +3,8 @@ import { useParams, Navigate } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 import { postsAPI } from "../services/api";
 import Avatar from "../components/Avatar";
+import PostComments from "../components/PostComments";
+import ResponsiveImage from "../components/ResponsiveImage";
 import { Clock, ArrowLeft } from "lucide-react";
 import { Link } from "react-router-dom";
 import {
@@ -38,6 +40,11 @@ const PostDetail: React.FC = () => {
     );
   }
 
+  // The post was renamed; send old links to its current address
+  if (data?.data?.redirect) {
+    return <Navigate to={data.data.redirect.location} replace />;
+  }
+
   if (error || !data?.data?.post) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -128,8 +135,11 @@ const PostDetail: React.FC = () => {
           {/* Cover Image */}
           {post.coverImage && (
             <div className="mb-8">
-              <img
+              <ResponsiveImage
                 src={post.coverImage}
+                srcset={post.coverImageSrcset}
+                placeholder={post.coverImagePlaceholder}
+                sizes="100vw"
                 alt={post.title}
                 className="w-full h-64 md:h-96 object-cover rounded-lg shadow-lg"
               />
@@ -169,6 +179,9 @@ const PostDetail: React.FC = () => {
             </div>
           </div>
 
+          {/* Comments */}
+          <PostComments postId={post.id} />
+
           {/* Navigation */}
           <div className="mt-12 pt-8 border-t border-gray-200">
             <div className="flex justify-between items-center">
@@ -6,6 +6,7 @@ import { User, Camera, Save, X, AlertCircle, Upload } from "lucide-react";
 import toast from "react-hot-toast";
 import Avatar from "../components/Avatar";
 import ImageUploadDialog from "../components/ImageUploadDialog";
+import { ROLE_LABELS } from "../lib/roles";
 
 const Profile: React.FC = () => {
   const { user, updateUser } = useAuth();
@@ -267,7 +268,7 @@ const Profile: React.FC = () => {
                   Account Type
                 </label>
                 <p className="mt-1 text-gray-900 font-medium">
-                  {user.isAdmin ? "Administrator" : "User"}
+                  {ROLE_LABELS[user.role]}
                 </p>
               </div>
             </div>
@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useSearchParams } from "react-router-dom";
+import {
+  BookOpen,
+  ChevronLeft,
+  ChevronRight,
+  FileText,
+  Search as SearchIcon,
+} from "lucide-react";
+import { searchAPI } from "../services/api";
+import { formatRelativeTimeFromUtc } from "../lib/dateUtils";
+import { getSearchResultPath, HIGHLIGHT_CLASSES } from "../lib/search";
+import type { SearchType } from "../types";
+
+const SEARCH_TYPES: { value: SearchType; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "posts", label: "Posts" },
+  { value: "docs", label: "Docs" },
+];
+
+const resultsPerPage = 10;
+
+const Search: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const q = searchParams.get("q")?.trim() || "";
+  const typeParam = searchParams.get("type");
+  const type: SearchType =
+    typeParam === "posts" || typeParam === "docs" ? typeParam : "all";
+  const page = parseInt(searchParams.get("page") || "1") || 1;
+
+  const [input, setInput] = useState(q);
+
+  // Keep the input in sync when the query changes from elsewhere, e.g. the palette
+  useEffect(() => {
+    setInput(q);
+  }, [q]);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["search", { q, type, page }],
+    queryFn: () =>
+      searchAPI.search({ q, type, page, limit: resultsPerPage }),
+    enabled: q.length > 0,
+  });
+
+  const results = data?.data?.results || [];
+  const pagination = data?.data?.pagination;
+
+  const updateParams = (updates: Record<string, string | undefined>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    });
+    setSearchParams(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParams({ q: input.trim() || undefined, page: undefined });
+  };
+
+  const handlePageChange = (newPage: number) => {
+    updateParams({ page: newPage > 1 ? String(newPage) : undefined });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <form onSubmit={handleSubmit} className="mb-6">
+        <div className="relative">
+          <SearchIcon className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Search posts and docs..."
+            autoFocus
+            className="w-full pl-12 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+        </div>
+      </form>
+
+      <div className="flex items-center space-x-2 mb-6">
+        {SEARCH_TYPES.map((searchType) => (
+          <button
+            key={searchType.value}
+            onClick={() =>
+              updateParams({
+                type: searchType.value === "all" ? undefined : searchType.value,
+                page: undefined,
+              })
+            }
+            className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${type === searchType.value
+              ? "bg-primary-600 text-white"
+              : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+              }`}
+          >
+            {searchType.label}
+          </button>
+        ))}
+        {pagination && (
+          <span className="ml-auto text-sm text-gray-500">
+            {pagination.totalCount} result
+            {pagination.totalCount !== 1 ? "s" : ""}
+          </span>
+        )}
+      </div>
+
+      {!q ? (
+        <div className="text-center py-16 text-gray-500">
+          Type something to search posts and documentation.
+        </div>
+      ) : isLoading ? (
+        <div className="space-y-4">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <div key={i} className="animate-pulse p-4 bg-white rounded-xl border border-gray-200">
+              <div className="h-5 bg-gray-200 rounded w-1/2 mb-3"></div>
+              <div className="h-4 bg-gray-200 rounded w-full mb-2"></div>
+              <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+            </div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="text-center py-16 text-red-600">
+          Search failed. Please try again.
+        </div>
+      ) : results.length === 0 ? (
+        <div className="text-center py-16">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            No results for "{q}"
+          </h3>
+          <p className="text-gray-500">
+            Try different or fewer words.
+          </p>
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {results.map((result) => (
+            <li key={`${result.type}-${result.id}`}>
+              <Link
+                to={getSearchResultPath(result)}
+                className={`block p-4 bg-white rounded-xl border border-gray-200 hover:border-primary-300 hover:shadow-md transition-all ${HIGHLIGHT_CLASSES}`}
+              >
+                <div className="flex items-center space-x-2 text-xs text-gray-500 mb-1">
+                  {result.type === "doc" ? (
+                    <>
+                      <BookOpen className="h-4 w-4" />
+                      <span>Docs · {result.productName}</span>
+                    </>
+                  ) : (
+                    <>
+                      <FileText className="h-4 w-4" />
+                      <span>Post · {formatRelativeTimeFromUtc(result.date)}</span>
+                    </>
+                  )}
+                </div>
+                <h2
+                  className="text-lg font-semibold text-gray-900"
+                  dangerouslySetInnerHTML={{ __html: result.titleHighlight }}
+                />
+                <p
+                  className="mt-1 text-gray-600"
+                  dangerouslySetInnerHTML={{ __html: result.snippet }}
+                />
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-center space-x-4 mt-8">
+          <button
+            onClick={() => handlePageChange(page - 1)}
+            disabled={!pagination.hasPrevPage}
+            className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">
+            Page {pagination.page} of {pagination.totalPages}
+          </span>
+          <button
+            onClick={() => handlePageChange(page + 1)}
+            disabled={!pagination.hasNextPage}
+            className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Search;
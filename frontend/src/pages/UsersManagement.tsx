@@ -3,8 +3,18 @@ import { userAPI } from "../services/api";
 import { useAuth } from "../context/AuthContext";
 import Avatar from "../components/Avatar";
 import toast from "react-hot-toast";
-import type { User } from "../types";
+import type { Role, User } from "../types";
 import { Users } from "lucide-react";
+import { ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS } from "../lib/roles";
+
+const ROLE_BADGE_CLASSES: Record<Role, string> = {
+  OWNER: "bg-purple-100 text-purple-800",
+  ADMIN: "bg-green-100 text-green-800",
+  EDITOR: "bg-blue-100 text-blue-800",
+  AUTHOR: "bg-yellow-100 text-yellow-800",
+  CONTRIBUTOR: "bg-orange-100 text-orange-800",
+  SUBSCRIBER: "bg-gray-100 text-gray-700",
+};
 
 const UsersManagement: React.FC = () => {
   const { user: currentUser } = useAuth();
@@ -30,18 +40,15 @@ const UsersManagement: React.FC = () => {
     }
   };
 
-  const handleToggleAdmin = async (userId: string, currentStatus: boolean) => {
+  const handleRoleChange = async (userId: string, role: Role) => {
     if (userId === currentUser?.id) {
-      toast.error("You cannot change your own admin status");
+      toast.error("You cannot change your own role");
       return;
     }
 
     try {
       setUpdatingUserId(userId);
-      const response = await userAPI.updateUserAdminStatus(
-        userId,
-        !currentStatus
-      );
+      const response = await userAPI.updateUserRole(userId, role);
 
       setUsers(
         users.map((user) =>
@@ -49,12 +56,15 @@ const UsersManagement: React.FC = () => {
         )
       );
 
-      toast.success(
-        `User ${!currentStatus ? "promoted to" : "demoted from"} admin successfully`
-      );
-    } catch (error) {
-      console.error("Error updating user status:", error);
-      toast.error("Failed to update user status");
+      toast.success(`Role changed to ${ROLE_LABELS[role]}`);
+    } catch (error: unknown) {
+      console.error("Error updating user role:", error);
+      const message =
+        error && typeof error === "object" && "response" in error
+          ? (error as { response?: { data?: { error?: string } } })?.response
+              ?.data?.error
+          : undefined;
+      toast.error(message || "Failed to update user role");
     } finally {
       setUpdatingUserId(null);
     }
@@ -99,7 +109,7 @@ const UsersManagement: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900">Users Management</h1>
         </div>
         <p className="text-gray-600">
-          Manage user accounts and admin permissions
+          Manage user accounts and assign roles
         </p>
       </div>
 
@@ -120,9 +130,9 @@ const UsersManagement: React.FC = () => {
           <div className="flex items-center">
             <Users className="h-8 w-8 text-green-500" />
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-600">Admins</p>
+              <p className="text-sm font-medium text-gray-600">Staff</p>
               <p className="text-2xl font-bold text-gray-900">
-                {filteredUsers.filter((u) => u.isAdmin).length}
+                {filteredUsers.filter((u) => u.role !== "SUBSCRIBER").length}
               </p>
             </div>
           </div>
@@ -131,9 +141,9 @@ const UsersManagement: React.FC = () => {
           <div className="flex items-center">
             <Users className="h-8 w-8 text-orange-500" />
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-600">Regular Users</p>
+              <p className="text-sm font-medium text-gray-600">Subscribers</p>
               <p className="text-2xl font-bold text-gray-900">
-                {filteredUsers.filter((u) => !u.isAdmin).length}
+                {filteredUsers.filter((u) => u.role === "SUBSCRIBER").length}
               </p>
             </div>
           </div>
@@ -190,11 +200,11 @@ const UsersManagement: React.FC = () => {
                             You
                           </span>
                         )}
-                        {user.isAdmin && (
-                          <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full font-medium">
-                            Admin
-                          </span>
-                        )}
+                        <span
+                          className={`text-xs px-2 py-1 rounded-full font-medium ${ROLE_BADGE_CLASSES[user.role]}`}
+                        >
+                          {ROLE_LABELS[user.role]}
+                        </span>
                       </div>
                       <p className="text-sm text-gray-600">@{user.username}</p>
                       <p className="text-sm text-gray-600">{user.email}</p>
@@ -210,28 +220,36 @@ const UsersManagement: React.FC = () => {
                   </div>
 
                   <div className="flex items-center space-x-3 ml-4">
+                    {updatingUserId === user.id && (
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                    )}
                     {user.id !== currentUser?.id && (
-                      <button
-                        onClick={() =>
-                          handleToggleAdmin(user.id, user.isAdmin)
+                      <select
+                        value={user.role}
+                        onChange={(e) =>
+                          handleRoleChange(user.id, e.target.value as Role)
                         }
-                        disabled={updatingUserId === user.id}
-                        className={`px-4 py-2 rounded-lg font-medium text-sm transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap ${user.isAdmin
-                            ? "bg-red-100 text-red-700 hover:bg-red-200"
-                            : "bg-green-100 text-green-700 hover:bg-green-200"
-                          }`}
+                        disabled={
+                          updatingUserId === user.id ||
+                          // Only the owner can manage ownership
+                          (user.role === "OWNER" &&
+                            currentUser?.role !== "OWNER")
+                        }
+                        title={ROLE_DESCRIPTIONS[user.role]}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
                       >
-                        {updatingUserId === user.id ? (
-                          <div className="flex items-center space-x-2">
-                            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
-                            <span>Updating...</span>
-                          </div>
-                        ) : user.isAdmin ? (
-                          "Remove Admin"
-                        ) : (
-                          "Make Admin"
-                        )}
-                      </button>
+                        {ROLES.map((role) => (
+                          <option
+                            key={role}
+                            value={role}
+                            disabled={
+                              role === "OWNER" && currentUser?.role !== "OWNER"
+                            }
+                          >
+                            {ROLE_LABELS[role]}
+                          </option>
+                        ))}
+                      </select>
                     )}
                   </div>
                 </div>
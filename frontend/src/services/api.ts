@@ -1,23 +1,38 @@
 import axios from "axios";
+import type { AxiosProgressEvent } from "axios";
 import type {
   AuthResponse,
   PostsResponse,
   PostResponse,
+  PostBySlugResponse,
+  PostRevisionsResponse,
+  PostRevisionDiffResponse,
+  PostAutosave,
+  PostAutosaveData,
+  PostAutosaveResponse,
   RegisterData,
   LoginData,
   CreatePostData,
   UpdatePostData,
   UpdateProfileData,
   User,
+  Role,
   NewsletterSubscriptionResponse,
   NewsletterSubscribersResponse,
+  NewsletterPreferencesResponse,
+  UpdateNewsletterPreferencesData,
+  SubscriberImportOptions,
+  SubscriberImportResponse,
+  SubscriberStatus,
   TagsResponse,
   TagResponse,
+  TagBySlugResponse,
   PostsByTagResponse,
   CreateTagData,
   UpdateTagData,
   DocumentationProductsResponse,
   DocumentationProductResponse,
+  DocumentationProductBySlugResponse,
   DocumentationSectionsResponse,
   DocumentationSectionResponse,
   DocumentationPagesResponse,
@@ -28,6 +43,31 @@ import type {
   UpdateDocumentationSectionData,
   CreateDocumentationPageData,
   UpdateDocumentationPageData,
+  SearchResponse,
+  SearchType,
+  CommentsResponse,
+  CommentStatus,
+  CreateCommentData,
+  CreateCommentResponse,
+  ModerationCommentsResponse,
+  SlugRedirectType,
+  SlugRedirectsResponse,
+  SlugRedirectResponse,
+  CreateSlugRedirectData,
+  CampaignStatus,
+  CampaignData,
+  CampaignsResponse,
+  CampaignResponse,
+  CampaignReportResponse,
+  UploadImageResponse,
+  AssetsResponse,
+  AssetResponse,
+  PresignedUploadResponse,
+  SegmentRules,
+  SegmentData,
+  SegmentsResponse,
+  SegmentResponse,
+  DigestPreviewResponse,
 } from "../types";
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || "https://blog.sannty.in";
@@ -63,7 +103,7 @@ api.interceptors.request.use(
   (error) => {
     console.error("API Request Error:", error);
     return Promise.reject(error);
-  }
+  },
 );
 
 // Response interceptor for error handling
@@ -72,7 +112,7 @@ api.interceptors.response.use(
     console.log(
       "✅ API Response Success:",
       response.status,
-      response.config.url
+      response.config.url,
     );
     return response;
   },
@@ -91,7 +131,7 @@ api.interceptors.response.use(
       window.location.href = "/login";
     }
     return Promise.reject(error);
-  }
+  },
 );
 
 // Auth API
@@ -112,14 +152,14 @@ export const authAPI = {
   },
 
   updateProfile: async (
-    data: UpdateProfileData
+    data: UpdateProfileData,
   ): Promise<{ success: boolean; data: { user: User } }> => {
     const response = await api.put("/api/auth/profile", data);
     return response.data;
   },
 };
 
-// User Management API (Admin only)
+// User Management API (requires users:manage)
 export const userAPI = {
   getAllUsers: async (): Promise<{
     success: boolean;
@@ -129,12 +169,12 @@ export const userAPI = {
     return response.data;
   },
 
-  updateUserAdminStatus: async (
+  updateUserRole: async (
     userId: string,
-    isAdmin: boolean
+    role: Role,
   ): Promise<{ success: boolean; data: { user: User } }> => {
-    const response = await api.patch(`/api/auth/users/${userId}/admin`, {
-      isAdmin,
+    const response = await api.patch(`/api/auth/users/${userId}/role`, {
+      role,
     });
     return response.data;
   },
@@ -159,7 +199,7 @@ export const postsAPI = {
     return response.data;
   },
 
-  getPostBySlug: async (slug: string): Promise<PostResponse> => {
+  getPostBySlug: async (slug: string): Promise<PostBySlugResponse> => {
     const response = await api.get(`/api/posts/slug/${slug}`);
     return response.data;
   },
@@ -177,53 +217,165 @@ export const postsAPI = {
     return response.data;
   },
 
+  createDraft: async (): Promise<PostResponse> => {
+    const response = await api.post("/api/posts/draft");
+    return response.data;
+  },
+
   updatePost: async (
     id: string,
-    data: UpdatePostData
+    data: UpdatePostData,
   ): Promise<PostResponse> => {
     const response = await api.put(`/api/posts/${id}`, data);
     return response.data;
   },
 
   deletePost: async (
-    id: string
+    id: string,
   ): Promise<{ success: boolean; message: string }> => {
     const response = await api.delete(`/api/posts/${id}`);
     return response.data;
   },
+
+  getAutosave: async (id: string): Promise<PostAutosaveResponse> => {
+    const response = await api.get(`/api/posts/${id}/autosave`);
+    return response.data;
+  },
+
+  autosave: async (
+    id: string,
+    data: PostAutosaveData,
+  ): Promise<{ success: boolean; data: { autosave: PostAutosave } }> => {
+    const response = await api.put(`/api/posts/${id}/autosave`, data);
+    return response.data;
+  },
+
+  discardAutosave: async (
+    id: string,
+  ): Promise<{ success: boolean; message: string }> => {
+    const response = await api.delete(`/api/posts/${id}/autosave`);
+    return response.data;
+  },
+
+  getRevisions: async (id: string): Promise<PostRevisionsResponse> => {
+    const response = await api.get(`/api/posts/${id}/revisions`);
+    return response.data;
+  },
+
+  getRevisionDiff: async (
+    id: string,
+    from: string,
+    to: string = "current",
+  ): Promise<PostRevisionDiffResponse> => {
+    const response = await api.get(`/api/posts/${id}/revisions/diff`, {
+      params: { from, to },
+    });
+    return response.data;
+  },
+
+  restoreRevision: async (
+    id: string,
+    revisionId: string,
+  ): Promise<PostResponse> => {
+    const response = await api.post(
+      `/api/posts/${id}/revisions/${revisionId}/restore`,
+    );
+    return response.data;
+  },
 };
 
 // Newsletter API
 export const newsletterAPI = {
-  subscribe: async (email: string): Promise<NewsletterSubscriptionResponse> => {
-    const response = await api.post("/api/newsletter/subscribe", { email });
+  subscribe: async (
+    email: string,
+    tagIds?: string[],
+  ): Promise<NewsletterSubscriptionResponse> => {
+    const response = await api.post("/api/newsletter/subscribe", {
+      email,
+      tagIds,
+    });
+    return response.data;
+  },
+
+  confirm: async (token: string): Promise<NewsletterSubscriptionResponse> => {
+    const response = await api.post("/api/newsletter/confirm", { token });
     return response.data;
   },
 
   unsubscribe: async (
-    email: string
+    token: string,
   ): Promise<{
     success: boolean;
     message: string;
   }> => {
-    const response = await api.post("/api/newsletter/unsubscribe", { email });
+    const response = await api.post("/api/newsletter/unsubscribe", { token });
+    return response.data;
+  },
+
+  getPreferences: async (
+    token: string,
+  ): Promise<NewsletterPreferencesResponse> => {
+    const response = await api.get("/api/newsletter/preferences", {
+      params: { token },
+    });
+    return response.data;
+  },
+
+  updatePreferences: async (
+    token: string,
+    data: UpdateNewsletterPreferencesData,
+  ): Promise<NewsletterPreferencesResponse> => {
+    const response = await api.put("/api/newsletter/preferences", {
+      token,
+      ...data,
+    });
     return response.data;
   },
 
   getSubscribers: async (params?: {
     page?: number;
     limit?: number;
+    status?: SubscriberStatus;
   }): Promise<NewsletterSubscribersResponse> => {
     const response = await api.get("/api/newsletter/subscribers", { params });
     return response.data;
   },
 
-  exportSubscribers: async (): Promise<Blob> => {
+  exportSubscribers: async (segmentId?: string): Promise<Blob> => {
     const response = await api.get("/api/newsletter/export", {
+      params: { segmentId },
       responseType: "blob",
     });
     return response.data;
   },
+
+  importSubscribers: async (
+    file: File,
+    options: SubscriberImportOptions = {},
+  ): Promise<SubscriberImportResponse> => {
+    const formData = new FormData();
+    formData.append("file", file);
+    // Columns left out are guessed from the header row; an empty
+    // subscribedAtColumn means the file has none
+    if (options.emailColumn !== undefined) {
+      formData.append("emailColumn", options.emailColumn);
+    }
+    if (options.subscribedAtColumn !== undefined) {
+      formData.append("subscribedAtColumn", options.subscribedAtColumn);
+    }
+    formData.append(
+      "reactivateUnsubscribed",
+      String(options.reactivateUnsubscribed ?? false),
+    );
+    formData.append("dryRun", String(options.dryRun ?? true));
+
+    const response = await api.post("/api/newsletter/import", formData, {
+      headers: {
+        "Content-Type": "multipart/form-data",
+      },
+    });
+    return response.data;
+  },
 };
 
 // Tags API
@@ -243,7 +395,7 @@ export const tagsAPI = {
     return response.data;
   },
 
-  getTagBySlug: async (slug: string): Promise<TagResponse> => {
+  getTagBySlug: async (slug: string): Promise<TagBySlugResponse> => {
     const response = await api.get(`/api/tags/slug/${slug}`);
     return response.data;
   },
@@ -254,7 +406,7 @@ export const tagsAPI = {
       page?: number;
       limit?: number;
       published?: boolean;
-    }
+    },
   ): Promise<PostsByTagResponse> => {
     const response = await api.get(`/api/tags/slug/${slug}/posts`, { params });
     return response.data;
@@ -271,7 +423,7 @@ export const tagsAPI = {
   },
 
   deleteTag: async (
-    id: string
+    id: string,
   ): Promise<{ success: boolean; message: string }> => {
     const response = await api.delete(`/api/tags/${id}`);
     return response.data;
@@ -282,10 +434,14 @@ export const tagsAPI = {
 export const uploadAPI = {
   uploadImage: async (
     file: File,
-    onUploadProgress?: (progressEvent: any) => void
-  ): Promise<{ success: boolean; imageUrl: string; message: string }> => {
+    onUploadProgress?: (progressEvent: any) => void,
+    altText?: string,
+  ): Promise<UploadImageResponse> => {
     const formData = new FormData();
     formData.append("image", file);
+    if (altText) {
+      formData.append("altText", altText);
+    }
 
     const response = await api.post("/api/upload/image", formData, {
       headers: {
@@ -295,6 +451,63 @@ export const uploadAPI = {
     });
     return response.data;
   },
+
+  // Sends the file straight to storage, then adds it to the media library.
+  // The API picks the type from the file name and checks the contents.
+  uploadDirect: async (
+    file: File,
+    onUploadProgress?: (progressEvent: AxiosProgressEvent) => void,
+    altText?: string,
+  ): Promise<AssetResponse> => {
+    const presigned: PresignedUploadResponse = (
+      await api.post("/api/upload/presign", {
+        fileName: file.name,
+        size: file.size,
+      })
+    ).data;
+    const { upload, uploadToken } = presigned.data;
+
+    // Plain axios, since the API's auth header would break the signature
+    if (upload.method === "POST") {
+      // Storage reads the policy fields first, so the file goes last
+      const formData = new FormData();
+      for (const [name, value] of Object.entries(upload.fields)) {
+        formData.append(name, value);
+      }
+      formData.append("file", file);
+
+      await axios.post(upload.url, formData, { onUploadProgress });
+    } else {
+      await axios.put(upload.url, file, {
+        headers: upload.headers,
+        onUploadProgress,
+      });
+    }
+
+    const response = await api.post("/api/upload/complete", {
+      uploadToken,
+      altText,
+    });
+    return response.data;
+  },
+
+  getAssets: async (params?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+    type?: "image";
+  }): Promise<AssetsResponse> => {
+    const response = await api.get("/api/upload/assets", { params });
+    return response.data;
+  },
+
+  updateAsset: async (
+    id: string,
+    altText: string | null,
+  ): Promise<AssetResponse> => {
+    const response = await api.patch(`/api/upload/assets/${id}`, { altText });
+    return response.data;
+  },
 };
 
 // Documentation API
@@ -305,38 +518,55 @@ export const documentationAPI = {
     return response.data;
   },
 
-  getProductBySlug: async (slug: string): Promise<DocumentationProductResponse> => {
-    const response = await api.get(`/api/documentation/products/${slug}`);
+  getProductBySlug: async (
+    slug: string,
+    pageSlug?: string,
+  ): Promise<DocumentationProductBySlugResponse> => {
+    const response = await api.get(`/api/documentation/products/${slug}`, {
+      params: pageSlug ? { page: pageSlug } : undefined,
+    });
     return response.data;
   },
 
-  createProduct: async (data: CreateDocumentationProductData): Promise<DocumentationProductResponse> => {
+  createProduct: async (
+    data: CreateDocumentationProductData,
+  ): Promise<DocumentationProductResponse> => {
     const response = await api.post("/api/documentation/products", data);
     return response.data;
   },
 
-  updateProduct: async (id: string, data: UpdateDocumentationProductData): Promise<DocumentationProductResponse> => {
+  updateProduct: async (
+    id: string,
+    data: UpdateDocumentationProductData,
+  ): Promise<DocumentationProductResponse> => {
     const response = await api.put(`/api/documentation/products/${id}`, data);
     return response.data;
   },
 
-  deleteProduct: async (id: string): Promise<{ success: boolean; message: string }> => {
+  deleteProduct: async (
+    id: string,
+  ): Promise<{ success: boolean; message: string }> => {
     const response = await api.delete(`/api/documentation/products/${id}`);
     return response.data;
   },
 
   // Sections
-  getSectionsByProduct: async (productId: string): Promise<DocumentationSectionsResponse> => {
+  getSectionsByProduct: async (
+    productId: string,
+  ): Promise<DocumentationSectionsResponse> => {
     const response = await api.get(
-      `/api/documentation/products/${productId}/sections`
+      `/api/documentation/products/${productId}/sections`,
     );
     return response.data;
   },
 
-  createSection: async (productId: string, data: CreateDocumentationSectionData): Promise<DocumentationSectionResponse> => {
+  createSection: async (
+    productId: string,
+    data: CreateDocumentationSectionData,
+  ): Promise<DocumentationSectionResponse> => {
     const response = await api.post(
       `/api/documentation/products/${productId}/sections`,
-      data
+      data,
     );
     return response.data;
   },
@@ -344,49 +574,63 @@ export const documentationAPI = {
   updateSection: async (
     productId: string,
     sectionId: string,
-    data: UpdateDocumentationSectionData
+    data: UpdateDocumentationSectionData,
   ): Promise<DocumentationSectionResponse> => {
     const response = await api.put(
       `/api/documentation/products/${productId}/sections/${sectionId}`,
-      data
+      data,
     );
     return response.data;
   },
 
-  deleteSection: async (productId: string, sectionId: string): Promise<{ success: boolean; message: string }> => {
+  deleteSection: async (
+    productId: string,
+    sectionId: string,
+  ): Promise<{ success: boolean; message: string }> => {
     const response = await api.delete(
-      `/api/documentation/products/${productId}/sections/${sectionId}`
+      `/api/documentation/products/${productId}/sections/${sectionId}`,
     );
     return response.data;
   },
 
-  reorderSections: async (productId: string, items: Array<{ id: string; sidebarPosition: number }>): Promise<DocumentationSectionsResponse> => {
+  reorderSections: async (
+    productId: string,
+    items: Array<{ id: string; sidebarPosition: number }>,
+  ): Promise<DocumentationSectionsResponse> => {
     const response = await api.post(
       `/api/documentation/products/${productId}/sections/reorder`,
-      { items }
+      { items },
     );
     return response.data;
   },
 
   // Pages
-  getPagesBySection: async (sectionId: string): Promise<DocumentationPagesResponse> => {
+  getPagesBySection: async (
+    sectionId: string,
+  ): Promise<DocumentationPagesResponse> => {
     const response = await api.get(
-      `/api/documentation/sections/${sectionId}/pages`
+      `/api/documentation/sections/${sectionId}/pages`,
     );
     return response.data;
   },
 
-  getPageBySlug: async (sectionId: string, slug: string): Promise<DocumentationPageResponse> => {
+  getPageBySlug: async (
+    sectionId: string,
+    slug: string,
+  ): Promise<DocumentationPageResponse> => {
     const response = await api.get(
-      `/api/documentation/sections/${sectionId}/pages/${slug}`
+      `/api/documentation/sections/${sectionId}/pages/${slug}`,
     );
     return response.data;
   },
 
-  createPage: async (sectionId: string, data: CreateDocumentationPageData): Promise<DocumentationPageResponse> => {
+  createPage: async (
+    sectionId: string,
+    data: CreateDocumentationPageData,
+  ): Promise<DocumentationPageResponse> => {
     const response = await api.post(
       `/api/documentation/sections/${sectionId}/pages`,
-      data
+      data,
     );
     return response.data;
   },
@@ -394,29 +638,225 @@ export const documentationAPI = {
   updatePage: async (
     sectionId: string,
     pageId: string,
-    data: UpdateDocumentationPageData
+    data: UpdateDocumentationPageData,
   ): Promise<DocumentationPageResponse> => {
     const response = await api.put(
       `/api/documentation/sections/${sectionId}/pages/${pageId}`,
-      data
+      data,
     );
     return response.data;
   },
 
-  deletePage: async (sectionId: string, pageId: string): Promise<{ success: boolean; message: string }> => {
+  deletePage: async (
+    sectionId: string,
+    pageId: string,
+  ): Promise<{ success: boolean; message: string }> => {
     const response = await api.delete(
-      `/api/documentation/sections/${sectionId}/pages/${pageId}`
+      `/api/documentation/sections/${sectionId}/pages/${pageId}`,
     );
     return response.data;
   },
 
-  reorderPages: async (sectionId: string, items: Array<{ id: string; sidebarPosition: number }>): Promise<DocumentationPagesResponse> => {
+  reorderPages: async (
+    sectionId: string,
+    items: Array<{ id: string; sidebarPosition: number }>,
+  ): Promise<DocumentationPagesResponse> => {
     const response = await api.post(
       `/api/documentation/sections/${sectionId}/pages/reorder`,
-      { items }
+      { items },
     );
     return response.data;
   },
 };
 
+// Search API
+export const searchAPI = {
+  search: async (params: {
+    q: string;
+    type?: SearchType;
+    page?: number;
+    limit?: number;
+  }): Promise<SearchResponse> => {
+    const response = await api.get("/api/search", { params });
+    return response.data;
+  },
+};
+
+// Comments API
+export const commentsAPI = {
+  getPostComments: async (postId: string): Promise<CommentsResponse> => {
+    const response = await api.get(`/api/posts/${postId}/comments`);
+    return response.data;
+  },
+
+  createComment: async (
+    postId: string,
+    data: CreateCommentData,
+  ): Promise<CreateCommentResponse> => {
+    const response = await api.post(`/api/posts/${postId}/comments`, data);
+    return response.data;
+  },
+
+  // Moderation (requires comments:moderate)
+  getComments: async (params?: {
+    status?: CommentStatus;
+    postId?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<ModerationCommentsResponse> => {
+    const response = await api.get("/api/comments", { params });
+    return response.data;
+  },
+
+  updateCommentStatus: async (
+    ids: string[],
+    status: CommentStatus,
+  ): Promise<{
+    success: boolean;
+    message: string;
+    data: { count: number };
+  }> => {
+    const response = await api.patch("/api/comments/status", { ids, status });
+    return response.data;
+  },
+
+  deleteComment: async (
+    id: string,
+  ): Promise<{ success: boolean; message: string }> => {
+    const response = await api.delete(`/api/comments/${id}`);
+    return response.data;
+  },
+};
+
+// Redirects API (requires redirects:manage)
+export const redirectsAPI = {
+  getRedirects: async (params?: {
+    type?: SlugRedirectType;
+    page?: number;
+    limit?: number;
+  }): Promise<SlugRedirectsResponse> => {
+    const response = await api.get("/api/redirects", { params });
+    return response.data;
+  },
+
+  createRedirect: async (
+    data: CreateSlugRedirectData,
+  ): Promise<SlugRedirectResponse> => {
+    const response = await api.post("/api/redirects", data);
+    return response.data;
+  },
+
+  deleteRedirect: async (
+    id: string,
+  ): Promise<{ success: boolean; message: string }> => {
+    const response = await api.delete(`/api/redirects/${id}`);
+    return response.data;
+  },
+};
+
+// Campaigns API (requires newsletter:manage)
+export const campaignsAPI = {
+  getCampaigns: async (params?: {
+    status?: CampaignStatus;
+    page?: number;
+    limit?: number;
+  }): Promise<CampaignsResponse> => {
+    const response = await api.get("/api/campaigns", { params });
+    return response.data;
+  },
+
+  getCampaign: async (id: string): Promise<CampaignResponse> => {
+    const response = await api.get(`/api/campaigns/${id}`);
+    return response.data;
+  },
+
+  createCampaign: async (data: CampaignData): Promise<CampaignResponse> => {
+    const response = await api.post("/api/campaigns", data);
+    return response.data;
+  },
+
+  updateCampaign: async (
+    id: string,
+    data: Partial<CampaignData>,
+  ): Promise<CampaignResponse> => {
+    const response = await api.put(`/api/campaigns/${id}`, data);
+    return response.data;
+  },
+
+  deleteCampaign: async (
+    id: string,
+  ): Promise<{ success: boolean; message: string }> => {
+    const response = await api.delete(`/api/campaigns/${id}`);
+    return response.data;
+  },
+
+  sendCampaign: async (
+    id: string,
+    scheduledAt?: string,
+  ): Promise<CampaignResponse> => {
+    const response = await api.post(`/api/campaigns/${id}/send`, {
+      scheduledAt,
+    });
+    return response.data;
+  },
+
+  cancelSchedule: async (id: string): Promise<CampaignResponse> => {
+    const response = await api.post(`/api/campaigns/${id}/cancel`);
+    return response.data;
+  },
+
+  sendTest: async (
+    id: string,
+    email?: string,
+  ): Promise<{ success: boolean; message: string }> => {
+    const response = await api.post(`/api/campaigns/${id}/test`, { email });
+    return response.data;
+  },
+
+  getReport: async (id: string): Promise<CampaignReportResponse> => {
+    const response = await api.get(`/api/campaigns/${id}/report`);
+    return response.data;
+  },
+
+  previewDigest: async (): Promise<DigestPreviewResponse> => {
+    const response = await api.get("/api/campaigns/digest/preview");
+    return response.data;
+  },
+};
+
+// Segments API
+export const segmentsAPI = {
+  getSegments: async (): Promise<SegmentsResponse> => {
+    const response = await api.get("/api/segments");
+    return response.data;
+  },
+
+  createSegment: async (data: SegmentData): Promise<SegmentResponse> => {
+    const response = await api.post("/api/segments", data);
+    return response.data;
+  },
+
+  updateSegment: async (
+    id: string,
+    data: Partial<SegmentData>,
+  ): Promise<SegmentResponse> => {
+    const response = await api.put(`/api/segments/${id}`, data);
+    return response.data;
+  },
+
+  deleteSegment: async (
+    id: string,
+  ): Promise<{ success: boolean; message: string }> => {
+    const response = await api.delete(`/api/segments/${id}`);
+    return response.data;
+  },
+
+  previewSegment: async (
+    rules: SegmentRules,
+  ): Promise<{ success: boolean; data: { subscriberCount: number } }> => {
+    const response = await api.post("/api/segments/preview", { rules });
+    return response.data;
+  },
+};
+
 export default api;
@@ -1,3 +1,25 @@
+export type Role =
+  | "OWNER"
+  | "ADMIN"
+  | "EDITOR"
+  | "AUTHOR"
+  | "CONTRIBUTOR"
+  | "SUBSCRIBER";
+
+export type Permission =
+  | "posts:create"
+  | "posts:publish"
+  | "posts:delete"
+  | "posts:edit_others"
+  | "comments:moderate"
+  | "tags:manage"
+  | "documentation:manage"
+  | "redirects:manage"
+  | "newsletter:manage"
+  | "uploads:create"
+  | "uploads:manage"
+  | "users:manage";
+
 export interface User {
   id: string;
   email: string;
@@ -6,7 +28,8 @@ export interface User {
   lastName?: string;
   avatar?: string;
   bio?: string;
-  isAdmin: boolean;
+  role: Role;
+  permissions?: Permission[];
   createdAt: string;
   updatedAt: string;
 }
@@ -38,8 +61,11 @@ export interface Post {
   content: string;
   excerpt?: string;
   coverImage?: string;
+  coverImageSrcset?: ImageSrcset | null; // Only when the cover is an upload
+  coverImagePlaceholder?: ImagePlaceholder | null; // Likewise
   published: boolean;
   publishedAt?: string;
+  publishAt?: string;
   createdAt: string;
   updatedAt: string;
   authorId: string;
@@ -50,9 +76,135 @@ export interface Post {
     lastName?: string;
     avatar?: string;
     bio?: string;
-    isAdmin: boolean;
   };
   tags?: PostTag[];
+  commentCounts?: {
+    approved: number;
+    pending: number;
+  }; // Only on your own posts
+}
+
+export type CommentStatus = "PENDING" | "APPROVED" | "SPAM" | "TRASHED";
+
+export interface CommentAuthor {
+  id: string;
+  username: string;
+  firstName?: string;
+  lastName?: string;
+  avatar?: string;
+}
+
+// A published comment as readers see it
+export interface Comment {
+  id: string;
+  content: string;
+  authorName?: string; // Anonymous comments only
+  parentId?: string;
+  createdAt: string;
+  author?: CommentAuthor;
+  replies: Comment[];
+}
+
+// A comment in the moderation queue
+export interface ModerationComment {
+  id: string;
+  content: string;
+  status: CommentStatus;
+  authorName?: string;
+  authorEmail?: string;
+  ipAddress?: string;
+  parentId?: string;
+  createdAt: string;
+  author?: CommentAuthor;
+  post: {
+    id: string;
+    title: string;
+    slug: string;
+  };
+}
+
+export interface CreateCommentData {
+  content: string;
+  parentId?: string;
+  authorName?: string;
+  authorEmail?: string;
+  recaptchaToken?: string;
+}
+
+export interface PostRevision {
+  id: string;
+  title: string;
+  excerpt?: string;
+  coverImage?: string;
+  tagIds: string[];
+  createdAt: string;
+  createdBy?: {
+    id: string;
+    username: string;
+    firstName?: string;
+    lastName?: string;
+  };
+}
+
+export interface DiffSegment {
+  type: "equal" | "insert" | "delete";
+  value: string;
+}
+
+export interface PostRevisionsResponse {
+  success: boolean;
+  data: {
+    revisions: PostRevision[];
+  };
+}
+
+export interface PostRevisionDiffResponse {
+  success: boolean;
+  data: {
+    from: string;
+    to: string;
+    diff: {
+      title: DiffSegment[];
+      excerpt: DiffSegment[];
+      content: DiffSegment[];
+      coverImage: {
+        from?: string;
+        to?: string;
+        changed: boolean;
+      };
+      tags: {
+        added: Tag[];
+        removed: Tag[];
+      };
+    };
+  };
+}
+
+export interface PostAutosave {
+  id: string;
+  postId: string;
+  title: string;
+  content: string;
+  excerpt?: string;
+  coverImage?: string;
+  tagIds: string[];
+  updatedAt: string;
+}
+
+export interface PostAutosaveData {
+  title?: string;
+  content?: string;
+  excerpt?: string;
+  coverImage?: string;
+  tagIds?: string[];
+}
+
+export interface PostAutosaveResponse {
+  success: boolean;
+  data: {
+    autosave: PostAutosave | null;
+    isNewer: boolean;
+  };
 }
 
 export interface AuthResponse {
@@ -85,6 +237,20 @@ export interface PostResponse {
   };
 }
 
+// Returned instead of the content when a slug has been renamed
+export interface SlugRedirectHint {
+  slug: string;
+  location: string;
+}
+
+export interface PostBySlugResponse {
+  success: boolean;
+  data: {
+    post?: Post;
+    redirect?: SlugRedirectHint;
+  };
+}
+
 export interface ApiError {
   error: string;
   details?: Array<{
@@ -114,6 +280,7 @@ export interface CreatePostData {
   excerpt?: string;
   coverImage?: string;
   published: boolean;
+  publishAt?: string;
   tagIds?: string[];
   createdAt?: string;
 }
@@ -124,6 +291,7 @@ export interface UpdatePostData {
   excerpt?: string;
   coverImage?: string;
   published?: boolean;
+  publishAt?: string | null;
   tagIds?: string[];
 }
 
@@ -144,11 +312,30 @@ export interface UpdateProfileData {
   bio?: string;
 }
 
+// Bounced and complained addresses are on the suppression list
+export type SubscriberStatus =
+  | "PENDING"
+  | "ACTIVE"
+  | "UNSUBSCRIBED"
+  | "BOUNCED"
+  | "COMPLAINED";
+
+export interface SubscriberSuppression {
+  reason: "HARD_BOUNCE" | "COMPLAINT";
+  source: string; // ses, postmark, generic, dsn or smtp
+  detail: string | null;
+  createdAt: string;
+}
+
 export interface NewsletterSubscriber {
   id: string;
   email: string;
+  status: SubscriberStatus;
   subscribedAt: string;
-  isActive: boolean;
+  confirmationSentAt: string | null;
+  confirmedAt: string | null;
+  digest: boolean; // Opted in to the digest of new posts
+  suppression?: SubscriberSuppression | null; // Bounced and complained only
 }
 
 export interface NewsletterSubscriptionResponse {
@@ -159,6 +346,28 @@ export interface NewsletterSubscriptionResponse {
   };
 }
 
+// What a subscriber can see and change from the links in a newsletter email
+export interface NewsletterPreferences {
+  email: string;
+  status: SubscriberStatus;
+  digest: boolean;
+  tagIds: string[]; // Topics of interest; empty means everything
+}
+
+export interface UpdateNewsletterPreferencesData {
+  subscribed?: boolean;
+  digest?: boolean;
+  tagIds?: string[];
+}
+
+export interface NewsletterPreferencesResponse {
+  success: boolean;
+  message?: string;
+  data: {
+    preferences: NewsletterPreferences;
+  };
+}
+
 export interface NewsletterSubscribersResponse {
   success: boolean;
   data: {
@@ -172,6 +381,47 @@ export interface NewsletterSubscribersResponse {
   };
 }
 
+// Outcomes of importing a subscriber file, as reported by the dry run
+export type SubscriberImportOutcome =
+  | "new"
+  | "reactivated"
+  | "invalid"
+  | "duplicate";
+
+export interface SubscriberImportRow {
+  row: number; // Spreadsheet row number, counting the header as row 1
+  email: string;
+  reason?: string;
+}
+
+export interface SubscriberImportMapping {
+  email?: string;
+  subscribedAt?: string;
+}
+
+export interface SubscriberImportOptions {
+  emailColumn?: string;
+  subscribedAtColumn?: string;
+  reactivateUnsubscribed?: boolean;
+  dryRun?: boolean;
+}
+
+export interface SubscriberImportResponse {
+  success: boolean;
+  message?: string;
+  data: {
+    dryRun: boolean;
+    columns: string[];
+    mapping: SubscriberImportMapping;
+    totalRows: number;
+    // Null until the email column is known
+    report: {
+      summary: Record<SubscriberImportOutcome, number>;
+      rows: Record<SubscriberImportOutcome, SubscriberImportRow[]>;
+    } | null;
+  };
+}
+
 export interface TagsResponse {
   success: boolean;
   data: {
@@ -194,6 +444,14 @@ export interface TagResponse {
   };
 }
 
+export interface TagBySlugResponse {
+  success: boolean;
+  data: {
+    tag?: Tag;
+    redirect?: SlugRedirectHint;
+  };
+}
+
 export interface PostsByTagResponse {
   success: boolean;
   data: {
@@ -300,6 +558,14 @@ export interface DocumentationProductResponse {
   };
 }
 
+export interface DocumentationProductBySlugResponse {
+  success: boolean;
+  data: {
+    product?: DocumentationProduct;
+    redirect?: SlugRedirectHint; // For the product or the requested page
+  };
+}
+
 export interface DocumentationProductsResponse {
   success: boolean;
   data: {
@@ -334,3 +600,380 @@ export interface DocumentationPagesResponse {
     pages: DocumentationPage[];
   };
 }
+
+export type SearchType = "all" | "posts" | "docs";
+
+export interface SearchResult {
+  type: "post" | "doc";
+  id: string;
+  title: string;
+  slug: string;
+  productSlug: string | null;
+  productName: string | null;
+  titleHighlight: string; // HTML with matches wrapped in <mark>
+  snippet: string; // HTML with matches wrapped in <mark>
+  rank: number;
+  date: string;
+}
+
+export interface SearchResponse {
+  success: boolean;
+  data: {
+    results: SearchResult[];
+    pagination: {
+      page: number;
+      limit: number;
+      totalCount: number;
+      totalPages: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+    };
+  };
+}
+
+export interface CommentsResponse {
+  success: boolean;
+  data: {
+    comments: Comment[];
+    totalCount: number;
+  };
+}
+
+export interface CreateCommentResponse {
+  success: boolean;
+  message: string;
+  data: {
+    comment: Comment & { status: CommentStatus };
+  };
+}
+
+export interface ModerationCommentsResponse {
+  success: boolean;
+  data: {
+    comments: ModerationComment[];
+    counts: Record<CommentStatus, number>;
+    pagination: {
+      page: number;
+      limit: number;
+      totalCount: number;
+      totalPages: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+    };
+  };
+}
+
+export type SlugRedirectType =
+  | "POST"
+  | "TAG"
+  | "DOCUMENTATION_PRODUCT"
+  | "DOCUMENTATION_PAGE";
+
+export interface SlugRedirect {
+  id: string;
+  type: SlugRedirectType;
+  scope: string;
+  fromSlug: string;
+  targetId: string;
+  manual: boolean;
+  createdAt: string;
+  target: {
+    title: string;
+    slug: string;
+    location: string;
+  } | null; // Null once the content has been deleted
+}
+
+export interface CreateSlugRedirectData {
+  type: SlugRedirectType;
+  fromSlug: string;
+  toSlug: string;
+  productSlug?: string;
+}
+
+export interface SlugRedirectsResponse {
+  success: boolean;
+  data: {
+    redirects: SlugRedirect[];
+    pagination: {
+      page: number;
+      limit: number;
+      totalCount: number;
+      totalPages: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+    };
+  };
+}
+
+export interface SlugRedirectResponse {
+  success: boolean;
+  data: {
+    redirect: SlugRedirect;
+  };
+}
+
+export type CampaignStatus = "DRAFT" | "SCHEDULED" | "SENDING" | "SENT";
+
+// Digests are generated from new posts instead of written in the composer
+export type CampaignType = "STANDARD" | "DIGEST";
+
+export interface CampaignDeliveryStats {
+  PENDING: number;
+  SENT: number;
+  FAILED: number;
+  total: number;
+}
+
+export interface Campaign {
+  id: string;
+  subject: string;
+  content: string;
+  type: CampaignType;
+  status: CampaignStatus;
+  scheduledAt?: string | null;
+  sentAt?: string | null;
+  periodStart?: string | null; // Digests only
+  periodEnd?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: {
+    id: string;
+    username: string;
+    firstName?: string;
+    lastName?: string;
+  } | null;
+  segmentId?: string | null; // Null sends to every subscriber
+  segment?: {
+    id: string;
+    name: string;
+  } | null;
+  deliveryStats: CampaignDeliveryStats;
+}
+
+export interface FailedCampaignDelivery {
+  id: string;
+  attempts: number;
+  lastError?: string | null;
+  updatedAt: string;
+  subscriber: {
+    email: string;
+  };
+}
+
+export interface CampaignData {
+  subject: string;
+  content: string;
+  segmentId?: string | null;
+}
+
+export interface CampaignsResponse {
+  success: boolean;
+  data: {
+    campaigns: Campaign[];
+    pagination: {
+      page: number;
+      limit: number;
+      totalCount: number;
+      totalPages: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+    };
+  };
+}
+
+export interface CampaignResponse {
+  success: boolean;
+  message?: string;
+  data: {
+    campaign: Campaign;
+    failedDeliveries?: FailedCampaignDelivery[];
+  };
+}
+
+export interface CampaignReportLink {
+  url: string;
+  clicks: number;
+  uniqueClicks: number; // Recipients who clicked at least once
+}
+
+export interface CampaignReportDay {
+  date: string; // YYYY-MM-DD, UTC
+  opens: number;
+  clicks: number;
+  unsubscribes: number;
+}
+
+export interface CampaignReport {
+  trackingEnabled: boolean;
+  summary: {
+    delivered: number;
+    opened: number;
+    clicked: number;
+    unsubscribed: number;
+    openRate: number; // 0-1, of delivered
+    clickRate: number;
+  };
+  topLinks: CampaignReportLink[];
+  timeline: CampaignReportDay[];
+}
+
+export interface CampaignReportResponse {
+  success: boolean;
+  data: {
+    report: CampaignReport;
+  };
+}
+
+export interface DigestPreviewResponse {
+  success: boolean;
+  data: {
+    enabled: boolean;
+    schedule: string;
+    timezone: string;
+    nextRunAt: string | null;
+    recipientCount: number;
+    digest: {
+      subject: string;
+      periodStart: string;
+      periodEnd: string;
+      tagSlugs: string[];
+      posts: {
+        id: string;
+        title: string;
+        slug: string;
+        publishedAt: string | null;
+      }[];
+      html: string;
+    };
+  };
+}
+
+// Every rule narrows the segment; a segment without rules is everyone
+export interface SegmentRules {
+  tagIds: string[]; // Interested in any of these topics
+  includeAllTopics: boolean; // Also match subscribers who picked no topics
+  subscribedAfter?: string;
+  subscribedBefore?: string;
+  engagedWithinDays?: number;
+  notEngagedWithinDays?: number;
+}
+
+export interface Segment {
+  id: string;
+  name: string;
+  description?: string | null;
+  rules: SegmentRules;
+  subscriberCount: number; // Confirmed subscribers matching right now
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SegmentData {
+  name: string;
+  description?: string;
+  rules: SegmentRules;
+}
+
+export interface SegmentsResponse {
+  success: boolean;
+  data: {
+    segments: Segment[];
+  };
+}
+
+export interface SegmentResponse {
+  success: boolean;
+  data: {
+    segment: Segment;
+  };
+}
+
+// Media library
+// srcset attribute values for an image's resized copies, one per format
+export interface ImageSrcset {
+  avif?: string;
+  webp?: string;
+}
+
+// Shown while an uploaded image loads
+export interface ImagePlaceholder {
+  placeholder: string | null; // Tiny blurred data URL
+  dominantColor: string | null; // Hex, e.g. "#3a5f8c"
+  width: number | null;
+  height: number | null;
+}
+
+export interface AssetVariant {
+  format: "avif" | "webp";
+  width: number;
+  height: number;
+  url: string;
+  size: number; // Bytes
+}
+
+export interface Asset {
+  id: string;
+  key: string;
+  url: string;
+  mimeType: string;
+  size: number; // Bytes
+  referenceCount: number; // Content linking to this file at the last cleanup run, plus uploads since
+  width: number | null;
+  height: number | null;
+  dominantColor: string | null;
+  placeholder: string | null;
+  originalName: string | null;
+  altText: string | null;
+  createdAt: string;
+  variants: AssetVariant[];
+  srcset: ImageSrcset;
+  uploadedBy: {
+    id: string;
+    username: string;
+    firstName?: string;
+    lastName?: string;
+  } | null;
+}
+
+export interface UploadImageResponse {
+  success: boolean;
+  imageUrl: string;
+  asset: Asset;
+  message: string;
+}
+
+export interface PresignedUploadResponse {
+  success: boolean;
+  data: {
+    // PUT the file with the headers, or POST a form of the fields then
+    // the file
+    upload: (
+      | { url: string; method: "PUT"; headers: Record<string, string> }
+      | { url: string; method: "POST"; fields: Record<string, string> }
+    ) & { expiresAt: string };
+    uploadToken: string; // Passed to /complete once the file is sent
+  };
+}
+
+export interface AssetsResponse {
+  success: boolean;
+  data: {
+    assets: Asset[];
+    pagination: {
+      page: number;
+      limit: number;
+      totalCount: number;
+      totalPages: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+    };
+  };
+}
+
+export interface AssetResponse {
+  success: boolean;
+  data: {
+    asset: Asset;
+  };
+}